@@ -1,8 +1,11 @@
 import './App.css'
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useCallback, useRef } from 'react'
 import Repositories from './components/Repositories'
 import ImportGitHub from './components/ImportGitHub'
 import Governance from './components/Governance'
+import Staking from './components/Staking'
+import Bounties from './components/Bounties'
+import Leaderboard from './components/Leaderboard'
 import Documentation from './components/Documentation'
 import GitOperations from './components/GitOperations'
 import RepositoryStats from './components/RepositoryStats'
@@ -10,53 +13,90 @@ import { WalletProvider, useWallet } from './services/walletService'
 import WalletConnectionModal from './components/WalletConnectionModal'
 import UnifiedSearch from './components/UnifiedSearch'
 import SearchResults from './components/SearchResults'
+import UserPage from './components/UserPage'
+import { searchService } from './services/searchService'
+import { clearSearchFromUrl, readSearchFromUrl, writeSearchToUrl } from './utils/searchParams'
+import { HOME_URL, navigate, sectionOf, sectionUrl, useRoute } from './utils/routes'
 
 
-import type { SearchType, SearchResult } from './types'
+import type { SearchType, SearchResult, SearchFilters } from './types'
 
 function AppContent() {
-  const [currentSection, setCurrentSection] = useState<'home' | 'repositories' | 'governance' | 'documentation' | 'import-github' | 'git-operations' | 'stats' | 'profile'>('home')
+  const route = useRoute()
+  const currentSection = sectionOf(route)
   const [showWalletModal, setShowWalletModal] = useState(false)
 
+  // A search shared as a link opens straight away
+  const [initialSearch] = useState(readSearchFromUrl)
   const [searchResults, setSearchResults] = useState<SearchResult[]>([])
-  const [showSearchResults, setShowSearchResults] = useState(false)
-  const [currentSearchQuery, setCurrentSearchQuery] = useState('')
-  const [currentSearchType, setCurrentSearchType] = useState<SearchType>('all')
+  const [showSearchResults, setShowSearchResults] = useState(initialSearch !== null)
+  const [currentSearchQuery, setCurrentSearchQuery] = useState(initialSearch?.query ?? '')
+  const [currentSearchType, setCurrentSearchType] = useState<SearchType>(initialSearch?.type ?? 'all')
+  const [searchFilters, setSearchFilters] = useState<SearchFilters>(initialSearch?.filters ?? {})
+  const [searchPage, setSearchPage] = useState({ page: 0, totalCount: 0, hasMore: false })
+  const [isSearchLoading, setIsSearchLoading] = useState(false)
+  const [searchError, setSearchError] = useState<string | null>(null)
+  // Answers to a search the user has since replaced are dropped
+  const searchGeneration = useRef(0)
 
   const walletContext = useWallet()
 
-    const handleSearch = (query: string, type: SearchType) => {
-    console.log(`Searching for: "${query}" in category: ${type}`)
+  const runSearch = useCallback(async (query: string, type: SearchType, filters: SearchFilters, page: number) => {
+    const generation = ++searchGeneration.current
+    setIsSearchLoading(true)
+    setSearchError(null)
+    try {
+      const result = await searchService.search(query, type, page, filters)
+      if (generation !== searchGeneration.current) return
+      setSearchResults(prev => page === 0 ? result.results : [...prev, ...result.results])
+      setSearchPage({ page, totalCount: result.totalCount, hasMore: result.hasMore })
+    } catch (err) {
+      if (generation !== searchGeneration.current) return
+      setSearchError(err instanceof Error ? err.message : 'Search failed')
+    } finally {
+      if (generation === searchGeneration.current) setIsSearchLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (initialSearch) runSearch(initialSearch.query, initialSearch.type, initialSearch.filters, 0)
+  }, [initialSearch, runSearch])
+
+  const startSearch = async (query: string, type: SearchType, filters: SearchFilters) => {
     setCurrentSearchQuery(query)
     setCurrentSearchType(type)
-    
-    // Mock search results for demonstration
-    const mockResults: SearchResult[] = [
-      {
-        id: '1',
-        title: `Search result for "${query}"`,
-        description: `This is a mock search result for the query "${query}" in the ${type} category.`,
-        type: type,
-        url: '#',
-        metadata: { category: type, relevance: 'high' }
-      },
-      {
-        id: '2',
-        title: `Another result for "${query}"`,
-        description: `Additional search result showing how the search functionality works.`,
-        type: type,
-        url: '#',
-        metadata: { category: type, relevance: 'medium' }
-      }
-    ]
-    
-    setSearchResults(mockResults)
+    setSearchFilters(filters)
+    setSearchResults([])
+    setSearchPage({ page: 0, totalCount: 0, hasMore: false })
     setShowSearchResults(true)
+    writeSearchToUrl({ query, type, filters })
+    await runSearch(query, type, filters, 0)
   }
 
+  const handleSearch = (query: string, type: SearchType) => startSearch(query, type, searchFilters)
+
+  const handleFiltersChange = (filters: SearchFilters) => {
+    startSearch(currentSearchQuery, currentSearchType, filters)
+  }
+
+  const loadMoreSearchResults = useCallback(() => {
+    if (isSearchLoading || !searchPage.hasMore) return
+    runSearch(currentSearchQuery, currentSearchType, searchFilters, searchPage.page + 1)
+  }, [runSearch, isSearchLoading, searchPage, currentSearchQuery, currentSearchType, searchFilters])
+
   const closeSearchResults = () => {
+    searchGeneration.current++
     setShowSearchResults(false)
     setSearchResults([])
+    setSearchFilters({})
+    setIsSearchLoading(false)
+    setSearchError(null)
+    clearSearchFromUrl()
+  }
+
+  const openSearchResult = (result: SearchResult) => {
+    closeSearchResults()
+    navigate(result.url)
   }
 
   // Handle keyboard shortcuts
@@ -82,11 +122,13 @@ function AppContent() {
       {/* Navigation */}
       <nav className="okh-nav">
         <div className="okh-nav-container">
-          <a href="#" className="okh-logo" onClick={() => setCurrentSection('home')}>OpenKeyHub</a>
+          <a href={HOME_URL} className="okh-logo">OpenKeyHub</a>
           
           <div className="okh-nav-center">
             <UnifiedSearch 
               onSearch={handleSearch} 
+              initialQuery={initialSearch?.query}
+              initialType={initialSearch?.type}
               className="navbar-search" 
               placeholder="Search repositories, code, users, files..."
             />
@@ -94,45 +136,57 @@ function AppContent() {
           
           <div className="okh-nav-links">
             <a
-              href="#repositories"
+              href={sectionUrl('repositories')}
               className={`okh-nav-link ${currentSection === 'repositories' ? 'active' : ''}`}
-              onClick={() => setCurrentSection('repositories')}
             >
               Repositories
             </a>
             <a
-              href="#import-github"
+              href={sectionUrl('import-github')}
               className={`okh-nav-link ${currentSection === 'import-github' ? 'active' : ''}`}
-              onClick={() => setCurrentSection('import-github')}
             >
               Import GitHub
             </a>
             <a
-              href="#governance"
+              href={sectionUrl('governance')}
               className={`okh-nav-link ${currentSection === 'governance' ? 'active' : ''}`}
-              onClick={() => setCurrentSection('governance')}
             >
               Governance
             </a>
             <a
-              href="#documentation"
+              href={sectionUrl('tokens')}
+              className={`okh-nav-link ${currentSection === 'tokens' ? 'active' : ''}`}
+            >
+              Tokens
+            </a>
+            <a
+              href={sectionUrl('bounties')}
+              className={`okh-nav-link ${currentSection === 'bounties' ? 'active' : ''}`}
+            >
+              Bounties
+            </a>
+            <a
+              href={sectionUrl('leaderboard')}
+              className={`okh-nav-link ${currentSection === 'leaderboard' ? 'active' : ''}`}
+            >
+              Leaderboard
+            </a>
+            <a
+              href={sectionUrl('documentation')}
               className={`okh-nav-link ${currentSection === 'documentation' ? 'active' : ''}`}
-              onClick={() => setCurrentSection('documentation')}
             >
               Documentation
             </a>
 
             <a
-              href="#git-operations"
+              href={sectionUrl('git-operations')}
               className={`okh-nav-link ${currentSection === 'git-operations' ? 'active' : ''}`}
-              onClick={() => setCurrentSection('git-operations')}
             >
               Git
             </a>
             <a
-              href="#stats"
+              href={sectionUrl('stats')}
               className={`okh-nav-link ${currentSection === 'stats' ? 'active' : ''}`}
-              onClick={() => setCurrentSection('stats')}
             >
               Stats
             </a>
@@ -149,7 +203,7 @@ function AppContent() {
               </span>
               <button 
                 className="okh-profile-btn" 
-                onClick={() => setCurrentSection('profile')}
+                onClick={() => navigate(sectionUrl('profile'))}
               >
                 Profile
               </button>
@@ -262,17 +316,25 @@ function AppContent() {
           </main>
         </>
       ) : currentSection === 'repositories' ? (
-        <Repositories />
+        <Repositories route={route.name === 'repository' || route.name === 'commit' ? route : undefined} />
       ) : currentSection === 'import-github' ? (
         <ImportGitHub />
       ) : currentSection === 'governance' ? (
-        <Governance />
+        <Governance proposalId={route.name === 'proposal' ? route.proposalId : undefined} />
+      ) : currentSection === 'tokens' ? (
+        <Staking />
+      ) : currentSection === 'bounties' ? (
+        <Bounties />
+      ) : currentSection === 'leaderboard' ? (
+        <Leaderboard />
       ) : currentSection === 'documentation' ? (
         <Documentation />
       ) : currentSection === 'git-operations' ? (
         <GitOperations repositoryId="demo" currentBranch="main" />
       ) : currentSection === 'stats' ? (
         <RepositoryStats />
+      ) : route.name === 'user' ? (
+        <UserPage principal={route.principal} onBack={() => navigate(HOME_URL)} />
       ) : currentSection === 'profile' ? (
         <div className="profile-section">
           <div className="okh-container">
@@ -301,7 +363,15 @@ function AppContent() {
         query={currentSearchQuery}
         searchType={currentSearchType}
         isVisible={showSearchResults}
+        totalCount={searchPage.totalCount}
+        hasMore={searchPage.hasMore}
+        isLoading={isSearchLoading}
+        error={searchError}
+        filters={searchFilters}
+        onFiltersChange={handleFiltersChange}
         onClose={closeSearchResults}
+        onLoadMore={loadMoreSearchResults}
+        onSelect={openSearchResult}
       />
 
 
@@ -0,0 +1,14 @@
+import BountyBoard from './BountyBoard'
+import PageLayout from './PageLayout'
+
+function Bounties() {
+  return (
+    <PageLayout>
+      <div className="bounty-board-page">
+        <BountyBoard />
+      </div>
+    </PageLayout>
+  )
+}
+
+export default Bounties
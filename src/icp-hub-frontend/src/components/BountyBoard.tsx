@@ -0,0 +1,338 @@
+import { useState, useEffect, useCallback, useMemo } from 'react'
+import apiService from '../services/api.js'
+import { incentivesService } from '../services/incentivesService'
+import { collaboratorService } from '../services/collaboratorService'
+import { repositoryService } from '../services/repositoryService'
+import type { Bounty, BountyStatus, DifficultyLevel } from '../types/incentives'
+import type { Repository } from '../types/repository'
+import { useWallet } from '../services/walletService'
+import { parseTokenAmount } from '../utils/tokens'
+import { BOUNTY_STATUS_LABELS } from '../utils/bounties'
+import BountyCard from './BountyCard'
+import './BountyBoard.css'
+
+interface BountyBoardProps {
+  // Omit to show bounties across every repository the caller can read
+  repositoryId?: string
+}
+
+const DIFFICULTIES: DifficultyLevel[] = ['Beginner', 'Intermediate', 'Advanced', 'Expert']
+const STATUSES: BountyStatus[] = ['Open', 'UnderReview', 'Completed', 'Expired', 'Cancelled']
+
+const EMPTY_FORM = {
+  repositoryId: '',
+  title: '',
+  description: '',
+  amount: '',
+  difficulty: 'Intermediate' as DifficultyLevel,
+  requirements: '',
+  expiresInDays: ''
+}
+
+function BountyBoard({ repositoryId }: BountyBoardProps) {
+  const [bounties, setBounties] = useState<Bounty[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [decimals, setDecimals] = useState(8)
+  const [symbol, setSymbol] = useState('ICPH')
+
+  const [statusFilter, setStatusFilter] = useState<BountyStatus | 'all'>('Open')
+  const [difficultyFilter, setDifficultyFilter] = useState<DifficultyLevel | 'all'>('all')
+  const [searchQuery, setSearchQuery] = useState('')
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+
+  // Repositories the caller maintains; bounties on these can be reviewed and created
+  const [maintainedRepos, setMaintainedRepos] = useState<Repository[]>([])
+  const [showCreateForm, setShowCreateForm] = useState(false)
+  const [form, setForm] = useState(EMPTY_FORM)
+  const [creating, setCreating] = useState(false)
+  const [formError, setFormError] = useState<string | null>(null)
+
+  const { wallet } = useWallet()
+  const currentPrincipal = wallet.connected ? apiService.getPrincipal()?.toString() : undefined
+
+  const loadBounties = useCallback(async () => {
+    try {
+      setLoading(true)
+      setBounties(await incentivesService.listBounties({
+        repositoryId,
+        status: statusFilter === 'all' ? undefined : statusFilter
+      }))
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load bounties')
+    } finally {
+      setLoading(false)
+    }
+  }, [repositoryId, statusFilter])
+
+  useEffect(() => {
+    loadBounties()
+  }, [loadBounties])
+
+  useEffect(() => {
+    incentivesService.getTokenInfo()
+      .then(token => {
+        setDecimals(token.decimals)
+        setSymbol(token.symbol)
+      })
+      .catch(() => {
+        // Keep the ICPH defaults
+      })
+  }, [])
+
+  useEffect(() => {
+    if (!currentPrincipal) {
+      setMaintainedRepos([])
+      return
+    }
+
+    let cancelled = false
+    const loadMaintainedRepos = async () => {
+      try {
+        if (repositoryId) {
+          const repository = await repositoryService.getRepository(repositoryId)
+          let isMaintainer = repository.owner === currentPrincipal
+          if (!isMaintainer) {
+            const collaborators = await collaboratorService.listCollaborators(repositoryId)
+            isMaintainer = collaborators.some(
+              c => c.principal === currentPrincipal && (c.role === 'Admin' || c.role === 'Owner')
+            )
+          }
+          if (!cancelled) setMaintainedRepos(isMaintainer ? [repository] : [])
+        } else {
+          const { repositories } = await repositoryService.getRepositories()
+          if (!cancelled) setMaintainedRepos(repositories.filter(repo => repo.owner === currentPrincipal))
+        }
+      } catch {
+        if (!cancelled) setMaintainedRepos([])
+      }
+    }
+
+    loadMaintainedRepos()
+    return () => {
+      cancelled = true
+    }
+  }, [repositoryId, currentPrincipal])
+
+  const filteredBounties = useMemo(() => {
+    const query = searchQuery.trim().toLowerCase()
+    return bounties.filter(bounty => {
+      if (difficultyFilter !== 'all' && bounty.difficulty !== difficultyFilter) return false
+      if (!query) return true
+      return bounty.title.toLowerCase().includes(query) ||
+        bounty.description.toLowerCase().includes(query) ||
+        bounty.repositoryId.toLowerCase().includes(query)
+    })
+  }, [bounties, difficultyFilter, searchQuery])
+
+  const canReview = (bounty: Bounty) =>
+    bounty.createdBy === currentPrincipal || maintainedRepos.some(repo => repo.id === bounty.repositoryId)
+
+  const handleUpdated = (updated: Bounty) => {
+    setBounties(prev => prev.map(bounty => (bounty.id === updated.id ? updated : bounty)))
+  }
+
+  const openCreateForm = () => {
+    setForm({ ...EMPTY_FORM, repositoryId: repositoryId ?? maintainedRepos[0]?.id ?? '' })
+    setFormError(null)
+    setShowCreateForm(true)
+  }
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    try {
+      setCreating(true)
+      setFormError(null)
+      const amount = parseTokenAmount(form.amount, decimals)
+      if (amount === 0n) throw new Error('Reward must be greater than 0')
+      const expiresInDays = form.expiresInDays.trim() ? Number(form.expiresInDays) : undefined
+      if (expiresInDays !== undefined && (!Number.isInteger(expiresInDays) || expiresInDays <= 0)) {
+        throw new Error('Expiry must be a whole number of days')
+      }
+
+      const bounty = await incentivesService.createBounty({
+        repositoryId: form.repositoryId,
+        title: form.title,
+        description: form.description,
+        amount,
+        difficulty: form.difficulty,
+        requirements: form.requirements.split('\n'),
+        expiresInDays
+      })
+      setBounties(prev => [bounty, ...prev])
+      setExpandedId(bounty.id)
+      setShowCreateForm(false)
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : 'Failed to create bounty')
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  return (
+    <div className="bounty-board">
+      <div className="bounty-board-header">
+        <div>
+          <h2>Bounties</h2>
+          <p>Rewards in {symbol} for work the maintainers want done. Submit a branch or commits to claim one.</p>
+        </div>
+        {maintainedRepos.length > 0 && !showCreateForm && (
+          <button className="bounty-primary-btn" onClick={openCreateForm}>+ Post bounty</button>
+        )}
+      </div>
+
+      {showCreateForm && (
+        <form className="bounty-form bounty-create-form" onSubmit={handleCreate}>
+          <h3>Post a bounty</h3>
+          {formError && <div className="bounty-error">{formError}</div>}
+          {!repositoryId && (
+            <label>
+              Repository
+              <select
+                value={form.repositoryId}
+                onChange={(e) => setForm({ ...form, repositoryId: e.target.value })}
+                required
+              >
+                {maintainedRepos.map(repo => (
+                  <option key={repo.id} value={repo.id}>{repo.name}</option>
+                ))}
+              </select>
+            </label>
+          )}
+          <label>
+            Title
+            <input
+              type="text"
+              value={form.title}
+              onChange={(e) => setForm({ ...form, title: e.target.value })}
+              placeholder="What needs to be done?"
+              required
+            />
+          </label>
+          <label>
+            Description
+            <textarea
+              value={form.description}
+              onChange={(e) => setForm({ ...form, description: e.target.value })}
+              rows={5}
+              placeholder="Context, acceptance criteria and links. Markdown is supported."
+              required
+            />
+          </label>
+          <div className="bounty-form-row">
+            <label>
+              Reward ({symbol})
+              <input
+                type="text"
+                inputMode="decimal"
+                value={form.amount}
+                onChange={(e) => setForm({ ...form, amount: e.target.value })}
+                placeholder="0.0"
+                required
+              />
+            </label>
+            <label>
+              Difficulty
+              <select
+                value={form.difficulty}
+                onChange={(e) => setForm({ ...form, difficulty: e.target.value as DifficultyLevel })}
+              >
+                {DIFFICULTIES.map(difficulty => (
+                  <option key={difficulty} value={difficulty}>{difficulty}</option>
+                ))}
+              </select>
+            </label>
+            <label>
+              Expires in (days)
+              <input
+                type="number"
+                min={1}
+                value={form.expiresInDays}
+                onChange={(e) => setForm({ ...form, expiresInDays: e.target.value })}
+                placeholder="Never"
+              />
+            </label>
+          </div>
+          <label>
+            Requirements
+            <textarea
+              value={form.requirements}
+              onChange={(e) => setForm({ ...form, requirements: e.target.value })}
+              rows={3}
+              placeholder="One requirement per line"
+            />
+          </label>
+          <p className="bounty-muted">The reward is held in escrow from your balance until a submission is approved.</p>
+          <div className="bounty-form-actions">
+            <button type="button" className="bounty-secondary-btn" onClick={() => setShowCreateForm(false)}>
+              Cancel
+            </button>
+            <button type="submit" className="bounty-primary-btn" disabled={creating}>
+              {creating ? 'Posting...' : 'Post bounty'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      <div className="bounty-filters">
+        <input
+          type="text"
+          value={searchQuery}
+          onChange={(e) => setSearchQuery(e.target.value)}
+          placeholder="Search bounties..."
+        />
+        <select value={statusFilter} onChange={(e) => setStatusFilter(e.target.value as BountyStatus | 'all')}>
+          <option value="all">All statuses</option>
+          {STATUSES.map(status => (
+            <option key={status} value={status}>{BOUNTY_STATUS_LABELS[status]}</option>
+          ))}
+        </select>
+        <select
+          value={difficultyFilter}
+          onChange={(e) => setDifficultyFilter(e.target.value as DifficultyLevel | 'all')}
+        >
+          <option value="all">Any difficulty</option>
+          {DIFFICULTIES.map(difficulty => (
+            <option key={difficulty} value={difficulty}>{difficulty}</option>
+          ))}
+        </select>
+      </div>
+
+      {loading ? (
+        <div className="bounty-loading">
+          <div className="bounty-spinner"></div>
+          <p>Loading bounties...</p>
+        </div>
+      ) : error ? (
+        <div className="bounty-error">
+          {error}{' '}
+          <button className="bounty-link-btn" onClick={loadBounties}>Try again</button>
+        </div>
+      ) : filteredBounties.length === 0 ? (
+        <div className="bounty-empty">
+          <p>{bounties.length === 0 ? 'No bounties here yet.' : 'No bounties match your filters.'}</p>
+        </div>
+      ) : (
+        <div className="bounty-list">
+          {filteredBounties.map(bounty => (
+            <BountyCard
+              key={bounty.id}
+              bounty={bounty}
+              decimals={decimals}
+              currentPrincipal={currentPrincipal}
+              canReview={canReview(bounty)}
+              showRepository={!repositoryId}
+              expanded={expandedId === bounty.id}
+              onToggle={() => setExpandedId(expandedId === bounty.id ? null : bounty.id)}
+              onUpdated={handleUpdated}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default BountyBoard
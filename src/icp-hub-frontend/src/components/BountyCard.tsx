@@ -0,0 +1,288 @@
+import { useState, useEffect } from 'react'
+import { incentivesService } from '../services/incentivesService'
+import gitService from '../services/gitService'
+import type { Bounty, BountyStatus, BountySubmission } from '../types/incentives'
+import type { GitBranch } from '../types/git'
+import { formatRelativeTime, shortenPrincipal } from '../utils/governance'
+import { formatTokenAmount } from '../utils/tokens'
+import { BOUNTY_STATUS_LABELS, DIFFICULTY_COLORS } from '../utils/bounties'
+import MarkdownContent from './MarkdownContent'
+
+interface BountyCardProps {
+  bounty: Bounty
+  decimals: number
+  currentPrincipal?: string
+  canReview: boolean
+  showRepository: boolean
+  expanded: boolean
+  onToggle: () => void
+  onUpdated: (bounty: Bounty) => void
+}
+
+const ACCEPTS_SUBMISSIONS: BountyStatus[] = ['Open', 'Assigned', 'UnderReview']
+
+// Commit ids may be pasted separated by commas, spaces or newlines
+const parseCommitIds = (text: string) => text.split(/[\s,]+/).map(id => id.trim()).filter(Boolean)
+
+function BountyCard({
+  bounty,
+  decimals,
+  currentPrincipal,
+  canReview,
+  showRepository,
+  expanded,
+  onToggle,
+  onUpdated
+}: BountyCardProps) {
+  const [showSubmitForm, setShowSubmitForm] = useState(false)
+  const [branches, setBranches] = useState<GitBranch[]>([])
+  const [branch, setBranch] = useState('')
+  const [commitText, setCommitText] = useState('')
+  const [description, setDescription] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+  const [reviewNotes, setReviewNotes] = useState<Record<string, string>>({})
+  const [reviewingId, setReviewingId] = useState<string | null>(null)
+  const [actionError, setActionError] = useState<string | null>(null)
+
+  const isCreator = bounty.createdBy === currentPrincipal
+  const alreadySubmitted = bounty.submissions.some(
+    submission => submission.submittedBy === currentPrincipal && submission.status === 'Pending'
+  )
+  const canSubmit = !!currentPrincipal && !isCreator && !alreadySubmitted && ACCEPTS_SUBMISSIONS.includes(bounty.status)
+  const pendingCount = bounty.submissions.filter(submission => submission.status === 'Pending').length
+
+  useEffect(() => {
+    if (!showSubmitForm) return
+
+    let cancelled = false
+    gitService.listBranches(bounty.repositoryId)
+      .then(list => {
+        if (!cancelled) setBranches(list)
+      })
+      .catch(() => {
+        if (!cancelled) setBranches([])
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [showSubmitForm, bounty.repositoryId])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const selectedBranch = branches.find(b => b.name === branch)
+    const commitIds = parseCommitIds(commitText)
+    if (!selectedBranch && commitIds.length === 0) {
+      setActionError('Link a branch or at least one commit')
+      return
+    }
+
+    try {
+      setSubmitting(true)
+      setActionError(null)
+      const submission = await incentivesService.submitBounty({
+        bountyId: bounty.id,
+        branch: selectedBranch?.name,
+        // Without explicit commits, the branch head identifies the submitted work
+        commitIds: commitIds.length > 0 ? commitIds : selectedBranch ? [selectedBranch.commitId] : [],
+        description
+      })
+      onUpdated({
+        ...bounty,
+        status: 'UnderReview',
+        submissions: [...bounty.submissions, submission]
+      })
+      setShowSubmitForm(false)
+      setBranch('')
+      setCommitText('')
+      setDescription('')
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Failed to submit work')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const handleReview = async (submission: BountySubmission, approve: boolean) => {
+    const action = approve
+      ? `Approve this submission and pay ${formatTokenAmount(bounty.amount, decimals)} ${bounty.currency} to ${shortenPrincipal(submission.submittedBy)}?`
+      : 'Reject this submission?'
+    if (!window.confirm(action)) return
+
+    try {
+      setReviewingId(submission.id)
+      setActionError(null)
+      onUpdated(await incentivesService.reviewSubmission(bounty.id, submission.id, approve, reviewNotes[submission.id]))
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Failed to review submission')
+    } finally {
+      setReviewingId(null)
+    }
+  }
+
+  return (
+    <div className={`bounty-card ${expanded ? 'expanded' : ''}`}>
+      <button className="bounty-card-summary" onClick={onToggle} aria-expanded={expanded}>
+        <div className="bounty-card-main">
+          <div className="bounty-card-badges">
+            <span className={`bounty-status status-${bounty.status.toLowerCase()}`}>
+              {BOUNTY_STATUS_LABELS[bounty.status]}
+            </span>
+            <span className="bounty-difficulty" style={{ color: DIFFICULTY_COLORS[bounty.difficulty] }}>
+              {bounty.difficulty}
+            </span>
+            {showRepository && <span className="bounty-repository">📁 {bounty.repositoryId}</span>}
+          </div>
+          <h3>{bounty.title}</h3>
+          <div className="bounty-card-meta">
+            <span>Posted {formatRelativeTime(bounty.createdAt)}</span>
+            {bounty.expiresAt && bounty.status !== 'Completed' && (
+              <span>{bounty.status === 'Expired' ? 'Expired' : 'Expires'} {formatRelativeTime(bounty.expiresAt)}</span>
+            )}
+            <span>
+              {bounty.submissions.length} {bounty.submissions.length === 1 ? 'submission' : 'submissions'}
+              {canReview && pendingCount > 0 && ` (${pendingCount} to review)`}
+            </span>
+          </div>
+        </div>
+        <div className="bounty-reward">
+          <strong>{formatTokenAmount(bounty.amount, decimals)}</strong>
+          <span>{bounty.currency}</span>
+        </div>
+      </button>
+
+      {expanded && (
+        <div className="bounty-card-details">
+          {actionError && <div className="bounty-error">{actionError}</div>}
+
+          <MarkdownContent source={bounty.description} />
+
+          {bounty.requirements.length > 0 && (
+            <div className="bounty-requirements">
+              <h4>Requirements</h4>
+              <ul>
+                {bounty.requirements.map((requirement, i) => (
+                  <li key={i}>{requirement}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <p className="bounty-muted">
+            Funded by <span title={bounty.createdBy}>{isCreator ? 'you' : shortenPrincipal(bounty.createdBy)}</span>
+            {bounty.assignedTo && (
+              <> · Awarded to <span title={bounty.assignedTo}>{shortenPrincipal(bounty.assignedTo)}</span></>
+            )}
+          </p>
+
+          <div className="bounty-submissions">
+            <h4>Submissions</h4>
+            {bounty.submissions.length === 0 ? (
+              <p className="bounty-muted">No work has been submitted yet.</p>
+            ) : (
+              bounty.submissions.map(submission => (
+                <div key={submission.id} className="bounty-submission">
+                  <div className="bounty-submission-header">
+                    <span className="bounty-submitter" title={submission.submittedBy}>
+                      {submission.submittedBy === currentPrincipal ? 'You' : shortenPrincipal(submission.submittedBy)}
+                    </span>
+                    <span className="bounty-muted">{formatRelativeTime(submission.submittedAt)}</span>
+                    <span className={`submission-status submission-${submission.status.toLowerCase()}`}>
+                      {submission.status}
+                    </span>
+                  </div>
+                  {submission.description && <p>{submission.description}</p>}
+                  <div className="bounty-submission-links">
+                    {submission.branch && <code>⎇ {submission.branch}</code>}
+                    {submission.commitIds.map(commitId => (
+                      <code key={commitId} title={commitId}>{commitId.slice(0, 8)}</code>
+                    ))}
+                  </div>
+                  {submission.reviewNotes && (
+                    <p className="bounty-review-notes">
+                      Review{submission.reviewedBy ? ` by ${shortenPrincipal(submission.reviewedBy)}` : ''}: {submission.reviewNotes}
+                    </p>
+                  )}
+
+                  {canReview && submission.status === 'Pending' && bounty.status !== 'Completed' && (
+                    <div className="bounty-review-actions">
+                      <input
+                        type="text"
+                        value={reviewNotes[submission.id] || ''}
+                        onChange={(e) => setReviewNotes({ ...reviewNotes, [submission.id]: e.target.value })}
+                        placeholder="Review notes (optional)"
+                      />
+                      <button
+                        className="bounty-approve-btn"
+                        onClick={() => handleReview(submission, true)}
+                        disabled={reviewingId !== null}
+                      >
+                        {reviewingId === submission.id ? 'Saving...' : 'Approve & pay'}
+                      </button>
+                      <button
+                        className="bounty-reject-btn"
+                        onClick={() => handleReview(submission, false)}
+                        disabled={reviewingId !== null}
+                      >
+                        Reject
+                      </button>
+                    </div>
+                  )}
+                </div>
+              ))
+            )}
+          </div>
+
+          {canSubmit && !showSubmitForm && (
+            <button className="bounty-primary-btn" onClick={() => setShowSubmitForm(true)}>
+              Submit work
+            </button>
+          )}
+
+          {showSubmitForm && (
+            <form className="bounty-form" onSubmit={handleSubmit}>
+              <h4>Submit work</h4>
+              <label>
+                Branch
+                <select value={branch} onChange={(e) => setBranch(e.target.value)}>
+                  <option value="">No branch</option>
+                  {branches.map(b => (
+                    <option key={b.name} value={b.name}>{b.name}</option>
+                  ))}
+                </select>
+              </label>
+              <label>
+                Commits
+                <input
+                  type="text"
+                  value={commitText}
+                  onChange={(e) => setCommitText(e.target.value)}
+                  placeholder="Commit IDs, separated by commas"
+                />
+              </label>
+              <label>
+                Notes for the maintainers
+                <textarea
+                  value={description}
+                  onChange={(e) => setDescription(e.target.value)}
+                  rows={3}
+                  maxLength={1000}
+                  placeholder="What did you change and how was it tested?"
+                />
+              </label>
+              <div className="bounty-form-actions">
+                <button type="button" className="bounty-secondary-btn" onClick={() => setShowSubmitForm(false)}>
+                  Cancel
+                </button>
+                <button type="submit" className="bounty-primary-btn" disabled={submitting}>
+                  {submitting ? 'Submitting...' : 'Submit'}
+                </button>
+              </div>
+            </form>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default BountyCard
@@ -0,0 +1,302 @@
+import { useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react'
+import fileService from '../services/fileService'
+import gitService from '../services/gitService'
+import type { FileDiff, GitBranch, GitCommit } from '../types/git'
+import { detectLanguage, LANGUAGE_LABELS } from '../utils/highlight'
+import { splitLines } from '../utils/diff'
+import DiffViewer from './DiffViewer'
+import HighlightedCode from './HighlightedCode'
+import './CodeEditor.css'
+
+interface CodeEditorProps {
+  repositoryId: string
+  path: string
+  onClose: () => void
+  onCommitted: (commit: GitCommit, branch: string) => void
+}
+
+type EditorMode = 'edit' | 'review'
+
+const INDENT = '  '
+
+const decodeText = (bytes: Uint8Array): string | null => {
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes)
+  } catch {
+    return null
+  }
+}
+
+function CodeEditor({ repositoryId, path, onClose, onCommitted }: CodeEditorProps) {
+  const fileName = path.split('/').pop() || path
+  const language = detectLanguage(path)
+
+  const [original, setOriginal] = useState<string | null>(null)
+  const [content, setContent] = useState('')
+  const [isBinary, setIsBinary] = useState(false)
+  const [loading, setLoading] = useState(true)
+  const [branches, setBranches] = useState<GitBranch[]>([])
+  const [branch, setBranch] = useState('')
+  const [commitMessage, setCommitMessage] = useState(`Update ${fileName}`)
+  const [mode, setMode] = useState<EditorMode>('edit')
+  const [committing, setCommitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const textareaRef = useRef<HTMLTextAreaElement>(null)
+  const highlightRef = useRef<HTMLPreElement>(null)
+  const gutterRef = useRef<HTMLPreElement>(null)
+  // Caret position to restore after an edit made from a key handler
+  const pendingSelection = useRef<number | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+
+    const load = async () => {
+      setLoading(true)
+      setError(null)
+      try {
+        const [bytes, branchList] = await Promise.all([
+          fileService.getFileBytes(repositoryId, path),
+          gitService.listBranches(repositoryId)
+        ])
+        if (cancelled) return
+
+        const text = decodeText(bytes)
+        setIsBinary(text === null)
+        setOriginal(text ?? '')
+        setContent(text ?? '')
+        setBranches(branchList)
+        setBranch(branchList.find(b => b.isDefault)?.name ?? branchList[0]?.name ?? 'main')
+      } catch (err) {
+        if (cancelled) return
+        console.error('Error loading file for editing:', err)
+        setError(err instanceof Error ? err.message : 'Failed to load file')
+      } finally {
+        if (!cancelled) setLoading(false)
+      }
+    }
+
+    load()
+    return () => {
+      cancelled = true
+    }
+  }, [repositoryId, path])
+
+  useLayoutEffect(() => {
+    const textarea = textareaRef.current
+    if (textarea && pendingSelection.current !== null) {
+      textarea.setSelectionRange(pendingSelection.current, pendingSelection.current)
+      pendingSelection.current = null
+    }
+  }, [content])
+
+  const isDirty = original !== null && content !== original
+  const lineCount = Math.max(1, splitLines(content).length + (content.endsWith('\n') ? 1 : 0))
+
+  const diffs = useMemo<FileDiff[]>(() => [{
+    path,
+    action: { type: 'Modify' },
+    oldContent: original ?? '',
+    newContent: content,
+    isBinary: false,
+    additions: 0,
+    deletions: 0
+  }], [path, original, content])
+
+  const syncScroll = () => {
+    const textarea = textareaRef.current
+    if (!textarea) return
+    if (highlightRef.current) {
+      highlightRef.current.scrollTop = textarea.scrollTop
+      highlightRef.current.scrollLeft = textarea.scrollLeft
+    }
+    if (gutterRef.current) {
+      gutterRef.current.scrollTop = textarea.scrollTop
+    }
+  }
+
+  const review = () => {
+    if (!isDirty) {
+      setError('No changes to commit')
+      return
+    }
+    setError(null)
+    setMode('review')
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 's') {
+      e.preventDefault()
+      review()
+      return
+    }
+
+    if (e.key === 'Tab' && !e.shiftKey) {
+      e.preventDefault()
+      const { selectionStart, selectionEnd } = e.currentTarget
+      pendingSelection.current = selectionStart + INDENT.length
+      setContent(content.slice(0, selectionStart) + INDENT + content.slice(selectionEnd))
+    }
+  }
+
+  const handleClose = () => {
+    if (isDirty && !window.confirm('Discard your unsaved changes?')) return
+    onClose()
+  }
+
+  const handleCommit = async () => {
+    if (!commitMessage.trim()) {
+      setError('Commit message is required')
+      return
+    }
+
+    setCommitting(true)
+    setError(null)
+    try {
+      // Don't overwrite a change someone else committed while this file was open
+      const latest = decodeText(await fileService.getFileBytes(repositoryId, path))
+      if (latest !== original) {
+        setError(`${fileName} has changed since you opened it. Copy your edits, then reopen the file.`)
+        return
+      }
+
+      const commit = await gitService.commit(repositoryId, {
+        branch,
+        message: commitMessage.trim(),
+        files: [{ path, content, action: { type: 'Modify' } }],
+        parentCommit: branches.find(b => b.name === branch)?.commitId || undefined
+      })
+      onCommitted(commit, branch)
+    } catch (err) {
+      console.error('Error committing file:', err)
+      setError(err instanceof Error ? err.message : 'Failed to commit changes')
+    } finally {
+      setCommitting(false)
+    }
+  }
+
+  const renderBody = () => {
+    if (loading) {
+      return <div className="code-editor-notice">Loading {fileName}...</div>
+    }
+    if (original === null) {
+      return <div className="code-editor-notice">This file could not be loaded.</div>
+    }
+    if (isBinary) {
+      return <div className="code-editor-notice">Binary files cannot be edited in the browser.</div>
+    }
+    if (mode === 'review') {
+      return (
+        <div className="code-editor-review">
+          <DiffViewer diffs={diffs} emptyMessage="No changes to commit." />
+        </div>
+      )
+    }
+
+    return (
+      <div className="code-editor-surface">
+        <pre className="code-editor-gutter" ref={gutterRef} aria-hidden="true">
+          {Array.from({ length: lineCount }, (_, i) => i + 1).join('\n')}
+        </pre>
+        <div className="code-editor-layers">
+          <pre className="code-editor-highlight" ref={highlightRef} aria-hidden="true">
+            <HighlightedCode code={content} language={language} />
+            {/* Keeps a trailing empty line as tall as it is in the textarea */}
+            {'\n'}
+          </pre>
+          <textarea
+            ref={textareaRef}
+            className="code-editor-input"
+            value={content}
+            onChange={e => setContent(e.target.value)}
+            onKeyDown={handleKeyDown}
+            onScroll={syncScroll}
+            spellCheck={false}
+            autoCapitalize="off"
+            autoComplete="off"
+            wrap="off"
+            aria-label={`Contents of ${fileName}`}
+            autoFocus
+          />
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="code-editor-backdrop">
+      <div className="code-editor-modal">
+        <div className="code-editor-header">
+          <div>
+            <h3>{mode === 'review' ? 'Review changes' : `Editing ${fileName}`}</h3>
+            <p>
+              <span className="code-editor-path">{path}</span>
+              <span className="code-editor-language">{LANGUAGE_LABELS[language]}</span>
+              {isDirty && <span className="code-editor-dirty">Unsaved changes</span>}
+            </p>
+          </div>
+          <button className="close-btn" onClick={handleClose} disabled={committing}>
+            ✕
+          </button>
+        </div>
+
+        <div className="code-editor-body">
+          {renderBody()}
+        </div>
+
+        <div className="code-editor-footer">
+          <select
+            className="code-editor-branch"
+            value={branch}
+            onChange={e => setBranch(e.target.value)}
+            disabled={committing || branches.length === 0}
+            aria-label="Branch to commit to"
+          >
+            {branches.map(b => (
+              <option key={b.name} value={b.name}>
+                {b.name}{b.isDefault ? ' (default)' : ''}
+              </option>
+            ))}
+          </select>
+          <input
+            type="text"
+            className="code-editor-commit-message"
+            value={commitMessage}
+            onChange={e => setCommitMessage(e.target.value)}
+            placeholder="Commit message"
+            disabled={committing}
+          />
+          {error && <span className="git-form-error">{error}</span>}
+          <div className="git-form-actions">
+            {mode === 'review' ? (
+              <>
+                <button className="btn-secondary" onClick={() => setMode('edit')} disabled={committing}>
+                  Back to editor
+                </button>
+                <button className="btn-primary" onClick={handleCommit} disabled={committing || !isDirty}>
+                  {committing ? 'Committing...' : `Commit to ${branch}`}
+                </button>
+              </>
+            ) : (
+              <>
+                <button className="btn-secondary" onClick={handleClose} disabled={committing}>
+                  Cancel
+                </button>
+                <button
+                  className="btn-primary"
+                  onClick={review}
+                  disabled={loading || isBinary || !isDirty}
+                  title="Review and commit (Ctrl+S)"
+                >
+                  Review changes
+                </button>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default CodeEditor
@@ -0,0 +1,40 @@
+import { useEffect, useRef } from 'react'
+import type { EditorLanguage } from '../utils/highlight'
+import HighlightedCode from './HighlightedCode'
+import './CodeView.css'
+
+interface CodeViewProps {
+  code: string
+  language: EditorLanguage
+  // 1-based line to mark and scroll to
+  highlightLine?: number | null
+}
+
+function CodeView({ code, language, highlightLine }: CodeViewProps) {
+  const markerRef = useRef<HTMLDivElement>(null)
+  const lineCount = code.split('\n').length
+
+  useEffect(() => {
+    markerRef.current?.scrollIntoView({ block: 'center' })
+  }, [highlightLine, code])
+
+  return (
+    <div className="code-view">
+      {highlightLine && highlightLine <= lineCount && (
+        <div
+          ref={markerRef}
+          className="code-view-marker"
+          style={{ top: `calc(var(--code-view-padding) + ${highlightLine - 1} * var(--code-view-line-height))` }}
+        />
+      )}
+      <pre className="code-view-gutter" aria-hidden="true">
+        {Array.from({ length: lineCount }, (_, i) => i + 1).join('\n')}
+      </pre>
+      <pre className="code-view-code">
+        <HighlightedCode code={code} language={language} />
+      </pre>
+    </div>
+  )
+}
+
+export default CodeView
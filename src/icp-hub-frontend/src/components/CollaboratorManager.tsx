@@ -0,0 +1,367 @@
+import { useState, useEffect, useCallback } from 'react'
+import apiService from '../services/api.js'
+import collaboratorService from '../services/collaboratorService'
+import type { CollaboratorRole, RepositoryCollaborator, UserSuggestion } from '../types/collaborator'
+import './CollaboratorManager.css'
+
+interface CollaboratorManagerProps {
+  repositoryId: string
+}
+
+// Owner is fixed at creation and cannot be granted from here
+const ASSIGNABLE_ROLES: CollaboratorRole[] = ['Read', 'Write', 'Admin']
+
+const ROLE_DESCRIPTIONS: Record<CollaboratorRole, string> = {
+  Read: 'Can view and clone the repository',
+  Write: 'Can push commits and manage branches',
+  Admin: 'Can manage settings and collaborators',
+  Owner: 'Full control of the repository'
+}
+
+const SEARCH_DEBOUNCE_MS = 300
+
+function CollaboratorManager({ repositoryId }: CollaboratorManagerProps) {
+  const [collaborators, setCollaborators] = useState<RepositoryCollaborator[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [pendingUser, setPendingUser] = useState<string | null>(null)
+  const [removing, setRemoving] = useState<RepositoryCollaborator | null>(null)
+
+  // Invite form
+  const [showInvite, setShowInvite] = useState(false)
+  const [query, setQuery] = useState('')
+  const [suggestions, setSuggestions] = useState<UserSuggestion[]>([])
+  const [searching, setSearching] = useState(false)
+  const [selectedUser, setSelectedUser] = useState<UserSuggestion | null>(null)
+  const [inviteRole, setInviteRole] = useState<CollaboratorRole>('Write')
+  const [inviteMessage, setInviteMessage] = useState('')
+  const [inviting, setInviting] = useState(false)
+  const [inviteError, setInviteError] = useState<string | null>(null)
+
+  const currentPrincipal = apiService.getPrincipal()?.toString()
+  const currentRole = collaborators.find(c => c.principal === currentPrincipal)?.role
+  const canManage = currentRole === 'Owner' || currentRole === 'Admin'
+
+  const loadCollaborators = useCallback(async () => {
+    try {
+      setLoading(true)
+      setError(null)
+      setCollaborators(await collaboratorService.listCollaborators(repositoryId))
+    } catch (err) {
+      console.error('Error loading collaborators:', err)
+      setError(err instanceof Error ? err.message : 'Failed to load collaborators')
+    } finally {
+      setLoading(false)
+    }
+  }, [repositoryId])
+
+  useEffect(() => {
+    loadCollaborators()
+  }, [loadCollaborators])
+
+  // Debounced user lookup for the invite picker
+  useEffect(() => {
+    if (!showInvite || selectedUser || !query.trim()) {
+      setSuggestions([])
+      return
+    }
+
+    let cancelled = false
+    const timer = setTimeout(async () => {
+      setSearching(true)
+      try {
+        const users = await collaboratorService.findUsers(query)
+        if (!cancelled) setSuggestions(users)
+      } catch {
+        if (!cancelled) setSuggestions([])
+      } finally {
+        if (!cancelled) setSearching(false)
+      }
+    }, SEARCH_DEBOUNCE_MS)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [query, selectedUser, showInvite])
+
+  const resetInvite = () => {
+    setQuery('')
+    setSuggestions([])
+    setSelectedUser(null)
+    setInviteRole('Write')
+    setInviteMessage('')
+    setInviteError(null)
+  }
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    // Allow inviting by exact username even if the search found nothing
+    const username = selectedUser?.username ?? query.trim()
+    if (!username) {
+      setInviteError('Choose a user to invite')
+      return
+    }
+    if (collaborators.some(c => c.username === username)) {
+      setInviteError(`${username} already has access to this repository`)
+      return
+    }
+
+    setInviting(true)
+    setInviteError(null)
+    try {
+      const added = await collaboratorService.addCollaborator(
+        repositoryId,
+        username,
+        inviteRole,
+        inviteMessage.trim() || undefined
+      )
+      setCollaborators(prev => [...prev, added])
+      resetInvite()
+      setShowInvite(false)
+    } catch (err) {
+      console.error('Error adding collaborator:', err)
+      setInviteError(err instanceof Error ? err.message : 'Failed to add collaborator')
+    } finally {
+      setInviting(false)
+    }
+  }
+
+  const handleRoleChange = async (collaborator: RepositoryCollaborator, role: CollaboratorRole) => {
+    if (role === collaborator.role) return
+
+    try {
+      setPendingUser(collaborator.username)
+      setError(null)
+
+      const updated = await collaboratorService.updatePermission(repositoryId, collaborator.username, role)
+      setCollaborators(prev => prev.map(c => c.username === updated.username ? updated : c))
+    } catch (err) {
+      console.error('Error updating permission:', err)
+      setError(err instanceof Error ? err.message : 'Failed to update permission')
+    } finally {
+      setPendingUser(null)
+    }
+  }
+
+  const handleRemove = async () => {
+    if (!removing) return
+
+    try {
+      setPendingUser(removing.username)
+      setError(null)
+
+      await collaboratorService.removeCollaborator(repositoryId, removing.username)
+      setCollaborators(prev => prev.filter(c => c.username !== removing.username))
+      setRemoving(null)
+    } catch (err) {
+      console.error('Error removing collaborator:', err)
+      setError(err instanceof Error ? err.message : 'Failed to remove collaborator')
+      setRemoving(null)
+    } finally {
+      setPendingUser(null)
+    }
+  }
+
+  const getShortPrincipal = (principal: string) => {
+    return principal.length > 16 ? `${principal.slice(0, 8)}...${principal.slice(-5)}` : principal
+  }
+
+  const renderAvatar = (user: UserSuggestion) => (
+    user.avatar
+      ? <img src={user.avatar} alt={user.username} className="collaborator-avatar" />
+      : <span className="collaborator-avatar placeholder">{user.username.charAt(0).toUpperCase()}</span>
+  )
+
+  return (
+    <div className="collaborator-manager">
+      <div className="collaborators-header">
+        <h2>Collaborators</h2>
+        {canManage && (
+          <button
+            className="invite-btn"
+            onClick={() => {
+              resetInvite()
+              setShowInvite(!showInvite)
+            }}
+          >
+            {showInvite ? 'Cancel' : '👥 Invite Collaborator'}
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="collaborator-error">
+          <span>{error}</span>
+          <button className="role-btn" onClick={loadCollaborators}>Retry</button>
+        </div>
+      )}
+
+      {showInvite && (
+        <form className="invite-form" onSubmit={handleInvite}>
+          <div className="invite-field user-picker">
+            <label htmlFor="inviteUser">Username or principal ID</label>
+            {selectedUser ? (
+              <div className="picked-user">
+                {renderAvatar(selectedUser)}
+                <div className="collaborator-info">
+                  <span className="collaborator-name">{selectedUser.displayName || selectedUser.username}</span>
+                  <span className="collaborator-role">@{selectedUser.username} · {getShortPrincipal(selectedUser.principal)}</span>
+                </div>
+                <button type="button" className="role-btn" onClick={() => setSelectedUser(null)}>
+                  Change
+                </button>
+              </div>
+            ) : (
+              <>
+                <input
+                  id="inviteUser"
+                  type="text"
+                  value={query}
+                  onChange={e => setQuery(e.target.value)}
+                  placeholder="alice or aaaaa-aa"
+                  autoComplete="off"
+                  disabled={inviting}
+                />
+                {(searching || suggestions.length > 0) && (
+                  <ul className="user-suggestions">
+                    {searching && <li className="user-suggestion-status">Searching...</li>}
+                    {!searching && suggestions.map(user => {
+                      const alreadyAdded = collaborators.some(c => c.principal === user.principal)
+                      return (
+                        <li key={user.principal}>
+                          <button
+                            type="button"
+                            className="user-suggestion"
+                            onClick={() => setSelectedUser(user)}
+                            disabled={alreadyAdded}
+                          >
+                            {renderAvatar(user)}
+                            <span className="collaborator-name">{user.displayName || user.username}</span>
+                            <span className="collaborator-role">@{user.username}</span>
+                            {alreadyAdded && <span className="collaborator-role">already a collaborator</span>}
+                          </button>
+                        </li>
+                      )
+                    })}
+                  </ul>
+                )}
+              </>
+            )}
+          </div>
+
+          <div className="invite-field">
+            <label htmlFor="inviteRole">Permission</label>
+            <select
+              id="inviteRole"
+              value={inviteRole}
+              onChange={e => setInviteRole(e.target.value as CollaboratorRole)}
+              disabled={inviting}
+            >
+              {ASSIGNABLE_ROLES.map(role => (
+                <option key={role} value={role}>{role} — {ROLE_DESCRIPTIONS[role]}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="invite-field">
+            <label htmlFor="inviteMessage">Message (optional)</label>
+            <textarea
+              id="inviteMessage"
+              value={inviteMessage}
+              onChange={e => setInviteMessage(e.target.value)}
+              rows={2}
+              disabled={inviting}
+            />
+          </div>
+
+          {inviteError && <div className="collaborator-form-error">{inviteError}</div>}
+
+          <div className="invite-actions">
+            <button type="submit" className="invite-btn" disabled={inviting}>
+              {inviting ? 'Adding...' : 'Add collaborator'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {loading ? (
+        <div className="collaborators-loading">Loading collaborators...</div>
+      ) : collaborators.length === 0 ? (
+        <div className="collaborators-loading">No collaborators yet.</div>
+      ) : (
+        <div className="collaborators-list">
+          {collaborators.map(collaborator => {
+            const isOwner = collaborator.role === 'Owner'
+            const isSelf = collaborator.principal === currentPrincipal
+            const isPending = pendingUser === collaborator.username
+
+            return (
+              <div key={collaborator.principal} className="collaborator-item">
+                {renderAvatar(collaborator)}
+                <div className="collaborator-info">
+                  <span className="collaborator-name">
+                    {collaborator.displayName || collaborator.username}
+                    {isSelf && <span className="collaborator-you"> (you)</span>}
+                  </span>
+                  <span className="collaborator-role">
+                    @{collaborator.username} · {getShortPrincipal(collaborator.principal)}
+                  </span>
+                </div>
+                <div className="collaborator-actions">
+                  {canManage && !isOwner && !isSelf ? (
+                    <>
+                      <select
+                        className="role-select"
+                        value={collaborator.role}
+                        onChange={e => handleRoleChange(collaborator, e.target.value as CollaboratorRole)}
+                        disabled={isPending}
+                        title={ROLE_DESCRIPTIONS[collaborator.role]}
+                      >
+                        {ASSIGNABLE_ROLES.map(role => (
+                          <option key={role} value={role}>{role}</option>
+                        ))}
+                      </select>
+                      <button
+                        className="remove-collaborator-btn"
+                        onClick={() => setRemoving(collaborator)}
+                        disabled={isPending}
+                      >
+                        Remove
+                      </button>
+                    </>
+                  ) : (
+                    <span className="role-btn" title={ROLE_DESCRIPTIONS[collaborator.role]}>{collaborator.role}</span>
+                  )}
+                </div>
+              </div>
+            )
+          })}
+        </div>
+      )}
+
+      {removing && (
+        <div className="collaborator-confirm-backdrop" onClick={() => setRemoving(null)}>
+          <div className="collaborator-confirm-modal" onClick={e => e.stopPropagation()}>
+            <h3>Remove collaborator</h3>
+            <p>
+              Remove <strong>@{removing.username}</strong> from this repository? They will lose
+              their {removing.role.toLowerCase()} access immediately.
+            </p>
+            <div className="invite-actions">
+              <button className="role-btn" onClick={() => setRemoving(null)} disabled={pendingUser !== null}>
+                Cancel
+              </button>
+              <button className="remove-collaborator-btn" onClick={handleRemove} disabled={pendingUser !== null}>
+                {pendingUser ? 'Removing...' : 'Remove'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default CollaboratorManager
@@ -0,0 +1,369 @@
+import { useState } from 'react'
+import gitService from '../services/gitService'
+import type { GitCommit, GitFileChange, MergeConflict } from '../types/git'
+import {
+  mergeThreeWay,
+  renderMerge,
+  countConflicts,
+  hasConflictMarkers,
+  type MergeChunk,
+  type ConflictResolution
+} from '../utils/merge'
+import './ConflictResolver.css'
+
+interface ConflictResolverProps {
+  repositoryId: string
+  sourceBranch: string
+  targetBranch: string
+  conflicts: MergeConflict[]
+  onClose: () => void
+  onResolved: (commit: GitCommit) => void
+}
+
+interface FileResolutionState {
+  chunks: MergeChunk[]
+  resolutions: Array<ConflictResolution | undefined>
+  // Set once the result has been edited by hand; overrides the chunk choices
+  manualText: string | null
+  deleted: boolean
+}
+
+// Unchanged regions longer than this are folded in the three-way view
+const FOLD_UNCHANGED_LINES = 8
+
+const createInitialState = (conflicts: MergeConflict[]): Record<string, FileResolutionState> => {
+  const state: Record<string, FileResolutionState> = {}
+  for (const conflict of conflicts) {
+    const chunks = conflict.isBinary
+      ? []
+      : mergeThreeWay(conflict.baseContent ?? '', conflict.sourceContent ?? '', conflict.targetContent ?? '')
+    state[conflict.path] = {
+      chunks,
+      resolutions: new Array(countConflicts(chunks)).fill(undefined),
+      manualText: null,
+      deleted: false
+    }
+  }
+  return state
+}
+
+function ConflictResolver({
+  repositoryId,
+  sourceBranch,
+  targetBranch,
+  conflicts,
+  onClose,
+  onResolved
+}: ConflictResolverProps) {
+  const [files, setFiles] = useState(() => createInitialState(conflicts))
+  const [activePath, setActivePath] = useState(conflicts[0]?.path ?? '')
+  const [commitMessage, setCommitMessage] = useState(`Resolve conflicts merging ${sourceBranch} into ${targetBranch}`)
+  const [committing, setCommitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const labels = { source: sourceBranch, target: targetBranch }
+  const activeConflict = conflicts.find(conflict => conflict.path === activePath)
+  const activeState = files[activePath]
+
+  const updateFile = (path: string, update: Partial<FileResolutionState>) => {
+    setFiles(prev => ({ ...prev, [path]: { ...prev[path], ...update } }))
+  }
+
+  const getResultText = (state: FileResolutionState) => {
+    return state.manualText ?? renderMerge(state.chunks, state.resolutions, labels)
+  }
+
+  const isFileResolved = (conflict: MergeConflict) => {
+    const state = files[conflict.path]
+    if (conflict.isBinary || state.deleted) return true
+    if (state.manualText !== null) return !hasConflictMarkers(state.manualText)
+    return state.resolutions.every(resolution => resolution !== undefined)
+  }
+
+  const unresolvedCount = conflicts.filter(conflict => !isFileResolved(conflict)).length
+
+  const setResolution = (conflictIndex: number, resolution: ConflictResolution) => {
+    const resolutions = [...activeState.resolutions]
+    resolutions[conflictIndex] = resolution
+    updateFile(activePath, { resolutions, manualText: null })
+  }
+
+  const acceptAll = (resolution: ConflictResolution) => {
+    updateFile(activePath, {
+      resolutions: activeState.resolutions.map(() => resolution),
+      manualText: null,
+      deleted: false
+    })
+  }
+
+  const handleCommit = async () => {
+    if (unresolvedCount > 0) {
+      setError(`${unresolvedCount} ${unresolvedCount === 1 ? 'file still has' : 'files still have'} unresolved conflicts`)
+      return
+    }
+    if (!commitMessage.trim()) {
+      setError('Commit message is required')
+      return
+    }
+
+    // Binary conflicts keep the target version, so there is nothing to write for them
+    const changes: GitFileChange[] = conflicts
+      .filter(conflict => !conflict.isBinary)
+      .map((conflict): GitFileChange => {
+        const state = files[conflict.path]
+        if (state.deleted) {
+          return { path: conflict.path, action: { type: 'Delete' } }
+        }
+        return {
+          path: conflict.path,
+          content: getResultText(state),
+          action: { type: conflict.targetContent === undefined ? 'Add' : 'Modify' }
+        }
+      })
+
+    setCommitting(true)
+    setError(null)
+    try {
+      // Recording the source tip as a second parent is what makes this a merge; without it
+      // the source commits would still count as ahead of the target
+      const branches = await gitService.listBranches(repositoryId)
+      const source = branches.find(branch => branch.name === sourceBranch)
+      if (!source?.commitId) {
+        throw new Error(`${sourceBranch} no longer exists`)
+      }
+
+      const commit = await gitService.commit(repositoryId, {
+        branch: targetBranch,
+        message: commitMessage.trim(),
+        files: changes,
+        mergeParent: source.commitId
+      })
+      onResolved(commit)
+    } catch (err) {
+      console.error('Error committing resolution:', err)
+      setError(err instanceof Error ? err.message : 'Failed to commit resolved files')
+    } finally {
+      setCommitting(false)
+    }
+  }
+
+  const renderLines = (lines: string[], className: string) => (
+    <pre className={`resolver-lines ${className}`}>
+      {lines.length > 0 ? lines.join('\n') : <span className="resolver-no-lines">(no lines)</span>}
+    </pre>
+  )
+
+  const renderChunks = (state: FileResolutionState) => {
+    let conflictIndex = 0
+
+    return state.chunks.map((chunk, index) => {
+      if (chunk.type === 'stable' && !chunk.changedBy) {
+        if (chunk.lines.length > FOLD_UNCHANGED_LINES) {
+          return (
+            <div key={index} className="resolver-row folded">
+              ⋯ {chunk.lines.length} unchanged lines
+            </div>
+          )
+        }
+        return (
+          <div key={index} className="resolver-row">
+            {renderLines(chunk.lines, 'unchanged')}
+            {renderLines(chunk.lines, 'unchanged')}
+            {renderLines(chunk.lines, 'unchanged')}
+          </div>
+        )
+      }
+
+      if (chunk.type === 'stable') {
+        const sourceLines = chunk.changedBy === 'target' ? chunk.baseLines : chunk.lines
+        const targetLines = chunk.changedBy === 'source' ? chunk.baseLines : chunk.lines
+        return (
+          <div key={index} className="resolver-row auto-merged">
+            {renderLines(chunk.baseLines, 'base')}
+            {renderLines(sourceLines, chunk.changedBy === 'target' ? 'unchanged' : 'changed')}
+            {renderLines(targetLines, chunk.changedBy === 'source' ? 'unchanged' : 'changed')}
+            <div className="resolver-row-note">
+              Auto-merged from {chunk.changedBy === 'both' ? 'both branches' : chunk.changedBy === 'source' ? sourceBranch : targetBranch}
+            </div>
+          </div>
+        )
+      }
+
+      const currentIndex = conflictIndex++
+      const resolution = state.resolutions[currentIndex]
+
+      return (
+        <div key={index} className={`resolver-row conflict ${resolution ? 'resolved' : ''}`}>
+          {renderLines(chunk.baseLines, 'base')}
+          {renderLines(chunk.sourceLines, `conflicting ${resolution === 'source' || resolution === 'both' ? 'accepted' : ''}`)}
+          {renderLines(chunk.targetLines, `conflicting ${resolution === 'target' || resolution === 'both' ? 'accepted' : ''}`)}
+          <div className="resolver-hunk-actions">
+            <span className="resolver-hunk-label">Conflict {currentIndex + 1}</span>
+            <button
+              className={`resolver-choice ${resolution === 'source' ? 'active' : ''}`}
+              onClick={() => setResolution(currentIndex, 'source')}
+            >
+              Accept {sourceBranch}
+            </button>
+            <button
+              className={`resolver-choice ${resolution === 'target' ? 'active' : ''}`}
+              onClick={() => setResolution(currentIndex, 'target')}
+            >
+              Accept {targetBranch}
+            </button>
+            <button
+              className={`resolver-choice ${resolution === 'both' ? 'active' : ''}`}
+              onClick={() => setResolution(currentIndex, 'both')}
+            >
+              Accept both
+            </button>
+            <button
+              className={`resolver-choice ${resolution === 'base' ? 'active' : ''}`}
+              onClick={() => setResolution(currentIndex, 'base')}
+            >
+              Keep base
+            </button>
+          </div>
+        </div>
+      )
+    })
+  }
+
+  return (
+    <div className="conflict-resolver-backdrop">
+      <div className="conflict-resolver-modal">
+        <div className="conflict-resolver-header">
+          <div>
+            <h3>Resolve Merge Conflicts</h3>
+            <p>
+              <span className="source-branch">{sourceBranch}</span>
+              <span className="merge-arrow">→</span>
+              <span className="target-branch">{targetBranch}</span>
+            </p>
+          </div>
+          <button className="close-btn" onClick={onClose} disabled={committing}>
+            ✕
+          </button>
+        </div>
+
+        <div className="conflict-resolver-body">
+          <ul className="resolver-file-list">
+            {conflicts.map(conflict => (
+              <li key={conflict.path}>
+                <button
+                  className={`resolver-file ${conflict.path === activePath ? 'active' : ''}`}
+                  onClick={() => setActivePath(conflict.path)}
+                >
+                  <span className={`resolver-file-status ${isFileResolved(conflict) ? 'resolved' : ''}`}>
+                    {isFileResolved(conflict) ? '✓' : '!'}
+                  </span>
+                  <span className="resolver-file-path">{conflict.path}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+
+          {activeConflict && activeState && (
+            <div className="resolver-file-panel">
+              <div className="resolver-file-toolbar">
+                <span className="resolver-file-title">{activeConflict.path}</span>
+                {!activeConflict.isBinary && (
+                  <div className="resolver-toolbar-actions">
+                    <button className="btn-secondary" onClick={() => acceptAll('source')}>
+                      Use all from {sourceBranch}
+                    </button>
+                    <button className="btn-secondary" onClick={() => acceptAll('target')}>
+                      Use all from {targetBranch}
+                    </button>
+                    <label className="resolver-delete-toggle">
+                      <input
+                        type="checkbox"
+                        checked={activeState.deleted}
+                        onChange={e => updateFile(activePath, { deleted: e.target.checked })}
+                      />
+                      Delete file
+                    </label>
+                  </div>
+                )}
+              </div>
+
+              {activeConflict.isBinary ? (
+                <div className="resolver-notice">
+                  Binary files cannot be merged in the browser. The version on {targetBranch} will be kept.
+                </div>
+              ) : activeState.deleted ? (
+                <div className="resolver-notice">
+                  This file will be deleted from {targetBranch}.
+                </div>
+              ) : (
+                <>
+                  <div className="resolver-columns-header">
+                    <span>Base</span>
+                    <span>{sourceBranch} (source)</span>
+                    <span>{targetBranch} (target)</span>
+                  </div>
+                  <div className="resolver-three-way">
+                    {renderChunks(activeState)}
+                  </div>
+
+                  <div className="resolver-result">
+                    <div className="resolver-result-header">
+                      <span>Result</span>
+                      {activeState.manualText !== null && (
+                        <button
+                          className="btn-secondary"
+                          onClick={() => updateFile(activePath, { manualText: null })}
+                        >
+                          Discard manual edits
+                        </button>
+                      )}
+                    </div>
+                    <textarea
+                      className="resolver-result-editor"
+                      value={getResultText(activeState)}
+                      onChange={e => updateFile(activePath, { manualText: e.target.value })}
+                      spellCheck={false}
+                    />
+                    {activeState.manualText !== null && hasConflictMarkers(activeState.manualText) && (
+                      <div className="git-form-error">Remove all conflict markers before committing.</div>
+                    )}
+                  </div>
+                </>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="conflict-resolver-footer">
+          <input
+            type="text"
+            className="resolver-commit-message"
+            value={commitMessage}
+            onChange={e => setCommitMessage(e.target.value)}
+            placeholder="Commit message"
+            disabled={committing}
+          />
+          {error && <span className="git-form-error">{error}</span>}
+          <div className="git-form-actions">
+            <button className="btn-secondary" onClick={onClose} disabled={committing}>
+              Cancel
+            </button>
+            <button
+              className="btn-primary"
+              onClick={handleCommit}
+              disabled={committing || unresolvedCount > 0}
+            >
+              {committing
+                ? 'Committing...'
+                : unresolvedCount > 0
+                  ? `${unresolvedCount} unresolved`
+                  : `Commit to ${targetBranch}`}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default ConflictResolver
@@ -0,0 +1,343 @@
+import { useState, useEffect, useCallback, useMemo } from 'react'
+import apiService from '../services/api.js'
+import { governanceService } from '../services/governanceService'
+import type { DelegationGraph, DelegationScope, ProposalType } from '../services/governanceService'
+import { collaboratorService } from '../services/collaboratorService'
+import type { UserSuggestion } from '../types/collaborator'
+import { useWallet } from '../services/walletService'
+import { getProposalTypeIcon, shortenPrincipal } from '../utils/governance'
+import './DelegationPanel.css'
+
+type ScopeType = DelegationScope['type']
+
+const SEARCH_DEBOUNCE_MS = 300
+
+const PROPOSAL_TYPES: { value: ProposalType['type']; label: string }[] = [
+  { value: 'PlatformUpgrade', label: 'Platform Upgrade' },
+  { value: 'TreasurySpend', label: 'Treasury Spend' },
+  { value: 'RepositoryUpdate', label: 'Repository Update' },
+  { value: 'GovernanceConfig', label: 'Governance Config' },
+  { value: 'CollaboratorPromotion', label: 'Collaborator Promotion' },
+  { value: 'CustomProposal', label: 'Custom Proposal' }
+]
+
+const describeScope = (scope: DelegationScope) => {
+  switch (scope.type) {
+    case 'All': return 'All proposals'
+    case 'Repository': return `Repository ${scope.repositoryId}`
+    case 'ProposalType': {
+      const label = PROPOSAL_TYPES.find(t => t.value === scope.proposalType)?.label ?? scope.proposalType
+      return `${getProposalTypeIcon(scope.proposalType)} ${label}`
+    }
+  }
+}
+
+function DelegationPanel() {
+  const [graph, setGraph] = useState<DelegationGraph | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const [query, setQuery] = useState('')
+  const [suggestions, setSuggestions] = useState<UserSuggestion[]>([])
+  const [searching, setSearching] = useState(false)
+  const [selectedUser, setSelectedUser] = useState<UserSuggestion | null>(null)
+  const [scopeType, setScopeType] = useState<ScopeType>('All')
+  const [repositoryId, setRepositoryId] = useState('')
+  const [proposalType, setProposalType] = useState<ProposalType['type']>('TreasurySpend')
+  const [submitting, setSubmitting] = useState(false)
+  const [formError, setFormError] = useState<string | null>(null)
+
+  const { wallet } = useWallet()
+  const currentPrincipal = apiService.getPrincipal()?.toString()
+
+  const loadGraph = useCallback(async () => {
+    try {
+      setLoading(true)
+      setGraph(await governanceService.getDelegationGraph())
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load delegations')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadGraph()
+  }, [loadGraph])
+
+  // Debounced user lookup for the delegate picker
+  useEffect(() => {
+    if (selectedUser || !query.trim()) {
+      setSuggestions([])
+      return
+    }
+
+    let cancelled = false
+    const timer = setTimeout(async () => {
+      setSearching(true)
+      try {
+        const users = await collaboratorService.findUsers(query)
+        if (!cancelled) setSuggestions(users.filter(user => user.principal !== currentPrincipal))
+      } catch {
+        if (!cancelled) setSuggestions([])
+      } finally {
+        if (!cancelled) setSearching(false)
+      }
+    }, SEARCH_DEBOUNCE_MS)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [query, selectedUser, currentPrincipal])
+
+  const myDelegation = useMemo(
+    () => graph?.delegations.find(delegation => delegation.delegator === currentPrincipal),
+    [graph, currentPrincipal]
+  )
+
+  // Delegates ordered by the most power they can carry on a single proposal
+  const delegates = useMemo(() => {
+    if (!graph) return []
+    return graph.delegates
+      .map(summary => ({
+        ...summary,
+        effectivePower: summary.ownVotingPower + summary.delegatedVotingPower,
+        delegations: graph.delegations.filter(delegation => delegation.delegate === summary.delegate)
+      }))
+      .sort((a, b) => b.effectivePower - a.effectivePower)
+  }, [graph])
+
+  const maxPower = delegates.length > 0 ? delegates[0].effectivePower : 0
+
+  const buildScope = (): DelegationScope => {
+    switch (scopeType) {
+      case 'All': return { type: 'All' }
+      case 'Repository': return { type: 'Repository', repositoryId: repositoryId.trim() }
+      case 'ProposalType': return { type: 'ProposalType', proposalType }
+    }
+  }
+
+  const resetForm = () => {
+    setQuery('')
+    setSuggestions([])
+    setSelectedUser(null)
+    setScopeType('All')
+    setRepositoryId('')
+    setFormError(null)
+  }
+
+  const handleDelegate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const delegateTo = selectedUser?.principal ?? query.trim()
+    if (!delegateTo) {
+      setFormError('Choose who should vote on your behalf')
+      return
+    }
+    if (delegateTo === currentPrincipal) {
+      setFormError('You cannot delegate to yourself')
+      return
+    }
+
+    try {
+      setSubmitting(true)
+      setFormError(null)
+      await governanceService.delegateVote({ delegateTo, scope: buildScope() })
+      resetForm()
+      await loadGraph()
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : 'Failed to delegate votes')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const handleRevoke = async () => {
+    if (!window.confirm('Revoke your delegation? You will vote with your own tokens again.')) return
+
+    try {
+      setSubmitting(true)
+      setFormError(null)
+      await governanceService.revokeDelegation()
+      await loadGraph()
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : 'Failed to revoke delegation')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const displayName = (principal: string) =>
+    principal === currentPrincipal ? 'You' : shortenPrincipal(principal)
+
+  return (
+    <section className="delegation-panel">
+      <div className="delegation-panel-header">
+        <h2>Vote Delegation</h2>
+        <p>Let someone you trust vote with your tokens, for everything or only part of the DAO's decisions.</p>
+      </div>
+
+      {formError && <div className="delegation-error">{formError}</div>}
+
+      <div className="delegation-layout">
+        <div className="delegation-card">
+          <h3>Your delegation</h3>
+          {myDelegation ? (
+            <div className="delegation-current">
+              <p>
+                Your {myDelegation.votingPower.toLocaleString()} votes go to{' '}
+                <span className="delegation-principal" title={myDelegation.delegate}>
+                  {shortenPrincipal(myDelegation.delegate)}
+                </span>
+              </p>
+              <p className="delegation-muted">Scope: {describeScope(myDelegation.scope)}</p>
+              <button className="delegation-revoke-btn" onClick={handleRevoke} disabled={submitting}>
+                {submitting ? 'Revoking...' : 'Revoke delegation'}
+              </button>
+            </div>
+          ) : (
+            <p className="delegation-muted">You vote with your own tokens.</p>
+          )}
+
+          {wallet.connected ? (
+            <form className="delegation-form" onSubmit={handleDelegate}>
+              <label>
+                {myDelegation ? 'Change delegate' : 'Delegate to'}
+                {selectedUser ? (
+                  <div className="delegation-selected-user">
+                    <span>{selectedUser.displayName || selectedUser.username}</span>
+                    <span className="delegation-muted">{shortenPrincipal(selectedUser.principal)}</span>
+                    <button type="button" onClick={() => setSelectedUser(null)} aria-label="Clear delegate">×</button>
+                  </div>
+                ) : (
+                  <input
+                    type="text"
+                    value={query}
+                    onChange={(e) => setQuery(e.target.value)}
+                    placeholder="Username or principal ID"
+                    autoComplete="off"
+                  />
+                )}
+              </label>
+              {!selectedUser && (searching || suggestions.length > 0) && (
+                <ul className="delegation-suggestions">
+                  {searching && <li className="delegation-muted">Searching...</li>}
+                  {suggestions.map(user => (
+                    <li key={user.principal}>
+                      <button type="button" onClick={() => setSelectedUser(user)}>
+                        <span>{user.displayName || user.username}</span>
+                        <span className="delegation-muted">{shortenPrincipal(user.principal)}</span>
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              <label>
+                Scope
+                <select value={scopeType} onChange={(e) => setScopeType(e.target.value as ScopeType)}>
+                  <option value="All">All proposals</option>
+                  <option value="Repository">One repository</option>
+                  <option value="ProposalType">One proposal type</option>
+                </select>
+              </label>
+
+              {scopeType === 'Repository' && (
+                <label>
+                  Repository ID
+                  <input
+                    type="text"
+                    value={repositoryId}
+                    onChange={(e) => setRepositoryId(e.target.value)}
+                    placeholder="e.g. cross-chain-defi"
+                  />
+                </label>
+              )}
+
+              {scopeType === 'ProposalType' && (
+                <label>
+                  Proposal type
+                  <select value={proposalType} onChange={(e) => setProposalType(e.target.value as ProposalType['type'])}>
+                    {PROPOSAL_TYPES.map(type => (
+                      <option key={type.value} value={type.value}>{type.label}</option>
+                    ))}
+                  </select>
+                </label>
+              )}
+
+              <button
+                type="submit"
+                className="delegation-submit-btn"
+                disabled={submitting || (!selectedUser && !query.trim())}
+              >
+                {submitting ? 'Saving...' : myDelegation ? 'Update delegation' : 'Delegate votes'}
+              </button>
+              <p className="delegation-muted">
+                While delegated you cannot vote directly on proposals covered by the scope.
+              </p>
+            </form>
+          ) : (
+            <p className="delegation-muted">Connect your wallet to delegate your votes.</p>
+          )}
+        </div>
+
+        <div className="delegation-card">
+          <h3>Delegation graph</h3>
+          {loading ? (
+            <p className="delegation-muted">Loading delegations...</p>
+          ) : error ? (
+            <div className="delegation-error">
+              {error}{' '}
+              <button className="delegation-link-btn" onClick={loadGraph}>Try again</button>
+            </div>
+          ) : delegates.length === 0 ? (
+            <p className="delegation-muted">Nobody has delegated their votes yet.</p>
+          ) : (
+            <ul className="delegate-list">
+              {delegates.map(delegate => (
+                <li key={delegate.delegate} className="delegate-node">
+                  <div className="delegate-summary">
+                    <span className="delegation-principal" title={delegate.delegate}>
+                      {displayName(delegate.delegate)}
+                    </span>
+                    <span className="delegate-power">
+                      up to {delegate.effectivePower.toLocaleString()} votes
+                    </span>
+                  </div>
+                  <div className="delegate-power-bar">
+                    <div
+                      className="delegate-power-own"
+                      style={{ width: `${maxPower ? (delegate.ownVotingPower / maxPower) * 100 : 0}%` }}
+                    ></div>
+                    <div
+                      className="delegate-power-delegated"
+                      style={{ width: `${maxPower ? (delegate.delegatedVotingPower / maxPower) * 100 : 0}%` }}
+                    ></div>
+                  </div>
+                  <p className="delegation-muted">
+                    {delegate.ownVotingPower.toLocaleString()} own + {delegate.delegatedVotingPower.toLocaleString()} from{' '}
+                    {delegate.delegatorCount} {delegate.delegatorCount === 1 ? 'delegator' : 'delegators'}
+                  </p>
+                  <ul className="delegator-list">
+                    {delegate.delegations.map(delegation => (
+                      <li key={delegation.delegator} className="delegator-edge">
+                        <span className="delegation-principal" title={delegation.delegator}>
+                          {displayName(delegation.delegator)}
+                        </span>
+                        <span className="delegator-scope">{describeScope(delegation.scope)}</span>
+                        <span className="delegator-power">{delegation.votingPower.toLocaleString()}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </section>
+  )
+}
+
+export default DelegationPanel
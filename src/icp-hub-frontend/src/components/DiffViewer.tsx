@@ -0,0 +1,197 @@
+import { useState, useMemo } from 'react'
+import type { FileDiff } from '../types/git'
+import { diffLines, buildHunks, toSplitRows, countChanges, type DiffLine, type DiffHunk } from '../utils/diff'
+import './DiffViewer.css'
+
+export type DiffViewMode = 'unified' | 'split'
+
+interface DiffViewerProps {
+  diffs: FileDiff[]
+  defaultViewMode?: DiffViewMode
+  emptyMessage?: string
+}
+
+interface PreparedFileDiff {
+  diff: FileDiff
+  hunks: DiffHunk[]
+  additions: number
+  deletions: number
+}
+
+const getActionLabel = (diff: FileDiff) => {
+  switch (diff.action.type) {
+    case 'Add': return 'Added'
+    case 'Delete': return 'Deleted'
+    case 'Rename': return 'Renamed'
+    default: return 'Modified'
+  }
+}
+
+const getLinePrefix = (line: DiffLine) => {
+  switch (line.type) {
+    case 'add': return '+'
+    case 'remove': return '-'
+    default: return ' '
+  }
+}
+
+function DiffViewer({ diffs, defaultViewMode = 'unified', emptyMessage = 'No changes to display.' }: DiffViewerProps) {
+  const [viewMode, setViewMode] = useState<DiffViewMode>(defaultViewMode)
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set())
+
+  const prepared = useMemo<PreparedFileDiff[]>(() => diffs.map(diff => {
+    if (diff.isBinary || (diff.oldContent === undefined && diff.newContent === undefined)) {
+      return { diff, hunks: [], additions: diff.additions, deletions: diff.deletions }
+    }
+
+    const lines = diffLines(diff.oldContent ?? '', diff.newContent ?? '')
+    return { diff, hunks: buildHunks(lines), ...countChanges(lines) }
+  }), [diffs])
+
+  const totals = prepared.reduce(
+    (sum, file) => ({ additions: sum.additions + file.additions, deletions: sum.deletions + file.deletions }),
+    { additions: 0, deletions: 0 }
+  )
+
+  const toggleFile = (path: string) => {
+    setCollapsed(prev => {
+      const next = new Set(prev)
+      if (next.has(path)) {
+        next.delete(path)
+      } else {
+        next.add(path)
+      }
+      return next
+    })
+  }
+
+  const renderUnifiedHunk = (hunk: DiffHunk) => (
+    <tbody key={`${hunk.oldStart}-${hunk.newStart}`}>
+      <tr className="diff-hunk-header">
+        <td colSpan={4}>@@ -{hunk.oldStart},{hunk.oldLines} +{hunk.newStart},{hunk.newLines} @@</td>
+      </tr>
+      {hunk.lines.map((line, index) => (
+        <tr key={index} className={`diff-line diff-line-${line.type}`}>
+          <td className="diff-line-number">{line.oldLineNumber ?? ''}</td>
+          <td className="diff-line-number">{line.newLineNumber ?? ''}</td>
+          <td className="diff-line-prefix">{getLinePrefix(line)}</td>
+          <td className="diff-line-content">{line.content}</td>
+        </tr>
+      ))}
+    </tbody>
+  )
+
+  const renderSplitHunk = (hunk: DiffHunk) => (
+    <tbody key={`${hunk.oldStart}-${hunk.newStart}`}>
+      <tr className="diff-hunk-header">
+        <td colSpan={4}>@@ -{hunk.oldStart},{hunk.oldLines} +{hunk.newStart},{hunk.newLines} @@</td>
+      </tr>
+      {toSplitRows(hunk.lines).map((row, index) => (
+        <tr key={index} className="diff-line">
+          <td className="diff-line-number">{row.left?.oldLineNumber ?? ''}</td>
+          <td className={`diff-line-content diff-split-cell ${row.left ? `diff-line-${row.left.type}` : 'diff-line-empty'}`}>
+            {row.left?.content}
+          </td>
+          <td className="diff-line-number">{row.right?.newLineNumber ?? ''}</td>
+          <td className={`diff-line-content diff-split-cell ${row.right ? `diff-line-${row.right.type}` : 'diff-line-empty'}`}>
+            {row.right?.content}
+          </td>
+        </tr>
+      ))}
+    </tbody>
+  )
+
+  const renderFileBody = (file: PreparedFileDiff) => {
+    if (file.diff.isBinary) {
+      return <div className="diff-notice">Binary file not shown.</div>
+    }
+    if (file.hunks.length === 0) {
+      return <div className="diff-notice">No textual changes.</div>
+    }
+
+    return (
+      <div className="diff-table-wrapper">
+        <table className={`diff-table diff-table-${viewMode}`}>
+          {viewMode === 'unified'
+            ? file.hunks.map(renderUnifiedHunk)
+            : file.hunks.map(renderSplitHunk)}
+        </table>
+      </div>
+    )
+  }
+
+  if (diffs.length === 0) {
+    return <div className="diff-viewer-empty">{emptyMessage}</div>
+  }
+
+  return (
+    <div className="diff-viewer">
+      <div className="diff-toolbar">
+        <div className="diff-summary">
+          <span>{diffs.length} {diffs.length === 1 ? 'file' : 'files'} changed</span>
+          <span className="additions">+{totals.additions}</span>
+          <span className="deletions">-{totals.deletions}</span>
+        </div>
+        <div className="diff-toolbar-actions">
+          <button
+            className="diff-toolbar-btn"
+            onClick={() => setCollapsed(new Set())}
+          >
+            Expand all
+          </button>
+          <button
+            className="diff-toolbar-btn"
+            onClick={() => setCollapsed(new Set(diffs.map(diff => diff.path)))}
+          >
+            Collapse all
+          </button>
+          <div className="diff-view-toggle">
+            <button
+              className={`diff-toolbar-btn ${viewMode === 'unified' ? 'active' : ''}`}
+              onClick={() => setViewMode('unified')}
+            >
+              Unified
+            </button>
+            <button
+              className={`diff-toolbar-btn ${viewMode === 'split' ? 'active' : ''}`}
+              onClick={() => setViewMode('split')}
+            >
+              Split
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {prepared.map(file => {
+        const isCollapsed = collapsed.has(file.diff.path)
+
+        return (
+          <div key={file.diff.path} className="diff-file">
+            <button
+              className="diff-file-header"
+              onClick={() => toggleFile(file.diff.path)}
+              aria-expanded={!isCollapsed}
+            >
+              <span className="diff-file-toggle">{isCollapsed ? '▸' : '▾'}</span>
+              <span className={`diff-action-badge ${file.diff.action.type.toLowerCase()}`}>
+                {getActionLabel(file.diff)}
+              </span>
+              <span className="diff-file-path">
+                {file.diff.action.type === 'Rename'
+                  ? `${file.diff.action.from} → ${file.diff.action.to}`
+                  : file.diff.path}
+              </span>
+              <span className="diff-file-stats">
+                <span className="additions">+{file.additions}</span>
+                <span className="deletions">-{file.deletions}</span>
+              </span>
+            </button>
+            {!isCollapsed && renderFileBody(file)}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
+
+export default DiffViewer
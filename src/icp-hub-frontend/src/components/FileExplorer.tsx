@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import apiService from '../services/api.js';
+import PathActionModal, { type PathAction } from './PathActionModal';
 import './FileExplorer.css';
 
 export interface FileNode {
@@ -18,6 +19,10 @@ export interface FileExplorerProps {
   onFileSelect: (file: FileNode) => void | Promise<void>;
   onFileUpload?: () => void;
   refreshTrigger?: number; // Add this to trigger refresh
+  // Each of these becomes one commit; they reject with a message to show when it fails
+  onDeleteItem?: (item: FileNode) => Promise<void>;
+  onMoveItem?: (item: FileNode, destination: string) => Promise<void>;
+  onCopyItem?: (item: FileNode, destination: string) => Promise<void>;
 }
 
 const FileExplorer: React.FC<FileExplorerProps> = ({
@@ -25,7 +30,10 @@ const FileExplorer: React.FC<FileExplorerProps> = ({
   currentPath = '',
   onFileSelect,
   onFileUpload,
-  refreshTrigger
+  refreshTrigger,
+  onDeleteItem,
+  onMoveItem,
+  onCopyItem
 }) => {
   const [files, setFiles] = useState<FileNode[]>([]);
   const [loading, setLoading] = useState(true);
@@ -33,6 +41,7 @@ const FileExplorer: React.FC<FileExplorerProps> = ({
   const [expandedFolders, setExpandedFolders] = useState<Set<string>>(new Set());
   const [selectedItem, setSelectedItem] = useState<string | null>(null);
   const [contextMenu, setContextMenu] = useState<{ x: number; y: number; item: FileNode } | null>(null);
+  const [pathAction, setPathAction] = useState<{ action: PathAction; item: FileNode } | null>(null);
 
   // Fetch files when component mounts or dependencies change
   useEffect(() => {
@@ -181,9 +190,29 @@ const FileExplorer: React.FC<FileExplorerProps> = ({
   };
 
   // Handler for deleting items
-  const handleDeleteItem = (path: string, isFolder: boolean) => {
-    console.log('Delete', isFolder ? 'folder' : 'file', path);
-    // Implement confirmation and deletion logic
+  const handleDeleteItem = async (item: FileNode) => {
+    if (!onDeleteItem) return;
+    const prompt = item.isFolder
+      ? `Delete the folder ${item.path} and everything in it?`
+      : `Delete ${item.path}?`;
+    if (!window.confirm(prompt)) return;
+
+    try {
+      await onDeleteItem(item);
+    } catch (err) {
+      // The parent reports the failure alongside its other file operations
+      console.error('Error deleting item:', err);
+    }
+  };
+
+  const handlePathAction = async (destination: string) => {
+    if (!pathAction) return;
+    const { action, item } = pathAction;
+    if (action === 'copy') {
+      await onCopyItem?.(item, destination);
+    } else {
+      await onMoveItem?.(item, destination);
+    }
   };
 
   const formatFileSize = (bytes?: number): string => {
@@ -349,17 +378,64 @@ const FileExplorer: React.FC<FileExplorerProps> = ({
               <hr />
             </>
           ) : null}
-          <div 
-            className="context-menu-item delete"
-            onClick={() => {
-              handleDeleteItem(contextMenu.item.path, contextMenu.item.isFolder);
-              closeContextMenu();
-            }}
-          >
-            🗑️ Delete
-          </div>
+          {onMoveItem && (
+            <>
+              <div 
+                className="context-menu-item"
+                onClick={() => {
+                  setPathAction({ action: 'rename', item: contextMenu.item });
+                  closeContextMenu();
+                }}
+              >
+                ✏️ Rename
+              </div>
+              <div 
+                className="context-menu-item"
+                onClick={() => {
+                  setPathAction({ action: 'move', item: contextMenu.item });
+                  closeContextMenu();
+                }}
+              >
+                📋 Move
+              </div>
+            </>
+          )}
+          {onCopyItem && (
+            <div 
+              className="context-menu-item"
+              onClick={() => {
+                setPathAction({ action: 'copy', item: contextMenu.item });
+                closeContextMenu();
+              }}
+            >
+              📄 Copy
+            </div>
+          )}
+          {onDeleteItem && (
+            <>
+              <hr />
+              <div 
+                className="context-menu-item delete"
+                onClick={() => {
+                  handleDeleteItem(contextMenu.item);
+                  closeContextMenu();
+                }}
+              >
+                🗑️ Delete
+              </div>
+            </>
+          )}
         </div>
       )}
+
+      {pathAction && (
+        <PathActionModal
+          action={pathAction.action}
+          item={pathAction.item}
+          onClose={() => setPathAction(null)}
+          onSubmit={handlePathAction}
+        />
+      )}
     </div>
   );
 };
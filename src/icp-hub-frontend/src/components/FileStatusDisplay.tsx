@@ -3,7 +3,7 @@ import './FileStatusDisplay.css'
 
 export interface FileOperation {
   id: string
-  type: 'upload' | 'create-folder' | 'delete' | 'move' | 'copy'
+  type: 'upload' | 'create-folder' | 'delete' | 'move' | 'copy' | 'edit'
   status: 'pending' | 'success' | 'error'
   message: string
   details?: string
@@ -53,6 +53,7 @@ const FileStatusDisplay: React.FC<FileStatusDisplayProps> = ({
       case 'delete': return '🗑️'
       case 'move': return '📋'
       case 'copy': return '📄'
+      case 'edit': return '✏️'
       default: return '✅'
     }
   }
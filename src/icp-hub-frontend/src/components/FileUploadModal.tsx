@@ -1,17 +1,34 @@
 import React, { useState, useRef, useCallback } from 'react'
+import fileService, {
+  MAX_UPLOAD_SIZE,
+  type FileUploadProgress,
+  type FileUploadStage,
+  type PendingUpload,
+  type UploadItem
+} from '../services/fileService'
+import { buildUploadTree, collectDroppedFiles, itemsFromFileList, type UploadTreeNode } from '../utils/folderUpload'
 import './FileUploadModal.css'
 
 interface FileUploadModalProps {
   isOpen: boolean
   onClose: () => void
-  onUpload: (files: File[]) => Promise<void>
+  onUpload: (
+    files: UploadItem[],
+    commitMessage: string,
+    onProgress: (path: string, progress: FileUploadProgress) => void
+  ) => Promise<void>
   currentPath: string
+  repositoryId: string
 }
 
 interface FileWithStatus {
   file: File
+  // Relative to the upload folder, e.g. src/utils/index.ts for a dropped src folder
+  path: string
   status: 'pending' | 'uploading' | 'success' | 'error'
   progress: number
+  stage?: FileUploadStage
+  resumedBytes?: number
   error?: string
 }
 
@@ -19,13 +36,16 @@ const FileUploadModal: React.FC<FileUploadModalProps> = ({
   isOpen,
   onClose,
   onUpload,
-  currentPath
+  currentPath,
+  repositoryId
 }) => {
   const [files, setFiles] = useState<FileWithStatus[]>([])
+  const [pendingUploads, setPendingUploads] = useState<PendingUpload[]>(() => fileService.getPendingUploads(repositoryId))
   const [commitMessage, setCommitMessage] = useState('')
   const [isUploading, setIsUploading] = useState(false)
   const [dragActive, setDragActive] = useState(false)
   const fileInputRef = useRef<HTMLInputElement>(null)
+  const folderInputRef = useRef<HTMLInputElement | null>(null)
   const dropZoneRef = useRef<HTMLDivElement>(null)
 
   if (!isOpen) return null
@@ -40,36 +60,42 @@ const FileUploadModal: React.FC<FileUploadModalProps> = ({
     }
   }
 
+  const addItems = (items: UploadItem[]) => {
+    const newFiles = items.map(item => ({ ...item, status: 'pending' as const, progress: 0 }))
+    // Adding a file again replaces the earlier copy at the same path
+    const paths = new Set(newFiles.map(f => f.path))
+    setFiles(prev => [...prev.filter(f => !paths.has(f.path)), ...newFiles])
+  }
+
   const handleDrop = (e: React.DragEvent) => {
     e.preventDefault()
     e.stopPropagation()
     setDragActive(false)
 
-    if (e.dataTransfer.files && e.dataTransfer.files[0]) {
-      const newFiles = Array.from(e.dataTransfer.files).map(file => ({
-        file,
-        status: 'pending' as const,
-        progress: 0
-      }))
-      setFiles(prev => [...prev, ...newFiles])
-    }
+    collectDroppedFiles(e.dataTransfer)
+      .then(addItems)
+      .catch(error => {
+        console.error('Failed to read dropped files:', error)
+        alert('Some of the dropped files could not be read. Please try selecting them instead.')
+      })
   }
 
   const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
     if (event.target.files) {
-      const newFiles = Array.from(event.target.files).map(file => ({
-        file,
-        status: 'pending' as const,
-        progress: 0
-      }))
-      setFiles(prev => [...prev, ...newFiles])
+      addItems(itemsFromFileList(event.target.files))
     }
+    // Let the same files or folder be picked again
+    event.target.value = ''
   }
 
   const removeFile = (index: number) => {
     setFiles(prev => prev.filter((_, i) => i !== index))
   }
 
+  const removeFolder = (folderPath: string) => {
+    setFiles(prev => prev.filter(f => !f.path.startsWith(`${folderPath}/`)))
+  }
+
   const validateFiles = (): boolean => {
     if (files.length === 0) {
       alert('Please select at least one file to upload')
@@ -81,17 +107,22 @@ const FileUploadModal: React.FC<FileUploadModalProps> = ({
       return false
     }
 
-    // Check for invalid characters in filenames
-    const invalidFiles = files.filter(fileWithStatus => {
-      const fileName = fileWithStatus.file.name
-      return /[\\/:*?"<>|]/.test(fileName)
-    })
+    // Check for invalid characters in file and folder names
+    const invalidFiles = files.filter(fileWithStatus =>
+      fileWithStatus.path.split('/').some(name => !name || /[\\:*?"<>|]/.test(name))
+    )
 
     if (invalidFiles.length > 0) {
       alert('Some files have invalid names. Please rename them before uploading.')
       return false
     }
 
+    const oversizedFiles = files.filter(fileWithStatus => fileWithStatus.file.size > MAX_UPLOAD_SIZE)
+    if (oversizedFiles.length > 0) {
+      alert(`Files larger than 10 MB cannot be uploaded: ${oversizedFiles.map(f => f.file.name).join(', ')}`)
+      return false
+    }
+
     return true
   }
 
@@ -99,12 +130,33 @@ const FileUploadModal: React.FC<FileUploadModalProps> = ({
     if (!validateFiles()) return
 
     setIsUploading(true)
-    
+    // Files that went up on an earlier try are not sent again
+    const remaining = files.filter(f => f.status !== 'success')
+    setFiles(prev => prev.map(f => f.status === 'success' ? f : { ...f, status: 'uploading', progress: 0, error: undefined }))
+    let failedCount = 0
+
     try {
-      // Extract just the File objects for upload
-      const fileList = files.map(f => f.file)
-      await onUpload(fileList)
-      
+      const items = remaining.map(f => ({ file: f.file, path: f.path }))
+      await onUpload(items, commitMessage.trim(), (path, progress) => {
+        if (progress.stage === 'failed') failedCount++
+        setFiles(prev => prev.map(f => f.path !== path ? f : {
+          ...f,
+          status: progress.stage === 'failed' ? 'error' : progress.stage === 'done' ? 'success' : 'uploading',
+          progress: progress.percentage,
+          stage: progress.stage,
+          resumedBytes: progress.resumedBytes,
+          error: progress.error
+        }))
+      })
+
+      if (failedCount > 0) {
+        // Keep the files listed so they can be retried; ones that did arrive were not committed
+        // either, and go up again straight from the chunks the canister kept
+        setFiles(prev => prev.map(f => f.status === 'uploading' ? { ...f, status: 'pending', progress: 0, stage: undefined } : f))
+        setPendingUploads(fileService.getPendingUploads(repositoryId))
+        return
+      }
+
       // Reset form after successful upload
       setFiles([])
       setCommitMessage('')
@@ -117,6 +169,28 @@ const FileUploadModal: React.FC<FileUploadModalProps> = ({
     }
   }
 
+  const discardPendingUpload = async (upload: PendingUpload) => {
+    await fileService.discardPendingUpload(upload)
+    setPendingUploads(fileService.getPendingUploads(repositoryId))
+  }
+
+  const getStatusText = (fileWithStatus: FileWithStatus): string => {
+    if (fileWithStatus.status === 'error') return fileWithStatus.error || 'Upload failed'
+    if (fileWithStatus.status === 'success') return 'Uploaded'
+    switch (fileWithStatus.stage) {
+      case 'hashing':
+        return 'Preparing...'
+      case 'finalizing':
+        return 'Saving...'
+      default: {
+        const resumed = fileWithStatus.resumedBytes
+          ? ` (resumed at ${formatFileSize(fileWithStatus.resumedBytes)})`
+          : ''
+        return `${fileWithStatus.progress}%${resumed}`
+      }
+    }
+  }
+
   const formatFileSize = (bytes: number): string => {
     if (bytes === 0) return '0 B'
     const k = 1024
@@ -167,6 +241,61 @@ const FileUploadModal: React.FC<FileUploadModalProps> = ({
     }
   }
 
+  const renderFile = (fileWithStatus: FileWithStatus, index: number, depth: number) => (
+    <div key={fileWithStatus.path} className="file-item" style={{ marginLeft: depth * 20 }}>
+      <div className="file-info">
+        <span className="file-icon">{getFileIcon(fileWithStatus.file.name)}</span>
+        <div className="file-details">
+          <span className="file-name">{fileWithStatus.file.name}</span>
+          <span className="file-size">{formatFileSize(fileWithStatus.file.size)}</span>
+          {fileWithStatus.status !== 'pending' && (
+            <>
+              <div className="file-progress">
+                <div
+                  className={`file-progress-bar ${fileWithStatus.status}`}
+                  style={{ width: `${fileWithStatus.progress}%` }}
+                />
+              </div>
+              <span className={`file-status ${fileWithStatus.status}`}>
+                {getStatusText(fileWithStatus)}
+              </span>
+            </>
+          )}
+        </div>
+      </div>
+      <button
+        className="remove-file-btn"
+        onClick={() => removeFile(index)}
+        type="button"
+        disabled={isUploading}
+      >
+        ✕
+      </button>
+    </div>
+  )
+
+  const renderTree = (nodes: UploadTreeNode[], depth: number): React.ReactNode =>
+    nodes.map(node => node.index !== undefined ? renderFile(files[node.index], node.index, depth) : (
+      <div key={`${node.path}/`} className="upload-tree-folder">
+        <div className="file-item folder-item" style={{ marginLeft: depth * 20 }}>
+          <div className="file-info">
+            <span className="file-icon">📁</span>
+            <span className="file-name">{node.name}/</span>
+          </div>
+          <button
+            className="remove-file-btn"
+            onClick={() => removeFolder(node.path)}
+            type="button"
+            disabled={isUploading}
+            title={`Remove ${node.path}`}
+          >
+            ✕
+          </button>
+        </div>
+        {renderTree(node.children, depth + 1)}
+      </div>
+    ))
+
   return (
     <div className="modal-overlay" onClick={onClose}>
       <div className="file-upload-modal" onClick={(e) => e.stopPropagation()}>
@@ -195,14 +324,23 @@ const FileUploadModal: React.FC<FileUploadModalProps> = ({
           >
             <div className="drop-zone-content">
               <div className="drop-icon">📁</div>
-              <p>Drag and drop files here, or</p>
-              <button
-                className="btn-select-files"
-                onClick={() => fileInputRef.current?.click()}
-                type="button"
-              >
-                Select Files
-              </button>
+              <p>Drag and drop files or folders here, or</p>
+              <div className="select-buttons">
+                <button
+                  className="btn-select-files"
+                  onClick={() => fileInputRef.current?.click()}
+                  type="button"
+                >
+                  Select Files
+                </button>
+                <button
+                  className="btn-select-files"
+                  onClick={() => folderInputRef.current?.click()}
+                  type="button"
+                >
+                  Select Folder
+                </button>
+              </div>
               <input
                 ref={fileInputRef}
                 type="file"
@@ -210,35 +348,49 @@ const FileUploadModal: React.FC<FileUploadModalProps> = ({
                 onChange={handleFileSelect}
                 style={{ display: 'none' }}
               />
+              <input
+                // React has no prop for webkitdirectory, so it is set on the element directly
+                ref={input => {
+                  folderInputRef.current = input
+                  input?.setAttribute('webkitdirectory', '')
+                }}
+                type="file"
+                onChange={handleFileSelect}
+                style={{ display: 'none' }}
+              />
             </div>
           </div>
 
-          {/* File List */}
-          {files.length > 0 && (
-            <div className="file-list">
-              <h3>Selected Files ({files.length})</h3>
-              {files.map((fileWithStatus, index) => (
-                <div key={index} className="file-item">
-                  <div className="file-info">
-                    <span className="file-icon">{getFileIcon(fileWithStatus.file.name)}</span>
-                    <div className="file-details">
-                      <span className="file-name">{fileWithStatus.file.name}</span>
-                      <span className="file-size">{formatFileSize(fileWithStatus.file.size)}</span>
-                    </div>
-                  </div>
+          {/* Interrupted uploads */}
+          {pendingUploads.length > 0 && (
+            <div className="pending-uploads">
+              <div className="tip-title">Unfinished uploads</div>
+              <p>Select the same file again to continue where it stopped.</p>
+              {pendingUploads.map(upload => (
+                <div key={upload.uploadId} className="pending-upload">
+                  <span className="file-name">/{upload.path}</span>
+                  <span className="file-size">{formatFileSize(upload.size)}</span>
                   <button
-                    className="remove-file-btn"
-                    onClick={() => removeFile(index)}
                     type="button"
+                    className="btn-discard-upload"
+                    onClick={() => discardPendingUpload(upload)}
                     disabled={isUploading}
                   >
-                    ✕
+                    Discard
                   </button>
                 </div>
               ))}
             </div>
           )}
 
+          {/* File List */}
+          {files.length > 0 && (
+            <div className="file-list">
+              <h3>Selected Files ({files.length})</h3>
+              {renderTree(buildUploadTree(files.map(f => f.path)), 0)}
+            </div>
+          )}
+
           {/* Commit Message */}
           <div className="form-group">
             <label htmlFor="commitMessage">Commit Message</label>
@@ -258,9 +410,10 @@ const FileUploadModal: React.FC<FileUploadModalProps> = ({
             <div className="tip-title">Upload Guidelines</div>
             <ul>
               <li>Files will be uploaded to the current directory</li>
-              <li>Large files may take longer to upload</li>
+              <li>Folders keep their structure, and missing folders are created for you</li>
+              <li>Large files are sent in 1 MB chunks and resume if the upload is interrupted</li>
               <li>Supported file types: All common development files</li>
-              <li>Maximum file size: 100MB per file</li>
+              <li>Maximum file size: 10 MB per file</li>
             </ul>
           </div>
         </div>
@@ -280,7 +433,11 @@ const FileUploadModal: React.FC<FileUploadModalProps> = ({
             onClick={handleUpload}
             disabled={isUploading || files.length === 0 || !commitMessage.trim()}
           >
-            {isUploading ? 'Uploading...' : `Upload ${files.length} File${files.length !== 1 ? 's' : ''}`}
+            {isUploading
+              ? 'Uploading...'
+              : files.some(f => f.status === 'error')
+                ? 'Retry Failed Files'
+                : `Upload ${files.length} File${files.length !== 1 ? 's' : ''}`}
           </button>
         </div>
       </div>
@@ -1,128 +1,226 @@
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useCallback } from 'react'
+import gitService from '../services/gitService'
+import type { GitBranch, GitCommit, FileDiff } from '../types/git'
+import DiffViewer from './DiffViewer'
 import './GitOperations.css'
 
-interface Branch {
-  name: string
-  commitId: string
-  isDefault: boolean
-  isCurrent: boolean
-  lastCommit: string
-  ahead: number
-  behind: number
-}
-
-interface Commit {
-  id: string
-  message: string
-  author: string
-  timestamp: Date
-  hash: string
-  branch: string
-  filesChanged: number
-  additions: number
-  deletions: number
-}
-
-
-
 interface GitOperationsProps {
   repositoryId: string
   currentBranch: string
+  // When given, the open commit follows this id, e.g. from a link, and changes go through onSelectCommit
+  selectedCommitId?: string | null
+  onSelectCommit?: (commit: GitCommit | null) => void
 }
 
-function GitOperations({ repositoryId: _repositoryId, currentBranch }: GitOperationsProps) {
+const COMMITS_PAGE_SIZE = 20
+const BRANCH_NAME_PATTERN = /^[A-Za-z0-9._/-]+$/
+
+function GitOperations({ repositoryId, currentBranch, selectedCommitId, onSelectCommit }: GitOperationsProps) {
   const [activeTab, setActiveTab] = useState<'branches' | 'commits'>('branches')
-  const [branches, setBranches] = useState<Branch[]>([])
-  const [commits, setCommits] = useState<Commit[]>([])
+  const [branches, setBranches] = useState<GitBranch[]>([])
+  const [commits, setCommits] = useState<GitCommit[]>([])
+  const [activeBranch, setActiveBranch] = useState(currentBranch)
+  const [hasMoreCommits, setHasMoreCommits] = useState(false)
+  const [loading, setLoading] = useState(true)
+  const [commitsLoading, setCommitsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [pendingBranch, setPendingBranch] = useState<string | null>(null)
   const [showCreateBranch, setShowCreateBranch] = useState(false)
-  const [selectedCommit, setSelectedCommit] = useState<Commit | null>(null)
+  const [selectedCommit, setSelectedCommit] = useState<GitCommit | null>(null)
+  const [commitDiff, setCommitDiff] = useState<FileDiff[]>([])
+  const [diffLoading, setDiffLoading] = useState(false)
+  const [diffError, setDiffError] = useState<string | null>(null)
+
+  // Create branch form
+  const [newBranchName, setNewBranchName] = useState('')
+  const [fromBranch, setFromBranch] = useState(currentBranch)
+  const [isCreating, setIsCreating] = useState(false)
+  const [createError, setCreateError] = useState<string | null>(null)
+
+  const loadBranches = useCallback(async () => {
+    const [branchList, current] = await Promise.all([
+      gitService.listBranches(repositoryId),
+      gitService.getCurrentBranch(repositoryId).catch(() => null)
+    ])
+
+    setBranches(branchList)
+    if (current) {
+      setActiveBranch(current.name)
+    }
+    return current?.name
+  }, [repositoryId])
+
+  const loadCommits = useCallback(async (branch: string, offset: number) => {
+    setCommitsLoading(true)
+    try {
+      const history = await gitService.getCommitHistory(repositoryId, {
+        branch,
+        limit: COMMITS_PAGE_SIZE,
+        offset
+      })
 
-  // Mock data for demonstration
+      setCommits(prev => offset === 0 ? history.commits : [...prev, ...history.commits])
+      setHasMoreCommits(history.hasMore)
+    } finally {
+      setCommitsLoading(false)
+    }
+  }, [repositoryId])
+
+  const refresh = useCallback(async () => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      const current = await loadBranches()
+      await loadCommits(current || currentBranch, 0)
+    } catch (err) {
+      console.error('Error loading git data:', err)
+      setError(err instanceof Error ? err.message : 'Failed to load git data')
+    } finally {
+      setLoading(false)
+    }
+  }, [loadBranches, loadCommits, currentBranch])
+
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  // A linked commit shows once it has loaded; without a link the open commit is local state
+  const linkedCommitOpen = !!selectedCommit &&
+    (selectedCommit.id === selectedCommitId || selectedCommit.hash === selectedCommitId)
+  const shownCommit = selectedCommitId === undefined || linkedCommitOpen ? selectedCommit : null
+
+  // Load a linked commit that isn't the one already open
   useEffect(() => {
-    const mockBranches: Branch[] = [
-      {
-        name: 'main',
-        commitId: 'abc123',
-        isDefault: true,
-        isCurrent: true,
-        lastCommit: 'Update authentication system',
-        ahead: 0,
-        behind: 0
-      },
-      {
-        name: 'develop',
-        commitId: 'def456',
-        isDefault: false,
-        isCurrent: false,
-        lastCommit: 'Add new features',
-        ahead: 5,
-        behind: 2
-      },
-      {
-        name: 'feature/user-management',
-        commitId: 'ghi789',
-        isDefault: false,
-        isCurrent: false,
-        lastCommit: 'Implement user roles',
-        ahead: 12,
-        behind: 8
-      },
-      {
-        name: 'hotfix/security-patch',
-        commitId: 'jkl012',
-        isDefault: false,
-        isCurrent: false,
-        lastCommit: 'Fix authentication vulnerability',
-        ahead: 3,
-        behind: 1
-      }
-    ]
-
-    const mockCommits: Commit[] = [
-      {
-        id: 'abc123',
-        message: 'Update authentication system',
-        author: 'alice',
-        timestamp: new Date('2024-01-16T10:30:00'),
-        hash: 'abc123def456',
-        branch: 'main',
-        filesChanged: 8,
-        additions: 156,
-        deletions: 23
-      },
-      {
-        id: 'def456',
-        message: 'Add new features',
-        author: 'bob',
-        timestamp: new Date('2024-01-15T15:45:00'),
-        hash: 'def456ghi789',
-        branch: 'develop',
-        filesChanged: 12,
-        additions: 234,
-        deletions: 45
-      },
-      {
-        id: 'ghi789',
-        message: 'Implement user roles',
-        author: 'charlie',
-        timestamp: new Date('2024-01-14T09:20:00'),
-        hash: 'ghi789jkl012',
-        branch: 'feature/user-management',
-        filesChanged: 15,
-        additions: 345,
-        deletions: 67
-      }
-    ]
-
-    setBranches(mockBranches)
-    setCommits(mockCommits)
-  }, [])
-
-
-
-  const formatDate = (date: Date) => {
-    return date.toLocaleDateString('en-US', { 
-      month: 'short', 
+    if (!selectedCommitId || linkedCommitOpen) return
+
+    let cancelled = false
+    gitService.getCommit(repositoryId, selectedCommitId)
+      .then(commit => {
+        if (!cancelled) setSelectedCommit(commit)
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load commit')
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [repositoryId, selectedCommitId, linkedCommitOpen])
+
+  const openCommit = (commit: GitCommit | null) => {
+    setSelectedCommit(commit)
+    onSelectCommit?.(commit)
+  }
+
+  useEffect(() => {
+    if (!shownCommit) return
+
+    let cancelled = false
+    setCommitDiff([])
+    setDiffError(null)
+    setDiffLoading(true)
+
+    gitService.getCommitDiff(repositoryId, shownCommit.id)
+      .then(diffs => {
+        if (!cancelled) setCommitDiff(diffs)
+      })
+      .catch(err => {
+        if (!cancelled) setDiffError(err instanceof Error ? err.message : 'Failed to load commit diff')
+      })
+      .finally(() => {
+        if (!cancelled) setDiffLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [repositoryId, shownCommit])
+
+  const handleCheckout = async (branchName: string) => {
+    try {
+      setPendingBranch(branchName)
+      setError(null)
+
+      await gitService.switchBranch(repositoryId, branchName)
+      setActiveBranch(branchName)
+      await loadCommits(branchName, 0)
+      await loadBranches()
+    } catch (err) {
+      console.error('Error switching branch:', err)
+      setError(err instanceof Error ? err.message : 'Failed to switch branch')
+    } finally {
+      setPendingBranch(null)
+    }
+  }
+
+  const handleDeleteBranch = async (branchName: string) => {
+    if (!window.confirm(`Delete branch "${branchName}"? This cannot be undone.`)) {
+      return
+    }
+
+    try {
+      setPendingBranch(branchName)
+      setError(null)
+
+      await gitService.deleteBranch(repositoryId, branchName)
+      await loadBranches()
+    } catch (err) {
+      console.error('Error deleting branch:', err)
+      setError(err instanceof Error ? err.message : 'Failed to delete branch')
+    } finally {
+      setPendingBranch(null)
+    }
+  }
+
+  const openCreateBranch = () => {
+    setNewBranchName('')
+    setFromBranch(activeBranch)
+    setCreateError(null)
+    setShowCreateBranch(true)
+  }
+
+  const validateBranchName = (name: string): string | null => {
+    if (!name) return 'Branch name is required'
+    if (!BRANCH_NAME_PATTERN.test(name)) {
+      return 'Branch names may only contain letters, numbers, ".", "_", "-" and "/"'
+    }
+    if (name.startsWith('/') || name.endsWith('/') || name.includes('//') || name.includes('..')) {
+      return 'Branch name is not a valid ref name'
+    }
+    if (branches.some(branch => branch.name === name)) {
+      return `Branch "${name}" already exists`
+    }
+    return null
+  }
+
+  const handleCreateBranch = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const name = newBranchName.trim()
+    const validationError = validateBranchName(name)
+    if (validationError) {
+      setCreateError(validationError)
+      return
+    }
+
+    setIsCreating(true)
+    setCreateError(null)
+    try {
+      await gitService.createBranch(repositoryId, name, fromBranch)
+      await loadBranches()
+      setShowCreateBranch(false)
+    } catch (err) {
+      console.error('Error creating branch:', err)
+      setCreateError(err instanceof Error ? err.message : 'Failed to create branch')
+    } finally {
+      setIsCreating(false)
+    }
+  }
+
+  const formatDate = (timestamp: number) => {
+    return new Date(timestamp).toLocaleDateString('en-US', {
+      month: 'short',
       day: 'numeric',
       hour: '2-digit',
       minute: '2-digit'
@@ -133,24 +231,32 @@ function GitOperations({ repositoryId: _repositoryId, currentBranch }: GitOperat
     return hash.substring(0, 8)
   }
 
+  const getShortPrincipal = (principal: string) => {
+    return principal.length > 16 ? `${principal.slice(0, 8)}...${principal.slice(-5)}` : principal
+  }
+
+  const getLastCommitMessage = (branch: GitBranch) => {
+    return commits.find(commit => commit.id === branch.commitId)?.message
+  }
+
   return (
     <div className="git-operations">
       <div className="git-operations-header">
         <h2>Git Operations</h2>
         <div className="current-branch">
           <span className="branch-label">Current Branch:</span>
-          <span className="branch-name">{currentBranch}</span>
+          <span className="branch-name">{activeBranch}</span>
         </div>
       </div>
 
       <div className="git-tabs">
-        <button 
+        <button
           className={`git-tab ${activeTab === 'branches' ? 'active' : ''}`}
           onClick={() => setActiveTab('branches')}
         >
           🌿 Branches
         </button>
-        <button 
+        <button
           className={`git-tab ${activeTab === 'commits' ? 'active' : ''}`}
           onClick={() => setActiveTab('commits')}
         >
@@ -158,148 +264,257 @@ function GitOperations({ repositoryId: _repositoryId, currentBranch }: GitOperat
         </button>
       </div>
 
-      {/* Branches Tab */}
-      {activeTab === 'branches' && (
-        <div className="git-tab-content">
-          <div className="tab-header">
-            <h3>Branch Management</h3>
-            <button 
-              className="btn-primary"
-              onClick={() => setShowCreateBranch(true)}
-            >
-              + New Branch
-            </button>
-          </div>
-
-          <div className="branches-list">
-            {branches.map(branch => (
-              <div key={branch.name} className={`branch-item ${branch.isCurrent ? 'current' : ''}`}>
-                <div className="branch-info">
-                  <div className="branch-name-section">
-                    <span className="branch-name">{branch.name}</span>
-                    {branch.isDefault && <span className="default-badge">Default</span>}
-                    {branch.isCurrent && <span className="current-badge">Current</span>}
-                  </div>
-                  <div className="branch-details">
-                    <span className="commit-hash">{getShortHash(branch.commitId)}</span>
-                    <span className="last-commit">{branch.lastCommit}</span>
-                  </div>
-                </div>
-                <div className="branch-status">
-                  {branch.ahead > 0 && <span className="ahead">↑ {branch.ahead}</span>}
-                  {branch.behind > 0 && <span className="behind">↓ {branch.behind}</span>}
-                </div>
-                <div className="branch-actions">
-                  {!branch.isCurrent && (
-                    <button className="btn-secondary">Checkout</button>
-                  )}
-                  {!branch.isDefault && (
-                    <button className="btn-danger">Delete</button>
-                  )}
-                </div>
-              </div>
-            ))}
-          </div>
+      {error && (
+        <div className="git-error">
+          <span>{error}</span>
+          <button className="btn-secondary" onClick={refresh}>Retry</button>
         </div>
       )}
 
-      {/* Commits Tab */}
-      {activeTab === 'commits' && (
-        <div className="git-tab-content">
-          <div className="tab-header">
-            <h3>Commit History</h3>
-          </div>
+      {loading ? (
+        <div className="git-loading">
+          <div className="loading-spinner"></div>
+          <p>Loading repository history...</p>
+        </div>
+      ) : (
+        <>
+          {/* Branches Tab */}
+          {activeTab === 'branches' && (
+            <div className="git-tab-content">
+              <div className="tab-header">
+                <h3>Branch Management</h3>
+                <button
+                  className="btn-primary"
+                  onClick={openCreateBranch}
+                >
+                  + New Branch
+                </button>
+              </div>
 
-          <div className="commits-list">
-            {commits.map(commit => (
-              <div 
-                key={commit.id} 
-                className="commit-item"
-                onClick={() => setSelectedCommit(commit)}
-              >
-                <div className="commit-header">
-                  <div className="commit-hash">{getShortHash(commit.hash)}</div>
-                  <div className="commit-branch">{commit.branch}</div>
-                </div>
-                <div className="commit-message">{commit.message}</div>
-                <div className="commit-meta">
-                  <span className="commit-author">👤 {commit.author}</span>
-                  <span className="commit-time">{formatDate(commit.timestamp)}</span>
-                  <span className="commit-files">📁 {commit.filesChanged} files</span>
-                  <span className="commit-changes">
-                    <span className="additions">+{commit.additions}</span>
-                    <span className="deletions">-{commit.deletions}</span>
-                  </span>
+              {branches.length === 0 ? (
+                <div className="git-empty">No branches found for this repository.</div>
+              ) : (
+                <div className="branches-list">
+                  {branches.map(branch => {
+                    const isCurrent = branch.name === activeBranch
+                    const lastCommit = getLastCommitMessage(branch)
+
+                    return (
+                      <div key={branch.name} className={`branch-item ${isCurrent ? 'current' : ''}`}>
+                        <div className="branch-info">
+                          <div className="branch-name-section">
+                            <span className="branch-name">{branch.name}</span>
+                            {branch.isDefault && <span className="default-badge">Default</span>}
+                            {isCurrent && <span className="current-badge">Current</span>}
+                          </div>
+                          <div className="branch-details">
+                            <span className="commit-hash">{branch.commitId ? getShortHash(branch.commitId) : 'no commits'}</span>
+                            {lastCommit && <span className="last-commit">{lastCommit}</span>}
+                          </div>
+                        </div>
+                        <div className="branch-actions">
+                          {!isCurrent && (
+                            <button
+                              className="btn-secondary"
+                              onClick={() => handleCheckout(branch.name)}
+                              disabled={pendingBranch !== null}
+                            >
+                              {pendingBranch === branch.name ? 'Switching...' : 'Checkout'}
+                            </button>
+                          )}
+                          {!branch.isDefault && !isCurrent && (
+                            <button
+                              className="btn-danger"
+                              onClick={() => handleDeleteBranch(branch.name)}
+                              disabled={pendingBranch !== null}
+                            >
+                              Delete
+                            </button>
+                          )}
+                        </div>
+                      </div>
+                    )
+                  })}
                 </div>
+              )}
+            </div>
+          )}
+
+          {/* Commits Tab */}
+          {activeTab === 'commits' && (
+            <div className="git-tab-content">
+              <div className="tab-header">
+                <h3>Commit History</h3>
               </div>
-            ))}
-          </div>
-        </div>
-      )}
 
+              {commits.length === 0 ? (
+                <div className="git-empty">No commits on {activeBranch} yet.</div>
+              ) : (
+                <div className="commits-list">
+                  {commits.map(commit => (
+                    <div
+                      key={commit.id}
+                      className="commit-item"
+                      onClick={() => openCommit(commit)}
+                    >
+                      <div className="commit-header">
+                        <div className="commit-hash">{getShortHash(commit.hash)}</div>
+                        <div className="commit-branch">{activeBranch}</div>
+                      </div>
+                      <div className="commit-message">{commit.message}</div>
+                      <div className="commit-meta">
+                        <span className="commit-author">👤 {getShortPrincipal(commit.author)}</span>
+                        <span className="commit-time">{formatDate(commit.timestamp)}</span>
+                        <span className="commit-files">📁 {commit.changedFiles.length} files</span>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
 
+              {hasMoreCommits && (
+                <div className="load-more">
+                  <button
+                    className="btn-secondary"
+                    onClick={() => loadCommits(activeBranch, commits.length).catch(err => {
+                      setError(err instanceof Error ? err.message : 'Failed to load commits')
+                    })}
+                    disabled={commitsLoading}
+                  >
+                    {commitsLoading ? 'Loading...' : 'Load more commits'}
+                  </button>
+                </div>
+              )}
+            </div>
+          )}
+        </>
+      )}
 
       {/* Commit Detail Modal */}
-      {selectedCommit && (
-        <div className="commit-detail-backdrop" onClick={() => setSelectedCommit(null)}>
-          <div className="commit-detail-modal" onClick={e => e.stopPropagation()}>
+      {shownCommit && (
+        <div className="commit-detail-backdrop" onClick={() => openCommit(null)}>
+          <div className="commit-detail-modal with-diff" onClick={e => e.stopPropagation()}>
             <div className="commit-detail-header">
               <h3>Commit Details</h3>
-              <button 
+              <button
                 className="close-btn"
-                onClick={() => setSelectedCommit(null)}
+                onClick={() => openCommit(null)}
               >
                 ✕
               </button>
             </div>
             <div className="commit-detail-content">
               <div className="commit-info">
-                <div className="commit-hash-full">{selectedCommit.hash}</div>
-                <div className="commit-message-full">{selectedCommit.message}</div>
-                <div className="commit-author-full">Author: {selectedCommit.author}</div>
-                <div className="commit-time-full">Time: {formatDate(selectedCommit.timestamp)}</div>
-                <div className="commit-branch-full">Branch: {selectedCommit.branch}</div>
+                <div className="commit-hash-full">{shownCommit.hash}</div>
+                <div className="commit-message-full">{shownCommit.message}</div>
+                <div className="commit-author-full">Author: {shownCommit.author}</div>
+                <div className="commit-time-full">Time: {formatDate(shownCommit.timestamp)}</div>
+                <div className="commit-branch-full">Branch: {activeBranch}</div>
               </div>
               <div className="commit-stats">
                 <div className="stat-item">
                   <span className="stat-label">Files Changed:</span>
-                  <span className="stat-value">{selectedCommit.filesChanged}</span>
-                </div>
-                <div className="stat-item">
-                  <span className="stat-label">Additions:</span>
-                  <span className="stat-value additions">+{selectedCommit.additions}</span>
+                  <span className="stat-value">{shownCommit.changedFiles.length}</span>
                 </div>
                 <div className="stat-item">
-                  <span className="stat-label">Deletions:</span>
-                  <span className="stat-value deletions">-{selectedCommit.deletions}</span>
+                  <span className="stat-label">Parents:</span>
+                  <span className="stat-value">
+                    {shownCommit.parentCommits.length > 0
+                      ? shownCommit.parentCommits.map(getShortHash).join(', ')
+                      : 'None'}
+                  </span>
                 </div>
               </div>
+              <div className="commit-diff">
+                {diffLoading ? (
+                  <div className="git-loading">
+                    <div className="loading-spinner"></div>
+                    <p>Loading changes...</p>
+                  </div>
+                ) : diffError ? (
+                  <>
+                    <div className="git-error">
+                      <span>{diffError}</span>
+                    </div>
+                    {shownCommit.changedFiles.length > 0 && (
+                      <ul className="changed-files-list">
+                        {shownCommit.changedFiles.map(path => (
+                          <li key={path}>{path}</li>
+                        ))}
+                      </ul>
+                    )}
+                  </>
+                ) : (
+                  <DiffViewer diffs={commitDiff} emptyMessage="This commit has no file changes." />
+                )}
+              </div>
             </div>
           </div>
         </div>
       )}
 
-      {/* Create Branch Modal would go here */}
+      {/* Create Branch Modal */}
       {showCreateBranch && (
         <div className="create-branch-backdrop" onClick={() => setShowCreateBranch(false)}>
           <div className="create-branch-modal" onClick={e => e.stopPropagation()}>
             <div className="create-branch-header">
               <h3>Create New Branch</h3>
-              <button 
+              <button
                 className="close-btn"
                 onClick={() => setShowCreateBranch(false)}
               >
                 ✕
               </button>
             </div>
-            <div className="create-branch-content">
-              <p>Branch creation form would go here...</p>
-            </div>
+            <form className="create-branch-content" onSubmit={handleCreateBranch}>
+              <div className="git-form-group">
+                <label htmlFor="branchName">Branch name</label>
+                <input
+                  id="branchName"
+                  type="text"
+                  value={newBranchName}
+                  onChange={e => setNewBranchName(e.target.value)}
+                  placeholder="feature/my-change"
+                  autoComplete="off"
+                  autoFocus
+                  disabled={isCreating}
+                />
+              </div>
+              <div className="git-form-group">
+                <label htmlFor="fromBranch">Create from</label>
+                <select
+                  id="fromBranch"
+                  value={fromBranch}
+                  onChange={e => setFromBranch(e.target.value)}
+                  disabled={isCreating}
+                >
+                  {branches.map(branch => (
+                    <option key={branch.name} value={branch.name}>{branch.name}</option>
+                  ))}
+                </select>
+              </div>
+              {createError && <div className="git-form-error">{createError}</div>}
+              <div className="git-form-actions">
+                <button
+                  type="button"
+                  className="btn-secondary"
+                  onClick={() => setShowCreateBranch(false)}
+                  disabled={isCreating}
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  className="btn-primary"
+                  disabled={!newBranchName.trim() || isCreating}
+                >
+                  {isCreating ? 'Creating...' : 'Create Branch'}
+                </button>
+              </div>
+            </form>
           </div>
         </div>
       )}
-
-
     </div>
   )
 }
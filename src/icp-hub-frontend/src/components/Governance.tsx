@@ -2,11 +2,20 @@ import { useState, useEffect } from 'react'
 import { governanceService } from '../services/governanceService'
 import type { Proposal, ProposalStatus, Vote, VotingStats } from '../services/governanceService'
 import { useWallet } from '../services/walletService'
+import { formatRelativeTime, getProposalTypeIcon, getQuorumStatus, getStatusColor, getVotePercentage } from '../utils/governance'
 import CreateProposalModal from './CreateProposalModal'
+import DelegationPanel from './DelegationPanel'
+import ProposalDetail from './ProposalDetail'
 import PageLayout from './PageLayout'
+import { navigate, proposalUrl, sectionUrl } from '../utils/routes'
 import './Governance.css'
 
-function Governance() {
+interface GovernanceProps {
+  // The proposal the link points at, if any
+  proposalId?: number
+}
+
+function Governance({ proposalId }: GovernanceProps) {
   const [proposals, setProposals] = useState<Proposal[]>([])
   const [votingStats, setVotingStats] = useState<VotingStats | null>(null)
   const [loading, setLoading] = useState(true)
@@ -69,60 +78,18 @@ function Governance() {
     }
   }
 
-  const getStatusColor = (status: ProposalStatus) => {
-    switch (status) {
-      case 'Active': return '#3b82f6'
-      case 'Passed': return '#10b981'
-      case 'Failed': return '#ef4444'
-      case 'Executed': return '#059669'
-      case 'Cancelled': return '#6b7280'
-      case 'Expired': return '#f59e0b'
-      case 'Draft': return '#8b5cf6'
-      default: return '#6b7280'
-    }
-  }
-
-  const getProposalTypeIcon = (type: string) => {
-    switch (type) {
-      case 'PlatformUpgrade': return '🚀'
-      case 'TreasurySpend': return '💰'
-      case 'RepositoryUpdate': return '📁'
-      case 'GovernanceConfig': return '⚙️'
-      case 'CollaboratorPromotion': return '👥'
-      case 'CustomProposal': return '📝'
-      default: return '📋'
-    }
-  }
-
-  const formatDate = (timestamp: number) => {
-    const date = new Date(timestamp)
-    const now = new Date()
-    const diffInHours = Math.floor((now.getTime() - date.getTime()) / (1000 * 60 * 60))
-    
-    if (diffInHours < 1) return 'Just now'
-    if (diffInHours < 24) return `${diffInHours}h ago`
-    if (diffInHours < 168) return `${Math.floor(diffInHours / 24)}d ago`
-    return date.toLocaleDateString()
-  }
-
-  const getVotePercentage = (proposal: Proposal, voteType: Vote) => {
-    const totalVotes = proposal.totalYesVotes + proposal.totalNoVotes + proposal.totalAbstainVotes
-    if (totalVotes === 0) return 0
-
-    let voteCount = 0
-    switch (voteType) {
-      case 'Yes': voteCount = proposal.totalYesVotes; break
-      case 'No': voteCount = proposal.totalNoVotes; break
-      case 'Abstain': voteCount = proposal.totalAbstainVotes; break
-    }
-
-    return Math.round((voteCount / totalVotes) * 100)
-  }
-
-  const getQuorumStatus = (proposal: Proposal) => {
-    const totalVotes = proposal.totalYesVotes + proposal.totalNoVotes + proposal.totalAbstainVotes
-    const quorumPercentage = (totalVotes / proposal.quorumRequired) * 100
-    return Math.min(quorumPercentage, 100)
+  if (proposalId !== undefined) {
+    return (
+      <PageLayout>
+        <ProposalDetail
+          proposalId={proposalId}
+          onBack={() => {
+            navigate(sectionUrl('governance'))
+            fetchGovernanceData()
+          }}
+        />
+      </PageLayout>
+    )
   }
 
   if (loading) {
@@ -189,6 +156,9 @@ function Governance() {
         </div>
       )}
 
+      {/* Vote Delegation */}
+      <DelegationPanel />
+
       {/* Filters and Actions */}
       <div className="governance-filters">
         <div className="filter-controls">
@@ -259,15 +229,19 @@ function Governance() {
                 </div>
 
                 <div className="proposal-content">
-                  <h3 className="proposal-title">{proposal.title}</h3>
+                  <h3 className="proposal-title">
+                    <button className="proposal-title-link" onClick={() => navigate(proposalUrl(proposal.id))}>
+                      {proposal.title}
+                    </button>
+                  </h3>
                   <p className="proposal-description">{proposal.description}</p>
                   
                   <div className="proposal-details">
                     <div className="proposal-info">
                       <span>Proposed by {proposal.proposer}</span>
-                      <span>Created {formatDate(proposal.createdAt)}</span>
+                      <span>Created {formatRelativeTime(proposal.createdAt)}</span>
                       {proposal.status === 'Active' && (
-                        <span>Ends {formatDate(proposal.votingEndsAt)}</span>
+                        <span>Ends {formatRelativeTime(proposal.votingEndsAt)}</span>
                       )}
                     </div>
                   </div>
@@ -333,12 +307,18 @@ function Governance() {
                 )}
 
                 {/* Discussion Preview */}
-                {proposal.discussionThread.length > 0 && (
-                  <div className="discussion-preview">
-                    <span>{proposal.discussionThread.length} comments</span>
-                    <span>Latest: {formatDate(proposal.discussionThread[0].timestamp)}</span>
-                  </div>
-                )}
+                <button className="discussion-preview" onClick={() => navigate(proposalUrl(proposal.id))}>
+                  <span>
+                    {proposal.discussionThread.length > 0
+                      ? `${proposal.discussionThread.length} comments`
+                      : 'Start the discussion'}
+                  </span>
+                  {proposal.discussionThread.length > 0 && (
+                    <span>
+                      Latest: {formatRelativeTime(proposal.discussionThread[proposal.discussionThread.length - 1].timestamp)}
+                    </span>
+                  )}
+                </button>
               </div>
             ))}
           </div>
@@ -0,0 +1,30 @@
+import { useMemo } from 'react'
+import { highlight, type EditorLanguage } from '../utils/highlight'
+import './HighlightedCode.css'
+
+interface HighlightedCodeProps {
+  code: string
+  language: EditorLanguage
+}
+
+// Highlighting very large files on every keystroke makes typing lag
+const MAX_HIGHLIGHT_LENGTH = 200_000
+
+function HighlightedCode({ code, language }: HighlightedCodeProps) {
+  const tokens = useMemo(
+    () => highlight(code, code.length > MAX_HIGHLIGHT_LENGTH ? 'plain' : language),
+    [code, language]
+  )
+
+  return (
+    <code className="highlighted-code">
+      {tokens.map((token, index) => (
+        token.type === 'plain'
+          ? token.text
+          : <span key={index} className={`token-${token.type}`}>{token.text}</span>
+      ))}
+    </code>
+  )
+}
+
+export default HighlightedCode
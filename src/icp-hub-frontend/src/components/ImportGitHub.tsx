@@ -1,42 +1,137 @@
-import React, { useState } from 'react'
+import React, { useMemo, useState } from 'react'
+import { importService } from '../services/importService'
+import { readArchive } from '../utils/archive'
+import type {
+  ImportCheckpoint,
+  ImportFileProgress,
+  ImportProgress,
+  ImportResult,
+  UnpackedArchive
+} from '../types/import'
 import './ImportGitHub.css'
 
+// Rendering thousands of rows on every progress update would stall the page
+const MAX_VISIBLE_FILES = 200
+const STATUS_ORDER: Record<ImportFileProgress['status'], number> = { uploading: 0, failed: 1, pending: 2, done: 3 }
+const STATUS_ICONS: Record<ImportFileProgress['status'], string> = { uploading: '⏳', failed: '⚠️', pending: '•', done: '✓' }
+
+const pendingFiles = (archive: UnpackedArchive): Record<string, ImportFileProgress> => {
+  const paths = archive.commits.length > 0
+    ? archive.commits.flatMap(commit => commit.changes.map(change => change.path))
+    : archive.files.map(file => file.path)
+  return Object.fromEntries(paths.map(path => [path, { path, status: 'pending' as const }]))
+}
+
 const ImportGitHub: React.FC = () => {
   const [repositoryUrl, setRepositoryUrl] = useState('')
   const [repositoryName, setRepositoryName] = useState('')
   const [description, setDescription] = useState('')
   const [isPrivate, setIsPrivate] = useState(false)
+
+  const [archiveFile, setArchiveFile] = useState<File | null>(null)
+  const [archive, setArchive] = useState<UnpackedArchive | null>(null)
+  const [checkpoint, setCheckpoint] = useState<ImportCheckpoint | null>(null)
+  const [isUnpacking, setIsUnpacking] = useState(false)
   const [isLoading, setIsLoading] = useState(false)
+  const [progress, setProgress] = useState<ImportProgress | null>(null)
+  const [fileStatuses, setFileStatuses] = useState<Record<string, ImportFileProgress>>({})
+  const [result, setResult] = useState<ImportResult | null>(null)
   const [message, setMessage] = useState('')
 
+  const handleArchiveChange = async (file: File | undefined) => {
+    setArchiveFile(file ?? null)
+    setArchive(null)
+    setCheckpoint(null)
+    setProgress(null)
+    setFileStatuses({})
+    setResult(null)
+    setMessage('')
+    if (!file) return
+
+    setIsUnpacking(true)
+    try {
+      const unpacked = await readArchive(file)
+      if (unpacked.files.length === 0) {
+        throw new Error('This archive does not contain any files')
+      }
+      const saved = importService.getCheckpoint(file)
+      setArchive(unpacked)
+      setCheckpoint(saved)
+      setFileStatuses(pendingFiles(unpacked))
+      if (saved) {
+        setRepositoryName(saved.repositoryName)
+      } else if (!repositoryName) {
+        setRepositoryName(unpacked.name)
+      }
+    } catch (error) {
+      setMessage(`Error reading archive: ${error instanceof Error ? error.message : 'unknown error'}`)
+    } finally {
+      setIsUnpacking(false)
+    }
+  }
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
+    if (!archiveFile || !archive) return
+
     setIsLoading(true)
     setMessage('')
+    setResult(null)
+    setFileStatuses(pendingFiles(archive))
 
     try {
-      // Extract repository name from URL if not provided
-      let repoName = repositoryName
-      if (!repoName && repositoryUrl) {
-        const urlParts = repositoryUrl.split('/')
-        repoName = urlParts[urlParts.length - 1].replace('.git', '')
-      }
+      const imported = await importService.importArchive(
+        archiveFile,
+        archive,
+        { name: repositoryName || archive.name, description, isPrivate },
+        {
+          onProgress: setProgress,
+          onFileProgress: (file) => setFileStatuses(prev => ({ ...prev, [file.path]: file }))
+        }
+      )
+      setResult(imported)
+      setCheckpoint(importService.getCheckpoint(archiveFile))
 
-      // Mock API call - replace with actual implementation
-      await new Promise(resolve => setTimeout(resolve, 2000))
-      
-      setMessage(`Successfully imported repository: ${repoName}`)
-      setRepositoryUrl('')
-      setRepositoryName('')
-      setDescription('')
-      setIsPrivate(false)
+      if (imported.failures.length === 0) {
+        const history = imported.replayedCommits > 0 ? ` and replayed ${imported.replayedCommits} commits` : ''
+        setMessage(`Successfully imported ${imported.repositoryName}: uploaded ${imported.uploadedFiles} files${history}`)
+      } else {
+        setMessage(`Imported ${imported.repositoryName} with ${imported.failures.length} failed files. Retry to upload the rest.`)
+      }
     } catch (error) {
-      setMessage('Error importing repository. Please try again.')
+      setCheckpoint(importService.getCheckpoint(archiveFile))
+      setMessage(`Error importing repository: ${error instanceof Error ? error.message : 'please try again'}`)
     } finally {
       setIsLoading(false)
     }
   }
 
+  const handleStartOver = () => {
+    if (!archiveFile) return
+    importService.discardCheckpoint(archiveFile)
+    setCheckpoint(null)
+    setResult(null)
+    setProgress(null)
+    if (archive) {
+      setFileStatuses(pendingFiles(archive))
+      setRepositoryName(archive.name)
+    }
+  }
+
+  const clearForm = () => {
+    setRepositoryUrl('')
+    setRepositoryName('')
+    setDescription('')
+    setIsPrivate(false)
+    setArchiveFile(null)
+    setArchive(null)
+    setCheckpoint(null)
+    setProgress(null)
+    setFileStatuses({})
+    setResult(null)
+    setMessage('')
+  }
+
   const extractRepoInfo = (url: string) => {
     if (url.includes('github.com')) {
       const urlParts = url.split('/')
@@ -47,6 +142,17 @@ const ImportGitHub: React.FC = () => {
     }
   }
 
+  const visibleFiles = useMemo(
+    () => Object.values(fileStatuses)
+      .sort((a, b) => STATUS_ORDER[a.status] - STATUS_ORDER[b.status])
+      .slice(0, MAX_VISIBLE_FILES),
+    [fileStatuses]
+  )
+  const hiddenFileCount = Object.keys(fileStatuses).length - visibleFiles.length
+  const percentage = progress && progress.totalFiles > 0
+    ? Math.round((progress.completedFiles / progress.totalFiles) * 100)
+    : 0
+
   return (
     <div className="import-github">
       <div className="import-github-container">
@@ -61,9 +167,49 @@ const ImportGitHub: React.FC = () => {
           <div className="import-github-form-section">
             <h2 className="form-section-title">Repository Details</h2>
             <form onSubmit={handleSubmit} className="import-github-form">
+              <div className="form-group">
+                <label htmlFor="archive" className="form-label">
+                  Repository Archive *
+                </label>
+                <input
+                  type="file"
+                  id="archive"
+                  accept=".zip,.tar,.tar.gz,.tgz,.bundle"
+                  onChange={(e) => handleArchiveChange(e.target.files?.[0])}
+                  className="form-input"
+                  disabled={isLoading}
+                  required
+                />
+                <small className="form-help">
+                  A ZIP or tarball download from GitHub, or a git bundle
+                  (<code>git bundle create repo.bundle --all</code>) to keep the commit history
+                </small>
+                {isUnpacking && <small className="form-help">Unpacking archive...</small>}
+                {archive && (
+                  <div className="archive-summary">
+                    <strong>{archive.files.length.toLocaleString()} files</strong>
+                    {archive.commits.length > 0
+                      ? ` · ${archive.commits.length.toLocaleString()} commits on ${archive.sourceBranch}`
+                      : ' · no history (only the latest files are imported)'}
+                  </div>
+                )}
+              </div>
+
+              {checkpoint && (
+                <div className="import-resume">
+                  <p>
+                    An earlier import of this archive into <strong>{checkpoint.repositoryName}</strong> did not finish.
+                    Importing again picks up where it stopped.
+                  </p>
+                  <button type="button" className="btn-link" onClick={handleStartOver} disabled={isLoading}>
+                    Start over in a new repository
+                  </button>
+                </div>
+              )}
+
               <div className="form-group">
                 <label htmlFor="repositoryUrl" className="form-label">
-                  GitHub Repository URL *
+                  GitHub Repository URL
                 </label>
                 <input
                   type="url"
@@ -75,10 +221,10 @@ const ImportGitHub: React.FC = () => {
                   }}
                   placeholder="https://github.com/username/repository"
                   className="form-input"
-                  required
+                  disabled={isLoading || !!checkpoint}
                 />
                 <small className="form-help">
-                  Enter the full GitHub repository URL (HTTPS or SSH)
+                  Optional; used to fill in the name and description
                 </small>
               </div>
 
@@ -93,9 +239,10 @@ const ImportGitHub: React.FC = () => {
                   onChange={(e) => setRepositoryName(e.target.value)}
                   placeholder="Repository name"
                   className="form-input"
+                  disabled={isLoading || !!checkpoint}
                 />
                 <small className="form-help">
-                  Will be auto-filled from the URL, but you can customize it
+                  Will be auto-filled from the archive, but you can customize it
                 </small>
               </div>
 
@@ -110,6 +257,7 @@ const ImportGitHub: React.FC = () => {
                   placeholder="Describe your repository"
                   className="form-textarea"
                   rows={3}
+                  disabled={isLoading || !!checkpoint}
                 />
               </div>
 
@@ -120,6 +268,7 @@ const ImportGitHub: React.FC = () => {
                     checked={isPrivate}
                     onChange={(e) => setIsPrivate(e.target.checked)}
                     className="form-checkbox"
+                    disabled={isLoading || !!checkpoint}
                   />
                   <span className="checkmark"></span>
                   Make this repository private
@@ -133,20 +282,19 @@ const ImportGitHub: React.FC = () => {
                 <button
                   type="submit"
                   className="btn-primary"
-                  disabled={isLoading || !repositoryUrl}
+                  disabled={isLoading || isUnpacking || !archive}
                 >
-                  {isLoading ? 'Importing...' : 'Import Repository'}
+                  {isLoading
+                    ? 'Importing...'
+                    : result && result.failures.length > 0
+                      ? 'Retry Failed Files'
+                      : checkpoint ? 'Resume Import' : 'Import Repository'}
                 </button>
                 <button
                   type="button"
                   className="btn-secondary"
-                  onClick={() => {
-                    setRepositoryUrl('')
-                    setRepositoryName('')
-                    setDescription('')
-                    setIsPrivate(false)
-                    setMessage('')
-                  }}
+                  onClick={clearForm}
+                  disabled={isLoading}
                 >
                   Clear Form
                 </button>
@@ -158,6 +306,39 @@ const ImportGitHub: React.FC = () => {
                 {message}
               </div>
             )}
+
+            {progress && (
+              <div className="import-progress">
+                <div className="import-progress-header">
+                  <span>
+                    {progress.stage === 'creating'
+                      ? 'Creating repository...'
+                      : progress.commitCount
+                        ? `Commit ${progress.commitIndex} of ${progress.commitCount}${progress.commitMessage ? `: ${progress.commitMessage}` : ''}`
+                        : `${progress.completedFiles} of ${progress.totalFiles} files`}
+                  </span>
+                  <span>{percentage}%</span>
+                </div>
+                <div className="import-progress-bar">
+                  <div className="import-progress-fill" style={{ width: `${percentage}%` }}></div>
+                </div>
+              </div>
+            )}
+
+            {visibleFiles.length > 0 && (progress || result) && (
+              <ul className="import-file-list">
+                {visibleFiles.map(file => (
+                  <li key={file.path} className={`import-file ${file.status}`} title={file.error}>
+                    <span className="import-file-status">{STATUS_ICONS[file.status]}</span>
+                    <span className="import-file-path">{file.path}</span>
+                    {file.error && <span className="import-file-error">{file.error}</span>}
+                  </li>
+                ))}
+                {hiddenFileCount > 0 && (
+                  <li className="import-file more">and {hiddenFileCount.toLocaleString()} more</li>
+                )}
+              </ul>
+            )}
           </div>
 
           <div className="import-github-info">
@@ -166,22 +347,22 @@ const ImportGitHub: React.FC = () => {
               <div className="info-item">
                 <div className="info-icon">📥</div>
                 <div className="info-content">
-                  <h4>Repository Cloning</h4>
-                  <p>We'll clone your GitHub repository to OpenKeyHub's secure infrastructure</p>
+                  <h4>Unpacked in your browser</h4>
+                  <p>The archive never leaves your machine; its files are uploaded straight to the canister</p>
                 </div>
               </div>
               <div className="info-item">
                 <div className="info-icon">🔗</div>
                 <div className="info-content">
                   <h4>Git Integration</h4>
-                  <p>Maintain full Git history and continue development with our Git tools</p>
+                  <p>Git bundles are replayed commit by commit, keeping messages and original authors</p>
                 </div>
               </div>
               <div className="info-item">
-                <div className="info-icon">🚀</div>
+                <div className="info-icon">⏯️</div>
                 <div className="info-content">
-                  <h4>Multi-chain Ready</h4>
-                  <p>Configure deployments across multiple blockchain networks</p>
+                  <h4>Resumable</h4>
+                  <p>Progress is saved as files upload; pick the same archive again to continue an interrupted import</p>
                 </div>
               </div>
               <div className="info-item">
@@ -0,0 +1,289 @@
+import { useState, useEffect, useCallback, useMemo } from 'react'
+import apiService from '../services/api.js'
+import { incentivesService } from '../services/incentivesService'
+import { collaboratorService } from '../services/collaboratorService'
+import type { BadgeCategory, ContributionBreakdown, LeaderboardEntry } from '../types/incentives'
+import { formatRelativeTime, shortenPrincipal } from '../utils/governance'
+import { formatTokenAmount } from '../utils/tokens'
+import PageLayout from './PageLayout'
+import ProfilePage from './ProfilePage'
+import type { ProfileData } from './ProfileModal'
+import './Leaderboard.css'
+
+const TIME_WINDOWS = [
+  { days: 7, label: 'This week' },
+  { days: 30, label: 'This month' },
+  { days: 90, label: 'Last 3 months' },
+  { days: 365, label: 'This year' },
+  { days: 0, label: 'All time' }
+]
+
+const BADGE_CATEGORIES: { value: BadgeCategory; label: string }[] = [
+  { value: 'Contributor', label: 'Contributors' },
+  { value: 'Reviewer', label: 'Reviewers' },
+  { value: 'Maintainer', label: 'Maintainers' },
+  { value: 'Security', label: 'Security' },
+  { value: 'Community', label: 'Community' },
+  { value: 'Special', label: 'Special' }
+]
+
+const LEADERBOARD_SIZE = 100
+const MEDALS = ['🥇', '🥈', '🥉']
+
+// Unregistered contributors are listed under their principal
+const displayName = (entry: LeaderboardEntry) =>
+  entry.username === entry.principal ? shortenPrincipal(entry.principal) : entry.username
+
+function Leaderboard() {
+  const [entries, setEntries] = useState<LeaderboardEntry[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [decimals, setDecimals] = useState(8)
+  const [symbol, setSymbol] = useState('ICPH')
+
+  const [days, setDays] = useState(30)
+  const [category, setCategory] = useState<BadgeCategory | 'all'>('all')
+  const [expanded, setExpanded] = useState<string | null>(null)
+  const [breakdowns, setBreakdowns] = useState<Record<string, ContributionBreakdown[]>>({})
+  const [breakdownError, setBreakdownError] = useState<string | null>(null)
+  const [profile, setProfile] = useState<ProfileData | null>(null)
+
+  const currentPrincipal = apiService.getPrincipal()?.toString()
+
+  const loadLeaderboard = useCallback(async () => {
+    try {
+      setLoading(true)
+      setEntries(await incentivesService.getLeaderboard({
+        days: days || undefined,
+        limit: LEADERBOARD_SIZE
+      }))
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load leaderboard')
+    } finally {
+      setLoading(false)
+    }
+  }, [days])
+
+  useEffect(() => {
+    loadLeaderboard()
+  }, [loadLeaderboard])
+
+  useEffect(() => {
+    incentivesService.getTokenInfo()
+      .then(token => {
+        setDecimals(token.decimals)
+        setSymbol(token.symbol)
+      })
+      .catch(() => {
+        // Keep the ICPH defaults
+      })
+  }, [])
+
+  const visibleEntries = useMemo(
+    () => category === 'all'
+      ? entries
+      : entries.filter(entry => entry.badges.some(badge => badge.category === category)),
+    [entries, category]
+  )
+
+  const toggleBreakdown = async (principal: string) => {
+    if (expanded === principal) {
+      setExpanded(null)
+      return
+    }
+
+    setExpanded(principal)
+    setBreakdownError(null)
+    if (breakdowns[principal]) return
+
+    try {
+      const breakdown = await incentivesService.getContributionBreakdown(principal)
+      setBreakdowns(prev => ({ ...prev, [principal]: breakdown }))
+    } catch (err) {
+      setBreakdownError(err instanceof Error ? err.message : 'Failed to load contributions')
+    }
+  }
+
+  const openProfile = async (entry: LeaderboardEntry) => {
+    // Registered users get their display name and avatar; others fall back to a generated avatar
+    const [user] = await collaboratorService.findUsers(entry.principal).catch(() => [])
+    setProfile({
+      principal: entry.principal,
+      name: user?.displayName || user?.username || displayName(entry),
+      avatar: user?.avatar || `https://api.dicebear.com/7.x/avataaars/svg?seed=${encodeURIComponent(entry.principal)}`,
+      repositories: breakdowns[entry.principal]?.length,
+      contributions: entry.contributionCount
+    })
+  }
+
+  if (profile) {
+    return <ProfilePage profile={profile} onBack={() => setProfile(null)} />
+  }
+
+  return (
+    <PageLayout>
+      <div className="leaderboard-page">
+        <div className="leaderboard-header">
+          <h1>Leaderboard</h1>
+          <p>Top contributors ranked by the {symbol} they have earned from commits, reviews and bounties.</p>
+        </div>
+
+        <div className="leaderboard-filters">
+          <div className="leaderboard-windows" role="group" aria-label="Time window">
+            {TIME_WINDOWS.map(timeWindow => (
+              <button
+                key={timeWindow.days}
+                className={`leaderboard-window ${days === timeWindow.days ? 'active' : ''}`}
+                onClick={() => setDays(timeWindow.days)}
+              >
+                {timeWindow.label}
+              </button>
+            ))}
+          </div>
+          <select value={category} onChange={(e) => setCategory(e.target.value as BadgeCategory | 'all')}>
+            <option value="all">All categories</option>
+            {BADGE_CATEGORIES.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+
+        {loading ? (
+          <div className="leaderboard-loading">
+            <div className="leaderboard-spinner"></div>
+            <p>Loading leaderboard...</p>
+          </div>
+        ) : error ? (
+          <div className="leaderboard-error">
+            {error}
+            <button onClick={loadLeaderboard}>Try again</button>
+          </div>
+        ) : visibleEntries.length === 0 ? (
+          <div className="leaderboard-empty">
+            <p>
+              {entries.length === 0
+                ? 'No contributions in this period yet.'
+                : 'Nobody in this period has earned a badge in this category yet.'}
+            </p>
+          </div>
+        ) : (
+          <ol className="leaderboard-list">
+            {visibleEntries.map(entry => {
+              const breakdown = breakdowns[entry.principal]
+              const isExpanded = expanded === entry.principal
+              return (
+                <li
+                  key={entry.principal}
+                  className={`leaderboard-row ${entry.principal === currentPrincipal ? 'is-you' : ''} ${isExpanded ? 'expanded' : ''}`}
+                >
+                  <div className="leaderboard-row-summary">
+                    <span className="leaderboard-rank">{MEDALS[entry.rank - 1] ?? `#${entry.rank}`}</span>
+                    <div className="leaderboard-user">
+                      <button className="leaderboard-name" onClick={() => openProfile(entry)} title={entry.principal}>
+                        {displayName(entry)}
+                      </button>
+                      {entry.principal === currentPrincipal && <span className="leaderboard-you">You</span>}
+                      <div className="leaderboard-badges">
+                        {entry.badges.map(badge => (
+                          <span key={badge.id} className="leaderboard-badge-icon" title={`${badge.name}: ${badge.description}`}>
+                            {badge.icon}
+                          </span>
+                        ))}
+                      </div>
+                    </div>
+                    <div className="leaderboard-stat">
+                      <strong>{formatTokenAmount(entry.totalEarned, decimals, 2)}</strong>
+                      <span>{symbol} earned</span>
+                    </div>
+                    <div className="leaderboard-stat secondary">
+                      <strong>{entry.contributionCount.toLocaleString()}</strong>
+                      <span>contributions</span>
+                    </div>
+                    <div className="leaderboard-stat secondary">
+                      <strong>{entry.averageImpact.toFixed(2)}</strong>
+                      <span>avg. impact</span>
+                    </div>
+                    <button
+                      className="leaderboard-expand-btn"
+                      onClick={() => toggleBreakdown(entry.principal)}
+                      aria-expanded={isExpanded}
+                    >
+                      {isExpanded ? 'Hide' : 'Details'}
+                    </button>
+                  </div>
+
+                  {isExpanded && (
+                    <div className="leaderboard-details">
+                      <div>
+                        <h3>Contributions by repository</h3>
+                        {breakdownError && !breakdown ? (
+                          <p className="leaderboard-muted">{breakdownError}</p>
+                        ) : !breakdown ? (
+                          <p className="leaderboard-muted">Loading contributions...</p>
+                        ) : breakdown.length === 0 ? (
+                          <p className="leaderboard-muted">No contributions recorded.</p>
+                        ) : (
+                          <table className="leaderboard-breakdown">
+                            <thead>
+                              <tr>
+                                <th>Repository</th>
+                                <th>Commits</th>
+                                <th>Pull requests</th>
+                                <th>Reviews</th>
+                                <th>Issues</th>
+                                <th>Impact</th>
+                                <th>Last active</th>
+                              </tr>
+                            </thead>
+                            <tbody>
+                              {breakdown.map(row => (
+                                <tr key={row.repositoryId}>
+                                  <td>{row.repositoryId}</td>
+                                  <td>{row.commits}</td>
+                                  <td>{row.pullRequests}</td>
+                                  <td>{row.reviews}</td>
+                                  <td>{row.issuesResolved}</td>
+                                  <td>{row.impactScore.toFixed(2)}</td>
+                                  <td>{formatRelativeTime(row.lastUpdated)}</td>
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                        )}
+                      </div>
+
+                      <div>
+                        <h3>Badges</h3>
+                        {entry.badges.length === 0 ? (
+                          <p className="leaderboard-muted">No badges earned yet.</p>
+                        ) : (
+                          <ul className="leaderboard-badge-list">
+                            {entry.badges.map(badge => (
+                              <li key={badge.id} className="leaderboard-badge">
+                                <span className="leaderboard-badge-icon">{badge.icon}</span>
+                                <div>
+                                  <strong>{badge.name}</strong>
+                                  <p className="leaderboard-muted">{badge.description}</p>
+                                  <p className="leaderboard-muted">
+                                    {badge.category} · earned {new Date(badge.earnedAt).toLocaleDateString()}
+                                  </p>
+                                </div>
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </div>
+                    </div>
+                  )}
+                </li>
+              )
+            })}
+          </ol>
+        )}
+      </div>
+    </PageLayout>
+  )
+}
+
+export default Leaderboard
@@ -0,0 +1,84 @@
+import { Fragment, useMemo } from 'react'
+import type { ReactNode } from 'react'
+import { parseInline, parseMarkdown } from '../utils/markdown'
+import type { InlineToken, MarkdownBlock } from '../utils/markdown'
+import './MarkdownContent.css'
+
+interface MarkdownContentProps {
+  source: string
+  className?: string
+}
+
+function renderInline(tokens: InlineToken[]): ReactNode[] {
+  return tokens.map((token, i) => {
+    switch (token.type) {
+      case 'text':
+        // Keep single line breaks inside a paragraph
+        return token.text.split('\n').map((part, j) => (
+          <Fragment key={`${i}-${j}`}>
+            {j > 0 && <br />}
+            {part}
+          </Fragment>
+        ))
+      case 'code':
+        return <code key={i}>{token.text}</code>
+      case 'strong':
+        return <strong key={i}>{renderInline(token.children)}</strong>
+      case 'em':
+        return <em key={i}>{renderInline(token.children)}</em>
+      case 'link':
+        return (
+          <a key={i} href={token.href} target="_blank" rel="noopener noreferrer">
+            {renderInline(token.children)}
+          </a>
+        )
+    }
+  })
+}
+
+function renderBlock(block: MarkdownBlock, key: number): ReactNode {
+  switch (block.type) {
+    case 'heading': {
+      const Heading = `h${Math.min(block.level + 2, 6)}` as 'h3' | 'h4' | 'h5' | 'h6'
+      return <Heading key={key}>{renderInline(parseInline(block.text))}</Heading>
+    }
+    case 'paragraph':
+      return <p key={key}>{renderInline(parseInline(block.text))}</p>
+    case 'list': {
+      const List = block.ordered ? 'ol' : 'ul'
+      return (
+        <List key={key}>
+          {block.items.map((item, i) => (
+            <li key={i}>{renderInline(parseInline(item))}</li>
+          ))}
+        </List>
+      )
+    }
+    case 'code':
+      return (
+        <pre key={key} data-language={block.language}>
+          <code>{block.code}</code>
+        </pre>
+      )
+    case 'quote':
+      return (
+        <blockquote key={key}>
+          {parseMarkdown(block.text).map(renderBlock)}
+        </blockquote>
+      )
+    case 'rule':
+      return <hr key={key} />
+  }
+}
+
+function MarkdownContent({ source, className = '' }: MarkdownContentProps) {
+  const blocks = useMemo(() => parseMarkdown(source), [source])
+
+  return (
+    <div className={`markdown-content ${className}`}>
+      {blocks.map(renderBlock)}
+    </div>
+  )
+}
+
+export default MarkdownContent
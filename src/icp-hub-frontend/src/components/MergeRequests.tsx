@@ -0,0 +1,418 @@
+import { useState, useEffect, useCallback } from 'react'
+import gitService from '../services/gitService'
+import type { GitBranch, GitCommit, BranchComparison, FileDiff } from '../types/git'
+import { getMergeHistory, saveMergeHistory, type CompletedMerge } from '../utils/mergeHistory'
+import DiffViewer from './DiffViewer'
+import ConflictResolver from './ConflictResolver'
+import './GitOperations.css'
+import './MergeRequests.css'
+
+interface MergeRequestsProps {
+  repositoryId: string
+}
+
+// Fold per-commit diffs (oldest first) into one change per path
+const combineDiffs = (diffsByCommit: FileDiff[][]): FileDiff[] => {
+  const combined = new Map<string, FileDiff>()
+
+  for (const diffs of diffsByCommit) {
+    for (const diff of diffs) {
+      const previous = combined.get(diff.path)
+      if (!previous) {
+        combined.set(diff.path, diff)
+        continue
+      }
+
+      // A file added and deleted within the range never reaches the target
+      if (previous.action.type === 'Add' && diff.action.type === 'Delete') {
+        combined.delete(diff.path)
+        continue
+      }
+
+      combined.set(diff.path, {
+        ...diff,
+        action: previous.action.type === 'Add' ? previous.action : diff.action,
+        oldContent: previous.oldContent,
+        isBinary: previous.isBinary || diff.isBinary,
+        additions: previous.additions + diff.additions,
+        deletions: previous.deletions + diff.deletions
+      })
+    }
+  }
+
+  return Array.from(combined.values())
+}
+
+function MergeRequests({ repositoryId }: MergeRequestsProps) {
+  const [branches, setBranches] = useState<GitBranch[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const [sourceBranch, setSourceBranch] = useState('')
+  const [targetBranch, setTargetBranch] = useState('')
+  const [title, setTitle] = useState('')
+  const [description, setDescription] = useState('')
+
+  const [comparison, setComparison] = useState<BranchComparison | null>(null)
+  const [previewDiffs, setPreviewDiffs] = useState<FileDiff[]>([])
+  const [comparing, setComparing] = useState(false)
+  const [merging, setMerging] = useState(false)
+  const [formError, setFormError] = useState<string | null>(null)
+  const [lastResult, setLastResult] = useState<CompletedMerge | null>(null)
+  const [history, setHistory] = useState<CompletedMerge[]>(() => getMergeHistory(repositoryId))
+  const [resolving, setResolving] = useState<CompletedMerge | null>(null)
+
+  const loadBranches = useCallback(async () => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      const branchList = await gitService.listBranches(repositoryId)
+      setBranches(branchList)
+
+      const defaultBranch = branchList.find(branch => branch.isDefault) ?? branchList[0]
+      const otherBranch = branchList.find(branch => branch.name !== defaultBranch?.name)
+      setTargetBranch(prev => prev || defaultBranch?.name || '')
+      setSourceBranch(prev => prev || otherBranch?.name || '')
+    } catch (err) {
+      console.error('Error loading branches:', err)
+      setError(err instanceof Error ? err.message : 'Failed to load branches')
+    } finally {
+      setLoading(false)
+    }
+  }, [repositoryId])
+
+  useEffect(() => {
+    loadBranches()
+  }, [loadBranches])
+
+  // Any change of branches makes the previous preview stale
+  useEffect(() => {
+    setComparison(null)
+    setPreviewDiffs([])
+  }, [sourceBranch, targetBranch])
+
+  const validateBranches = (): string | null => {
+    if (!sourceBranch || !targetBranch) return 'Select both a source and a target branch'
+    if (sourceBranch === targetBranch) return 'Source and target branches must be different'
+    return null
+  }
+
+  const updateHistory = (next: CompletedMerge[]) => {
+    setHistory(next)
+    saveMergeHistory(repositoryId, next)
+  }
+
+  const handleCompare = async () => {
+    const validationError = validateBranches()
+    if (validationError) {
+      setFormError(validationError)
+      return
+    }
+
+    setComparing(true)
+    setFormError(null)
+    try {
+      const result = await gitService.compareBranches(repositoryId, targetBranch, sourceBranch)
+      const orderedCommits = [...result.commits].sort((a, b) => a.timestamp - b.timestamp)
+      const diffsByCommit = await Promise.all(
+        orderedCommits.map(commit => gitService.getCommitDiff(repositoryId, commit.id))
+      )
+
+      setComparison(result)
+      setPreviewDiffs(combineDiffs(diffsByCommit))
+      if (!title) {
+        setTitle(`Merge ${sourceBranch} into ${targetBranch}`)
+      }
+    } catch (err) {
+      console.error('Error comparing branches:', err)
+      setFormError(err instanceof Error ? err.message : 'Failed to compare branches')
+    } finally {
+      setComparing(false)
+    }
+  }
+
+  const handleMerge = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const validationError = validateBranches() ?? (title.trim() ? null : 'Title is required')
+    if (validationError) {
+      setFormError(validationError)
+      return
+    }
+
+    setMerging(true)
+    setFormError(null)
+    try {
+      const request = {
+        sourceBranch,
+        targetBranch,
+        title: title.trim(),
+        description: description.trim() || undefined
+      }
+      const result = await gitService.mergeBranches(repositoryId, request)
+      const completed: CompletedMerge = { ...request, result, mergedAt: Date.now() }
+
+      setLastResult(completed)
+      updateHistory([completed, ...history])
+
+      if (!result.success && result.conflicts.length > 0) {
+        setResolving(completed)
+      }
+
+      if (result.success) {
+        setTitle('')
+        setDescription('')
+        setComparison(null)
+        setPreviewDiffs([])
+        await loadBranches()
+      }
+    } catch (err) {
+      console.error('Error merging branches:', err)
+      setFormError(err instanceof Error ? err.message : 'Failed to merge branches')
+    } finally {
+      setMerging(false)
+    }
+  }
+
+  const handleResolved = async (commit: GitCommit) => {
+    if (!resolving) return
+
+    // Only a commit that records the source tip as a parent completes the merge
+    if (commit.parentCommits.length < 2) {
+      setResolving(null)
+      setFormError(
+        `The resolved files were committed as ${getShortHash(commit.id)}, but not as a merge of ${resolving.sourceBranch}`
+      )
+      return
+    }
+
+    const resolved: CompletedMerge = {
+      ...resolving,
+      result: { success: true, commitId: commit.id, conflicts: [] }
+    }
+
+    setResolving(null)
+    setLastResult(resolved)
+    updateHistory(history.map(entry => entry.mergedAt === resolved.mergedAt ? resolved : entry))
+    setTitle('')
+    setDescription('')
+    setComparison(null)
+    setPreviewDiffs([])
+    await loadBranches()
+  }
+
+  const formatDate = (timestamp: number) => {
+    return new Date(timestamp).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    })
+  }
+
+  const getShortHash = (hash: string) => {
+    return hash.substring(0, 8)
+  }
+
+  if (loading) {
+    return (
+      <div className="git-loading">
+        <div className="loading-spinner"></div>
+        <p>Loading branches...</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="merge-requests">
+      <div className="tab-header">
+        <h3>Merge Requests</h3>
+      </div>
+
+      {error && (
+        <div className="git-error">
+          <span>{error}</span>
+          <button className="btn-secondary" onClick={loadBranches}>Retry</button>
+        </div>
+      )}
+
+      {branches.length < 2 ? (
+        <div className="git-empty">
+          Create at least one more branch to open a merge request.
+        </div>
+      ) : (
+        <form className="merge-request-form" onSubmit={handleMerge}>
+          <div className="merge-branch-picker">
+            <div className="git-form-group">
+              <label htmlFor="mrSourceBranch">Source branch</label>
+              <select
+                id="mrSourceBranch"
+                value={sourceBranch}
+                onChange={e => setSourceBranch(e.target.value)}
+                disabled={merging}
+              >
+                {branches.map(branch => (
+                  <option key={branch.name} value={branch.name}>{branch.name}</option>
+                ))}
+              </select>
+            </div>
+            <span className="merge-arrow">→</span>
+            <div className="git-form-group">
+              <label htmlFor="mrTargetBranch">Target branch</label>
+              <select
+                id="mrTargetBranch"
+                value={targetBranch}
+                onChange={e => setTargetBranch(e.target.value)}
+                disabled={merging}
+              >
+                {branches.map(branch => (
+                  <option key={branch.name} value={branch.name}>{branch.name}</option>
+                ))}
+              </select>
+            </div>
+            <button
+              type="button"
+              className="btn-secondary"
+              onClick={handleCompare}
+              disabled={comparing || merging}
+            >
+              {comparing ? 'Comparing...' : 'Preview changes'}
+            </button>
+          </div>
+
+          {comparison && (
+            <div className="merge-preview">
+              <div className="merge-preview-summary">
+                <span><strong>{comparison.ahead}</strong> ahead</span>
+                <span><strong>{comparison.behind}</strong> behind</span>
+                <span><strong>{comparison.commits.length}</strong> {comparison.commits.length === 1 ? 'commit' : 'commits'} to merge</span>
+              </div>
+              {comparison.commits.length > 0 && (
+                <ul className="merge-preview-commits">
+                  {comparison.commits.map(commit => (
+                    <li key={commit.id}>
+                      <span className="commit-hash">{getShortHash(commit.hash || commit.id)}</span>
+                      <span>{commit.message}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <DiffViewer
+                diffs={previewDiffs}
+                emptyMessage={`${sourceBranch} has no changes that are not already on ${targetBranch}.`}
+              />
+            </div>
+          )}
+
+          <div className="git-form-group">
+            <label htmlFor="mrTitle">Title</label>
+            <input
+              id="mrTitle"
+              type="text"
+              value={title}
+              onChange={e => setTitle(e.target.value)}
+              placeholder={sourceBranch && targetBranch ? `Merge ${sourceBranch} into ${targetBranch}` : 'Merge request title'}
+              disabled={merging}
+            />
+          </div>
+          <div className="git-form-group">
+            <label htmlFor="mrDescription">Description</label>
+            <textarea
+              id="mrDescription"
+              value={description}
+              onChange={e => setDescription(e.target.value)}
+              placeholder="Describe what this merge changes and why"
+              rows={4}
+              disabled={merging}
+            />
+          </div>
+
+          {formError && <div className="git-form-error">{formError}</div>}
+
+          <div className="git-form-actions">
+            <button type="submit" className="btn-primary" disabled={merging || comparing}>
+              {merging ? 'Merging...' : 'Merge'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {lastResult && (
+        <div className={`merge-result ${lastResult.result.success ? 'success' : 'failed'}`}>
+          {lastResult.result.success ? (
+            <span>
+              ✅ Merged {lastResult.sourceBranch} into {lastResult.targetBranch}
+              {lastResult.result.commitId && <> as <code>{getShortHash(lastResult.result.commitId)}</code></>}
+            </span>
+          ) : (
+            <>
+              <span>
+                ⚠️ Merge of {lastResult.sourceBranch} into {lastResult.targetBranch} has{' '}
+                {lastResult.result.conflicts.length} {lastResult.result.conflicts.length === 1 ? 'conflict' : 'conflicts'}
+              </span>
+              <ul className="merge-conflict-list">
+                {lastResult.result.conflicts.map(conflict => (
+                  <li key={conflict.path}>{conflict.path}</li>
+                ))}
+              </ul>
+              <div>
+                <button className="btn-primary" onClick={() => setResolving(lastResult)}>
+                  Resolve conflicts
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+
+      {history.length > 0 && (
+        <div className="merge-history">
+          <h4>Recent merges</h4>
+          <p className="merge-history-note">Merges made from this browser. Other merges appear only in the commit history.</p>
+          <div className="merge-requests-list">
+            {history.map(entry => (
+              <div key={entry.mergedAt} className="merge-request-item">
+                <div className="mr-header">
+                  <div className="mr-title">{entry.title}</div>
+                  <div className="mr-status">
+                    {entry.result.success ? (
+                      <span className="status-badge merged">Merged</span>
+                    ) : (
+                      <span className="conflict-badge">
+                        {entry.result.conflicts.length} {entry.result.conflicts.length === 1 ? 'conflict' : 'conflicts'}
+                      </span>
+                    )}
+                  </div>
+                </div>
+                {entry.description && <div className="mr-description">{entry.description}</div>}
+                <div className="mr-branches">
+                  <span className="source-branch">{entry.sourceBranch}</span>
+                  <span className="merge-arrow">→</span>
+                  <span className="target-branch">{entry.targetBranch}</span>
+                </div>
+                <div className="mr-meta">
+                  <span className="mr-time">{formatDate(entry.mergedAt)}</span>
+                  {entry.result.commitId && <span className="commit-hash">{getShortHash(entry.result.commitId)}</span>}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {resolving && (
+        <ConflictResolver
+          repositoryId={repositoryId}
+          sourceBranch={resolving.sourceBranch}
+          targetBranch={resolving.targetBranch}
+          conflicts={resolving.result.conflicts}
+          onClose={() => setResolving(null)}
+          onResolved={handleResolved}
+        />
+      )}
+    </div>
+  )
+}
+
+export default MergeRequests
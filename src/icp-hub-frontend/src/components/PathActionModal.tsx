@@ -0,0 +1,156 @@
+import React, { useState, useEffect, useRef } from 'react';
+import type { FileNode } from './FileExplorer';
+import './CreateFolderModal.css';
+
+export type PathAction = 'rename' | 'move' | 'copy';
+
+interface PathActionModalProps {
+  action: PathAction;
+  item: FileNode;
+  onClose: () => void;
+  onSubmit: (destination: string) => Promise<void>;
+}
+
+const TITLES: Record<PathAction, string> = {
+  rename: 'Rename',
+  move: 'Move',
+  copy: 'Copy'
+};
+
+const parentOf = (path: string) => path.slice(0, Math.max(path.lastIndexOf('/'), 0));
+
+// Suggest "name-copy.ext" next to the original
+const copyPathFor = (item: FileNode) => {
+  const dot = item.isFolder ? -1 : item.name.lastIndexOf('.');
+  const name = dot > 0 ? `${item.name.slice(0, dot)}-copy${item.name.slice(dot)}` : `${item.name}-copy`;
+  const parent = parentOf(item.path);
+  return parent ? `${parent}/${name}` : name;
+};
+
+const PathActionModal: React.FC<PathActionModalProps> = ({
+  action,
+  item,
+  onClose,
+  onSubmit
+}) => {
+  // Renames edit just the name; moves and copies edit the full path
+  const [value, setValue] = useState(() =>
+    action === 'rename' ? item.name : action === 'copy' ? copyPathFor(item) : item.path
+  );
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    setTimeout(() => inputRef.current?.select(), 100);
+  }, []);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const destination = (() => {
+    const trimmed = value.trim().replace(/^\/+|\/+$/g, '');
+    if (action !== 'rename') return trimmed;
+    const parent = parentOf(item.path);
+    return parent ? `${parent}/${trimmed}` : trimmed;
+  })();
+
+  const validate = (): string | null => {
+    if (!destination) return 'Enter a destination';
+    if (action === 'rename' && value.includes('/')) return 'Names cannot contain /';
+    if (destination.split('/').some(name => !name || /[\\:*?"<>|]/.test(name))) {
+      return 'The destination contains invalid characters';
+    }
+    if (destination === item.path) return 'Choose a different destination';
+    return null;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const problem = validate();
+    if (problem) {
+      setError(problem);
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await onSubmit(destination);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : `Failed to ${action} ${item.name}`);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-content" onClick={e => e.stopPropagation()}>
+        <div className="modal-header">
+          <h2>{TITLES[action]} {item.isFolder ? 'Folder' : 'File'}</h2>
+          <button className="modal-close" onClick={onClose}>&times;</button>
+        </div>
+
+        <form onSubmit={handleSubmit}>
+          <div className="modal-body">
+            <div className="form-group">
+              <label>{TITLES[action]}</label>
+              <div className="parent-path">
+                /{item.path}
+              </div>
+            </div>
+
+            <div className="form-group">
+              <label htmlFor="pathActionValue">{action === 'rename' ? 'New name' : 'Destination path'}</label>
+              <input
+                id="pathActionValue"
+                ref={inputRef}
+                type="text"
+                value={value}
+                onChange={e => setValue(e.target.value)}
+                className={error ? 'error' : ''}
+                autoComplete="off"
+                disabled={isSubmitting}
+              />
+              {error && <div className="error-message">{error}</div>}
+            </div>
+
+            {item.isFolder && (
+              <div className="folder-tips">
+                <div className="tip-title">Everything inside the folder goes with it, in a single commit.</div>
+              </div>
+            )}
+          </div>
+
+          <div className="modal-footer">
+            <button
+              type="button"
+              className="btn-cancel"
+              onClick={onClose}
+              disabled={isSubmitting}
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="btn-submit"
+              disabled={!value.trim() || isSubmitting}
+            >
+              {isSubmitting ? 'Working...' : TITLES[action]}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default PathActionModal;
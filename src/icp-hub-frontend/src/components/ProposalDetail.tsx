@@ -0,0 +1,479 @@
+import { useState, useEffect, useCallback, useMemo } from 'react'
+import apiService from '../services/api.js'
+import { governanceService } from '../services/governanceService'
+import type { DiscussionPost, Proposal, Vote, VoteRecord } from '../services/governanceService'
+import { useWallet } from '../services/walletService'
+import {
+  formatRelativeTime,
+  getProposalTypeIcon,
+  getQuorumStatus,
+  getStatusColor,
+  getVotePercentage,
+  shortenPrincipal
+} from '../utils/governance'
+import MarkdownContent from './MarkdownContent'
+import './ProposalDetail.css'
+
+interface ProposalDetailProps {
+  proposalId: number
+  onBack: () => void
+}
+
+interface ThreadNode {
+  post: DiscussionPost
+  replies: ThreadNode[]
+}
+
+interface TimelineEvent {
+  key: string
+  timestamp: number
+  label: string
+  vote?: VoteRecord
+  // Share of voting power in favour after this vote was cast
+  yesShare?: number
+}
+
+const REACTION_EMOJIS = ['👍', '👎', '🎉', '❤️', '🚀', '👀', '🤔']
+const MAX_POST_LENGTH = 2000
+// Deeper replies stop indenting so long threads stay readable
+const MAX_INDENT_DEPTH = 4
+
+function buildThread(posts: DiscussionPost[]): ThreadNode[] {
+  const nodes = new Map<number, ThreadNode>()
+  posts.forEach(post => nodes.set(post.id, { post, replies: [] }))
+
+  const roots: ThreadNode[] = []
+  posts.forEach(post => {
+    const node = nodes.get(post.id)!
+    const parent = post.parentId !== undefined ? nodes.get(post.parentId) : undefined
+    if (parent && parent !== node) {
+      parent.replies.push(node)
+    } else {
+      roots.push(node)
+    }
+  })
+
+  const byTime = (a: ThreadNode, b: ThreadNode) => a.post.timestamp - b.post.timestamp
+  const sortTree = (list: ThreadNode[]) => {
+    list.sort(byTime)
+    list.forEach(node => sortTree(node.replies))
+  }
+  sortTree(roots)
+  return roots
+}
+
+function buildTimeline(proposal: Proposal): TimelineEvent[] {
+  const events: TimelineEvent[] = [
+    { key: 'created', timestamp: proposal.createdAt, label: `Proposed by ${shortenPrincipal(proposal.proposer)}` }
+  ]
+  if (proposal.votingStartsAt > proposal.createdAt) {
+    events.push({ key: 'opened', timestamp: proposal.votingStartsAt, label: 'Voting opened' })
+  }
+
+  let yes = 0
+  let total = 0
+  ;[...proposal.votes]
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .forEach((vote, i) => {
+      total += vote.votingPower
+      if (vote.vote === 'Yes') yes += vote.votingPower
+      events.push({
+        key: `vote-${i}`,
+        timestamp: vote.timestamp,
+        label: `${shortenPrincipal(vote.voter)} voted ${vote.vote}`,
+        vote,
+        yesShare: total > 0 ? Math.round((yes / total) * 100) : 0
+      })
+    })
+
+  events.push({
+    key: 'closes',
+    timestamp: proposal.votingEndsAt,
+    label: proposal.votingEndsAt > Date.now() ? 'Voting closes' : 'Voting closed'
+  })
+  if (proposal.executedAt) {
+    const executor = proposal.executedBy ? ` by ${shortenPrincipal(proposal.executedBy)}` : ''
+    events.push({ key: 'executed', timestamp: proposal.executedAt, label: `Executed${executor}` })
+  }
+
+  return events.sort((a, b) => a.timestamp - b.timestamp)
+}
+
+function ProposalDetail({ proposalId, onBack }: ProposalDetailProps) {
+  const [proposal, setProposal] = useState<Proposal | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [actionError, setActionError] = useState<string | null>(null)
+
+  // Voting
+  const [voteReason, setVoteReason] = useState('')
+  const [voting, setVoting] = useState(false)
+
+  // Discussion
+  const [newComment, setNewComment] = useState('')
+  const [replyingTo, setReplyingTo] = useState<number | null>(null)
+  const [replyText, setReplyText] = useState('')
+  const [posting, setPosting] = useState(false)
+  const [pickerFor, setPickerFor] = useState<number | null>(null)
+  const [pendingReaction, setPendingReaction] = useState<string | null>(null)
+
+  const { wallet } = useWallet()
+  const currentPrincipal = apiService.getPrincipal()?.toString()
+
+  const loadProposal = useCallback(async () => {
+    try {
+      setLoading(true)
+      setError(null)
+      setProposal(await governanceService.getProposal(proposalId))
+    } catch (err) {
+      console.error('Error loading proposal:', err)
+      setError(err instanceof Error ? err.message : 'Failed to load proposal')
+    } finally {
+      setLoading(false)
+    }
+  }, [proposalId])
+
+  useEffect(() => {
+    loadProposal()
+  }, [loadProposal])
+
+  const thread = useMemo(() => buildThread(proposal?.discussionThread || []), [proposal])
+  const timeline = useMemo(() => (proposal ? buildTimeline(proposal) : []), [proposal])
+  const myVote = proposal?.votes.find(v => v.voter === currentPrincipal)
+
+  const replacePost = (updated: DiscussionPost) => {
+    setProposal(prev => prev && {
+      ...prev,
+      discussionThread: prev.discussionThread.map(post => post.id === updated.id ? updated : post)
+    })
+  }
+
+  const handleVote = async (vote: Vote) => {
+    if (!proposal) return
+
+    try {
+      setVoting(true)
+      setActionError(null)
+      await governanceService.castVote({ proposalId: proposal.id, vote, reason: voteReason.trim() || undefined })
+      setVoteReason('')
+      setProposal(await governanceService.getProposal(proposal.id))
+    } catch (err) {
+      console.error('Error casting vote:', err)
+      setActionError(err instanceof Error ? err.message : 'Failed to cast vote')
+    } finally {
+      setVoting(false)
+    }
+  }
+
+  const handlePost = async (content: string, parentId?: number) => {
+    if (!proposal || !content.trim()) return
+
+    try {
+      setPosting(true)
+      setActionError(null)
+      const post = await governanceService.addDiscussionPost({
+        proposalId: proposal.id,
+        content: content.trim(),
+        parentId
+      })
+      setProposal(prev => prev && { ...prev, discussionThread: [...prev.discussionThread, post] })
+      if (parentId === undefined) {
+        setNewComment('')
+      } else {
+        setReplyText('')
+        setReplyingTo(null)
+      }
+    } catch (err) {
+      console.error('Error posting comment:', err)
+      setActionError(err instanceof Error ? err.message : 'Failed to post comment')
+    } finally {
+      setPosting(false)
+    }
+  }
+
+  const handleReaction = async (post: DiscussionPost, emoji: string) => {
+    if (!proposal) return
+
+    try {
+      setPendingReaction(`${post.id}:${emoji}`)
+      setActionError(null)
+      setPickerFor(null)
+      replacePost(await governanceService.toggleReaction(proposal.id, post.id, emoji))
+    } catch (err) {
+      console.error('Error updating reaction:', err)
+      setActionError(err instanceof Error ? err.message : 'Failed to update reaction')
+    } finally {
+      setPendingReaction(null)
+    }
+  }
+
+  const renderComposer = (
+    value: string,
+    onChange: (value: string) => void,
+    onSubmit: () => void,
+    submitLabel: string,
+    onCancel?: () => void
+  ) => (
+    <form
+      className="discussion-composer"
+      onSubmit={e => {
+        e.preventDefault()
+        onSubmit()
+      }}
+    >
+      <textarea
+        value={value}
+        onChange={e => onChange(e.target.value)}
+        placeholder="Write a comment. Markdown is supported."
+        maxLength={MAX_POST_LENGTH}
+        rows={3}
+        disabled={posting}
+      />
+      <div className="discussion-composer-actions">
+        <span className="discussion-char-count">{value.length}/{MAX_POST_LENGTH}</span>
+        {onCancel && (
+          <button type="button" className="discussion-cancel-btn" onClick={onCancel} disabled={posting}>
+            Cancel
+          </button>
+        )}
+        <button type="submit" className="discussion-submit-btn" disabled={posting || !value.trim()}>
+          {posting ? 'Posting...' : submitLabel}
+        </button>
+      </div>
+    </form>
+  )
+
+  const renderPost = (node: ThreadNode, depth: number) => {
+    const { post } = node
+    const isReplying = replyingTo === post.id
+
+    return (
+      <div
+        key={post.id}
+        className={`discussion-node ${depth > 0 && depth <= MAX_INDENT_DEPTH ? 'nested' : ''}`}
+      >
+        <div className="discussion-post">
+          <div className="discussion-post-header">
+            <span className="discussion-author">
+              {shortenPrincipal(post.author)}
+              {post.author === currentPrincipal && <span className="discussion-you"> (you)</span>}
+            </span>
+            <span className="discussion-time" title={new Date(post.timestamp).toLocaleString()}>
+              {formatRelativeTime(post.timestamp)}
+            </span>
+          </div>
+
+          <MarkdownContent source={post.content} />
+
+          <div className="discussion-post-actions">
+            {post.reactions.filter(r => r.users.length > 0).map(reaction => (
+              <button
+                key={reaction.emoji}
+                className={`reaction-chip ${currentPrincipal && reaction.users.includes(currentPrincipal) ? 'mine' : ''}`}
+                onClick={() => handleReaction(post, reaction.emoji)}
+                disabled={!wallet.connected || pendingReaction !== null}
+                title={reaction.users.map(shortenPrincipal).join(', ')}
+              >
+                {reaction.emoji} {reaction.users.length}
+              </button>
+            ))}
+            {wallet.connected && (
+              <div className="reaction-picker-wrapper">
+                <button
+                  className="reaction-add-btn"
+                  onClick={() => setPickerFor(pickerFor === post.id ? null : post.id)}
+                  aria-label="Add reaction"
+                >
+                  ☺+
+                </button>
+                {pickerFor === post.id && (
+                  <div className="reaction-picker">
+                    {REACTION_EMOJIS.map(emoji => (
+                      <button
+                        key={emoji}
+                        onClick={() => handleReaction(post, emoji)}
+                        disabled={pendingReaction !== null}
+                      >
+                        {emoji}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+            {wallet.connected && (
+              <button
+                className="discussion-reply-btn"
+                onClick={() => {
+                  setReplyingTo(isReplying ? null : post.id)
+                  setReplyText('')
+                }}
+              >
+                {isReplying ? 'Cancel reply' : 'Reply'}
+              </button>
+            )}
+          </div>
+        </div>
+
+        {isReplying && renderComposer(
+          replyText,
+          setReplyText,
+          () => handlePost(replyText, post.id),
+          'Reply',
+          () => setReplyingTo(null)
+        )}
+
+        {node.replies.length > 0 && (
+          <div className="discussion-replies">
+            {node.replies.map(reply => renderPost(reply, depth + 1))}
+          </div>
+        )}
+      </div>
+    )
+  }
+
+  if (loading && !proposal) {
+    return (
+      <div className="governance-loading">
+        <div className="loading-spinner"></div>
+        <p>Loading proposal...</p>
+      </div>
+    )
+  }
+
+  if (error || !proposal) {
+    return (
+      <div className="governance-error">
+        <h3>Error loading proposal</h3>
+        <p>{error || 'Proposal not found'}</p>
+        <button onClick={onBack} className="retry-btn">Back to proposals</button>
+      </div>
+    )
+  }
+
+  const canVote = proposal.status === 'Active' && wallet.connected && !myVote
+
+  return (
+    <div className="proposal-detail">
+      <button className="proposal-back-btn" onClick={onBack}>← Back to proposals</button>
+
+      <div className="proposal-detail-header">
+        <div className="proposal-meta">
+          <span className="proposal-type-icon">{getProposalTypeIcon(proposal.proposalType.type)}</span>
+          <span className="proposal-type">{proposal.proposalType.type}</span>
+          <span className="proposal-status" style={{ backgroundColor: getStatusColor(proposal.status) }}>
+            {proposal.status}
+          </span>
+          <span className="proposal-id">#{proposal.id}</span>
+        </div>
+        <h1>{proposal.title}</h1>
+        <p className="proposal-detail-byline">
+          Proposed by {shortenPrincipal(proposal.proposer)} · {formatRelativeTime(proposal.createdAt)}
+        </p>
+      </div>
+
+      {actionError && <div className="proposal-action-error">{actionError}</div>}
+
+      <div className="proposal-detail-layout">
+        <div className="proposal-detail-main">
+          <section className="proposal-section">
+            <MarkdownContent source={proposal.description} />
+          </section>
+
+          <section className="proposal-section">
+            <h2>Discussion ({proposal.discussionThread.length})</h2>
+            {wallet.connected ? (
+              renderComposer(newComment, setNewComment, () => handlePost(newComment), 'Comment')
+            ) : (
+              <p className="proposal-muted">Connect your wallet to join the discussion.</p>
+            )}
+            {thread.length === 0 ? (
+              <p className="proposal-muted">No comments yet.</p>
+            ) : (
+              <div className="discussion-thread">
+                {thread.map(node => renderPost(node, 0))}
+              </div>
+            )}
+          </section>
+        </div>
+
+        <aside className="proposal-detail-sidebar">
+          <section className="proposal-section">
+            <h2>Results</h2>
+            <div className="voting-progress">
+              <div className="quorum-indicator">
+                <div className="quorum-bar">
+                  <div className="quorum-fill" style={{ width: `${getQuorumStatus(proposal)}%` }}></div>
+                </div>
+                <span>Quorum: {getQuorumStatus(proposal).toFixed(1)}%</span>
+              </div>
+              <div className="vote-breakdown">
+                <div className="vote-bar">
+                  <div className="vote-fill yes" style={{ width: `${getVotePercentage(proposal, 'Yes')}%` }}></div>
+                  <div className="vote-fill no" style={{ width: `${getVotePercentage(proposal, 'No')}%` }}></div>
+                  <div className="vote-fill abstain" style={{ width: `${getVotePercentage(proposal, 'Abstain')}%` }}></div>
+                </div>
+                <div className="vote-labels">
+                  <span>Yes: {proposal.totalYesVotes.toLocaleString()}</span>
+                  <span>No: {proposal.totalNoVotes.toLocaleString()}</span>
+                  <span>Abstain: {proposal.totalAbstainVotes.toLocaleString()}</span>
+                </div>
+              </div>
+            </div>
+            <p className="proposal-muted">
+              Passes with {proposal.approvalThreshold}% approval once {proposal.quorumRequired.toLocaleString()} voting power has voted.
+            </p>
+
+            {myVote && (
+              <p className="proposal-my-vote">You voted <strong>{myVote.vote}</strong></p>
+            )}
+            {canVote && (
+              <div className="proposal-vote-form">
+                <textarea
+                  value={voteReason}
+                  onChange={e => setVoteReason(e.target.value)}
+                  placeholder="Reason (optional)"
+                  rows={2}
+                  disabled={voting}
+                />
+                <div className="voting-actions">
+                  <button className="vote-btn yes" onClick={() => handleVote('Yes')} disabled={voting}>Yes</button>
+                  <button className="vote-btn no" onClick={() => handleVote('No')} disabled={voting}>No</button>
+                  <button className="vote-btn abstain" onClick={() => handleVote('Abstain')} disabled={voting}>Abstain</button>
+                </div>
+              </div>
+            )}
+          </section>
+
+          <section className="proposal-section">
+            <h2>Timeline</h2>
+            <ol className="vote-timeline">
+              {timeline.map(event => (
+                <li
+                  key={event.key}
+                  className={`timeline-event ${event.vote ? `vote-${event.vote.vote.toLowerCase()}` : ''} ${event.timestamp > Date.now() ? 'upcoming' : ''}`}
+                >
+                  <span className="timeline-marker"></span>
+                  <div className="timeline-body">
+                    <span className="timeline-label">{event.label}</span>
+                    {event.vote && (
+                      <span className="timeline-detail">
+                        {event.vote.votingPower.toLocaleString()} voting power · {event.yesShare}% yes so far
+                      </span>
+                    )}
+                    {event.vote?.reason && <span className="timeline-reason">“{event.vote.reason}”</span>}
+                    <span className="timeline-time" title={new Date(event.timestamp).toLocaleString()}>
+                      {formatRelativeTime(event.timestamp)}
+                    </span>
+                  </div>
+                </li>
+              ))}
+            </ol>
+          </section>
+        </aside>
+      </div>
+    </div>
+  )
+}
+
+export default ProposalDetail
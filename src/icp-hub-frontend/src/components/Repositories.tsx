@@ -7,8 +7,14 @@ import ProfileModal, { type ProfileData } from './ProfileModal'
 import PageLayout from './PageLayout'
 import './Repositories.css'
 import { useWallet } from '../services/walletService'
+import { navigate, repositoryUrl, sectionUrl, type Route } from '../utils/routes'
 
-function Repositories() {
+interface RepositoriesProps {
+  // The repository or commit the location points at, if any
+  route?: Extract<Route, { name: 'repository' | 'commit' }>
+}
+
+function Repositories({ route }: RepositoriesProps) {
   const [repositories, setRepositories] = useState<Repository[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
@@ -16,7 +22,8 @@ function Repositories() {
   const [selectedLanguage, setSelectedLanguage] = useState('all')
   const [selectedChain, setSelectedChain] = useState('all')
   const [showNewRepoModal, setShowNewRepoModal] = useState(false)
-  const [selectedRepository, setSelectedRepository] = useState<Repository | null>(null)
+  // The id a repository link resolved to, keyed by "owner/name"
+  const [resolvedRepository, setResolvedRepository] = useState<{ key: string, id?: string, error?: string } | null>(null)
   const [isProfileOpen, setIsProfileOpen] = useState(false)
   const [activeProfile, setActiveProfile] = useState<ProfileData | null>(null)
 
@@ -29,6 +36,30 @@ function Repositories() {
     fetchRepositories()
   }, [])
 
+  const linkOwner = route?.name === 'repository' ? route.owner : null
+  const linkName = route?.name === 'repository' ? route.repository : null
+  const linkKey = linkOwner && linkName ? `${linkOwner}/${linkName}` : null
+
+  // Links name a repository by owner and name, but everything else works with its id
+  useEffect(() => {
+    if (!linkOwner || !linkName || repositoryService.cachedRepositoryId(linkOwner, linkName)) return
+
+    let cancelled = false
+    const key = `${linkOwner}/${linkName}`
+    repositoryService.findRepositoryId(linkOwner, linkName)
+      .then(id => {
+        if (!cancelled) setResolvedRepository({ key, id })
+      })
+      .catch(err => {
+        if (!cancelled) {
+          setResolvedRepository({ key, error: err instanceof Error ? err.message : 'Repository not found' })
+        }
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [linkOwner, linkName])
+
   const fetchRepositories = async () => {
     try {
       setLoading(true)
@@ -84,11 +115,11 @@ function Repositories() {
   }
 
   const handleRepositoryClick = (repository: Repository) => {
-    setSelectedRepository(repository)
+    navigate(repositoryUrl(repository.owner, repository.name))
   }
 
   const handleBackToRepositories = () => {
-    setSelectedRepository(null)
+    navigate(sectionUrl('repositories'))
   }
 
   const openProfile = (ownerName: string) => {
@@ -120,8 +151,45 @@ function Repositories() {
   const languages = Array.from(new Set(repositories.map(repo => repo.language).filter(Boolean)))
   const chains = Array.from(new Set(repositories.flatMap(repo => repo.chains || [])))
 
-  if (selectedRepository) {
-    return <RepositoryDetail repositoryId={selectedRepository.id} onBack={handleBackToRepositories} />
+  if (route) {
+    const resolved = resolvedRepository?.key === linkKey ? resolvedRepository : null
+    const repositoryId = route.name === 'commit'
+      ? route.repositoryId
+      : repositoryService.cachedRepositoryId(route.owner, route.repository) ?? resolved?.id
+
+    if (repositoryId) {
+      return (
+        <RepositoryDetail
+          key={repositoryId}
+          repositoryId={repositoryId}
+          branch={route.name === 'repository' ? route.branch : undefined}
+          location={route.name === 'repository' ? route.location : undefined}
+          commitId={route.name === 'commit' ? route.commitId : undefined}
+          onBack={handleBackToRepositories}
+        />
+      )
+    }
+
+    return (
+      <PageLayout>
+        <div className="repositories-page">
+          {resolved?.error ? (
+            <div className="error-state">
+              <h3>Repository not found</h3>
+              <p>{resolved.error}</p>
+              <button onClick={handleBackToRepositories} className="retry-btn">
+                Back to repositories
+              </button>
+            </div>
+          ) : (
+            <div className="loading-state">
+              <div className="loading-spinner"></div>
+              <p>Loading repository...</p>
+            </div>
+          )}
+        </div>
+      </PageLayout>
+    )
   }
 
   if (loading) {
@@ -3,13 +3,32 @@
 import { useState, useEffect } from 'react'
 import type { Repository } from '../types/repository'
 import { repositoryService } from '../services/repositoryService'
-import fileService, { type FileUploadProgress } from '../services/fileService'
+import fileService, { type FileUploadProgress, type UploadItem } from '../services/fileService'
+import { exportService, type ExportFormat } from '../services/exportService'
+import type { GitCommit } from '../types/git'
+import { detectLanguage } from '../utils/highlight'
 import PageLayout from './PageLayout'
 import ProfileModal from './ProfileModal'
 import FileExplorer from './FileExplorer'
 import CreateFolderModal from './CreateFolderModal'
 import FileUploadModal from './FileUploadModal'
 import FileStatusDisplay, { type FileOperation } from './FileStatusDisplay'
+import CodeEditor from './CodeEditor'
+import CodeView from './CodeView'
+import RepositorySearchPanel from './RepositorySearchPanel'
+import GitOperations from './GitOperations'
+import MergeRequests from './MergeRequests'
+import CollaboratorManager from './CollaboratorManager'
+import RepositorySettingsForm from './RepositorySettingsForm'
+import BountyBoard from './BountyBoard'
+import {
+  commitUrl,
+  navigate,
+  repositoryBlobUrl,
+  repositoryTreeUrl,
+  repositoryUrl,
+  type RepositoryLocation
+} from '../utils/routes'
 import './RepositoryDetail.css'
 
 // Import the FileNode type from your types
@@ -25,26 +44,38 @@ interface FileNode {
 interface RepositoryDetailProps {
   repositoryId: string
   onBack: () => void
+  // The branch, and file or folder within it, that the link points at
+  branch?: string
+  location?: RepositoryLocation
+  // A commit to show
+  commitId?: string
 }
 
-function RepositoryDetail({ repositoryId, onBack }: RepositoryDetailProps) {
+function RepositoryDetail({ repositoryId, onBack, branch, location, commitId }: RepositoryDetailProps) {
   const [repository, setRepository] = useState<Repository | null>(null)
   const [creator, setCreator] = useState<any>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
-  const [activeTab, setActiveTab] = useState<'overview' | 'files' | 'commits' | 'collaborators' | 'settings'>('files')
+  const [activeTab, setActiveTab] = useState<'overview' | 'files' | 'commits' | 'merge-requests' | 'collaborators' | 'bounties' | 'settings'>('files')
   const [isProfileOpen, setIsProfileOpen] = useState(false)
   
   // File management states
   const [selectedFile, setSelectedFile] = useState<FileNode | null>(null)
   const [fileContent, setFileContent] = useState<string>('')
+  // Line to mark in the file viewer, e.g. a search match
+  const [viewerLine, setViewerLine] = useState<number | null>(null)
   const [showFileViewer, setShowFileViewer] = useState(false)
+  const [editingPath, setEditingPath] = useState<string | null>(null)
   const [showCreateFolder, setShowCreateFolder] = useState(false)
   const [showFileUpload, setShowFileUpload] = useState(false)
+  const [showRepositorySearch, setShowRepositorySearch] = useState(false)
   const [currentPath, setCurrentPath] = useState<string>('')
   const [breadcrumbs, setBreadcrumbs] = useState<string[]>([])
   const [fileOperations, setFileOperations] = useState<FileOperation[]>([])
   const [fileExplorerRefresh, setFileExplorerRefresh] = useState(0)
+  const [showExportMenu, setShowExportMenu] = useState(false)
+  const [exportStatus, setExportStatus] = useState<{ message: string; isError: boolean } | null>(null)
+  const [isExporting, setIsExporting] = useState(false)
 
   // Helper function to safely format dates
   const formatDate = (date: string | number | undefined): string => {
@@ -111,6 +142,63 @@ function RepositoryDetail({ repositoryId, onBack }: RepositoryDetailProps) {
     }
   }, [repositoryId])
 
+  // Show the file or folder the link points at, following the back and forward buttons
+  const locationPath = location?.path
+  const locationIsFolder = location?.isFolder ?? true
+  const locationLine = location?.line
+  useEffect(() => {
+    if (locationPath === undefined) {
+      setCurrentPath('')
+      setShowFileViewer(false)
+      return
+    }
+
+    setActiveTab('files')
+    setCurrentPath(locationIsFolder ? locationPath : locationPath.split('/').slice(0, -1).join('/'))
+    if (locationIsFolder) {
+      setShowFileViewer(false)
+      return
+    }
+
+    let cancelled = false
+    fileService.getFileContent(repositoryId, locationPath)
+      .then(content => {
+        if (cancelled) return
+        setSelectedFile({ path: locationPath, name: locationPath.split('/').pop() || locationPath, isFolder: false })
+        setFileContent(content)
+        setViewerLine(locationLine ?? null)
+        setShowFileViewer(true)
+      })
+      .catch(err => console.error('Failed to open linked file:', err))
+
+    return () => {
+      cancelled = true
+    }
+  }, [repositoryId, locationPath, locationIsFolder, locationLine])
+
+  useEffect(() => {
+    if (commitId) setActiveTab('commits')
+  }, [commitId])
+
+  const branchName = branch || repository?.settings?.defaultBranch || 'main'
+
+  // Browsing goes through the address, so every file and folder has a link to share
+  const openLocation = (path: string, isFolder: boolean, line?: number) => {
+    if (!repository) return
+    navigate(isFolder
+      ? repositoryTreeUrl(repository.owner, repository.name, branchName, path)
+      : repositoryBlobUrl(repository.owner, repository.name, branchName, path, line))
+  }
+
+  const closeFileViewer = () => {
+    openLocation(selectedFile ? selectedFile.path.split('/').slice(0, -1).join('/') : currentPath, true)
+  }
+
+  const handleSelectCommit = (commit: GitCommit | null) => {
+    if (!repository) return
+    navigate(commit ? commitUrl(repositoryId, commit.id) : repositoryUrl(repository.owner, repository.name))
+  }
+
   // Update breadcrumbs when path changes
   useEffect(() => {
     if (currentPath) {
@@ -121,58 +209,72 @@ function RepositoryDetail({ repositoryId, onBack }: RepositoryDetailProps) {
   }, [currentPath])
 
   // File management functions
-  const handleFileSelect = async (file: FileNode) => {
-    if (!file.isFolder) {
-      setSelectedFile(file)
-      try {
-        const content = await fileService.getFileContent(repositoryId, file.path)
-        setFileContent(content)
-        setShowFileViewer(true)
-      } catch (err) {
-        console.error('Failed to load file content:', err)
-      }
-    } else {
-      setCurrentPath(file.path)
-    }
+  const handleFileSelect = (file: FileNode) => {
+    openLocation(file.path, file.isFolder)
   }
 
-  const handleFileUpload = async (files: File[]) => {
+  // Open a file from repository search, scrolled to the matching line
+  const openFileAtLine = (path: string, line?: number) => {
+    openLocation(path, false, line)
+  }
+
+  const handleFileUpload = async (
+    files: UploadItem[],
+    commitMessage: string,
+    onProgress: (path: string, progress: FileUploadProgress) => void
+  ) => {
     // Create operation for each file
-    const operations: FileOperation[] = files.map((file, index) => ({
+    const operations: FileOperation[] = files.map((item, index) => ({
       id: `upload-${Date.now()}-${index}`,
       type: 'upload',
       status: 'pending',
-      message: `Uploading ${file.name}`,
+      message: `Uploading ${item.path}`,
       details: `To ${currentPath ? `${currentPath}/` : ''}`,
       timestamp: new Date(),
       progress: 0
     }))
 
     setFileOperations(prev => [...prev, ...operations])
+    const batchIds = new Set(operations.map(op => op.id))
+    const inBatch = (op: FileOperation) => batchIds.has(op.id)
 
     try {
-      const uploadedFiles = await fileService.uploadMultipleFiles(
+      const result = await fileService.uploadMultipleFiles(
         repositoryId,
         files,
         currentPath,
-        (fileName: string, progress: FileUploadProgress) => {
+        (path: string, progress: FileUploadProgress) => {
+          onProgress(path, progress)
           // Update operation progress
           setFileOperations(prev => prev.map(op => 
-            op.message === `Uploading ${fileName}` 
-              ? { ...op, progress: progress.percentage }
+            inBatch(op) && op.message === `Uploading ${path}` 
+              ? progress.stage === 'failed'
+                ? { ...op, status: 'error', message: `Failed to upload ${path}`, details: progress.error }
+                : { ...op, progress: progress.percentage }
               : op
           ))
-        }
+        },
+        commitMessage
       )
+
+      if (result.failures.length > 0) {
+        // The batch is committed whole, so files that did arrive are waiting on a retry too
+        setFileOperations(prev => prev.map(op => 
+          inBatch(op) && op.status === 'pending'
+            ? { ...op, status: 'error', message: `Not committed: ${op.message.replace('Uploading ', '')}`, details: 'Other files in this upload failed' }
+            : op
+        ))
+        return
+      }
       
       // Update operations to success
       setFileOperations(prev => prev.map(op => 
-        op.type === 'upload' && op.status === 'pending'
+        inBatch(op) && op.status === 'pending'
           ? { ...op, status: 'success', message: `Uploaded ${op.message.replace('Uploading ', '')}` }
           : op
       ))
       
-      console.log('Files uploaded successfully:', uploadedFiles)
+      console.log('Files uploaded successfully:', result.uploaded)
       
       // Refresh file explorer
       refreshFileExplorer()
@@ -182,7 +284,7 @@ function RepositoryDetail({ repositoryId, onBack }: RepositoryDetailProps) {
       
       // Update operations to error
       setFileOperations(prev => prev.map(op => 
-        op.type === 'upload' && op.status === 'pending'
+        inBatch(op) && op.status === 'pending'
           ? { ...op, status: 'error', message: `Failed to upload ${op.message.replace('Uploading ', '')}` }
           : op
       ))
@@ -227,12 +329,79 @@ function RepositoryDetail({ repositoryId, onBack }: RepositoryDetailProps) {
     }
   }
 
+  // Run a file operation that becomes one commit, tracking it in the status panel
+  const runFileOperation = async (
+    type: FileOperation['type'],
+    pendingMessage: string,
+    doneMessage: string,
+    run: () => Promise<GitCommit>
+  ) => {
+    const operation: FileOperation = {
+      id: `${type}-${Date.now()}`,
+      type,
+      status: 'pending',
+      message: pendingMessage,
+      timestamp: new Date()
+    }
+    setFileOperations(prev => [...prev, operation])
+
+    try {
+      const commit = await run()
+      setFileOperations(prev => prev.map(op =>
+        op.id === operation.id ? { ...op, status: 'success', message: doneMessage, details: commit.message } : op
+      ))
+      refreshFileExplorer()
+    } catch (err) {
+      console.error(`Failed to ${type} file:`, err)
+      setFileOperations(prev => prev.map(op =>
+        op.id === operation.id
+          ? { ...op, status: 'error', message: `Failed: ${pendingMessage}`, details: err instanceof Error ? err.message : undefined }
+          : op
+      ))
+      throw err
+    }
+  }
+
+  const handleDeleteItem = (item: FileNode) =>
+    runFileOperation('delete', `Deleting ${item.path}`, `Deleted ${item.path}`, () =>
+      fileService.deleteItem(repositoryId, item.path)
+    )
+
+  const handleMoveItem = (item: FileNode, destination: string) =>
+    runFileOperation('move', `Moving ${item.path} to ${destination}`, `Moved ${item.path} to ${destination}`, () =>
+      fileService.moveItem(repositoryId, item.path, destination)
+    )
+
+  const handleCopyItem = (item: FileNode, destination: string) =>
+    runFileOperation('copy', `Copying ${item.path} to ${destination}`, `Copied ${item.path} to ${destination}`, () =>
+      fileService.copyItem(repositoryId, item.path, destination)
+    )
+
+  const handleEditFile = (path: string) => {
+    closeFileViewer()
+    setEditingPath(path)
+  }
+
+  const handleEditCommitted = (commit: GitCommit, branch: string) => {
+    if (!editingPath) return
+    setFileOperations(prev => [...prev, {
+      id: `edit-${commit.id}`,
+      type: 'edit',
+      status: 'success',
+      message: `Committed ${editingPath} to ${branch}`,
+      details: commit.message,
+      timestamp: new Date()
+    }])
+    setEditingPath(null)
+    refreshFileExplorer()
+  }
+
   const navigateToBreadcrumb = (index: number) => {
     if (index === -1) {
-      setCurrentPath('')
+      openLocation('', true)
     } else {
       const newPath = breadcrumbs.slice(0, index + 1).join('/')
-      setCurrentPath(newPath)
+      openLocation(newPath, true)
     }
   }
 
@@ -248,6 +417,31 @@ function RepositoryDetail({ repositoryId, onBack }: RepositoryDetailProps) {
     setFileExplorerRefresh(prev => prev + 1)
   }
 
+  const handleExport = async (format: ExportFormat) => {
+    if (!repository || isExporting) return
+    setShowExportMenu(false)
+    setIsExporting(true)
+    setExportStatus({ message: 'Preparing export...', isError: false })
+
+    try {
+      const archive = await exportService.exportRepository(repositoryId, repository.name, format, progress => {
+        setExportStatus({
+          message: `Downloading files ${progress.completedFiles}/${progress.totalFiles}...`,
+          isError: false
+        })
+      })
+      exportService.saveExport(archive, repository.name, format)
+      setExportStatus(null)
+    } catch (err) {
+      setExportStatus({
+        message: `Export failed: ${err instanceof Error ? err.message : 'unknown error'}`,
+        isError: true
+      })
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
   if (loading) {
     return (
       <PageLayout>
@@ -305,8 +499,37 @@ function RepositoryDetail({ repositoryId, onBack }: RepositoryDetailProps) {
                 <span>🚀</span>
                 <span>Deploy</span>
               </button>
+              <div className="export-action">
+                <button
+                  className="action-btn export-btn"
+                  onClick={() => setShowExportMenu(!showExportMenu)}
+                  disabled={isExporting}
+                  aria-expanded={showExportMenu}
+                >
+                  <span>📦</span>
+                  <span>{isExporting ? 'Exporting...' : 'Export'}</span>
+                </button>
+                {showExportMenu && (
+                  <div className="export-menu">
+                    <button onClick={() => handleExport('zip')}>
+                      <strong>ZIP archive</strong>
+                      <span>Latest version of every file</span>
+                    </button>
+                    <button onClick={() => handleExport('bundle')}>
+                      <strong>Git bundle</strong>
+                      <span>Files plus commit history; clone it with git</span>
+                    </button>
+                  </div>
+                )}
+              </div>
             </div>
           </div>
+          {exportStatus && (
+            <div className={`export-status ${exportStatus.isError ? 'error' : ''}`}>
+              {exportStatus.message}
+              {exportStatus.isError && <button onClick={() => setExportStatus(null)}>✕</button>}
+            </div>
+          )}
         </div>
 
         <div className="repository-detail-container">
@@ -317,7 +540,9 @@ function RepositoryDetail({ repositoryId, onBack }: RepositoryDetailProps) {
               <div className="repository-title-section">
                 <h1 className="repository-title">{repository.name}</h1>
                 <span className={`visibility-badge ${repository.visibility || 'public'}`}>
-                  {repository.visibility === 'private' || (repository as any).isPrivate ? '🔒 Private' : '🌐 Public'}
+                  {repository.visibility === 'internal'
+                    ? '🏢 Internal'
+                    : repository.visibility === 'private' || (repository as any).isPrivate ? '🔒 Private' : '🌐 Public'}
                 </span>
               </div>
               
@@ -396,12 +621,24 @@ function RepositoryDetail({ repositoryId, onBack }: RepositoryDetailProps) {
               >
                 📝 Commits
               </button>
+              <button 
+                className={`tab-btn ${activeTab === 'merge-requests' ? 'active' : ''}`}
+                onClick={() => setActiveTab('merge-requests')}
+              >
+                🔀 Merge Requests
+              </button>
               <button 
                 className={`tab-btn ${activeTab === 'collaborators' ? 'active' : ''}`}
                 onClick={() => setActiveTab('collaborators')}
               >
                 👥 Collaborators
               </button>
+              <button 
+                className={`tab-btn ${activeTab === 'bounties' ? 'active' : ''}`}
+                onClick={() => setActiveTab('bounties')}
+              >
+                🎯 Bounties
+              </button>
               <button 
                 className={`tab-btn ${activeTab === 'settings' ? 'active' : ''}`}
                 onClick={() => setActiveTab('settings')}
@@ -483,6 +720,13 @@ npm start</code></pre>
                     </div>
                     
                     <div className="files-actions">
+                      <button
+                        className="upload-btn"
+                        onClick={() => setShowRepositorySearch(!showRepositorySearch)}
+                        aria-expanded={showRepositorySearch}
+                      >
+                        🔍 Search
+                      </button>
                       <button 
                         className="upload-btn"
                         onClick={() => setShowCreateFolder(true)}
@@ -500,6 +744,15 @@ npm start</code></pre>
 
 
 
+                  {showRepositorySearch && (
+                    <RepositorySearchPanel
+                      repositoryId={repositoryId}
+                      onOpenFile={openFileAtLine}
+                      onOpenFolder={path => openLocation(path, true)}
+                      onClose={() => setShowRepositorySearch(false)}
+                    />
+                  )}
+
                   {/* File Status Display */}
                   <FileStatusDisplay
                     operations={fileOperations}
@@ -514,6 +767,9 @@ npm start</code></pre>
                     onFileUpload={() => {/* Refresh callback */}}
                     currentPath={currentPath}
                     refreshTrigger={fileExplorerRefresh}
+                    onDeleteItem={handleDeleteItem}
+                    onMoveItem={handleMoveItem}
+                    onCopyItem={handleCopyItem}
                   />
                   <div className="commits-list">
                     <div className="commit-item">
@@ -540,50 +796,41 @@ npm start</code></pre>
                 </div>
               )}
 
+              {activeTab === 'commits' && (
+                <div className="commits-tab">
+                  <GitOperations
+                    repositoryId={repositoryId}
+                    currentBranch="main"
+                    selectedCommitId={commitId ?? null}
+                    onSelectCommit={handleSelectCommit}
+                  />
+                </div>
+              )}
+
+              {activeTab === 'merge-requests' && (
+                <div className="merge-requests-tab">
+                  <MergeRequests repositoryId={repositoryId} />
+                </div>
+              )}
+
               {activeTab === 'collaborators' && (
                 <div className="collaborators-tab">
-                  <div className="collaborators-header">
-                    <h2>Collaborators</h2>
-                    <button className="invite-btn">👥 Invite Collaborator</button>
-                  </div>
-                  <div className="collaborators-list">
-                    <div className="collaborator-item">
-                      <img src={creator?.avatar} alt={creator?.name} className="collaborator-avatar" />
-                      <div className="collaborator-info">
-                        <span className="collaborator-name">{creator?.name}</span>
-                        <span className="collaborator-role">Owner</span>
-                      </div>
-                      <div className="collaborator-actions">
-                        <button className="role-btn">Admin</button>
-                      </div>
-                    </div>
-                  </div>
+                  <CollaboratorManager repositoryId={repositoryId} />
                 </div>
               )}
 
-              {activeTab === 'settings' && (
-                <div className="settings-tab">
-                  <h2>Repository Settings</h2>
-                  <div className="settings-section">
-                    <h3>General</h3>
-                    <div className="setting-item">
-                      <label>Repository Name</label>
-                      <input type="text" value={repository.name} readOnly />
-                    </div>
-                    <div className="setting-item">
-                      <label>Description</label>
-                      <textarea value={repository.description || ''} readOnly />
-                    </div>
-                    <div className="setting-item">
-                      <label>Visibility</label>
-                      <select value={repository.visibility || 'public'} disabled>
-                        <option value="public">Public</option>
-                        <option value="private">Private</option>
-                      </select>
-                    </div>
-                  </div>
+              {activeTab === 'bounties' && (
+                <div className="bounties-tab">
+                  <BountyBoard repositoryId={repositoryId} />
                 </div>
               )}
+
+              {activeTab === 'settings' && (
+                <RepositorySettingsForm
+                  repository={repository}
+                  onSaved={updated => setRepository(prev => prev ? { ...prev, ...updated } : updated)}
+                />
+              )}
             </div>
           </div>
 
@@ -647,7 +894,7 @@ npm start</code></pre>
               <button className="quick-action-btn">
                 📋 Clone Repository
               </button>
-              <button className="quick-action-btn">
+              <button className="quick-action-btn" onClick={() => handleExport('zip')} disabled={isExporting}>
                 📥 Download ZIP
               </button>
               <button className="quick-action-btn">
@@ -688,21 +935,36 @@ npm start</code></pre>
 
         {/* File Viewer Modal */}
         {showFileViewer && selectedFile && (
-          <div className="modal-overlay" onClick={() => setShowFileViewer(false)}>
+          <div className="modal-overlay" onClick={closeFileViewer}>
             <div className="file-viewer-modal" onClick={(e) => e.stopPropagation()}>
               <div className="file-viewer-header">
                 <h3>{selectedFile.name}</h3>
-                <button onClick={() => setShowFileViewer(false)}>✕</button>
+                <div className="file-viewer-actions">
+                  <button onClick={() => handleEditFile(selectedFile.path)}>✏️ Edit</button>
+                  <button onClick={closeFileViewer}>✕</button>
+                </div>
               </div>
               <div className="file-viewer-content">
-                <pre>
-                  <code>{fileContent}</code>
-                </pre>
+                <CodeView
+                  code={fileContent}
+                  language={detectLanguage(selectedFile.path)}
+                  highlightLine={viewerLine}
+                />
               </div>
             </div>
           </div>
         )}
 
+        {/* Code Editor */}
+        {editingPath && (
+          <CodeEditor
+            repositoryId={repositoryId}
+            path={editingPath}
+            onClose={() => setEditingPath(null)}
+            onCommitted={handleEditCommitted}
+          />
+        )}
+
         {/* Create Folder Modal */}
         {showCreateFolder && (
           <CreateFolderModal
@@ -719,6 +981,7 @@ npm start</code></pre>
             onClose={() => setShowFileUpload(false)}
             onUpload={handleFileUpload}
             currentPath={currentPath}
+            repositoryId={repositoryId}
           />
         )}
 
@@ -0,0 +1,197 @@
+import { useRef, useState } from 'react'
+import type { CodeSearchOptions, RepositorySearchHit } from '../types'
+import { searchService } from '../services/searchService'
+import { buildSearchPattern, findRanges } from '../utils/codeSearch'
+import './RepositorySearchPanel.css'
+
+interface RepositorySearchPanelProps {
+  repositoryId: string
+  onOpenFile: (path: string, line?: number) => void
+  onOpenFolder: (path: string) => void
+  onClose: () => void
+}
+
+// Wrap the given [start, end) ranges of the text in <mark>
+const renderMarked = (text: string, ranges: [number, number][]) => {
+  const parts: React.ReactNode[] = []
+  let position = 0
+  ranges.forEach(([start, end], index) => {
+    if (start < position) return
+    if (start > position) parts.push(text.slice(position, start))
+    parts.push(<mark key={index}>{text.slice(start, end)}</mark>)
+    position = end
+  })
+  if (position < text.length) parts.push(text.slice(position))
+  return parts
+}
+
+export default function RepositorySearchPanel({ repositoryId, onOpenFile, onOpenFolder, onClose }: RepositorySearchPanelProps) {
+  const [query, setQuery] = useState('')
+  const [options, setOptions] = useState<CodeSearchOptions>({ regex: false, caseSensitive: false })
+  // The search the results belong to, so the path highlighting matches them
+  const [searched, setSearched] = useState<{ query: string, options: CodeSearchOptions } | null>(null)
+  const [hits, setHits] = useState<RepositorySearchHit[]>([])
+  const [page, setPage] = useState({ page: 0, hasMore: false })
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  // Answers to a search the user has since replaced are dropped
+  const generation = useRef(0)
+
+  const runSearch = async (searchQuery: string, searchOptions: CodeSearchOptions, pageNumber: number) => {
+    const current = ++generation.current
+    setIsLoading(true)
+    setError(null)
+    if (pageNumber === 0) {
+      setHits([])
+      setPage({ page: 0, hasMore: false })
+      setSearched({ query: searchQuery, options: searchOptions })
+    }
+
+    try {
+      const result = await searchService.searchRepository(repositoryId, searchQuery, searchOptions, pageNumber)
+      if (current !== generation.current) return
+      setHits(prev => pageNumber === 0 ? result.hits : [...prev, ...result.hits])
+      setPage({ page: result.page, hasMore: result.hasMore })
+    } catch (err) {
+      if (current !== generation.current) return
+      setError(err instanceof SyntaxError
+        ? `Invalid regular expression: ${err.message}`
+        : err instanceof Error ? err.message : 'Search failed')
+    } finally {
+      if (current === generation.current) setIsLoading(false)
+    }
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (query.trim()) runSearch(query.trim(), options, 0)
+  }
+
+  // Flipping a toggle re-runs the current search with it
+  const toggleOption = (key: keyof CodeSearchOptions) => {
+    const next = { ...options, [key]: !options[key] }
+    setOptions(next)
+    if (query.trim()) runSearch(query.trim(), next, 0)
+  }
+
+  const pathPattern = (() => {
+    if (!searched) return null
+    try {
+      return buildSearchPattern(searched.query, searched.options)
+    } catch {
+      return null
+    }
+  })()
+
+  const openHit = (hit: RepositorySearchHit, line?: number) => {
+    if (hit.isFolder) {
+      onOpenFolder(hit.path)
+    } else {
+      onOpenFile(hit.path, line)
+    }
+  }
+
+  const totalMatches = hits.reduce((sum, hit) => sum + hit.matchCount, 0)
+
+  return (
+    <div className="repo-search-panel">
+      <form className="repo-search-form" onSubmit={handleSubmit}>
+        <input
+          type="text"
+          className="repo-search-input"
+          value={query}
+          onChange={e => setQuery(e.target.value)}
+          placeholder={options.regex ? 'Search with a regular expression...' : 'Search in this repository...'}
+          aria-label="Search in this repository"
+          spellCheck={false}
+          autoComplete="off"
+          autoFocus
+        />
+        <button
+          type="button"
+          className={`repo-search-toggle ${options.caseSensitive ? 'active' : ''}`}
+          onClick={() => toggleOption('caseSensitive')}
+          aria-pressed={options.caseSensitive}
+          title="Match case"
+        >
+          Aa
+        </button>
+        <button
+          type="button"
+          className={`repo-search-toggle ${options.regex ? 'active' : ''}`}
+          onClick={() => toggleOption('regex')}
+          aria-pressed={options.regex}
+          title="Use regular expression"
+        >
+          .*
+        </button>
+        <button type="submit" className="repo-search-submit" disabled={!query.trim() || isLoading}>
+          Search
+        </button>
+        <button type="button" className="repo-search-close" onClick={onClose} aria-label="Close search">
+          ✕
+        </button>
+      </form>
+
+      {searched && (
+        <div className="repo-search-summary">
+          {isLoading && hits.length === 0
+            ? 'Searching...'
+            : `${hits.length}${page.hasMore ? '+' : ''} files, ${totalMatches} matching lines`}
+          {searched.options.regex && <span className="repo-search-note">Regular expressions are matched in your browser</span>}
+        </div>
+      )}
+
+      {error && <div className="repo-search-error">{error}</div>}
+
+      {hits.length > 0 && (
+        <div className="repo-search-results">
+          {hits.map(hit => (
+            <div key={hit.path} className="repo-search-hit">
+              <button type="button" className="repo-search-path" onClick={() => openHit(hit, hit.matches[0]?.line)}>
+                <span>{hit.isFolder ? '📁' : '📄'}</span>
+                <span className="repo-search-path-text">
+                  {hit.pathMatches && pathPattern ? renderMarked(hit.path, findRanges(hit.path, pathPattern)) : hit.path}
+                </span>
+                {hit.matchCount > 0 && (
+                  <span className="repo-search-count">{hit.matchCount} matching {hit.matchCount === 1 ? 'line' : 'lines'}</span>
+                )}
+              </button>
+              {hit.matches.map(match => (
+                <button
+                  key={match.line}
+                  type="button"
+                  className="repo-search-line"
+                  onClick={() => openHit(hit, match.line)}
+                >
+                  <span className="repo-search-line-number">{match.line}</span>
+                  <code>{renderMarked(match.text, match.ranges)}</code>
+                </button>
+              ))}
+              {hit.matchCount > hit.matches.length && (
+                <div className="repo-search-more">
+                  and {hit.matchCount - hit.matches.length} more in this file
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {searched && !isLoading && !error && hits.length === 0 && !page.hasMore && (
+        <div className="repo-search-empty">Nothing in this repository matches "{searched.query}".</div>
+      )}
+
+      {page.hasMore && (
+        <button
+          type="button"
+          className="repo-search-load-more"
+          onClick={() => searched && runSearch(searched.query, searched.options, page.page + 1)}
+          disabled={isLoading}
+        >
+          {isLoading ? 'Loading...' : 'Load more files'}
+        </button>
+      )}
+    </div>
+  )
+}
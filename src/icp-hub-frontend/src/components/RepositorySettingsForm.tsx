@@ -0,0 +1,322 @@
+import { useState, useEffect } from 'react'
+import type { Repository, RepositorySettings, RepositoryVisibility } from '../types/repository'
+import { repositoryService } from '../services/repositoryService'
+import gitService from '../services/gitService'
+import './RepositorySettingsForm.css'
+
+interface RepositorySettingsFormProps {
+  repository: Repository
+  onSaved: (repository: Repository) => void
+}
+
+interface SettingsFormState extends RepositorySettings {
+  description: string
+}
+
+type FormErrors = Partial<Record<keyof SettingsFormState, string>>
+
+const COMMON_LICENSES = ['MIT', 'Apache-2.0', 'GPL-3.0', 'LGPL-3.0', 'BSD-2-Clause', 'BSD-3-Clause', 'MPL-2.0', 'AGPL-3.0', 'Unlicense']
+const TOPIC_PATTERN = /^[a-z0-9][a-z0-9-]*$/
+const MAX_TOPICS = 20
+const MAX_TOPIC_LENGTH = 35
+const MAX_DESCRIPTION_LENGTH = 500
+
+const VISIBILITY_OPTIONS: { value: RepositoryVisibility; label: string; hint: string }[] = [
+  { value: 'public', label: 'Public', hint: 'Anyone can see this repository' },
+  { value: 'internal', label: 'Internal', hint: 'Visible to signed-in OpenKeyHub users only' },
+  { value: 'private', label: 'Private', hint: 'Only you and collaborators can see this repository' }
+]
+
+const toFormState = (repository: Repository): SettingsFormState => ({
+  description: repository.description || '',
+  defaultBranch: repository.settings?.defaultBranch || 'main',
+  allowForking: repository.settings?.allowForking ?? true,
+  allowIssues: repository.settings?.allowIssues ?? true,
+  allowWiki: repository.settings?.allowWiki ?? false,
+  allowProjects: repository.settings?.allowProjects ?? false,
+  visibility: repository.settings?.visibility || repository.visibility || 'public',
+  license: repository.settings?.license ?? repository.license,
+  topics: repository.settings?.topics || []
+})
+
+const isSameState = (a: SettingsFormState, b: SettingsFormState) => {
+  return JSON.stringify({ ...a, license: a.license || undefined }) === JSON.stringify({ ...b, license: b.license || undefined })
+}
+
+function RepositorySettingsForm({ repository, onSaved }: RepositorySettingsFormProps) {
+  const [initial, setInitial] = useState(() => toFormState(repository))
+  const [form, setForm] = useState(initial)
+  const [branchNames, setBranchNames] = useState<string[]>([])
+  const [topicInput, setTopicInput] = useState('')
+  const [errors, setErrors] = useState<FormErrors>({})
+  const [saving, setSaving] = useState(false)
+  const [saveError, setSaveError] = useState<string | null>(null)
+  const [savedAt, setSavedAt] = useState<number | null>(null)
+
+  const isDirty = !isSameState(form, initial)
+
+  useEffect(() => {
+    gitService.listBranches(repository.id)
+      .then(branches => setBranchNames(branches.map(branch => branch.name)))
+      .catch(() => setBranchNames([]))
+  }, [repository.id])
+
+  const updateField = <K extends keyof SettingsFormState>(field: K, value: SettingsFormState[K]) => {
+    setForm(prev => ({ ...prev, [field]: value }))
+    setErrors(prev => ({ ...prev, [field]: undefined }))
+    setSavedAt(null)
+  }
+
+  const validateTopic = (topic: string): string | null => {
+    if (!TOPIC_PATTERN.test(topic)) {
+      return 'Topics must start with a letter or number and contain only lowercase letters, numbers and hyphens'
+    }
+    if (topic.length > MAX_TOPIC_LENGTH) return `Topics must be ${MAX_TOPIC_LENGTH} characters or fewer`
+    if (form.topics.includes(topic)) return `"${topic}" is already added`
+    if (form.topics.length >= MAX_TOPICS) return `A repository can have at most ${MAX_TOPICS} topics`
+    return null
+  }
+
+  const addTopic = () => {
+    const topic = topicInput.trim().toLowerCase()
+    if (!topic) return
+
+    const topicError = validateTopic(topic)
+    if (topicError) {
+      setErrors(prev => ({ ...prev, topics: topicError }))
+      return
+    }
+
+    updateField('topics', [...form.topics, topic])
+    setTopicInput('')
+  }
+
+  const handleTopicKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault()
+      addTopic()
+    } else if (e.key === 'Backspace' && !topicInput && form.topics.length > 0) {
+      updateField('topics', form.topics.slice(0, -1))
+    }
+  }
+
+  const validate = (): FormErrors => {
+    const result: FormErrors = {}
+    if (form.description.length > MAX_DESCRIPTION_LENGTH) {
+      result.description = `Description must be ${MAX_DESCRIPTION_LENGTH} characters or fewer`
+    }
+    if (!form.defaultBranch.trim()) {
+      result.defaultBranch = 'Default branch is required'
+    } else if (branchNames.length > 0 && !branchNames.includes(form.defaultBranch)) {
+      result.defaultBranch = `Branch "${form.defaultBranch}" does not exist`
+    }
+    if (form.license && !/^[A-Za-z0-9.+-]+$/.test(form.license)) {
+      result.license = 'Use an SPDX license identifier such as MIT or Apache-2.0'
+    }
+    return result
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const validationErrors = validate()
+    setErrors(validationErrors)
+    if (Object.keys(validationErrors).length > 0) return
+
+    const { description, ...settings } = form
+    setSaving(true)
+    setSaveError(null)
+    try {
+      const updated = await repositoryService.updateRepository(repository.id, {
+        description: description.trim(),
+        settings: { ...settings, license: settings.license || undefined }
+      })
+      const nextState = toFormState(updated)
+      setInitial(nextState)
+      setForm(nextState)
+      setSavedAt(Date.now())
+      onSaved(updated)
+    } catch (err) {
+      console.error('Error saving settings:', err)
+      setSaveError(err instanceof Error ? err.message : 'Failed to save settings')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleReset = () => {
+    setForm(initial)
+    setErrors({})
+    setTopicInput('')
+    setSaveError(null)
+  }
+
+  return (
+    <form className="settings-tab settings-form" onSubmit={handleSubmit}>
+      <div className="settings-form-header">
+        <h2>Repository Settings</h2>
+        {isDirty && <span className="dirty-indicator">● Unsaved changes</span>}
+        {!isDirty && savedAt && <span className="saved-indicator">✓ Saved</span>}
+      </div>
+
+      <div className="settings-section">
+        <h3>General</h3>
+        <div className="setting-item">
+          <label htmlFor="settingsName">Repository Name</label>
+          <input id="settingsName" type="text" value={repository.name} readOnly />
+        </div>
+        <div className="setting-item">
+          <label htmlFor="settingsDescription">Description</label>
+          <textarea
+            id="settingsDescription"
+            value={form.description}
+            onChange={e => updateField('description', e.target.value)}
+            maxLength={MAX_DESCRIPTION_LENGTH}
+          />
+          {errors.description && <span className="setting-error">{errors.description}</span>}
+        </div>
+        <div className="setting-item">
+          <label htmlFor="settingsDefaultBranch">Default Branch</label>
+          {branchNames.length > 0 ? (
+            <select
+              id="settingsDefaultBranch"
+              value={form.defaultBranch}
+              onChange={e => updateField('defaultBranch', e.target.value)}
+            >
+              {!branchNames.includes(form.defaultBranch) && (
+                <option value={form.defaultBranch}>{form.defaultBranch}</option>
+              )}
+              {branchNames.map(name => (
+                <option key={name} value={name}>{name}</option>
+              ))}
+            </select>
+          ) : (
+            <input
+              id="settingsDefaultBranch"
+              type="text"
+              value={form.defaultBranch}
+              onChange={e => updateField('defaultBranch', e.target.value)}
+            />
+          )}
+          {errors.defaultBranch && <span className="setting-error">{errors.defaultBranch}</span>}
+        </div>
+      </div>
+
+      <div className="settings-section">
+        <h3>Visibility</h3>
+        <div className="visibility-options">
+          {VISIBILITY_OPTIONS.map(option => (
+            <label key={option.value} className={`visibility-option ${form.visibility === option.value ? 'selected' : ''}`}>
+              <input
+                type="radio"
+                name="visibility"
+                value={option.value}
+                checked={form.visibility === option.value}
+                onChange={() => updateField('visibility', option.value)}
+              />
+              <span className="visibility-label">{option.label}</span>
+              <span className="visibility-hint">{option.hint}</span>
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div className="settings-section">
+        <h3>Features</h3>
+        <label className="setting-toggle">
+          <input
+            type="checkbox"
+            checked={form.allowForking}
+            onChange={e => updateField('allowForking', e.target.checked)}
+          />
+          <span>Allow forking</span>
+        </label>
+        <label className="setting-toggle">
+          <input
+            type="checkbox"
+            checked={form.allowIssues}
+            onChange={e => updateField('allowIssues', e.target.checked)}
+          />
+          <span>Issues</span>
+        </label>
+        <label className="setting-toggle">
+          <input
+            type="checkbox"
+            checked={form.allowWiki}
+            onChange={e => updateField('allowWiki', e.target.checked)}
+          />
+          <span>Wiki</span>
+        </label>
+        <label className="setting-toggle">
+          <input
+            type="checkbox"
+            checked={form.allowProjects}
+            onChange={e => updateField('allowProjects', e.target.checked)}
+          />
+          <span>Projects</span>
+        </label>
+      </div>
+
+      <div className="settings-section">
+        <h3>Metadata</h3>
+        <div className="setting-item">
+          <label htmlFor="settingsLicense">License</label>
+          <input
+            id="settingsLicense"
+            type="text"
+            list="settingsLicenseOptions"
+            value={form.license || ''}
+            onChange={e => updateField('license', e.target.value.trim() || undefined)}
+            placeholder="No license"
+          />
+          <datalist id="settingsLicenseOptions">
+            {COMMON_LICENSES.map(license => (
+              <option key={license} value={license} />
+            ))}
+          </datalist>
+          {errors.license && <span className="setting-error">{errors.license}</span>}
+        </div>
+        <div className="setting-item">
+          <label htmlFor="settingsTopics">Topics</label>
+          <div className="topics-input">
+            {form.topics.map(topic => (
+              <span key={topic} className="topic-chip">
+                {topic}
+                <button
+                  type="button"
+                  aria-label={`Remove ${topic}`}
+                  onClick={() => updateField('topics', form.topics.filter(t => t !== topic))}
+                >
+                  ×
+                </button>
+              </span>
+            ))}
+            <input
+              id="settingsTopics"
+              type="text"
+              value={topicInput}
+              onChange={e => setTopicInput(e.target.value)}
+              onKeyDown={handleTopicKeyDown}
+              onBlur={addTopic}
+              placeholder={form.topics.length === 0 ? 'defi, motoko, smart-contracts' : ''}
+            />
+          </div>
+          {errors.topics && <span className="setting-error">{errors.topics}</span>}
+        </div>
+      </div>
+
+      {saveError && <div className="setting-error save-error">{saveError}</div>}
+
+      <div className="settings-actions">
+        <button type="button" className="settings-reset-btn" onClick={handleReset} disabled={!isDirty || saving}>
+          Discard changes
+        </button>
+        <button type="submit" className="settings-save-btn" disabled={!isDirty || saving}>
+          {saving ? 'Saving...' : 'Save changes'}
+        </button>
+      </div>
+    </form>
+  )
+}
+
+export default RepositorySettingsForm
@@ -1,138 +1,333 @@
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useCallback } from 'react'
+import { statsService } from '../services/statsService'
+import { repositoryService } from '../services/repositoryService'
+import type { PlatformStats, RepositoryMetrics } from '../types/stats'
+import type { Repository } from '../types/repository'
+import { shortenPrincipal } from '../utils/governance'
+import PageLayout from './PageLayout'
 import './RepositoryStats.css'
 
-interface RepositoryStats {
-  totalRepositories: number
-  publicRepositories: number
-  totalUsers: number
-  totalStars: number
-  totalForks: number
+const LANGUAGE_COLORS: Record<string, string> = {
+  Motoko: '#8b5cf6',
+  TypeScript: '#3178c6',
+  JavaScript: '#f1e05a',
+  Python: '#3572a5',
+  Rust: '#dea584',
+  Go: '#00add8',
+  Java: '#b07219',
+  'C++': '#f34b7d',
+  C: '#555555',
+  md: '#083fa1',
+  json: '#94a3b8',
+  css: '#563d7c',
+  html: '#e34c26',
+  sol: '#aa6746'
 }
+const FALLBACK_COLORS = ['#10b981', '#f59e0b', '#ef4444', '#06b6d4', '#ec4899', '#84cc16']
+
+const languageColor = (language: string, index: number) =>
+  LANGUAGE_COLORS[language] ?? FALLBACK_COLORS[index % FALLBACK_COLORS.length]
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+// Averages are meaningless until there is something to divide by
+const ratio = (numerator: number, denominator: number) =>
+  denominator > 0 ? (numerator / denominator).toFixed(1) : '—'
 
 function RepositoryStats() {
-  const [stats, setStats] = useState<RepositoryStats>({
-    totalRepositories: 0,
-    publicRepositories: 0,
-    totalUsers: 0,
-    totalStars: 0,
-    totalForks: 0
-  })
+  const [stats, setStats] = useState<PlatformStats | null>(null)
   const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
 
-  // Mock data for demonstration - in real app this would come from the backend API
-  useEffect(() => {
-    const mockStats: RepositoryStats = {
-      totalRepositories: 156,
-      publicRepositories: 142,
-      totalUsers: 89,
-      totalStars: 1247,
-      totalForks: 89
-    }
+  const [repositories, setRepositories] = useState<Repository[]>([])
+  const [selectedRepositoryId, setSelectedRepositoryId] = useState('')
+  const [metrics, setMetrics] = useState<RepositoryMetrics | null>(null)
+  const [metricsLoading, setMetricsLoading] = useState(false)
+  const [metricsError, setMetricsError] = useState<string | null>(null)
 
-    // Simulate API call
-    setTimeout(() => {
-      setStats(mockStats)
+  const loadPlatformStats = useCallback(async () => {
+    try {
+      setIsLoading(true)
+      const [platformStats, repositoryList] = await Promise.all([
+        statsService.getPlatformStats(),
+        repositoryService.getRepositories()
+      ])
+      setStats(platformStats)
+      setRepositories(repositoryList.repositories)
+      setSelectedRepositoryId(current => current || repositoryList.repositories[0]?.id || '')
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load statistics')
+    } finally {
       setIsLoading(false)
-    }, 1000)
+    }
   }, [])
 
+  useEffect(() => {
+    loadPlatformStats()
+  }, [loadPlatformStats])
+
+  useEffect(() => {
+    if (!selectedRepositoryId) {
+      setMetrics(null)
+      return
+    }
+
+    let cancelled = false
+    setMetricsLoading(true)
+    setMetricsError(null)
+    statsService.getRepositoryMetrics(selectedRepositoryId)
+      .then(result => {
+        if (!cancelled) setMetrics(result)
+      })
+      .catch(err => {
+        if (!cancelled) {
+          setMetrics(null)
+          setMetricsError(err instanceof Error ? err.message : 'Failed to load repository statistics')
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setMetricsLoading(false)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [selectedRepositoryId])
+
   if (isLoading) {
     return (
-      <div className="repository-stats">
-        <div className="stats-header">
-          <h2>Repository Statistics</h2>
+      <PageLayout>
+        <div className="repository-stats">
+          <div className="stats-header">
+            <h2>Repository Statistics</h2>
+          </div>
+          <div className="loading-spinner">Loading statistics...</div>
         </div>
-        <div className="loading-spinner">Loading statistics...</div>
-      </div>
+      </PageLayout>
+    )
+  }
+
+  if (error || !stats) {
+    return (
+      <PageLayout>
+        <div className="repository-stats">
+          <div className="stats-header">
+            <h2>Repository Statistics</h2>
+          </div>
+          <div className="stats-error">
+            {error || 'Statistics are unavailable'}
+            <button onClick={loadPlatformStats}>Try again</button>
+          </div>
+        </div>
+      </PageLayout>
     )
   }
 
+  const publicPercentage = stats.totalRepositories > 0
+    ? Math.round((stats.publicRepositories / stats.totalRepositories) * 100)
+    : 0
+  const topCommits = metrics?.contributors[0]?.commits ?? 0
+
   return (
-    <div className="repository-stats">
-      <div className="stats-header">
-        <h2>Repository Statistics</h2>
-        <p className="stats-subtitle">Platform overview and key metrics</p>
-      </div>
+    <PageLayout>
+      <div className="repository-stats">
+        <div className="stats-header">
+          <h2>Repository Statistics</h2>
+          <p className="stats-subtitle">Platform overview and key metrics</p>
+        </div>
 
-      <div className="stats-grid">
-        <div className="stat-card">
-          <div className="stat-icon">📊</div>
-          <div className="stat-content">
-            <div className="stat-value">{stats.totalRepositories}</div>
-            <div className="stat-label">Total Repositories</div>
+        <div className="stats-grid">
+          <div className="stat-card">
+            <div className="stat-icon">📊</div>
+            <div className="stat-content">
+              <div className="stat-value">{stats.totalRepositories.toLocaleString()}</div>
+              <div className="stat-label">Total Repositories</div>
+            </div>
           </div>
-        </div>
 
-        <div className="stat-card">
-          <div className="stat-icon">🌍</div>
-          <div className="stat-content">
-            <div className="stat-value">{stats.publicRepositories}</div>
-            <div className="stat-label">Public Repositories</div>
+          <div className="stat-card">
+            <div className="stat-icon">🌍</div>
+            <div className="stat-content">
+              <div className="stat-value">{stats.publicRepositories.toLocaleString()}</div>
+              <div className="stat-label">Public Repositories</div>
+            </div>
           </div>
-        </div>
 
-        <div className="stat-card">
-          <div className="stat-icon">👥</div>
-          <div className="stat-content">
-            <div className="stat-value">{stats.totalUsers}</div>
-            <div className="stat-label">Active Users</div>
+          <div className="stat-card">
+            <div className="stat-icon">👥</div>
+            <div className="stat-content">
+              <div className="stat-value">{stats.totalUsers.toLocaleString()}</div>
+              <div className="stat-label">Registered Users</div>
+            </div>
           </div>
-        </div>
 
-        <div className="stat-card">
-          <div className="stat-icon">⭐</div>
-          <div className="stat-content">
-            <div className="stat-value">{stats.totalStars}</div>
-            <div className="stat-label">Total Stars</div>
+          <div className="stat-card">
+            <div className="stat-icon">⭐</div>
+            <div className="stat-content">
+              <div className="stat-value">{stats.totalStars.toLocaleString()}</div>
+              <div className="stat-label">Total Stars</div>
+            </div>
           </div>
-        </div>
 
-        <div className="stat-card">
-          <div className="stat-icon">🔄</div>
-          <div className="stat-content">
-            <div className="stat-value">{stats.totalForks}</div>
-            <div className="stat-label">Total Forks</div>
+          <div className="stat-card">
+            <div className="stat-icon">🔄</div>
+            <div className="stat-content">
+              <div className="stat-value">{stats.totalForks.toLocaleString()}</div>
+              <div className="stat-label">Total Forks</div>
+            </div>
           </div>
-        </div>
 
-        <div className="stat-card">
-          <div className="stat-icon">🔐</div>
-          <div className="stat-content">
-            <div className="stat-value">{stats.totalRepositories - stats.publicRepositories}</div>
-            <div className="stat-label">Private Repositories</div>
+          <div className="stat-card">
+            <div className="stat-icon">🔐</div>
+            <div className="stat-content">
+              <div className="stat-value">{stats.privateRepositories.toLocaleString()}</div>
+              <div className="stat-label">Private Repositories</div>
+            </div>
           </div>
         </div>
-      </div>
 
-      <div className="stats-summary">
-        <div className="summary-item">
-          <span className="summary-label">Public vs Private:</span>
-          <div className="summary-bar">
-            <div 
-              className="summary-fill public" 
-              style={{ width: `${(stats.publicRepositories / stats.totalRepositories) * 100}%` }}
-            ></div>
+        <div className="stats-summary">
+          <div className="summary-item">
+            <span className="summary-label">Public vs Private:</span>
+            <div className="summary-bar">
+              <div className="summary-fill public" style={{ width: `${publicPercentage}%` }}></div>
+            </div>
+            <span className="summary-percentage">{publicPercentage}% Public</span>
+          </div>
+
+          <div className="summary-item">
+            <span className="summary-label">Average Stars per Repository:</span>
+            <span className="summary-value">{ratio(stats.totalStars, stats.totalRepositories)}</span>
           </div>
-          <span className="summary-percentage">
-            {Math.round((stats.publicRepositories / stats.totalRepositories) * 100)}% Public
-          </span>
-        </div>
 
-        <div className="summary-item">
-          <span className="summary-label">Average Stars per Repository:</span>
-          <span className="summary-value">
-            {(stats.totalStars / stats.totalRepositories).toFixed(1)}
-          </span>
+          <div className="summary-item">
+            <span className="summary-label">Average Repositories per User:</span>
+            <span className="summary-value">{ratio(stats.totalRepositories, stats.totalUsers)}</span>
+          </div>
         </div>
 
-        <div className="summary-item">
-          <span className="summary-label">Average Repositories per User:</span>
-          <span className="summary-value">
-            {(stats.totalRepositories / stats.totalUsers).toFixed(1)}
-          </span>
+        <div className="repo-drilldown">
+          <div className="repo-drilldown-header">
+            <h3>Repository breakdown</h3>
+            {repositories.length > 0 && (
+              <select
+                value={selectedRepositoryId}
+                onChange={(e) => setSelectedRepositoryId(e.target.value)}
+                aria-label="Repository"
+              >
+                {repositories.map(repo => (
+                  <option key={repo.id} value={repo.id}>
+                    {repo.owner ? `${shortenPrincipal(repo.owner)}/` : ''}{repo.name}
+                  </option>
+                ))}
+              </select>
+            )}
+          </div>
+
+          {repositories.length === 0 ? (
+            <p className="stats-muted">There are no repositories you can view yet.</p>
+          ) : metricsLoading ? (
+            <div className="loading-spinner">Loading repository statistics...</div>
+          ) : metricsError ? (
+            <div className="stats-error">{metricsError}</div>
+          ) : metrics && (
+            <>
+              <div className="stats-grid compact">
+                <div className="stat-card">
+                  <div className="stat-icon">📝</div>
+                  <div className="stat-content">
+                    <div className="stat-value">{metrics.totalCommits.toLocaleString()}</div>
+                    <div className="stat-label">Commits</div>
+                  </div>
+                </div>
+                <div className="stat-card">
+                  <div className="stat-icon">🌿</div>
+                  <div className="stat-content">
+                    <div className="stat-value">{metrics.totalBranches.toLocaleString()}</div>
+                    <div className="stat-label">Branches</div>
+                  </div>
+                </div>
+                <div className="stat-card">
+                  <div className="stat-icon">📄</div>
+                  <div className="stat-content">
+                    <div className="stat-value">{metrics.totalFiles.toLocaleString()}</div>
+                    <div className="stat-label">Files</div>
+                  </div>
+                </div>
+                <div className="stat-card">
+                  <div className="stat-icon">👥</div>
+                  <div className="stat-content">
+                    <div className="stat-value">{metrics.contributors.length.toLocaleString()}</div>
+                    <div className="stat-label">Contributors</div>
+                  </div>
+                </div>
+              </div>
+
+              <div className="repo-drilldown-panels">
+                <div className="stats-panel">
+                  <h4>Languages</h4>
+                  {metrics.languages.length === 0 ? (
+                    <p className="stats-muted">No source files yet.</p>
+                  ) : (
+                    <>
+                      <div className="language-bar" role="img" aria-label="Language breakdown">
+                        {metrics.languages.map((share, i) => (
+                          <div
+                            key={share.language}
+                            className="language-segment"
+                            style={{ width: `${share.percentage}%`, background: languageColor(share.language, i) }}
+                            title={`${share.language} ${share.percentage.toFixed(1)}%`}
+                          ></div>
+                        ))}
+                      </div>
+                      <ul className="language-legend">
+                        {metrics.languages.map((share, i) => (
+                          <li key={share.language}>
+                            <span className="language-dot" style={{ background: languageColor(share.language, i) }}></span>
+                            <span className="language-name">{share.language}</span>
+                            <span className="language-percentage">{share.percentage.toFixed(1)}%</span>
+                            <span className="stats-muted">{formatBytes(share.bytes)}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    </>
+                  )}
+                </div>
+
+                <div className="stats-panel">
+                  <h4>Contributors</h4>
+                  <ul className="contributor-list">
+                    {metrics.contributors.map(contributor => (
+                      <li key={contributor.principal}>
+                        <div className="contributor-name" title={contributor.principal}>
+                          {contributor.displayName || contributor.username || shortenPrincipal(contributor.principal)}
+                          {contributor.username && contributor.displayName && (
+                            <span className="stats-muted"> @{contributor.username}</span>
+                          )}
+                        </div>
+                        <div className="summary-bar">
+                          <div
+                            className="summary-fill commits"
+                            style={{ width: `${topCommits > 0 ? (contributor.commits / topCommits) * 100 : 0}%` }}
+                          ></div>
+                        </div>
+                        <span className="contributor-commits">
+                          {contributor.commits} {contributor.commits === 1 ? 'commit' : 'commits'}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              </div>
+            </>
+          )}
         </div>
       </div>
-    </div>
+    </PageLayout>
   )
 }
 
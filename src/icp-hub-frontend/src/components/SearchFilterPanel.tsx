@@ -0,0 +1,241 @@
+import { useState } from 'react'
+import type { SearchFilters, SearchSort } from '../types'
+import { compactFilters } from '../utils/searchParams'
+import './SearchFilterPanel.css'
+
+interface SearchFilterPanelProps {
+  filters: SearchFilters
+  onApply: (filters: SearchFilters) => void
+  onClose: () => void
+}
+
+// The form keeps raw input text; sizes are typed in KB and stored in bytes
+interface FilterForm {
+  owner: string
+  language: string
+  visibility: '' | 'public' | 'private'
+  minSize: string
+  maxSize: string
+  createdAfter: string
+  createdBefore: string
+  sort: SearchSort
+}
+
+const KB = 1024
+
+const LANGUAGES = ['Motoko', 'Rust', 'TypeScript', 'JavaScript', 'Solidity', 'Python', 'Go']
+
+const SORT_OPTIONS: { value: SearchSort, label: string }[] = [
+  { value: 'relevance', label: 'Best match' },
+  { value: 'name', label: 'Name' },
+  { value: 'created', label: 'Newest' },
+  { value: 'updated', label: 'Recently updated' },
+  { value: 'stars', label: 'Most stars' },
+  { value: 'size', label: 'Largest' }
+]
+
+const formatDate = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`
+
+// Date ranges offered as one-click shortcuts, worked out from today
+const DATE_PRESETS: { label: string, range: () => [string, string] }[] = [
+  {
+    label: 'Last 7 days',
+    range: () => {
+      const today = new Date()
+      return [formatDate(new Date(today.getFullYear(), today.getMonth(), today.getDate() - 6)), formatDate(today)]
+    }
+  },
+  {
+    label: 'Last 30 days',
+    range: () => {
+      const today = new Date()
+      return [formatDate(new Date(today.getFullYear(), today.getMonth(), today.getDate() - 29)), formatDate(today)]
+    }
+  },
+  {
+    label: 'Last month',
+    range: () => {
+      const today = new Date()
+      return [
+        formatDate(new Date(today.getFullYear(), today.getMonth() - 1, 1)),
+        formatDate(new Date(today.getFullYear(), today.getMonth(), 0))
+      ]
+    }
+  },
+  {
+    label: 'This year',
+    range: () => {
+      const today = new Date()
+      return [formatDate(new Date(today.getFullYear(), 0, 1)), formatDate(today)]
+    }
+  }
+]
+
+const toForm = (filters: SearchFilters): FilterForm => ({
+  owner: filters.owner ?? '',
+  language: filters.language ?? '',
+  visibility: filters.visibility ?? '',
+  minSize: filters.minSize === undefined ? '' : String(filters.minSize / KB),
+  maxSize: filters.maxSize === undefined ? '' : String(filters.maxSize / KB),
+  createdAfter: filters.createdAfter ?? '',
+  createdBefore: filters.createdBefore ?? '',
+  sort: filters.sort ?? 'relevance'
+})
+
+const readSize = (value: string) => {
+  const kilobytes = parseFloat(value)
+  return Number.isFinite(kilobytes) && kilobytes >= 0 ? Math.round(kilobytes * KB) : undefined
+}
+
+export default function SearchFilterPanel({ filters, onApply, onClose }: SearchFilterPanelProps) {
+  const [form, setForm] = useState<FilterForm>(() => toForm(filters))
+  const [error, setError] = useState<string | null>(null)
+
+  const update = <K extends keyof FilterForm>(key: K, value: FilterForm[K]) => {
+    setForm(prev => ({ ...prev, [key]: value }))
+    setError(null)
+  }
+
+  const applyPreset = (range: () => [string, string]) => {
+    const [createdAfter, createdBefore] = range()
+    setForm(prev => ({ ...prev, createdAfter, createdBefore }))
+    setError(null)
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const minSize = readSize(form.minSize)
+    const maxSize = readSize(form.maxSize)
+    if ((form.minSize.trim() && minSize === undefined) || (form.maxSize.trim() && maxSize === undefined)) {
+      setError('Sizes must be positive numbers')
+      return
+    }
+    if (minSize !== undefined && maxSize !== undefined && minSize > maxSize) {
+      setError('The minimum size is larger than the maximum size')
+      return
+    }
+    if (form.createdAfter && form.createdBefore && form.createdAfter > form.createdBefore) {
+      setError('The start date is after the end date')
+      return
+    }
+
+    onApply(compactFilters({
+      owner: form.owner.trim() || undefined,
+      language: form.language.trim() || undefined,
+      visibility: form.visibility || undefined,
+      minSize,
+      maxSize,
+      createdAfter: form.createdAfter || undefined,
+      createdBefore: form.createdBefore || undefined,
+      sort: form.sort === 'relevance' ? undefined : form.sort
+    }))
+  }
+
+  const handleReset = () => {
+    setForm(toForm({}))
+    setError(null)
+    onApply({})
+  }
+
+  return (
+    <form className="search-filter-panel" onSubmit={handleSubmit}>
+      <p className="search-filter-note">Filters and sorting narrow repository results.</p>
+
+      <div className="search-filter-grid">
+        <label className="search-filter-field search-filter-wide">
+          <span>Owner principal</span>
+          <input
+            type="text"
+            value={form.owner}
+            onChange={e => update('owner', e.target.value)}
+            placeholder="e.g. aaaaa-aa"
+            autoComplete="off"
+            spellCheck={false}
+          />
+        </label>
+
+        <label className="search-filter-field">
+          <span>Language</span>
+          <input
+            type="text"
+            list="search-filter-languages"
+            value={form.language}
+            onChange={e => update('language', e.target.value)}
+            placeholder="Any"
+          />
+          <datalist id="search-filter-languages">
+            {LANGUAGES.map(language => <option key={language} value={language} />)}
+          </datalist>
+        </label>
+
+        <label className="search-filter-field">
+          <span>Visibility</span>
+          <select value={form.visibility} onChange={e => update('visibility', e.target.value as FilterForm['visibility'])}>
+            <option value="">Any</option>
+            <option value="public">Public</option>
+            <option value="private">Private</option>
+          </select>
+        </label>
+
+        <label className="search-filter-field">
+          <span>Min size (KB)</span>
+          <input
+            type="number"
+            min="0"
+            step="any"
+            value={form.minSize}
+            onChange={e => update('minSize', e.target.value)}
+          />
+        </label>
+
+        <label className="search-filter-field">
+          <span>Max size (KB)</span>
+          <input
+            type="number"
+            min="0"
+            step="any"
+            value={form.maxSize}
+            onChange={e => update('maxSize', e.target.value)}
+          />
+        </label>
+
+        <label className="search-filter-field">
+          <span>Created after</span>
+          <input type="date" value={form.createdAfter} onChange={e => update('createdAfter', e.target.value)} />
+        </label>
+
+        <label className="search-filter-field">
+          <span>Created before</span>
+          <input type="date" value={form.createdBefore} onChange={e => update('createdBefore', e.target.value)} />
+        </label>
+      </div>
+
+      <div className="search-filter-presets">
+        {DATE_PRESETS.map(preset => (
+          <button key={preset.label} type="button" onClick={() => applyPreset(preset.range)}>
+            {preset.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="search-filter-footer">
+        <label className="search-filter-sort">
+          <span>Sort by</span>
+          <select value={form.sort} onChange={e => update('sort', e.target.value as SearchSort)}>
+            {SORT_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </label>
+        {error && <span className="search-filter-error">{error}</span>}
+        <div className="search-filter-actions">
+          <button type="button" className="search-filter-secondary" onClick={onClose}>Cancel</button>
+          <button type="button" className="search-filter-secondary" onClick={handleReset}>Reset</button>
+          <button type="submit" className="search-filter-primary">Apply</button>
+        </div>
+      </div>
+    </form>
+  )
+}
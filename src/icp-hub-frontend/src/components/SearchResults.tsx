@@ -1,4 +1,8 @@
-import type { SearchType, SearchResult } from '../types'
+import { useEffect, useRef, useState } from 'react'
+import type { SearchType, SearchResult, SearchFilters } from '../types'
+import { countActiveFilters } from '../utils/searchParams'
+import { escapeRegExp } from '../utils/codeSearch'
+import SearchFilterPanel from './SearchFilterPanel'
 import './SearchResults.css'
 
 interface SearchResultsProps {
@@ -6,10 +10,60 @@ interface SearchResultsProps {
   query: string
   searchType: SearchType
   isVisible: boolean
+  totalCount: number
+  hasMore: boolean
+  isLoading: boolean
+  error?: string | null
+  filters: SearchFilters
+  onFiltersChange: (filters: SearchFilters) => void
   onClose: () => void
+  onLoadMore: () => void
+  onSelect: (result: SearchResult) => void
 }
 
-export default function SearchResults({ results, query, searchType, isVisible, onClose }: SearchResultsProps) {
+// Wrap each occurrence of the query in a <mark>
+const highlightMatches = (text: string, query: string) => {
+  if (!query) return text
+  const parts = text.split(new RegExp(`(${escapeRegExp(query)})`, 'gi'))
+  return parts.map((part, index) => index % 2 === 1 ? <mark key={index}>{part}</mark> : part)
+}
+
+export default function SearchResults({
+  results,
+  query,
+  searchType,
+  isVisible,
+  totalCount,
+  hasMore,
+  isLoading,
+  error,
+  filters,
+  onFiltersChange,
+  onClose,
+  onLoadMore,
+  onSelect
+}: SearchResultsProps) {
+  const listRef = useRef<HTMLDivElement>(null)
+  const sentinelRef = useRef<HTMLDivElement>(null)
+  const [showFilters, setShowFilters] = useState(false)
+  const activeFilters = countActiveFilters(filters)
+
+  // Load the next page once the end of the list scrolls into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current
+    // After a failure the user retries by hand, rather than on every scroll
+    if (!isVisible || !sentinel || !hasMore || isLoading || error) return
+
+    const observer = new IntersectionObserver(
+      entries => {
+        if (entries.some(entry => entry.isIntersecting)) onLoadMore()
+      },
+      { root: listRef.current, rootMargin: '200px' }
+    )
+    observer.observe(sentinel)
+    return () => observer.disconnect()
+  }, [isVisible, hasMore, isLoading, error, onLoadMore, results.length])
+
   if (!isVisible) return null
 
   const getTypeIcon = (type: SearchType) => {
@@ -34,6 +88,18 @@ export default function SearchResults({ results, query, searchType, isVisible, o
     return labels[type] || 'All'
   }
 
+  const applyFilters = (next: SearchFilters) => {
+    setShowFilters(false)
+    onFiltersChange(next)
+  }
+
+  const handleSelect = (event: React.MouseEvent, result: SearchResult) => {
+    // Let modified clicks open the link in a new tab
+    if (event.ctrlKey || event.metaKey || event.shiftKey || event.button !== 0) return
+    event.preventDefault()
+    onSelect(result)
+  }
+
   return (
     <div className="search-results-overlay" onClick={onClose}>
       <div className="search-results-modal" onClick={(e) => e.stopPropagation()}>
@@ -47,26 +113,72 @@ export default function SearchResults({ results, query, searchType, isVisible, o
           <span className="search-type">
             {getTypeIcon(searchType)} {getTypeLabel(searchType)}
           </span>
-          <span className="results-count">{results.length} results found</span>
+          <button
+            type="button"
+            className={`search-filters-toggle ${showFilters ? 'active' : ''}`}
+            onClick={() => setShowFilters(!showFilters)}
+            aria-expanded={showFilters}
+          >
+            ⚙️ Filters
+            {(activeFilters > 0 || filters.sort) && (
+              <span className="search-filters-count">{activeFilters > 0 ? activeFilters : 'sorted'}</span>
+            )}
+          </button>
+          <span className="results-count">
+            {isLoading && results.length === 0 ? 'Searching...' : `${totalCount} results found`}
+          </span>
         </div>
 
-        <div className="search-results-list">
-          {results.length === 0 ? (
+        {showFilters && (
+          <SearchFilterPanel
+            filters={filters}
+            onApply={applyFilters}
+            onClose={() => setShowFilters(false)}
+          />
+        )}
+
+        <div className="search-results-list" ref={listRef}>
+          {error && results.length === 0 ? (
+            <div className="no-results">
+              <div className="no-results-icon">⚠️</div>
+              <h4>Search failed</h4>
+              <p>{error}</p>
+            </div>
+          ) : results.length === 0 && !isLoading ? (
             <div className="no-results">
               <div className="no-results-icon">🔍</div>
               <h4>No results found</h4>
-              <p>Try adjusting your search terms or search type</p>
+              <p>
+                {activeFilters > 0
+                  ? 'Try removing some filters or adjusting your search terms'
+                  : 'Try adjusting your search terms or search type'}
+              </p>
             </div>
           ) : (
             results.map((result) => (
-              <div key={result.id} className="search-result-item">
+              <a
+                key={result.id}
+                className="search-result-item"
+                href={result.url}
+                onClick={(e) => handleSelect(e, result)}
+              >
                 <div className="result-header">
                   <span className="result-type-icon">
                     {getTypeIcon(result.type)}
                   </span>
-                  <h4 className="result-title">{result.title}</h4>
+                  <h4 className="result-title">{highlightMatches(result.title, query)}</h4>
                 </div>
                 <p className="result-description">{result.description}</p>
+                {result.snippets && result.snippets.length > 0 && (
+                  <div className="result-snippets">
+                    {result.snippets.map((snippet, index) => (
+                      <div key={index} className="result-snippet">
+                        {snippet.line > 0 && <span className="snippet-line">{snippet.line}</span>}
+                        <code>{highlightMatches(snippet.text, query)}</code>
+                      </div>
+                    ))}
+                  </div>
+                )}
                 <div className="result-meta">
                   <span className="result-type">{getTypeLabel(result.type)}</span>
                   {result.metadata && (
@@ -79,9 +191,17 @@ export default function SearchResults({ results, query, searchType, isVisible, o
                     </span>
                   )}
                 </div>
-              </div>
+              </a>
             ))
           )}
+
+          {hasMore && <div ref={sentinelRef} className="search-results-sentinel" />}
+          {isLoading && results.length > 0 && <div className="search-results-loading">Loading more results...</div>}
+          {error && results.length > 0 && (
+            <div className="search-results-loading">
+              {error} <button type="button" className="search-retry-btn" onClick={onLoadMore}>Retry</button>
+            </div>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,350 @@
+import { useState, useEffect, useCallback, useMemo } from 'react'
+import { incentivesService } from '../services/incentivesService'
+import type { StakePosition, TokenInfo } from '../types/incentives'
+import { useWallet } from '../services/walletService'
+import { estimateStakingRewards, formatTokenAmount, parseTokenAmount, toTokenInput } from '../utils/tokens'
+import PageLayout from './PageLayout'
+import './Staking.css'
+
+const LOCK_PERIODS = [
+  { days: 7, label: '1 week' },
+  { days: 30, label: '1 month' },
+  { days: 90, label: '3 months' },
+  { days: 180, label: '6 months' },
+  { days: 365, label: '1 year' }
+]
+
+const MILLIS_PER_DAY = 24 * 60 * 60 * 1000
+// How often pending rewards are re-estimated while the page is open
+const PENDING_REFRESH_MS = 30000
+
+function Staking() {
+  const [token, setToken] = useState<TokenInfo | null>(null)
+  const [balance, setBalance] = useState<bigint>(0n)
+  const [positions, setPositions] = useState<StakePosition[]>([])
+  const [apyByDays, setApyByDays] = useState<Record<number, number>>({})
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+  const [now, setNow] = useState(() => Date.now())
+
+  const [stakeAmount, setStakeAmount] = useState('')
+  const [lockDays, setLockDays] = useState(LOCK_PERIODS[1].days)
+  const [staking, setStaking] = useState(false)
+  const [claiming, setClaiming] = useState(false)
+
+  const [recipient, setRecipient] = useState('')
+  const [transferAmount, setTransferAmount] = useState('')
+  const [transferring, setTransferring] = useState(false)
+
+  const { wallet } = useWallet()
+
+  const loadAccount = useCallback(async () => {
+    try {
+      setLoading(true)
+      const [tokenInfo, currentBalance, currentPositions, rates] = await Promise.all([
+        incentivesService.getTokenInfo(),
+        incentivesService.getBalance(),
+        incentivesService.getStakePositions(),
+        Promise.all(LOCK_PERIODS.map(period => incentivesService.getStakingAPY(period.days)))
+      ])
+
+      setToken(tokenInfo)
+      setBalance(currentBalance)
+      setPositions(currentPositions)
+      setApyByDays(Object.fromEntries(LOCK_PERIODS.map((period, i) => [period.days, rates[i]])))
+      setNow(Date.now())
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load token account')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (wallet.connected) {
+      loadAccount()
+    } else {
+      setLoading(false)
+    }
+  }, [wallet.connected, loadAccount])
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), PENDING_REFRESH_MS)
+    return () => clearInterval(timer)
+  }, [])
+
+  const decimals = token?.decimals ?? 8
+  const symbol = token?.symbol ?? 'ICPH'
+  const format = (amount: bigint) => formatTokenAmount(amount, decimals)
+
+  const totals = useMemo(() => positions.reduce(
+    (acc, position) => ({
+      staked: acc.staked + position.amount,
+      claimed: acc.claimed + position.accumulatedRewards,
+      pending: acc.pending + estimateStakingRewards(position.amount, position.rewardRate, now - position.lastClaimAt)
+    }),
+    { staked: 0n, claimed: 0n, pending: 0n }
+  ), [positions, now])
+
+  // Projected reward for the amount in the stake form over the whole lock period
+  const projection = useMemo(() => {
+    const apy = apyByDays[lockDays]
+    if (apy === undefined) return null
+    try {
+      const amount = parseTokenAmount(stakeAmount, decimals)
+      return {
+        apy,
+        reward: estimateStakingRewards(amount, apy, lockDays * MILLIS_PER_DAY),
+        unlocksAt: now + lockDays * MILLIS_PER_DAY
+      }
+    } catch {
+      return { apy, reward: null, unlocksAt: now + lockDays * MILLIS_PER_DAY }
+    }
+  }, [apyByDays, lockDays, stakeAmount, decimals, now])
+
+  const runAction = async (action: () => Promise<string>, setBusy: (busy: boolean) => void) => {
+    try {
+      setBusy(true)
+      setError(null)
+      setNotice(await action())
+      await loadAccount()
+    } catch (err) {
+      setNotice(null)
+      setError(err instanceof Error ? err.message : 'Something went wrong')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleStake = (e: React.FormEvent) => {
+    e.preventDefault()
+    runAction(async () => {
+      const amount = parseTokenAmount(stakeAmount, decimals)
+      if (amount === 0n) throw new Error('Amount must be greater than 0')
+      if (amount > balance) throw new Error('Insufficient balance to stake')
+      await incentivesService.stakeTokens(amount, lockDays)
+      setStakeAmount('')
+      return `Staked ${format(amount)} ${symbol} for ${lockDays} days`
+    }, setStaking)
+  }
+
+  const handleClaim = () => {
+    runAction(async () => {
+      const claimed = await incentivesService.claimStakingRewards()
+      return `Claimed ${format(claimed)} ${symbol}`
+    }, setClaiming)
+  }
+
+  const handleTransfer = (e: React.FormEvent) => {
+    e.preventDefault()
+    runAction(async () => {
+      const amount = parseTokenAmount(transferAmount, decimals)
+      if (amount === 0n) throw new Error('Amount must be greater than 0')
+      if (amount > balance) throw new Error('Insufficient balance')
+      if (!window.confirm(`Send ${format(amount)} ${symbol} to ${recipient.trim()}? Transfers cannot be undone.`)) {
+        return 'Transfer cancelled'
+      }
+      await incentivesService.transfer(recipient, amount)
+      setRecipient('')
+      setTransferAmount('')
+      return `Sent ${format(amount)} ${symbol}`
+    }, setTransferring)
+  }
+
+  if (!wallet.connected) {
+    return (
+      <PageLayout>
+        <div className="staking-page">
+          <div className="staking-empty">
+            <h2>Tokens & Staking</h2>
+            <p>Connect your wallet to see the tokens you have earned from contributions.</p>
+          </div>
+        </div>
+      </PageLayout>
+    )
+  }
+
+  return (
+    <PageLayout>
+      <div className="staking-page">
+        <div className="staking-header">
+          <h1>Tokens & Staking</h1>
+          <p>Tokens earned from commits, reviews and bounties. Stake them to earn more.</p>
+        </div>
+
+        {error && (
+          <div className="staking-error">
+            {error}
+            {!token && <button onClick={loadAccount}>Try again</button>}
+          </div>
+        )}
+        {notice && <div className="staking-notice">{notice}</div>}
+
+        {loading && !token ? (
+          <div className="staking-loading">
+            <div className="staking-spinner"></div>
+            <p>Loading your tokens...</p>
+          </div>
+        ) : (
+          <>
+            <div className="staking-stats">
+              <div className="staking-stat">
+                <h3>Available</h3>
+                <p>{format(balance)} <span>{symbol}</span></p>
+              </div>
+              <div className="staking-stat">
+                <h3>Staked</h3>
+                <p>{format(totals.staked)} <span>{symbol}</span></p>
+              </div>
+              <div className="staking-stat">
+                <h3>Claimable rewards</h3>
+                <p>~{format(totals.pending)} <span>{symbol}</span></p>
+                <button
+                  className="staking-claim-btn"
+                  onClick={handleClaim}
+                  disabled={claiming || positions.length === 0}
+                >
+                  {claiming ? 'Claiming...' : 'Claim rewards'}
+                </button>
+              </div>
+              <div className="staking-stat">
+                <h3>Rewards claimed</h3>
+                <p>{format(totals.claimed)} <span>{symbol}</span></p>
+              </div>
+            </div>
+
+            <div className="staking-layout">
+              <form className="staking-card" onSubmit={handleStake}>
+                <h2>Stake tokens</h2>
+                <label className="staking-field">
+                  Amount
+                  <div className="staking-amount-input">
+                    <input
+                      type="text"
+                      inputMode="decimal"
+                      value={stakeAmount}
+                      onChange={(e) => setStakeAmount(e.target.value)}
+                      placeholder="0.0"
+                    />
+                    <button type="button" onClick={() => setStakeAmount(toTokenInput(balance, decimals))}>
+                      Max
+                    </button>
+                  </div>
+                </label>
+
+                <div className="staking-field">
+                  Lock period
+                  <div className="lock-period-options">
+                    {LOCK_PERIODS.map(period => (
+                      <button
+                        key={period.days}
+                        type="button"
+                        className={`lock-period-option ${lockDays === period.days ? 'selected' : ''}`}
+                        onClick={() => setLockDays(period.days)}
+                      >
+                        <span>{period.label}</span>
+                        <strong>{apyByDays[period.days] !== undefined ? `${apyByDays[period.days]}% APY` : '—'}</strong>
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                {projection && (
+                  <div className="staking-projection">
+                    <div>
+                      <span>Projected reward</span>
+                      <strong>
+                        {projection.reward !== null ? `${format(projection.reward)} ${symbol}` : '—'}
+                      </strong>
+                    </div>
+                    <div>
+                      <span>Unlocks</span>
+                      <strong>{new Date(projection.unlocksAt).toLocaleDateString()}</strong>
+                    </div>
+                  </div>
+                )}
+
+                <button type="submit" className="staking-submit-btn" disabled={staking || !stakeAmount.trim()}>
+                  {staking ? 'Staking...' : 'Stake'}
+                </button>
+              </form>
+
+              <form className="staking-card" onSubmit={handleTransfer}>
+                <h2>Send tokens</h2>
+                <label className="staking-field">
+                  Recipient principal
+                  <input
+                    type="text"
+                    value={recipient}
+                    onChange={(e) => setRecipient(e.target.value)}
+                    placeholder="xxxxx-xxxxx-xxxxx-xxxxx-cai"
+                    autoComplete="off"
+                  />
+                </label>
+                <label className="staking-field">
+                  Amount
+                  <input
+                    type="text"
+                    inputMode="decimal"
+                    value={transferAmount}
+                    onChange={(e) => setTransferAmount(e.target.value)}
+                    placeholder="0.0"
+                  />
+                </label>
+                <p className="staking-muted">Only your available balance can be sent; staked tokens stay locked.</p>
+                <button
+                  type="submit"
+                  className="staking-submit-btn"
+                  disabled={transferring || !recipient.trim() || !transferAmount.trim()}
+                >
+                  {transferring ? 'Sending...' : 'Send'}
+                </button>
+              </form>
+            </div>
+
+            <div className="staking-card">
+              <h2>Staked positions</h2>
+              {positions.length === 0 ? (
+                <p className="staking-muted">You have no staked positions yet.</p>
+              ) : (
+                <table className="stake-positions">
+                  <thead>
+                    <tr>
+                      <th>Amount</th>
+                      <th>APY</th>
+                      <th>Staked</th>
+                      <th>Unlocks</th>
+                      <th>Claimed</th>
+                      <th>Claimable</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {positions.map((position, i) => (
+                      <tr key={`${position.stakedAt}-${i}`}>
+                        <td>{format(position.amount)} {symbol}</td>
+                        <td>{position.rewardRate}%</td>
+                        <td>{new Date(position.stakedAt).toLocaleDateString()}</td>
+                        <td>
+                          {new Date(position.unlocksAt).toLocaleDateString()}{' '}
+                          <span className={`stake-lock-badge ${position.unlocksAt <= now ? 'unlocked' : ''}`}>
+                            {position.unlocksAt <= now ? 'Unlocked' : `${position.lockPeriodDays}d lock`}
+                          </span>
+                        </td>
+                        <td>{format(position.accumulatedRewards)}</td>
+                        <td>~{format(estimateStakingRewards(position.amount, position.rewardRate, now - position.lastClaimAt))}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </PageLayout>
+  )
+}
+
+export default Staking
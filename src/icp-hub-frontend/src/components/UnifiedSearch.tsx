@@ -1,18 +1,41 @@
 import { useState, useEffect, useRef } from 'react'
 import './UnifiedSearch.css'
-import type { SearchType } from '../types'
+import type { SearchType, SearchSuggestion, SuggestionKind } from '../types'
+import { searchService, MIN_SUGGESTION_LENGTH } from '../services/searchService'
+import { addRecentSearch, getRecentSearches, removeRecentSearch, type RecentSearch } from '../utils/recentSearches'
 
 interface UnifiedSearchProps {
   onSearch: (query: string, type: SearchType) => void
+  // Prefill the box, e.g. from a shared search link
+  initialQuery?: string
+  initialType?: SearchType
   placeholder?: string
   className?: string
 }
 
-export default function UnifiedSearch({ onSearch, placeholder = "Search OpenKeyHub...", className = "" }: UnifiedSearchProps) {
-  const [query, setQuery] = useState('')
-  const [searchType, setSearchType] = useState<SearchType>('all')
+// Wait for a pause in typing before asking the canister
+const SUGGESTION_DELAY = 200
+const MAX_RECENT_MATCHES = 3
+
+const SUGGESTION_GROUPS: { kind: SuggestionKind, label: string, icon: string, searchType: SearchType }[] = [
+  { kind: 'repository', label: 'Repositories', icon: '📦', searchType: 'repository' },
+  { kind: 'user', label: 'Users', icon: '👥', searchType: 'users' },
+  { kind: 'file', label: 'Files', icon: '📁', searchType: 'files' }
+]
+
+type SuggestionOption =
+  | { kind: 'recent', search: RecentSearch }
+  | { kind: 'suggestion', suggestion: SearchSuggestion }
+
+export default function UnifiedSearch({ onSearch, initialQuery = '', initialType = 'all', placeholder = "Search OpenKeyHub...", className = "" }: UnifiedSearchProps) {
+  const [query, setQuery] = useState(initialQuery)
+  const [searchType, setSearchType] = useState<SearchType>(initialType)
   const [isDropdownOpen, setIsDropdownOpen] = useState(false)
   const [isSearching, setIsSearching] = useState(false)
+  const [isSuggesting, setIsSuggesting] = useState(false)
+  const [suggestions, setSuggestions] = useState<{ query: string, items: SearchSuggestion[] }>({ query: '', items: [] })
+  const [recentSearches, setRecentSearches] = useState<RecentSearch[]>(getRecentSearches)
+  const [activeIndex, setActiveIndex] = useState(-1)
   const dropdownRef = useRef<HTMLDivElement>(null)
 
   const searchTypes = [
@@ -46,15 +69,112 @@ export default function UnifiedSearch({ onSearch, placeholder = "Search OpenKeyH
     }
   }, [isDropdownOpen])
 
+  // Fetch suggestions once typing pauses. Canister queries can't be aborted, so a request
+  // overtaken by further typing is cancelled by ignoring its answer.
+  const trimmedQuery = query.trim()
+  useEffect(() => {
+    if (!isSuggesting || trimmedQuery.length < MIN_SUGGESTION_LENGTH) return
+
+    let cancelled = false
+    const timer = window.setTimeout(async () => {
+      try {
+        const items = await searchService.suggest(trimmedQuery)
+        if (!cancelled) setSuggestions({ query: trimmedQuery, items })
+      } catch {
+        if (!cancelled) setSuggestions({ query: trimmedQuery, items: [] })
+      }
+    }, SUGGESTION_DELAY)
+
+    return () => {
+      cancelled = true
+      window.clearTimeout(timer)
+    }
+  }, [trimmedQuery, isSuggesting])
+
+  // Recent searches on their own until there's enough to suggest from, then matching ones first
+  const showsSuggestions = trimmedQuery.length >= MIN_SUGGESTION_LENGTH
+  const isLoadingSuggestions = showsSuggestions && suggestions.query !== trimmedQuery
+  const currentSuggestions = suggestions.query === trimmedQuery ? suggestions.items : []
+  const matchingRecent = showsSuggestions
+    ? recentSearches
+      .filter(search => search.query.toLowerCase().startsWith(trimmedQuery.toLowerCase()))
+      .slice(0, MAX_RECENT_MATCHES)
+    : recentSearches
+  const options: SuggestionOption[] = [
+    ...matchingRecent.map(search => ({ kind: 'recent' as const, search })),
+    ...SUGGESTION_GROUPS.flatMap(group => currentSuggestions
+      .filter(suggestion => suggestion.kind === group.kind)
+      .map(suggestion => ({ kind: 'suggestion' as const, suggestion })))
+  ]
+  const isPanelOpen = isSuggesting && (options.length > 0 || isLoadingSuggestions)
+
+  const closeSuggestions = () => {
+    setIsSuggesting(false)
+    setActiveIndex(-1)
+  }
+
+  const runSearch = async (searchQuery: string, type: SearchType) => {
+    closeSuggestions()
+    setRecentSearches(addRecentSearch({ query: searchQuery, type }))
+    setIsSearching(true)
+    try {
+      await onSearch(searchQuery, type)
+    } finally {
+      setIsSearching(false)
+    }
+  }
+
   const handleSearch = async (e: React.FormEvent) => {
     e.preventDefault()
     if (query.trim()) {
-      setIsSearching(true)
-      try {
-        await onSearch(query.trim(), searchType)
-      } finally {
-        setIsSearching(false)
+      await runSearch(query.trim(), searchType)
+    }
+  }
+
+  const chooseOption = (option: SuggestionOption) => {
+    const search = option.kind === 'recent'
+      ? option.search
+      : {
+        query: option.suggestion.text,
+        type: SUGGESTION_GROUPS.find(group => group.kind === option.suggestion.kind)!.searchType
+      }
+    setQuery(search.query)
+    setSearchType(search.type)
+    runSearch(search.query, search.type)
+  }
+
+  const forgetRecentSearch = (search: RecentSearch) => {
+    setRecentSearches(removeRecentSearch(search))
+    setActiveIndex(-1)
+  }
+
+  const handleInputKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    switch (e.key) {
+      case 'ArrowDown':
+      case 'ArrowUp': {
+        e.preventDefault()
+        if (!isSuggesting) {
+          setIsSuggesting(true)
+          return
+        }
+        if (options.length === 0) return
+        const step = e.key === 'ArrowDown' ? 1 : -1
+        // Moving past either end returns to the input
+        setActiveIndex(index => (index + 1 + step + options.length + 1) % (options.length + 1) - 1)
+        break
       }
+      case 'Enter':
+        if (isPanelOpen && activeIndex >= 0 && activeIndex < options.length) {
+          e.preventDefault()
+          chooseOption(options[activeIndex])
+        }
+        break
+      case 'Escape':
+        if (isPanelOpen) {
+          e.preventDefault()
+          closeSuggestions()
+        }
+        break
     }
   }
 
@@ -103,10 +223,23 @@ export default function UnifiedSearch({ onSearch, placeholder = "Search OpenKeyH
           <input
             type="text"
             value={query}
-            onChange={(e) => setQuery(e.target.value)}
+            onChange={(e) => {
+              setQuery(e.target.value)
+              setIsSuggesting(true)
+              setActiveIndex(-1)
+            }}
+            onFocus={() => setIsSuggesting(true)}
+            onBlur={closeSuggestions}
+            onKeyDown={handleInputKeyDown}
             placeholder={placeholder}
             className="search-input"
             aria-label="Search query"
+            role="combobox"
+            aria-autocomplete="list"
+            aria-expanded={isPanelOpen}
+            aria-controls="search-suggestions"
+            aria-activedescendant={isPanelOpen && activeIndex >= 0 ? `search-suggestion-${activeIndex}` : undefined}
+            autoComplete="off"
           />
           <button 
             type="submit" 
@@ -123,6 +256,74 @@ export default function UnifiedSearch({ onSearch, placeholder = "Search OpenKeyH
               </svg>
             )}
           </button>
+
+          {isPanelOpen && (
+            // Options take focus on mousedown otherwise, closing the panel before the click lands
+            <div className="search-suggestions" id="search-suggestions" role="listbox" onMouseDown={(e) => e.preventDefault()}>
+              {matchingRecent.length > 0 && (
+                <div className="suggestion-group">
+                  <div className="suggestion-group-label">Recent searches</div>
+                  {matchingRecent.map((search, index) => (
+                    <div
+                      key={`${search.type}:${search.query}`}
+                      id={`search-suggestion-${index}`}
+                      role="option"
+                      aria-selected={activeIndex === index}
+                      className={`suggestion-option ${activeIndex === index ? 'active' : ''}`}
+                      onClick={() => chooseOption({ kind: 'recent', search })}
+                      onMouseEnter={() => setActiveIndex(index)}
+                    >
+                      <span className="type-icon">🕘</span>
+                      <span className="suggestion-text">{search.query}</span>
+                      {search.type !== 'all' && (
+                        <span className="suggestion-scope">{searchTypes.find(type => type.value === search.type)?.label}</span>
+                      )}
+                      <button
+                        type="button"
+                        className="suggestion-remove"
+                        aria-label={`Remove ${search.query} from recent searches`}
+                        onClick={(e) => {
+                          e.stopPropagation()
+                          forgetRecentSearch(search)
+                        }}
+                      >
+                        ✕
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {SUGGESTION_GROUPS.map(group => {
+                const items = currentSuggestions.filter(suggestion => suggestion.kind === group.kind)
+                if (items.length === 0) return null
+                return (
+                  <div key={group.kind} className="suggestion-group">
+                    <div className="suggestion-group-label">{group.label}</div>
+                    {items.map(suggestion => {
+                      const index = options.findIndex(option => option.kind === 'suggestion' && option.suggestion === suggestion)
+                      return (
+                        <div
+                          key={`${suggestion.kind}:${suggestion.text}`}
+                          id={`search-suggestion-${index}`}
+                          role="option"
+                          aria-selected={activeIndex === index}
+                          className={`suggestion-option ${activeIndex === index ? 'active' : ''}`}
+                          onClick={() => chooseOption({ kind: 'suggestion', suggestion })}
+                          onMouseEnter={() => setActiveIndex(index)}
+                        >
+                          <span className="type-icon">{group.icon}</span>
+                          <span className="suggestion-text">{suggestion.text}</span>
+                        </div>
+                      )
+                    })}
+                  </div>
+                )
+              })}
+
+              {isLoadingSuggestions && <div className="suggestion-status">Looking for suggestions...</div>}
+            </div>
+          )}
         </div>
       </form>
     </div>
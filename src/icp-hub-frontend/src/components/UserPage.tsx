@@ -0,0 +1,60 @@
+import { useEffect, useState } from 'react'
+import { userService } from '../services/userService'
+import type { UserDetails } from '../types/user'
+import PageLayout from './PageLayout'
+import ProfilePage from './ProfilePage'
+import type { ProfileData } from './ProfileModal'
+import './UserPage.css'
+
+interface UserPageProps {
+  principal: string
+  onBack: () => void
+}
+
+const toProfile = (principal: string, user: UserDetails | null): ProfileData => ({
+  principal,
+  name: user?.displayName || user?.username || principal,
+  avatar: user?.avatar || `https://api.dicebear.com/7.x/avataaars/svg?seed=${encodeURIComponent(principal)}`,
+  bio: user?.bio,
+  location: user?.location,
+  website: user?.website,
+  twitter: user?.twitter,
+  github: user?.github,
+  joinedDate: user ? new Date(user.createdAt).toISOString() : undefined,
+  repositories: user?.repositoryCount
+})
+
+function UserPage({ principal, onBack }: UserPageProps) {
+  // The user the answer belongs to, so a stale one is never shown for another principal
+  const [loaded, setLoaded] = useState<{ principal: string, user: UserDetails | null } | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    userService.getUser(principal)
+      .then(user => {
+        if (!cancelled) setLoaded({ principal, user })
+      })
+      .catch(() => {
+        // Anyone can hold a principal without registering; they still get a page
+        if (!cancelled) setLoaded({ principal, user: null })
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [principal])
+
+  if (loaded?.principal !== principal) {
+    return (
+      <PageLayout>
+        <div className="user-page-loading">
+          <div className="loading-spinner"></div>
+          <p>Loading profile...</p>
+        </div>
+      </PageLayout>
+    )
+  }
+
+  return <ProfilePage profile={toProfile(principal, loaded.user)} onBack={onBack} />
+}
+
+export default UserPage
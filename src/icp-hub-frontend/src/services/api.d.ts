@@ -62,8 +62,8 @@ export interface RepositorySettings {
   allowIssues: boolean;
   allowWiki: boolean;
   allowProjects: boolean;
-  visibility: { [key in RepositoryVisibility]: null };
-  license?: string;
+  visibility: { Public: null } | { Private: null } | { Internal: null };
+  license: [] | [string];
   topics: string[];
 }
 
@@ -94,6 +94,38 @@ export interface CollaboratorPermission {
   Write?: null;
   Admin?: null;
   Owner?: null;
+  Deploy?: BlockchainType[];
+}
+
+export interface AddCollaboratorRequest {
+  repositoryId: string;
+  username: string;
+  permission: CollaboratorPermission;
+  message?: string;
+}
+
+export interface UpdateCollaboratorRequest {
+  repositoryId: string;
+  username: string;
+  permission: CollaboratorPermission;
+}
+
+export interface RemoveCollaboratorRequest {
+  repositoryId: string;
+  username: string;
+}
+
+export interface CollaboratorInfo {
+  collaborator: Collaborator;
+  user: User;
+  addedAt: bigint;
+  addedBy: Principal;
+}
+
+export interface CollaboratorListResponse {
+  collaborators: CollaboratorInfo[];
+  totalCount: bigint;
+  repositoryId: string;
 }
 
 export interface Collaborator {
@@ -112,6 +144,7 @@ export interface FileEntry {
   lastModified: bigint;
   author: Principal;
   commitMessage?: string;
+  isFolder: boolean;
 }
 
 export interface Commit {
@@ -171,18 +204,37 @@ export interface CreateRepositoryRequest {
 }
 
 export interface UpdateRepositoryRequest {
-  description?: string[];
-  settings?: RepositorySettings;
+  description?: [] | [string];
+  settings?: [] | [RepositorySettings];
 }
 
 export interface UploadFileRequest {
   repositoryId: string;
   path: string;
-  content: number[];
+  content: number[] | Uint8Array;
   commitMessage: string;
   branch?: string;
 }
 
+export interface BeginUploadRequest {
+  repositoryId: string;
+  path: string;
+  totalSize: number;
+  chunkSize: number;
+  fileHash: string;
+  commitMessage: string;
+  branch?: string;
+}
+
+export interface UploadStatus {
+  uploadId: string;
+  chunkCount: bigint;
+  chunkSize: bigint;
+  receivedChunks: bigint[];
+  receivedBytes: bigint;
+  expiresAt: bigint;
+}
+
 export interface PaginationParams {
   page: number;
   limit: number;
@@ -200,6 +252,31 @@ export interface FileListResponse {
   path: string;
 }
 
+export interface FileInfo {
+  path: string;
+  size: bigint;
+  hash: string;
+  version: bigint;
+  lastModified: bigint;
+  author: Principal;
+  commitMessage: [] | [string];
+  isFolder: boolean;
+}
+
+export interface FileInfoListResponse {
+  files: FileInfo[];
+  totalCount: bigint;
+  path: string;
+}
+
+export interface FileChunk {
+  path: string;
+  offset: bigint;
+  data: Uint8Array | number[];
+  totalSize: bigint;
+  hash: string;
+}
+
 export interface SearchScope {
   All?: null;
   Repositories?: null;
@@ -208,10 +285,31 @@ export interface SearchScope {
   Code?: null;
 }
 
+export interface SortBy {
+  Relevance?: null;
+  Name?: null;
+  CreatedAt?: null;
+  UpdatedAt?: null;
+  Stars?: null;
+  Size?: null;
+}
+
+export interface SearchFilter {
+  owner: [] | [Principal];
+  language: [] | [string];
+  isPrivate: [] | [boolean];
+  minSize: [] | [bigint];
+  maxSize: [] | [bigint];
+  createdAfter: [] | [bigint];
+  createdBefore: [] | [bigint];
+}
+
 export interface SearchRequest {
   searchQuery: string;
   scope: SearchScope;
+  filters?: SearchFilter;
   pagination?: PaginationParams;
+  sortBy?: SortBy;
 }
 
 export interface SearchResults {
@@ -225,11 +323,380 @@ export interface SearchResults {
     score: number;
     matchedFields: string[];
   }[];
+  files: {
+    file: FileEntry;
+    repository: SerializableRepository;
+    score: number;
+    matchedFields: string[];
+    snippets: string[];
+  }[];
   totalCount: bigint;
   hasMore: boolean;
+  searchQuery: string;
+  scope: SearchScope;
 }
 
-export interface RepositoryStats {
+export interface SearchSuggestion {
+  text: string;
+  kind: { Repository: null } | { User: null } | { File: null };
+}
+
+export interface BranchRequest {
+  repositoryId: string;
+  branchName: string;
+  fromBranch: string;
+}
+
+export interface GitLog {
+  commits: Commit[];
+  totalCount: bigint;
+  hasMore: boolean;
+}
+
+export type FileAction =
+  | { Add: null }
+  | { Modify: null }
+  | { Delete: null }
+  | { Rename: { from: string; to: string } };
+
+export interface DiffResult {
+  path: string;
+  action: FileAction;
+  oldContent: [] | [Uint8Array | number[]];
+  newContent: [] | [Uint8Array | number[]];
+  additions: bigint;
+  deletions: bigint;
+}
+
+export interface CommitFileChange {
+  path: string;
+  content?: Uint8Array | number[] | null;
+  action: FileAction;
+}
+
+export interface CommitRequest {
+  repositoryId: string;
+  branch: string;
+  message: string;
+  files: CommitFileChange[];
+  parentCommit?: string | null;
+  mergeParent?: string | null;
+}
+
+export interface CommitUploadsRequest {
+  repositoryId: string;
+  branch: string;
+  message: string;
+  uploadIds: string[];
+  parentCommit?: string | null;
+}
+
+export interface MergeRequest {
+  repositoryId: string;
+  sourceBranch: string;
+  targetBranch: string;
+  title: string;
+  description?: string;
+}
+
+export interface MergeConflict {
+  path: string;
+  baseContent: [] | [Uint8Array | number[]];
+  sourceContent: [] | [Uint8Array | number[]];
+  targetContent: [] | [Uint8Array | number[]];
+}
+
+export interface MergeResult {
+  success: boolean;
+  commitId: [] | [string];
+  conflicts: MergeConflict[];
+}
+
+export interface BranchComparison {
+  ahead: bigint;
+  behind: bigint;
+  commits: Commit[];
+}
+
+// Governance related types
+export type ProposalStatus =
+  | { Draft: null }
+  | { Active: null }
+  | { Passed: null }
+  | { Failed: null }
+  | { Executed: null }
+  | { Cancelled: null }
+  | { Expired: null };
+
+export type Vote = { Yes: null } | { No: null } | { Abstain: null };
+
+export interface GovernanceConfig {
+  votingPeriod: bigint;
+  executionDelay: bigint;
+  proposalDeposit: bigint;
+  quorumPercentage: number;
+  approvalThreshold: number;
+  maxProposalsPerUser: bigint;
+  minVotingPower: bigint;
+  allowDelegation: boolean;
+}
+
+export type ProposalType =
+  | { RepositoryUpdate: { repositoryId: string; newSettings: RepositorySettings } }
+  | { PlatformUpgrade: { version: string; description: string; canisterId: [] | [Principal] } }
+  | { TreasurySpend: { amount: bigint; recipient: Principal; purpose: string } }
+  | { GovernanceConfig: { newConfig: GovernanceConfig } }
+  | { CollaboratorPromotion: { repositoryId: string; collaborator: Principal; newPermission: CollaboratorPermission } }
+  | { CustomProposal: { title: string; description: string; executionData: [] | [Uint8Array | number[]] } };
+
+export interface VoteRecord {
+  voter: Principal;
+  vote: Vote;
+  votingPower: bigint;
+  timestamp: bigint;
+  reason: [] | [string];
+}
+
+export interface DiscussionPost {
+  id: bigint;
+  author: Principal;
+  content: string;
+  timestamp: bigint;
+  parentId: [] | [bigint];
+  reactions: [string, Principal[]][];
+}
+
+export interface Proposal {
+  id: bigint;
+  proposer: Principal;
+  proposalType: ProposalType;
+  title: string;
+  description: string;
+  createdAt: bigint;
+  votingStartsAt: bigint;
+  votingEndsAt: bigint;
+  executionDelay: bigint;
+  status: ProposalStatus;
+  votes: VoteRecord[];
+  totalYesVotes: bigint;
+  totalNoVotes: bigint;
+  totalAbstainVotes: bigint;
+  quorumRequired: bigint;
+  approvalThreshold: number;
+  executedAt: [] | [bigint];
+  executedBy: [] | [Principal];
+  discussionThread: DiscussionPost[];
+}
+
+export interface CreateProposalRequest {
+  proposalType: ProposalType;
+  title: string;
+  description: string;
+  votingDuration?: bigint;
+  executionDelay?: bigint;
+}
+
+export interface CastVoteRequest {
+  proposalId: number | bigint;
+  vote: Vote;
+  reason?: string;
+}
+
+export interface ProposalListRequest {
+  status?: ProposalStatus;
+  proposer?: Principal | string;
+  proposalType?: string;
+  pagination?: PaginationParams;
+}
+
+export interface ProposalListResponse {
+  proposals: Proposal[];
+  totalCount: bigint;
+  hasMore: boolean;
+}
+
+export interface AddDiscussionPostRequest {
+  proposalId: number | bigint;
+  content: string;
+  parentId?: number | bigint;
+}
+
+export interface ToggleReactionRequest {
+  proposalId: number | bigint;
+  postId: number | bigint;
+  emoji: string;
+}
+
+export interface VotingStats {
+  totalSupply: bigint;
+  circulatingSupply: bigint;
+  totalStaked: bigint;
+  activeVoters: bigint;
+  participationRate: number;
+}
+
+export interface GovernanceTokenBalance {
+  balance: bigint;
+  staked: bigint;
+  votingPower: bigint;
+}
+
+export type DelegationScope =
+  | { All: null }
+  | { Repository: string }
+  | { ProposalType: string };
+
+export interface DelegateVoteRequest {
+  delegateTo: Principal | string;
+  scope: DelegationScope;
+}
+
+export interface Delegation {
+  delegator: Principal;
+  delegate: Principal;
+  scope: DelegationScope;
+  votingPower: bigint;
+}
+
+export interface DelegateSummary {
+  delegate: Principal;
+  ownVotingPower: bigint;
+  delegatedVotingPower: bigint;
+  delegatorCount: bigint;
+}
+
+export interface DelegationGraph {
+  delegations: Delegation[];
+  delegates: DelegateSummary[];
+}
+
+export interface Token {
+  symbol: string;
+  name: string;
+  decimals: bigint;
+  totalSupply: bigint;
+  circulatingSupply: bigint;
+}
+
+export type BountyStatus =
+  | { Open: null }
+  | { Assigned: null }
+  | { InProgress: null }
+  | { UnderReview: null }
+  | { Completed: null }
+  | { Cancelled: null }
+  | { Expired: null };
+
+export type DifficultyLevel =
+  | { Beginner: null }
+  | { Intermediate: null }
+  | { Advanced: null }
+  | { Expert: null };
+
+export type SubmissionStatus =
+  | { Pending: null }
+  | { Approved: null }
+  | { Rejected: null }
+  | { RequiresChanges: null };
+
+export interface BountySubmission {
+  id: string;
+  submittedBy: Principal;
+  submittedAt: bigint;
+  pullRequestId: [] | [string];
+  commitIds: string[];
+  description: string;
+  status: SubmissionStatus;
+  reviewedBy: [] | [Principal];
+  reviewNotes: [] | [string];
+}
+
+export interface Bounty {
+  id: string;
+  repositoryId: string;
+  title: string;
+  description: string;
+  amount: bigint;
+  currency: string;
+  createdBy: Principal;
+  createdAt: bigint;
+  expiresAt: [] | [bigint];
+  status: BountyStatus;
+  assignedTo: [] | [Principal];
+  requirements: string[];
+  tags: string[];
+  difficulty: DifficultyLevel;
+  submissions: BountySubmission[];
+}
+
+export interface CreateBountyRequest {
+  repositoryId: string;
+  title: string;
+  description: string;
+  amount: bigint | number;
+  requirements?: string[];
+  difficulty: DifficultyLevel;
+  expiresInDays?: number;
+}
+
+export interface SubmitBountyRequest {
+  bountyId: string;
+  pullRequestId?: string;
+  commitIds?: string[];
+  description: string;
+}
+
+export interface StakePosition {
+  amount: bigint;
+  stakedAt: bigint;
+  lockPeriod: bigint;
+  unlocksAt: bigint;
+  rewardRate: number;
+  accumulatedRewards: bigint;
+  lastClaimAt: bigint;
+}
+
+export type BadgeCategory =
+  | { Contributor: null }
+  | { Reviewer: null }
+  | { Maintainer: null }
+  | { Security: null }
+  | { Community: null }
+  | { Special: null };
+
+export interface Badge {
+  id: string;
+  name: string;
+  description: string;
+  icon: string;
+  earnedAt: bigint;
+  category: BadgeCategory;
+}
+
+export interface LeaderboardEntry {
+  user: Principal;
+  username: string;
+  totalEarned: bigint;
+  contributionCount: bigint;
+  averageImpact: number;
+  rank: bigint;
+  badges: Badge[];
+}
+
+export interface ContributionMetrics {
+  userId: Principal;
+  repositoryId: string;
+  totalCommits: bigint;
+  totalPullRequests: bigint;
+  totalIssuesResolved: bigint;
+  totalReviews: bigint;
+  codeQualityScore: number;
+  impactScore: number;
+  consistencyScore: number;
+  lastUpdated: bigint;
+}
+
+export interface GlobalStats {
   totalRepositories: bigint;
   publicRepositories: bigint;
   totalUsers: bigint;
@@ -237,6 +704,16 @@ export interface RepositoryStats {
   totalForks: bigint;
 }
 
+export interface RepositoryStats {
+  totalCommits: bigint;
+  totalBranches: bigint;
+  totalFiles: bigint;
+  contributors: Principal[];
+  languages: string[];
+  languageBytes: [string, bigint][];
+  commitsByAuthor: [Principal, bigint][];
+}
+
 export interface AuthContext {
   isAuthenticated: boolean;
   principal: Principal;
@@ -251,6 +728,7 @@ export interface ApiService {
   isAuthenticated: boolean;
   currentUser: User | null;
   agent: HttpAgent | null;
+  isBackendAvailable: boolean;
 
   // Core methods
   init(): Promise<boolean>;
@@ -276,21 +754,81 @@ export interface ApiService {
   updateRepository(repositoryId: string, updateData: UpdateRepositoryRequest): Promise<{success: boolean, data?: SerializableRepository, error?: Error}>;
   deleteRepository(repositoryId: string): Promise<{success: boolean, data?: boolean, error?: Error}>;
   
+  // Collaborator methods
+  addCollaborator(request: AddCollaboratorRequest): Promise<{success: boolean, data?: CollaboratorInfo, error?: Error}>;
+  removeCollaborator(request: RemoveCollaboratorRequest): Promise<{success: boolean, data?: boolean, error?: Error}>;
+  updateCollaboratorPermission(request: UpdateCollaboratorRequest): Promise<{success: boolean, data?: CollaboratorInfo, error?: Error}>;
+  listCollaborators(repositoryId: string, includeOwner?: boolean): Promise<{success: boolean, data?: CollaboratorListResponse, error?: Error}>;
+  
   // File methods
   uploadFile(fileData: UploadFileRequest): Promise<{success: boolean, data?: FileEntry, error?: Error}>;
+  beginChunkedUpload(request: BeginUploadRequest): Promise<{success: boolean, data?: UploadStatus, error?: Error}>;
+  uploadChunk(uploadId: string, index: number, chunk: Uint8Array, chunkHash: string): Promise<{success: boolean, data?: UploadStatus, error?: Error}>;
+  getUploadStatus(uploadId: string): Promise<{success: boolean, data?: UploadStatus, error?: Error}>;
+  completeChunkedUpload(uploadId: string): Promise<{success: boolean, data?: FileEntry, error?: Error}>;
+  abortChunkedUpload(uploadId: string): Promise<{success: boolean, data?: boolean, error?: Error}>;
   getFile(repositoryId: string, path: string): Promise<{success: boolean, data?: FileEntry, error?: Error}>;
   listFiles(repositoryId: string, path?: string | null): Promise<{success: boolean, data?: FileListResponse, error?: Error}>;
+  listFileInfo(repositoryId: string, path?: string | null): Promise<{success: boolean, data?: FileInfoListResponse, error?: Error}>;
+  getFileChunk(repositoryId: string, path: string, offset: number, length: number): Promise<{success: boolean, data?: FileChunk, error?: Error}>;
   deleteFile(repositoryId: string, path: string): Promise<{success: boolean, data?: boolean, error?: Error}>;
   
+  // Git methods
+  listBranches(repositoryId: string): Promise<{success: boolean, data?: Branch[], error?: Error}>;
+  getCurrentBranch(repositoryId: string): Promise<{success: boolean, data?: Branch, error?: Error}>;
+  createBranch(branchRequest: BranchRequest): Promise<{success: boolean, data?: Branch, error?: Error}>;
+  deleteBranch(repositoryId: string, branchName: string): Promise<{success: boolean, data?: boolean, error?: Error}>;
+  switchBranch(repositoryId: string, branchName: string): Promise<{success: boolean, data?: boolean, error?: Error}>;
+  getCommitHistory(repositoryId: string, branch?: string | null, limit?: number | null, offset?: number | null): Promise<{success: boolean, data?: GitLog, error?: Error}>;
+  getCommitDiff(repositoryId: string, commitId: string): Promise<{success: boolean, data?: DiffResult[], error?: Error}>;
+  commit(commitRequest: CommitRequest): Promise<{success: boolean, data?: Commit, error?: Error}>;
+  commitUploads(request: CommitUploadsRequest): Promise<{success: boolean, data?: Commit, error?: Error}>;
+  compareBranches(repositoryId: string, baseBranch: string, compareBranch: string): Promise<{success: boolean, data?: BranchComparison, error?: Error}>;
+  mergeBranches(mergeRequest: MergeRequest): Promise<{success: boolean, data?: MergeResult, error?: Error}>;
+
+  // Governance methods
+  getVotingPower(principal?: Principal | string | null): Promise<{success: boolean, data?: bigint, error?: Error}>;
+  createProposal(proposalRequest: CreateProposalRequest): Promise<{success: boolean, data?: Proposal, error?: Error}>;
+  castVote(voteRequest: CastVoteRequest): Promise<{success: boolean, data?: boolean, error?: Error}>;
+  getProposal(proposalId: number | bigint): Promise<{success: boolean, data?: Proposal, error?: Error}>;
+  listProposals(listRequest?: ProposalListRequest): Promise<{success: boolean, data?: ProposalListResponse, error?: Error}>;
+  executeProposal(proposalId: number | bigint): Promise<{success: boolean, data?: boolean, error?: Error}>;
+  addDiscussionPost(postRequest: AddDiscussionPostRequest): Promise<{success: boolean, data?: DiscussionPost, error?: Error}>;
+  toggleDiscussionReaction(reactionRequest: ToggleReactionRequest): Promise<{success: boolean, data?: DiscussionPost, error?: Error}>;
+  getVotingStats(): Promise<{success: boolean, data?: VotingStats, error?: Error}>;
+  canCreateProposal(): Promise<boolean>;
+  getGovernanceTokenBalance(principal?: Principal | string | null): Promise<{success: boolean, data?: GovernanceTokenBalance, error?: Error}>;
+  delegateVotes(delegateRequest: DelegateVoteRequest): Promise<{success: boolean, data?: boolean, error?: Error}>;
+  revokeDelegation(): Promise<{success: boolean, data?: boolean, error?: Error}>;
+  getDelegationGraph(): Promise<{success: boolean, data?: DelegationGraph, error?: Error}>;
+
+  // Incentive methods
+  getTokenInfo(): Promise<{success: boolean, data?: Token, error?: Error}>;
+  getBalance(): Promise<{success: boolean, data?: bigint, error?: Error}>;
+  transfer(to: Principal | string, amount: bigint | number): Promise<{success: boolean, data?: boolean, error?: Error}>;
+  stakeTokens(amount: bigint | number, lockDays: number): Promise<{success: boolean, data?: StakePosition, error?: Error}>;
+  claimStakingRewards(): Promise<{success: boolean, data?: bigint, error?: Error}>;
+  getStakePositions(): Promise<{success: boolean, data?: StakePosition[], error?: Error}>;
+  getStakingAPY(lockDays: number): Promise<{success: boolean, data?: number, error?: Error}>;
+  createBounty(bountyRequest: CreateBountyRequest): Promise<{success: boolean, data?: Bounty, error?: Error}>;
+  submitBounty(submission: SubmitBountyRequest): Promise<{success: boolean, data?: BountySubmission, error?: Error}>;
+  listBounties(filters?: { repositoryId?: string; status?: BountyStatus }): Promise<{success: boolean, data?: Bounty[], error?: Error}>;
+  getBounty(bountyId: string): Promise<{success: boolean, data?: Bounty, error?: Error}>;
+  reviewBountySubmission(bountyId: string, submissionId: string, approve: boolean, notes?: string | null): Promise<{success: boolean, data?: Bounty, error?: Error}>;
+  getLeaderboard(options?: { repositoryId?: string; days?: number; limit?: number }): Promise<{success: boolean, data?: LeaderboardEntry[], error?: Error}>;
+  getUserBadges(principal: Principal | string): Promise<{success: boolean, data?: Badge[], error?: Error}>;
+  getContributionMetrics(principal: Principal | string): Promise<{success: boolean, data?: ContributionMetrics[], error?: Error}>;
+
   // Search methods
   search(searchRequest: SearchRequest): Promise<{success: boolean, data?: SearchResults, error?: Error}>;
-  searchSuggestions(query: string, maxSuggestions?: number | null): Promise<{success: boolean, data?: string[], error?: Error}>;
+  searchSuggestions(query: string, maxSuggestions?: number | null): Promise<{success: boolean, data?: SearchSuggestion[], error?: Error}>;
   searchRepository(repositoryId: string, query: string, pagination?: PaginationParams | null): Promise<{success: boolean, data?: FileListResponse, error?: Error}>;
   
   // Public repository methods
   listPublicRepositories(pagination?: PaginationParams | null): Promise<{success: boolean, data?: RepositoryListResponse, error?: Error}>;
   searchPublicRepositories(searchQuery: string, pagination?: PaginationParams | null): Promise<{success: boolean, data?: RepositoryListResponse, error?: Error}>;
-  getRepositoryStats(): Promise<{success: boolean, data?: RepositoryStats, error?: Error}>;
+  getGlobalStats(): Promise<{success: boolean, data?: GlobalStats, error?: Error}>;
+  getRepositoryStats(repositoryId: string): Promise<{success: boolean, data?: RepositoryStats, error?: Error}>;
   
   // System methods
   health(): Promise<boolean>;
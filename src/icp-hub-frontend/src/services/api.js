@@ -88,6 +88,7 @@ const idlFactory = ({ IDL }) => {
     'Write': IDL.Null,
     'Admin': IDL.Null,
     'Owner': IDL.Null,
+    'Deploy': IDL.Vec(BlockchainType),
   })
 
   const Collaborator = IDL.Record({
@@ -106,6 +107,7 @@ const idlFactory = ({ IDL }) => {
     'lastModified': IDL.Int,
     'author': IDL.Principal,
     'commitMessage': IDL.Opt(IDL.Text),
+    'isFolder': IDL.Bool,
   })
 
   const Commit = IDL.Record({
@@ -182,6 +184,25 @@ const idlFactory = ({ IDL }) => {
     'branch': IDL.Opt(IDL.Text),
   })
 
+  const BeginUploadRequest = IDL.Record({
+    'repositoryId': IDL.Text,
+    'path': IDL.Text,
+    'totalSize': IDL.Nat,
+    'chunkSize': IDL.Nat,
+    'fileHash': IDL.Text,
+    'commitMessage': IDL.Text,
+    'branch': IDL.Opt(IDL.Text),
+  })
+
+  const UploadStatus = IDL.Record({
+    'uploadId': IDL.Text,
+    'chunkCount': IDL.Nat,
+    'chunkSize': IDL.Nat,
+    'receivedChunks': IDL.Vec(IDL.Nat),
+    'receivedBytes': IDL.Nat,
+    'expiresAt': IDL.Int,
+  })
+
   const PaginationParams = IDL.Record({
     'page': IDL.Nat,
     'limit': IDL.Nat,
@@ -199,6 +220,31 @@ const idlFactory = ({ IDL }) => {
     'path': IDL.Text,
   })
 
+  const FileInfo = IDL.Record({
+    'path': IDL.Text,
+    'size': IDL.Nat,
+    'hash': IDL.Text,
+    'version': IDL.Nat,
+    'lastModified': IDL.Int,
+    'author': IDL.Principal,
+    'commitMessage': IDL.Opt(IDL.Text),
+    'isFolder': IDL.Bool,
+  })
+
+  const FileInfoListResponse = IDL.Record({
+    'files': IDL.Vec(FileInfo),
+    'totalCount': IDL.Nat,
+    'path': IDL.Text,
+  })
+
+  const FileChunk = IDL.Record({
+    'path': IDL.Text,
+    'offset': IDL.Nat,
+    'data': IDL.Vec(IDL.Nat8),
+    'totalSize': IDL.Nat,
+    'hash': IDL.Text,
+  })
+
   const SearchScope = IDL.Variant({
     'All': IDL.Null,
     'Repositories': IDL.Null,
@@ -207,10 +253,31 @@ const idlFactory = ({ IDL }) => {
     'Code': IDL.Null,
   })
 
+  const SortBy = IDL.Variant({
+    'Relevance': IDL.Null,
+    'Name': IDL.Null,
+    'CreatedAt': IDL.Null,
+    'UpdatedAt': IDL.Null,
+    'Stars': IDL.Null,
+    'Size': IDL.Null,
+  })
+
+  const SearchFilter = IDL.Record({
+    'owner': IDL.Opt(IDL.Principal),
+    'language': IDL.Opt(IDL.Text),
+    'isPrivate': IDL.Opt(IDL.Bool),
+    'minSize': IDL.Opt(IDL.Nat),
+    'maxSize': IDL.Opt(IDL.Nat),
+    'createdAfter': IDL.Opt(IDL.Int),
+    'createdBefore': IDL.Opt(IDL.Int),
+  })
+
   const SearchRequest = IDL.Record({
     'searchQuery': IDL.Text,
     'scope': SearchScope,
+    'filters': IDL.Opt(SearchFilter),
     'pagination': IDL.Opt(PaginationParams),
+    'sortBy': IDL.Opt(SortBy),
   })
 
   const SearchResults = IDL.Record({
@@ -224,8 +291,26 @@ const idlFactory = ({ IDL }) => {
       'score': IDL.Float64,
       'matchedFields': IDL.Vec(IDL.Text),
     })),
+    'files': IDL.Vec(IDL.Record({
+      'file': FileEntry,
+      'repository': SerializableRepository,
+      'score': IDL.Float64,
+      'matchedFields': IDL.Vec(IDL.Text),
+      'snippets': IDL.Vec(IDL.Text),
+    })),
     'totalCount': IDL.Nat,
     'hasMore': IDL.Bool,
+    'searchQuery': IDL.Text,
+    'scope': SearchScope,
+  })
+
+  const SearchSuggestion = IDL.Record({
+    'text': IDL.Text,
+    'kind': IDL.Variant({
+      'Repository': IDL.Null,
+      'User': IDL.Null,
+      'File': IDL.Null,
+    }),
   })
 
   // FIXED: Use IDL.Rec instead of IDL.Recursive
@@ -246,6 +331,411 @@ const idlFactory = ({ IDL }) => {
     'rootPath': IDL.Text
   })
 
+  const AddCollaboratorRequest = IDL.Record({
+    'repositoryId': IDL.Text,
+    'username': IDL.Text,
+    'permission': CollaboratorPermission,
+    'message': IDL.Opt(IDL.Text),
+  })
+
+  const UpdateCollaboratorRequest = IDL.Record({
+    'repositoryId': IDL.Text,
+    'username': IDL.Text,
+    'permission': CollaboratorPermission,
+  })
+
+  const RemoveCollaboratorRequest = IDL.Record({
+    'repositoryId': IDL.Text,
+    'username': IDL.Text,
+  })
+
+  const CollaboratorListRequest = IDL.Record({
+    'repositoryId': IDL.Text,
+    'includeOwner': IDL.Opt(IDL.Bool),
+  })
+
+  const CollaboratorInfo = IDL.Record({
+    'collaborator': Collaborator,
+    'user': User,
+    'addedAt': IDL.Int,
+    'addedBy': IDL.Principal,
+  })
+
+  const CollaboratorListResponse = IDL.Record({
+    'collaborators': IDL.Vec(CollaboratorInfo),
+    'totalCount': IDL.Nat,
+    'repositoryId': IDL.Text,
+  })
+
+  const BranchRequest = IDL.Record({
+    'repositoryId': IDL.Text,
+    'branchName': IDL.Text,
+    'fromBranch': IDL.Text,
+  })
+
+  const GitLog = IDL.Record({
+    'commits': IDL.Vec(Commit),
+    'totalCount': IDL.Nat,
+    'hasMore': IDL.Bool,
+  })
+
+  const FileAction = IDL.Variant({
+    'Add': IDL.Null,
+    'Modify': IDL.Null,
+    'Delete': IDL.Null,
+    'Rename': IDL.Record({ 'from': IDL.Text, 'to': IDL.Text }),
+  })
+
+  const DiffResult = IDL.Record({
+    'path': IDL.Text,
+    'action': FileAction,
+    'oldContent': IDL.Opt(IDL.Vec(IDL.Nat8)),
+    'newContent': IDL.Opt(IDL.Vec(IDL.Nat8)),
+    'additions': IDL.Nat,
+    'deletions': IDL.Nat,
+  })
+
+  const CommitRequest = IDL.Record({
+    'repositoryId': IDL.Text,
+    'branch': IDL.Text,
+    'message': IDL.Text,
+    'files': IDL.Vec(IDL.Record({
+      'path': IDL.Text,
+      'content': IDL.Opt(IDL.Vec(IDL.Nat8)),
+      'action': FileAction,
+    })),
+    'parentCommit': IDL.Opt(IDL.Text),
+    'mergeParent': IDL.Opt(IDL.Text),
+  })
+
+  const CommitUploadsRequest = IDL.Record({
+    'repositoryId': IDL.Text,
+    'branch': IDL.Text,
+    'message': IDL.Text,
+    'uploadIds': IDL.Vec(IDL.Text),
+    'parentCommit': IDL.Opt(IDL.Text),
+  })
+
+  const MergeRequest = IDL.Record({
+    'repositoryId': IDL.Text,
+    'sourceBranch': IDL.Text,
+    'targetBranch': IDL.Text,
+    'title': IDL.Text,
+    'description': IDL.Opt(IDL.Text),
+  })
+
+  const MergeConflict = IDL.Record({
+    'path': IDL.Text,
+    'baseContent': IDL.Opt(IDL.Vec(IDL.Nat8)),
+    'sourceContent': IDL.Opt(IDL.Vec(IDL.Nat8)),
+    'targetContent': IDL.Opt(IDL.Vec(IDL.Nat8)),
+  })
+
+  const MergeResult = IDL.Record({
+    'success': IDL.Bool,
+    'commitId': IDL.Opt(IDL.Text),
+    'conflicts': IDL.Vec(MergeConflict),
+  })
+
+  const BranchComparison = IDL.Record({
+    'ahead': IDL.Nat,
+    'behind': IDL.Nat,
+    'commits': IDL.Vec(Commit),
+  })
+
+  // Governance types
+  const ProposalStatus = IDL.Variant({
+    'Draft': IDL.Null,
+    'Active': IDL.Null,
+    'Passed': IDL.Null,
+    'Failed': IDL.Null,
+    'Executed': IDL.Null,
+    'Cancelled': IDL.Null,
+    'Expired': IDL.Null,
+  })
+
+  const GovernanceConfig = IDL.Record({
+    'votingPeriod': IDL.Int,
+    'executionDelay': IDL.Int,
+    'proposalDeposit': IDL.Nat,
+    'quorumPercentage': IDL.Float64,
+    'approvalThreshold': IDL.Float64,
+    'maxProposalsPerUser': IDL.Nat,
+    'minVotingPower': IDL.Nat,
+    'allowDelegation': IDL.Bool,
+  })
+
+  const ProposalType = IDL.Variant({
+    'RepositoryUpdate': IDL.Record({
+      'repositoryId': IDL.Text,
+      'newSettings': RepositorySettings,
+    }),
+    'PlatformUpgrade': IDL.Record({
+      'version': IDL.Text,
+      'description': IDL.Text,
+      'canisterId': IDL.Opt(IDL.Principal),
+    }),
+    'TreasurySpend': IDL.Record({
+      'amount': IDL.Nat,
+      'recipient': IDL.Principal,
+      'purpose': IDL.Text,
+    }),
+    'GovernanceConfig': IDL.Record({
+      'newConfig': GovernanceConfig,
+    }),
+    'CollaboratorPromotion': IDL.Record({
+      'repositoryId': IDL.Text,
+      'collaborator': IDL.Principal,
+      'newPermission': CollaboratorPermission,
+    }),
+    'CustomProposal': IDL.Record({
+      'title': IDL.Text,
+      'description': IDL.Text,
+      'executionData': IDL.Opt(IDL.Vec(IDL.Nat8)),
+    }),
+  })
+
+  const Vote = IDL.Variant({
+    'Yes': IDL.Null,
+    'No': IDL.Null,
+    'Abstain': IDL.Null,
+  })
+
+  const VoteRecord = IDL.Record({
+    'voter': IDL.Principal,
+    'vote': Vote,
+    'votingPower': IDL.Nat,
+    'timestamp': IDL.Int,
+    'reason': IDL.Opt(IDL.Text),
+  })
+
+  const DiscussionPost = IDL.Record({
+    'id': IDL.Nat,
+    'author': IDL.Principal,
+    'content': IDL.Text,
+    'timestamp': IDL.Int,
+    'parentId': IDL.Opt(IDL.Nat),
+    'reactions': IDL.Vec(IDL.Tuple(IDL.Text, IDL.Vec(IDL.Principal))),
+  })
+
+  const Proposal = IDL.Record({
+    'id': IDL.Nat,
+    'proposer': IDL.Principal,
+    'proposalType': ProposalType,
+    'title': IDL.Text,
+    'description': IDL.Text,
+    'createdAt': IDL.Int,
+    'votingStartsAt': IDL.Int,
+    'votingEndsAt': IDL.Int,
+    'executionDelay': IDL.Int,
+    'status': ProposalStatus,
+    'votes': IDL.Vec(VoteRecord),
+    'totalYesVotes': IDL.Nat,
+    'totalNoVotes': IDL.Nat,
+    'totalAbstainVotes': IDL.Nat,
+    'quorumRequired': IDL.Nat,
+    'approvalThreshold': IDL.Float64,
+    'executedAt': IDL.Opt(IDL.Int),
+    'executedBy': IDL.Opt(IDL.Principal),
+    'discussionThread': IDL.Vec(DiscussionPost),
+  })
+
+  const CreateProposalRequest = IDL.Record({
+    'proposalType': ProposalType,
+    'title': IDL.Text,
+    'description': IDL.Text,
+    'votingDuration': IDL.Opt(IDL.Int),
+    'executionDelay': IDL.Opt(IDL.Int),
+  })
+
+  const CastVoteRequest = IDL.Record({
+    'proposalId': IDL.Nat,
+    'vote': Vote,
+    'reason': IDL.Opt(IDL.Text),
+  })
+
+  const ProposalListRequest = IDL.Record({
+    'status': IDL.Opt(ProposalStatus),
+    'proposer': IDL.Opt(IDL.Principal),
+    'proposalType': IDL.Opt(IDL.Text),
+    'pagination': IDL.Opt(PaginationParams),
+  })
+
+  const ProposalListResponse = IDL.Record({
+    'proposals': IDL.Vec(Proposal),
+    'totalCount': IDL.Nat,
+    'hasMore': IDL.Bool,
+  })
+
+  const AddDiscussionPostRequest = IDL.Record({
+    'proposalId': IDL.Nat,
+    'content': IDL.Text,
+    'parentId': IDL.Opt(IDL.Nat),
+  })
+
+  const ToggleReactionRequest = IDL.Record({
+    'proposalId': IDL.Nat,
+    'postId': IDL.Nat,
+    'emoji': IDL.Text,
+  })
+
+  const VotingStats = IDL.Record({
+    'totalSupply': IDL.Nat,
+    'circulatingSupply': IDL.Nat,
+    'totalStaked': IDL.Nat,
+    'activeVoters': IDL.Nat,
+    'participationRate': IDL.Float64,
+  })
+
+  const GovernanceTokenBalance = IDL.Record({
+    'balance': IDL.Nat,
+    'staked': IDL.Nat,
+    'votingPower': IDL.Nat,
+  })
+
+  const DelegationScope = IDL.Variant({
+    'All': IDL.Null,
+    'Repository': IDL.Text,
+    'ProposalType': IDL.Text,
+  })
+
+  const DelegateVoteRequest = IDL.Record({
+    'delegateTo': IDL.Principal,
+    'scope': DelegationScope,
+  })
+
+  const Delegation = IDL.Record({
+    'delegator': IDL.Principal,
+    'delegate': IDL.Principal,
+    'scope': DelegationScope,
+    'votingPower': IDL.Nat,
+  })
+
+  const DelegateSummary = IDL.Record({
+    'delegate': IDL.Principal,
+    'ownVotingPower': IDL.Nat,
+    'delegatedVotingPower': IDL.Nat,
+    'delegatorCount': IDL.Nat,
+  })
+
+  const DelegationGraph = IDL.Record({
+    'delegations': IDL.Vec(Delegation),
+    'delegates': IDL.Vec(DelegateSummary),
+  })
+
+  const Token = IDL.Record({
+    'symbol': IDL.Text,
+    'name': IDL.Text,
+    'decimals': IDL.Nat,
+    'totalSupply': IDL.Nat,
+    'circulatingSupply': IDL.Nat,
+  })
+
+  const StakePosition = IDL.Record({
+    'amount': IDL.Nat,
+    'stakedAt': IDL.Int,
+    'lockPeriod': IDL.Int,
+    'unlocksAt': IDL.Int,
+    'rewardRate': IDL.Float64,
+    'accumulatedRewards': IDL.Nat,
+    'lastClaimAt': IDL.Int,
+  })
+
+  const BountyStatus = IDL.Variant({
+    'Open': IDL.Null,
+    'Assigned': IDL.Null,
+    'InProgress': IDL.Null,
+    'UnderReview': IDL.Null,
+    'Completed': IDL.Null,
+    'Cancelled': IDL.Null,
+    'Expired': IDL.Null,
+  })
+
+  const DifficultyLevel = IDL.Variant({
+    'Beginner': IDL.Null,
+    'Intermediate': IDL.Null,
+    'Advanced': IDL.Null,
+    'Expert': IDL.Null,
+  })
+
+  const SubmissionStatus = IDL.Variant({
+    'Pending': IDL.Null,
+    'Approved': IDL.Null,
+    'Rejected': IDL.Null,
+    'RequiresChanges': IDL.Null,
+  })
+
+  const BountySubmission = IDL.Record({
+    'id': IDL.Text,
+    'submittedBy': IDL.Principal,
+    'submittedAt': IDL.Int,
+    'pullRequestId': IDL.Opt(IDL.Text),
+    'commitIds': IDL.Vec(IDL.Text),
+    'description': IDL.Text,
+    'status': SubmissionStatus,
+    'reviewedBy': IDL.Opt(IDL.Principal),
+    'reviewNotes': IDL.Opt(IDL.Text),
+  })
+
+  const Bounty = IDL.Record({
+    'id': IDL.Text,
+    'repositoryId': IDL.Text,
+    'title': IDL.Text,
+    'description': IDL.Text,
+    'amount': IDL.Nat,
+    'currency': IDL.Text,
+    'createdBy': IDL.Principal,
+    'createdAt': IDL.Int,
+    'expiresAt': IDL.Opt(IDL.Int),
+    'status': BountyStatus,
+    'assignedTo': IDL.Opt(IDL.Principal),
+    'requirements': IDL.Vec(IDL.Text),
+    'tags': IDL.Vec(IDL.Text),
+    'difficulty': DifficultyLevel,
+    'submissions': IDL.Vec(BountySubmission),
+  })
+
+  const BadgeCategory = IDL.Variant({
+    'Contributor': IDL.Null,
+    'Reviewer': IDL.Null,
+    'Maintainer': IDL.Null,
+    'Security': IDL.Null,
+    'Community': IDL.Null,
+    'Special': IDL.Null,
+  })
+
+  const Badge = IDL.Record({
+    'id': IDL.Text,
+    'name': IDL.Text,
+    'description': IDL.Text,
+    'icon': IDL.Text,
+    'earnedAt': IDL.Int,
+    'category': BadgeCategory,
+  })
+
+  const LeaderboardEntry = IDL.Record({
+    'user': IDL.Principal,
+    'username': IDL.Text,
+    'totalEarned': IDL.Nat,
+    'contributionCount': IDL.Nat,
+    'averageImpact': IDL.Float64,
+    'rank': IDL.Nat,
+    'badges': IDL.Vec(Badge),
+  })
+
+  const ContributionMetrics = IDL.Record({
+    'userId': IDL.Principal,
+    'repositoryId': IDL.Text,
+    'totalCommits': IDL.Nat,
+    'totalPullRequests': IDL.Nat,
+    'totalIssuesResolved': IDL.Nat,
+    'totalReviews': IDL.Nat,
+    'codeQualityScore': IDL.Float64,
+    'impactScore': IDL.Float64,
+    'consistencyScore': IDL.Float64,
+    'lastUpdated': IDL.Int,
+  })
+
   return IDL.Service({
     // User Management
     'registerUser': IDL.Func([CreateUserRequest], [Result(User, Error)], []),
@@ -283,10 +773,23 @@ const idlFactory = ({ IDL }) => {
     'updateRepository': IDL.Func([IDL.Text, UpdateRepositoryRequest], [Result(SerializableRepository, Error)], []),
     'deleteRepository': IDL.Func([IDL.Text], [Result(IDL.Bool, Error)], []),
 
+    // Collaborator Management
+    'addCollaborator': IDL.Func([AddCollaboratorRequest], [Result(CollaboratorInfo, Error)], []),
+    'removeCollaborator': IDL.Func([RemoveCollaboratorRequest], [Result(IDL.Bool, Error)], []),
+    'updateCollaboratorPermission': IDL.Func([UpdateCollaboratorRequest], [Result(CollaboratorInfo, Error)], []),
+    'listCollaborators': IDL.Func([CollaboratorListRequest], [Result(CollaboratorListResponse, Error)], []),
+
     // File Management
     'uploadFile': IDL.Func([UploadFileRequest], [Result(FileEntry, Error)], []),
+    'beginChunkedUpload': IDL.Func([BeginUploadRequest], [Result(UploadStatus, Error)], []),
+    'uploadChunk': IDL.Func([IDL.Text, IDL.Nat, IDL.Vec(IDL.Nat8), IDL.Text], [Result(UploadStatus, Error)], []),
+    'getUploadStatus': IDL.Func([IDL.Text], [Result(UploadStatus, Error)], ['query']),
+    'completeChunkedUpload': IDL.Func([IDL.Text], [Result(FileEntry, Error)], []),
+    'abortChunkedUpload': IDL.Func([IDL.Text], [Result(IDL.Bool, Error)], []),
     'getFile': IDL.Func([IDL.Text, IDL.Text], [Result(FileEntry, Error)], ['query']),
     'listFiles': IDL.Func([IDL.Text, IDL.Opt(IDL.Text)], [Result(FileListResponse, Error)], ['query']),
+    'listFileInfo': IDL.Func([IDL.Text, IDL.Opt(IDL.Text)], [Result(FileInfoListResponse, Error)], ['query']),
+    'getFileChunk': IDL.Func([IDL.Text, IDL.Text, IDL.Nat, IDL.Nat], [Result(FileChunk, Error)], ['query']),
     'deleteFile': IDL.Func([IDL.Text, IDL.Text], [Result(IDL.Bool, Error)], []),
     
     // File Tree
@@ -296,9 +799,65 @@ const idlFactory = ({ IDL }) => {
       ['query']
     ),
 
+    // Git Operations
+    'listBranches': IDL.Func([IDL.Text], [Result(IDL.Vec(Branch), Error)], ['query']),
+    'getCurrentBranch': IDL.Func([IDL.Text], [Result(Branch, Error)], ['query']),
+    'createBranch': IDL.Func([BranchRequest], [Result(Branch, Error)], []),
+    'deleteBranch': IDL.Func([IDL.Text, IDL.Text], [Result(IDL.Bool, Error)], []),
+    'switchBranch': IDL.Func([IDL.Text, IDL.Text], [Result(IDL.Bool, Error)], []),
+    'getCommitHistory': IDL.Func(
+      [IDL.Text, IDL.Opt(IDL.Text), IDL.Opt(IDL.Nat), IDL.Opt(IDL.Nat)],
+      [Result(GitLog, Error)],
+      ['query']
+    ),
+    'getCommitDiff': IDL.Func([IDL.Text, IDL.Text], [Result(IDL.Vec(DiffResult), Error)], ['query']),
+    'commit': IDL.Func([CommitRequest], [Result(Commit, Error)], []),
+    'commitUploads': IDL.Func([CommitUploadsRequest], [Result(Commit, Error)], []),
+    'compareBranches': IDL.Func([IDL.Text, IDL.Text, IDL.Text], [Result(BranchComparison, Error)], ['query']),
+    'mergeBranches': IDL.Func([MergeRequest], [Result(MergeResult, Error)], []),
+
+    // Governance
+    'getVotingPower': IDL.Func([IDL.Opt(IDL.Principal)], [IDL.Nat], ['query']),
+    'createProposal': IDL.Func([CreateProposalRequest], [Result(Proposal, Error)], []),
+    'castVote': IDL.Func([CastVoteRequest], [Result(IDL.Bool, Error)], []),
+    'getProposal': IDL.Func([IDL.Nat], [Result(Proposal, Error)], ['query']),
+    'listProposals': IDL.Func([ProposalListRequest], [ProposalListResponse], ['query']),
+    'executeProposal': IDL.Func([IDL.Nat], [Result(IDL.Bool, Error)], []),
+    'addDiscussionPost': IDL.Func([AddDiscussionPostRequest], [Result(DiscussionPost, Error)], []),
+    'toggleDiscussionReaction': IDL.Func([ToggleReactionRequest], [Result(DiscussionPost, Error)], []),
+    'getVotingStats': IDL.Func([], [VotingStats], ['query']),
+    'canCreateProposal': IDL.Func([], [IDL.Bool], ['query']),
+    'getGovernanceTokenBalance': IDL.Func([IDL.Opt(IDL.Principal)], [Result(GovernanceTokenBalance, Error)], ['query']),
+    'delegateVotes': IDL.Func([DelegateVoteRequest], [Result(IDL.Bool, Error)], []),
+    'revokeDelegation': IDL.Func([], [Result(IDL.Bool, Error)], []),
+    'getDelegationGraph': IDL.Func([], [DelegationGraph], ['query']),
+
+    // Incentives
+    'getTokenInfo': IDL.Func([], [Token], ['query']),
+    'getBalance': IDL.Func([], [IDL.Nat], ['query']),
+    'transfer': IDL.Func([IDL.Principal, IDL.Nat], [Result(IDL.Bool, Error)], []),
+    'stakeTokens': IDL.Func([IDL.Nat, IDL.Nat], [Result(StakePosition, Error)], []),
+    'claimStakingRewards': IDL.Func([], [Result(IDL.Nat, Error)], []),
+    'getStakePositions': IDL.Func([], [IDL.Vec(StakePosition)], ['query']),
+    'getStakingAPY': IDL.Func([IDL.Nat], [IDL.Float64], ['query']),
+    'createBounty': IDL.Func(
+      [IDL.Text, IDL.Text, IDL.Text, IDL.Nat, IDL.Vec(IDL.Text), DifficultyLevel, IDL.Opt(IDL.Nat)],
+      [Result(Bounty, Error)],
+      []
+    ),
+    'submitBounty': IDL.Func([IDL.Text, IDL.Opt(IDL.Text), IDL.Vec(IDL.Text), IDL.Text], [Result(BountySubmission, Error)], []),
+    'listBounties': IDL.Func([IDL.Opt(IDL.Text), IDL.Opt(BountyStatus)], [IDL.Vec(Bounty)], ['query']),
+    'getBounty': IDL.Func([IDL.Text], [Result(Bounty, Error)], ['query']),
+    'reviewBountySubmission': IDL.Func([IDL.Text, IDL.Text, IDL.Bool, IDL.Opt(IDL.Text)], [Result(Bounty, Error)], []),
+    'getGlobalLeaderboard': IDL.Func([IDL.Opt(IDL.Nat)], [IDL.Vec(LeaderboardEntry)], ['query']),
+    'getTimeframedLeaderboard': IDL.Func([IDL.Opt(IDL.Text), IDL.Nat, IDL.Opt(IDL.Nat)], [IDL.Vec(LeaderboardEntry)], ['query']),
+    'getRepositoryLeaderboard': IDL.Func([IDL.Text, IDL.Opt(IDL.Nat)], [IDL.Vec(LeaderboardEntry)], ['query']),
+    'getUserBadges': IDL.Func([IDL.Principal], [IDL.Vec(Badge)], ['query']),
+    'getContributionMetrics': IDL.Func([IDL.Principal], [IDL.Vec(ContributionMetrics)], ['query']),
+
     // Search Methods
     'search': IDL.Func([SearchRequest], [Result(SearchResults, Error)], []),
-    'searchSuggestions': IDL.Func([IDL.Text, IDL.Opt(IDL.Nat)], [Result(IDL.Vec(IDL.Text), Error)], ['query']),
+    'searchSuggestions': IDL.Func([IDL.Text, IDL.Opt(IDL.Nat)], [Result(IDL.Vec(SearchSuggestion), Error)], ['query']),
     'searchRepository': IDL.Func([IDL.Text, IDL.Text, IDL.Opt(PaginationParams)], [Result(FileListResponse, Error)], []),
 
     // System
@@ -318,14 +877,16 @@ const idlFactory = ({ IDL }) => {
     ),
     
     'getRepositoryStats': IDL.Func(
-      [], 
-      [IDL.Record({
-        'totalRepositories': IDL.Nat,
-        'publicRepositories': IDL.Nat,
-        'totalUsers': IDL.Nat,
-        'totalStars': IDL.Nat,
-        'totalForks': IDL.Nat,
-      })], 
+      [IDL.Text], 
+      [Result(IDL.Record({
+        'totalCommits': IDL.Nat,
+        'totalBranches': IDL.Nat,
+        'totalFiles': IDL.Nat,
+        'contributors': IDL.Vec(IDL.Principal),
+        'languages': IDL.Vec(IDL.Text),
+        'languageBytes': IDL.Vec(IDL.Tuple(IDL.Text, IDL.Nat)),
+        'commitsByAuthor': IDL.Vec(IDL.Tuple(IDL.Principal, IDL.Nat)),
+      }), Error)], 
       ['query']
     ),
     
@@ -339,19 +900,6 @@ const idlFactory = ({ IDL }) => {
         'totalForks': IDL.Nat,
       })], 
       ['query']
-    ),
-    
-    // Repository specific stats
-    'getRepositoryDetailsStats': IDL.Func(
-      [IDL.Text], 
-      [Result(IDL.Record({
-        'totalCommits': IDL.Nat,
-        'totalBranches': IDL.Nat,
-        'totalFiles': IDL.Nat,
-        'contributors': IDL.Vec(IDL.Principal),
-        'languages': IDL.Vec(IDL.Text),
-      }), Error)], 
-      ['query']
     )
   })
 }
@@ -706,11 +1254,14 @@ class ApiService {
     }
   }
 
-  async uploadFile(fileData) {
-    if (!this.isAuthenticated) throw new Error('Must be authenticated to upload files')
+  async addCollaborator(request) {
+    if (!this.isAuthenticated) throw new Error('Must be authenticated to add collaborators')
     
     try {
-      const result = await this.actor.uploadFile(fileData)
+      const result = await this.actor.addCollaborator({
+        ...request,
+        message: request.message ? [request.message] : []
+      })
       
       if ('Ok' in result) {
         return { success: true, data: result.Ok }
@@ -718,14 +1269,16 @@ class ApiService {
         return { success: false, error: result.Err }
       }
     } catch (error) {
-      console.error('File upload failed:', error)
+      console.error('Adding collaborator failed:', error)
       return { success: false, error: { InternalError: error.message } }
     }
   }
 
-  async getFile(repositoryId, path) {
+  async removeCollaborator(request) {
+    if (!this.isAuthenticated) throw new Error('Must be authenticated to remove collaborators')
+    
     try {
-      const result = await this.actor.getFile(repositoryId, path)
+      const result = await this.actor.removeCollaborator(request)
       
       if ('Ok' in result) {
         return { success: true, data: result.Ok }
@@ -733,14 +1286,16 @@ class ApiService {
         return { success: false, error: result.Err }
       }
     } catch (error) {
-      console.error('Failed to get file:', error)
+      console.error('Removing collaborator failed:', error)
       return { success: false, error: { InternalError: error.message } }
     }
   }
 
-  async listFiles(repositoryId, path = null) {
+  async updateCollaboratorPermission(request) {
+    if (!this.isAuthenticated) throw new Error('Must be authenticated to change collaborator permissions')
+    
     try {
-      const result = await this.actor.listFiles(repositoryId, path ? [path] : [])
+      const result = await this.actor.updateCollaboratorPermission(request)
       
       if ('Ok' in result) {
         return { success: true, data: result.Ok }
@@ -748,16 +1303,17 @@ class ApiService {
         return { success: false, error: result.Err }
       }
     } catch (error) {
-      console.error('Failed to list files:', error)
+      console.error('Updating collaborator permission failed:', error)
       return { success: false, error: { InternalError: error.message } }
     }
   }
 
-  async deleteFile(repositoryId, path) {
-    if (!this.isAuthenticated) throw new Error('Must be authenticated to delete files')
-    
+  async listCollaborators(repositoryId, includeOwner = true) {
     try {
-      const result = await this.actor.deleteFile(repositoryId, path)
+      const result = await this.actor.listCollaborators({
+        repositoryId,
+        includeOwner: [includeOwner]
+      })
       
       if ('Ok' in result) {
         return { success: true, data: result.Ok }
@@ -765,28 +1321,19 @@ class ApiService {
         return { success: false, error: result.Err }
       }
     } catch (error) {
-      console.error('File deletion failed:', error)
+      console.error('Failed to list collaborators:', error)
       return { success: false, error: { InternalError: error.message } }
     }
   }
 
-  async getFileTree(repositoryId, path = null) {
+  async uploadFile(fileData) {
+    if (!this.isAuthenticated) throw new Error('Must be authenticated to upload files')
+    
     try {
-      // Check if backend is available
-      if (!this.actor || !this.isBackendAvailable) {
-        console.log('Backend not available, returning mock file tree')
-        // Return a comprehensive mock file tree for development
-        return {
-          success: true,
-          data: {
-            rootPath: path || '',
-            nodes: this.getMockFileTree(repositoryId, path)
-          }
-        }
-      }
-
-      // For authenticated users, call the backend
-      const result = await this.actor.getFileTree(repositoryId, path ? [path] : [])
+      const result = await this.actor.uploadFile({
+        ...fileData,
+        branch: fileData.branch ? [fileData.branch] : []
+      })
       
       if ('Ok' in result) {
         return { success: true, data: result.Ok }
@@ -794,7 +1341,199 @@ class ApiService {
         return { success: false, error: result.Err }
       }
     } catch (error) {
-      console.error('Failed to get file tree:', error)
+      console.error('File upload failed:', error)
+      return { success: false, error: { InternalError: error.message } }
+    }
+  }
+
+  async beginChunkedUpload(request) {
+    if (!this.isAuthenticated) throw new Error('Must be authenticated to upload files')
+    
+    try {
+      const result = await this.actor.beginChunkedUpload({
+        ...request,
+        branch: request.branch ? [request.branch] : []
+      })
+      
+      if ('Ok' in result) {
+        return { success: true, data: result.Ok }
+      } else {
+        return { success: false, error: result.Err }
+      }
+    } catch (error) {
+      console.error('Failed to begin chunked upload:', error)
+      return { success: false, error: { InternalError: error.message } }
+    }
+  }
+
+  async uploadChunk(uploadId, index, chunk, chunkHash) {
+    if (!this.isAuthenticated) throw new Error('Must be authenticated to upload files')
+    
+    try {
+      const result = await this.actor.uploadChunk(uploadId, index, chunk, chunkHash)
+      
+      if ('Ok' in result) {
+        return { success: true, data: result.Ok }
+      } else {
+        return { success: false, error: result.Err }
+      }
+    } catch (error) {
+      console.error('Chunk upload failed:', error)
+      return { success: false, error: { InternalError: error.message } }
+    }
+  }
+
+  async getUploadStatus(uploadId) {
+    try {
+      const result = await this.actor.getUploadStatus(uploadId)
+      
+      if ('Ok' in result) {
+        return { success: true, data: result.Ok }
+      } else {
+        return { success: false, error: result.Err }
+      }
+    } catch (error) {
+      console.error('Failed to get upload status:', error)
+      return { success: false, error: { InternalError: error.message } }
+    }
+  }
+
+  async completeChunkedUpload(uploadId) {
+    if (!this.isAuthenticated) throw new Error('Must be authenticated to upload files')
+    
+    try {
+      const result = await this.actor.completeChunkedUpload(uploadId)
+      
+      if ('Ok' in result) {
+        return { success: true, data: result.Ok }
+      } else {
+        return { success: false, error: result.Err }
+      }
+    } catch (error) {
+      console.error('Failed to complete chunked upload:', error)
+      return { success: false, error: { InternalError: error.message } }
+    }
+  }
+
+  async abortChunkedUpload(uploadId) {
+    if (!this.isAuthenticated) throw new Error('Must be authenticated to upload files')
+    
+    try {
+      const result = await this.actor.abortChunkedUpload(uploadId)
+      
+      if ('Ok' in result) {
+        return { success: true, data: result.Ok }
+      } else {
+        return { success: false, error: result.Err }
+      }
+    } catch (error) {
+      console.error('Failed to abort chunked upload:', error)
+      return { success: false, error: { InternalError: error.message } }
+    }
+  }
+
+  async getFile(repositoryId, path) {
+    try {
+      const result = await this.actor.getFile(repositoryId, path)
+      
+      if ('Ok' in result) {
+        return { success: true, data: result.Ok }
+      } else {
+        return { success: false, error: result.Err }
+      }
+    } catch (error) {
+      console.error('Failed to get file:', error)
+      return { success: false, error: { InternalError: error.message } }
+    }
+  }
+
+  async listFiles(repositoryId, path = null) {
+    try {
+      const result = await this.actor.listFiles(repositoryId, path ? [path] : [])
+      
+      if ('Ok' in result) {
+        return { success: true, data: result.Ok }
+      } else {
+        return { success: false, error: result.Err }
+      }
+    } catch (error) {
+      console.error('Failed to list files:', error)
+      return { success: false, error: { InternalError: error.message } }
+    }
+  }
+
+  async listFileInfo(repositoryId, path = null) {
+    try {
+      const result = await this.actor.listFileInfo(repositoryId, path ? [path] : [])
+
+      if ('Ok' in result) {
+        return { success: true, data: result.Ok }
+      } else {
+        return { success: false, error: result.Err }
+      }
+    } catch (error) {
+      console.error('Failed to list file info:', error)
+      return { success: false, error: { InternalError: error.message } }
+    }
+  }
+
+  async getFileChunk(repositoryId, path, offset, length) {
+    try {
+      const result = await this.actor.getFileChunk(repositoryId, path, BigInt(offset), BigInt(length))
+
+      if ('Ok' in result) {
+        return { success: true, data: result.Ok }
+      } else {
+        return { success: false, error: result.Err }
+      }
+    } catch (error) {
+      console.error('Failed to get file chunk:', error)
+      return { success: false, error: { InternalError: error.message } }
+    }
+  }
+
+  async deleteFile(repositoryId, path) {
+    if (!this.isAuthenticated) throw new Error('Must be authenticated to delete files')
+    
+    try {
+      const result = await this.actor.deleteFile(repositoryId, path)
+      
+      if ('Ok' in result) {
+        return { success: true, data: result.Ok }
+      } else {
+        return { success: false, error: result.Err }
+      }
+    } catch (error) {
+      console.error('File deletion failed:', error)
+      return { success: false, error: { InternalError: error.message } }
+    }
+  }
+
+  async getFileTree(repositoryId, path = null) {
+    try {
+      // Check if backend is available
+      if (!this.actor || !this.isBackendAvailable) {
+        console.log('Backend not available, returning mock file tree')
+        // Return a comprehensive mock file tree for development
+        return {
+          success: true,
+          data: {
+            rootPath: path || '',
+            nodes: this.getMockFileTree(repositoryId, path)
+          }
+        }
+      }
+
+      // For authenticated users, call the backend
+      const result = await this.actor.getFileTree(repositoryId, path ? [path] : [])
+      
+      if ('Ok' in result) {
+        return { success: true, data: result.Ok }
+      } else {
+        return { success: false, error: result.Err }
+      }
+    } catch (error) {
+      console.error('Failed to get file tree:', error)
       // Return mock data when backend fails
       return {
         success: true,
@@ -806,140 +1545,800 @@ class ApiService {
     }
   }
 
-  // Enhanced mock file tree generator
-  getMockFileTree(repositoryId, path = null) {
-    const baseFiles = [
-      {
-        path: 'README.md',
-        name: 'README.md',
-        isFolder: false,
-        size: 2048,
-        lastModified: Date.now(),
-      },
-      {
-        path: 'src',
-        name: 'src',
-        isFolder: true,
-        children: [
-          {
-            path: 'src/main.mo',
-            name: 'main.mo',
-            isFolder: false,
-            size: 4096,
-            lastModified: Date.now() - 86400000,
-          },
-          {
-            path: 'src/types.mo',
-            name: 'types.mo',
-            isFolder: false,
-            size: 2048,
-            lastModified: Date.now() - 172800000,
-          },
-          {
-            path: 'src/utils.mo',
-            name: 'utils.mo',
-            isFolder: false,
-            size: 3072,
-            lastModified: Date.now() - 259200000,
-          }
-        ]
-      },
-      {
-        path: 'assets',
-        name: 'assets',
-        isFolder: true,
-        children: [
-          {
-            path: 'assets/logo.png',
-            name: 'logo.png',
-            isFolder: false,
-            size: 15360,
-            lastModified: Date.now() - 3600000,
-          },
-          {
-            path: 'assets/icon.svg',
-            name: 'icon.svg',
-            isFolder: false,
-            size: 2048,
-            lastModified: Date.now() - 7200000,
-          }
-        ]
-      },
-      {
-        path: 'dfx.json',
-        name: 'dfx.json',
-        isFolder: false,
-        size: 1024,
-        lastModified: Date.now() - 7200000,
-      },
-      {
-        path: 'package.json',
-        name: 'package.json',
-        isFolder: false,
-        size: 512,
-        lastModified: Date.now() - 10800000,
-      },
-      {
-        path: 'mops.toml',
-        name: 'mops.toml',
-        isFolder: false,
-        size: 256,
-        lastModified: Date.now() - 14400000,
+  // Enhanced mock file tree generator
+  getMockFileTree(repositoryId, path = null) {
+    const baseFiles = [
+      {
+        path: 'README.md',
+        name: 'README.md',
+        isFolder: false,
+        size: 2048,
+        lastModified: Date.now(),
+      },
+      {
+        path: 'src',
+        name: 'src',
+        isFolder: true,
+        children: [
+          {
+            path: 'src/main.mo',
+            name: 'main.mo',
+            isFolder: false,
+            size: 4096,
+            lastModified: Date.now() - 86400000,
+          },
+          {
+            path: 'src/types.mo',
+            name: 'types.mo',
+            isFolder: false,
+            size: 2048,
+            lastModified: Date.now() - 172800000,
+          },
+          {
+            path: 'src/utils.mo',
+            name: 'utils.mo',
+            isFolder: false,
+            size: 3072,
+            lastModified: Date.now() - 259200000,
+          }
+        ]
+      },
+      {
+        path: 'assets',
+        name: 'assets',
+        isFolder: true,
+        children: [
+          {
+            path: 'assets/logo.png',
+            name: 'logo.png',
+            isFolder: false,
+            size: 15360,
+            lastModified: Date.now() - 3600000,
+          },
+          {
+            path: 'assets/icon.svg',
+            name: 'icon.svg',
+            isFolder: false,
+            size: 2048,
+            lastModified: Date.now() - 7200000,
+          }
+        ]
+      },
+      {
+        path: 'dfx.json',
+        name: 'dfx.json',
+        isFolder: false,
+        size: 1024,
+        lastModified: Date.now() - 7200000,
+      },
+      {
+        path: 'package.json',
+        name: 'package.json',
+        isFolder: false,
+        size: 512,
+        lastModified: Date.now() - 10800000,
+      },
+      {
+        path: 'mops.toml',
+        name: 'mops.toml',
+        isFolder: false,
+        size: 256,
+        lastModified: Date.now() - 14400000,
+      }
+    ]
+
+    // If a specific path is requested, filter and return relevant files
+    if (path) {
+      const filteredFiles = baseFiles.filter(file => 
+        file.path.startsWith(path) || file.path === path
+      )
+      return filteredFiles
+    }
+
+    return baseFiles
+  }
+
+  async search(searchRequest) {
+    try {
+      // filters, pagination and sortBy are Candid optionals on SearchRequest
+      const result = await this.actor.search({
+        ...searchRequest,
+        filters: searchRequest.filters ? [searchRequest.filters] : [],
+        pagination: searchRequest.pagination ? [searchRequest.pagination] : [],
+        sortBy: searchRequest.sortBy ? [searchRequest.sortBy] : []
+      })
+      
+      if ('Ok' in result) {
+        return { success: true, data: result.Ok }
+      } else {
+        return { success: false, error: result.Err }
+      }
+    } catch (error) {
+      console.error('Search failed:', error)
+      return { success: false, error: { InternalError: error.message } }
+    }
+  }
+
+  async searchSuggestions(query, maxSuggestions = null) {
+    try {
+      const result = await this.actor.searchSuggestions(query, maxSuggestions ? [maxSuggestions] : [])
+      
+      if ('Ok' in result) {
+        return { success: true, data: result.Ok }
+      } else {
+        return { success: false, error: result.Err }
+      }
+    } catch (error) {
+      console.error('Search suggestions failed:', error)
+      return { success: false, error: { InternalError: error.message } }
+    }
+  }
+
+  async searchRepository(repositoryId, query, pagination = null) {
+    try {
+      const result = await this.actor.searchRepository(repositoryId, query, pagination ? [pagination] : [])
+      
+      if ('Ok' in result) {
+        return { success: true, data: result.Ok }
+      } else {
+        return { success: false, error: result.Err }
+      }
+    } catch (error) {
+      console.error('Repository search failed:', error)
+      return { success: false, error: { InternalError: error.message } }
+    }
+  }
+
+  async listBranches(repositoryId) {
+    try {
+      const result = await this.actor.listBranches(repositoryId)
+      
+      if ('Ok' in result) {
+        return { success: true, data: result.Ok }
+      } else {
+        return { success: false, error: result.Err }
+      }
+    } catch (error) {
+      console.error('Failed to list branches:', error)
+      return { success: false, error: { InternalError: error.message } }
+    }
+  }
+
+  async getCurrentBranch(repositoryId) {
+    try {
+      const result = await this.actor.getCurrentBranch(repositoryId)
+      
+      if ('Ok' in result) {
+        return { success: true, data: result.Ok }
+      } else {
+        return { success: false, error: result.Err }
+      }
+    } catch (error) {
+      console.error('Failed to get current branch:', error)
+      return { success: false, error: { InternalError: error.message } }
+    }
+  }
+
+  async createBranch(branchRequest) {
+    if (!this.isAuthenticated) throw new Error('Must be authenticated to create branches')
+    
+    try {
+      const result = await this.actor.createBranch(branchRequest)
+      
+      if ('Ok' in result) {
+        return { success: true, data: result.Ok }
+      } else {
+        return { success: false, error: result.Err }
+      }
+    } catch (error) {
+      console.error('Branch creation failed:', error)
+      return { success: false, error: { InternalError: error.message } }
+    }
+  }
+
+  async deleteBranch(repositoryId, branchName) {
+    if (!this.isAuthenticated) throw new Error('Must be authenticated to delete branches')
+    
+    try {
+      const result = await this.actor.deleteBranch(repositoryId, branchName)
+      
+      if ('Ok' in result) {
+        return { success: true, data: result.Ok }
+      } else {
+        return { success: false, error: result.Err }
+      }
+    } catch (error) {
+      console.error('Branch deletion failed:', error)
+      return { success: false, error: { InternalError: error.message } }
+    }
+  }
+
+  async switchBranch(repositoryId, branchName) {
+    if (!this.isAuthenticated) throw new Error('Must be authenticated to switch branches')
+    
+    try {
+      const result = await this.actor.switchBranch(repositoryId, branchName)
+      
+      if ('Ok' in result) {
+        return { success: true, data: result.Ok }
+      } else {
+        return { success: false, error: result.Err }
+      }
+    } catch (error) {
+      console.error('Branch switch failed:', error)
+      return { success: false, error: { InternalError: error.message } }
+    }
+  }
+
+  async getCommitHistory(repositoryId, branch = null, limit = null, offset = null) {
+    try {
+      const result = await this.actor.getCommitHistory(
+        repositoryId,
+        branch ? [branch] : [],
+        limit !== null ? [limit] : [],
+        offset !== null ? [offset] : []
+      )
+      
+      if ('Ok' in result) {
+        return { success: true, data: result.Ok }
+      } else {
+        return { success: false, error: result.Err }
+      }
+    } catch (error) {
+      console.error('Failed to get commit history:', error)
+      return { success: false, error: { InternalError: error.message } }
+    }
+  }
+
+  async getCommitDiff(repositoryId, commitId) {
+    try {
+      const result = await this.actor.getCommitDiff(repositoryId, commitId)
+      
+      if ('Ok' in result) {
+        return { success: true, data: result.Ok }
+      } else {
+        return { success: false, error: result.Err }
+      }
+    } catch (error) {
+      console.error('Failed to get commit diff:', error)
+      return { success: false, error: { InternalError: error.message } }
+    }
+  }
+
+  async commit(commitRequest) {
+    if (!this.isAuthenticated) throw new Error('Must be authenticated to commit')
+    
+    try {
+      const result = await this.actor.commit({
+        ...commitRequest,
+        files: commitRequest.files.map(file => ({
+          ...file,
+          content: file.content ? [file.content] : []
+        })),
+        parentCommit: commitRequest.parentCommit ? [commitRequest.parentCommit] : [],
+        mergeParent: commitRequest.mergeParent ? [commitRequest.mergeParent] : []
+      })
+      
+      if ('Ok' in result) {
+        return { success: true, data: result.Ok }
+      } else {
+        return { success: false, error: result.Err }
+      }
+    } catch (error) {
+      console.error('Commit failed:', error)
+      return { success: false, error: { InternalError: error.message } }
+    }
+  }
+
+  async commitUploads(request) {
+    if (!this.isAuthenticated) throw new Error('Must be authenticated to commit')
+    
+    try {
+      const result = await this.actor.commitUploads({
+        ...request,
+        parentCommit: request.parentCommit ? [request.parentCommit] : []
+      })
+      
+      if ('Ok' in result) {
+        return { success: true, data: result.Ok }
+      } else {
+        return { success: false, error: result.Err }
+      }
+    } catch (error) {
+      console.error('Failed to commit uploads:', error)
+      return { success: false, error: { InternalError: error.message } }
+    }
+  }
+  async compareBranches(repositoryId, baseBranch, compareBranch) {
+    try {
+      const result = await this.actor.compareBranches(repositoryId, baseBranch, compareBranch)
+      
+      if ('Ok' in result) {
+        return { success: true, data: result.Ok }
+      } else {
+        return { success: false, error: result.Err }
+      }
+    } catch (error) {
+      console.error('Failed to compare branches:', error)
+      return { success: false, error: { InternalError: error.message } }
+    }
+  }
+
+  async mergeBranches(mergeRequest) {
+    if (!this.isAuthenticated) throw new Error('Must be authenticated to merge branches')
+    
+    try {
+      const result = await this.actor.mergeBranches({
+        ...mergeRequest,
+        description: mergeRequest.description ? [mergeRequest.description] : []
+      })
+      
+      if ('Ok' in result) {
+        return { success: true, data: result.Ok }
+      } else {
+        return { success: false, error: result.Err }
+      }
+    } catch (error) {
+      console.error('Branch merge failed:', error)
+      return { success: false, error: { InternalError: error.message } }
+    }
+  }
+
+  // Governance methods
+  async getVotingPower(principal = null) {
+    try {
+      const userPrincipal = typeof principal === 'string' ? Principal.fromText(principal) : principal
+      const votingPower = await this.actor.getVotingPower(userPrincipal ? [userPrincipal] : [])
+      return { success: true, data: votingPower }
+    } catch (error) {
+      console.error('Failed to get voting power:', error)
+      return { success: false, error: { InternalError: error.message } }
+    }
+  }
+
+  async createProposal(proposalRequest) {
+    if (!this.isAuthenticated) throw new Error('Must be authenticated to create proposals')
+
+    try {
+      const result = await this.actor.createProposal({
+        ...proposalRequest,
+        votingDuration: proposalRequest.votingDuration ? [proposalRequest.votingDuration] : [],
+        executionDelay: proposalRequest.executionDelay ? [proposalRequest.executionDelay] : []
+      })
+
+      if ('Ok' in result) {
+        return { success: true, data: result.Ok }
+      } else {
+        return { success: false, error: result.Err }
+      }
+    } catch (error) {
+      console.error('Proposal creation failed:', error)
+      return { success: false, error: { InternalError: error.message } }
+    }
+  }
+
+  async castVote(voteRequest) {
+    if (!this.isAuthenticated) throw new Error('Must be authenticated to vote')
+
+    try {
+      const result = await this.actor.castVote({
+        ...voteRequest,
+        proposalId: BigInt(voteRequest.proposalId),
+        reason: voteRequest.reason ? [voteRequest.reason] : []
+      })
+
+      if ('Ok' in result) {
+        return { success: true, data: result.Ok }
+      } else {
+        return { success: false, error: result.Err }
+      }
+    } catch (error) {
+      console.error('Vote failed:', error)
+      return { success: false, error: { InternalError: error.message } }
+    }
+  }
+
+  async getProposal(proposalId) {
+    try {
+      const result = await this.actor.getProposal(BigInt(proposalId))
+
+      if ('Ok' in result) {
+        return { success: true, data: result.Ok }
+      } else {
+        return { success: false, error: result.Err }
+      }
+    } catch (error) {
+      console.error('Failed to get proposal:', error)
+      return { success: false, error: { InternalError: error.message } }
+    }
+  }
+
+  async listProposals(listRequest = {}) {
+    try {
+      const proposer = typeof listRequest.proposer === 'string'
+        ? Principal.fromText(listRequest.proposer)
+        : listRequest.proposer
+      const response = await this.actor.listProposals({
+        status: listRequest.status ? [listRequest.status] : [],
+        proposer: proposer ? [proposer] : [],
+        proposalType: listRequest.proposalType ? [listRequest.proposalType] : [],
+        pagination: listRequest.pagination ? [listRequest.pagination] : []
+      })
+      return { success: true, data: response }
+    } catch (error) {
+      console.error('Failed to list proposals:', error)
+      return { success: false, error: { InternalError: error.message } }
+    }
+  }
+
+  async executeProposal(proposalId) {
+    if (!this.isAuthenticated) throw new Error('Must be authenticated to execute proposals')
+
+    try {
+      const result = await this.actor.executeProposal(BigInt(proposalId))
+
+      if ('Ok' in result) {
+        return { success: true, data: result.Ok }
+      } else {
+        return { success: false, error: result.Err }
+      }
+    } catch (error) {
+      console.error('Proposal execution failed:', error)
+      return { success: false, error: { InternalError: error.message } }
+    }
+  }
+
+  async addDiscussionPost(postRequest) {
+    if (!this.isAuthenticated) throw new Error('Must be authenticated to join discussions')
+
+    try {
+      const result = await this.actor.addDiscussionPost({
+        ...postRequest,
+        proposalId: BigInt(postRequest.proposalId),
+        parentId: postRequest.parentId != null ? [BigInt(postRequest.parentId)] : []
+      })
+
+      if ('Ok' in result) {
+        return { success: true, data: result.Ok }
+      } else {
+        return { success: false, error: result.Err }
+      }
+    } catch (error) {
+      console.error('Failed to add discussion post:', error)
+      return { success: false, error: { InternalError: error.message } }
+    }
+  }
+
+  async toggleDiscussionReaction(reactionRequest) {
+    if (!this.isAuthenticated) throw new Error('Must be authenticated to react')
+
+    try {
+      const result = await this.actor.toggleDiscussionReaction({
+        ...reactionRequest,
+        proposalId: BigInt(reactionRequest.proposalId),
+        postId: BigInt(reactionRequest.postId)
+      })
+
+      if ('Ok' in result) {
+        return { success: true, data: result.Ok }
+      } else {
+        return { success: false, error: result.Err }
+      }
+    } catch (error) {
+      console.error('Failed to toggle reaction:', error)
+      return { success: false, error: { InternalError: error.message } }
+    }
+  }
+
+  async getVotingStats() {
+    try {
+      const stats = await this.actor.getVotingStats()
+      return { success: true, data: stats }
+    } catch (error) {
+      console.error('Failed to get voting stats:', error)
+      return { success: false, error: { InternalError: error.message } }
+    }
+  }
+
+  async canCreateProposal() {
+    try {
+      return await this.actor.canCreateProposal()
+    } catch (error) {
+      console.error('Failed to check proposal eligibility:', error)
+      return false
+    }
+  }
+
+  async getGovernanceTokenBalance(principal = null) {
+    try {
+      const userPrincipal = typeof principal === 'string' ? Principal.fromText(principal) : principal
+      const result = await this.actor.getGovernanceTokenBalance(userPrincipal ? [userPrincipal] : [])
+
+      if ('Ok' in result) {
+        return { success: true, data: result.Ok }
+      } else {
+        return { success: false, error: result.Err }
+      }
+    } catch (error) {
+      console.error('Failed to get governance token balance:', error)
+      return { success: false, error: { InternalError: error.message } }
+    }
+  }
+
+  async delegateVotes(delegateRequest) {
+    if (!this.isAuthenticated) throw new Error('Must be authenticated to delegate votes')
+
+    try {
+      const result = await this.actor.delegateVotes({
+        ...delegateRequest,
+        delegateTo: typeof delegateRequest.delegateTo === 'string'
+          ? Principal.fromText(delegateRequest.delegateTo)
+          : delegateRequest.delegateTo
+      })
+
+      if ('Ok' in result) {
+        return { success: true, data: result.Ok }
+      } else {
+        return { success: false, error: result.Err }
+      }
+    } catch (error) {
+      console.error('Vote delegation failed:', error)
+      return { success: false, error: { InternalError: error.message } }
+    }
+  }
+
+  async revokeDelegation() {
+    if (!this.isAuthenticated) throw new Error('Must be authenticated to revoke a delegation')
+
+    try {
+      const result = await this.actor.revokeDelegation()
+
+      if ('Ok' in result) {
+        return { success: true, data: result.Ok }
+      } else {
+        return { success: false, error: result.Err }
+      }
+    } catch (error) {
+      console.error('Failed to revoke delegation:', error)
+      return { success: false, error: { InternalError: error.message } }
+    }
+  }
+
+  async getDelegationGraph() {
+    try {
+      const graph = await this.actor.getDelegationGraph()
+      return { success: true, data: graph }
+    } catch (error) {
+      console.error('Failed to get delegation graph:', error)
+      return { success: false, error: { InternalError: error.message } }
+    }
+  }
+
+  // Incentive methods
+  async getTokenInfo() {
+    try {
+      const token = await this.actor.getTokenInfo()
+      return { success: true, data: token }
+    } catch (error) {
+      console.error('Failed to get token info:', error)
+      return { success: false, error: { InternalError: error.message } }
+    }
+  }
+
+  async getBalance() {
+    try {
+      const balance = await this.actor.getBalance()
+      return { success: true, data: balance }
+    } catch (error) {
+      console.error('Failed to get balance:', error)
+      return { success: false, error: { InternalError: error.message } }
+    }
+  }
+
+  async transfer(to, amount) {
+    if (!this.isAuthenticated) throw new Error('Must be authenticated to transfer tokens')
+
+    try {
+      const recipient = typeof to === 'string' ? Principal.fromText(to) : to
+      const result = await this.actor.transfer(recipient, BigInt(amount))
+
+      if ('Ok' in result) {
+        return { success: true, data: result.Ok }
+      } else {
+        return { success: false, error: result.Err }
       }
-    ]
+    } catch (error) {
+      console.error('Token transfer failed:', error)
+      return { success: false, error: { InternalError: error.message } }
+    }
+  }
 
-    // If a specific path is requested, filter and return relevant files
-    if (path) {
-      const filteredFiles = baseFiles.filter(file => 
-        file.path.startsWith(path) || file.path === path
-      )
-      return filteredFiles
+  async stakeTokens(amount, lockDays) {
+    if (!this.isAuthenticated) throw new Error('Must be authenticated to stake tokens')
+
+    try {
+      const result = await this.actor.stakeTokens(BigInt(amount), BigInt(lockDays))
+
+      if ('Ok' in result) {
+        return { success: true, data: result.Ok }
+      } else {
+        return { success: false, error: result.Err }
+      }
+    } catch (error) {
+      console.error('Staking failed:', error)
+      return { success: false, error: { InternalError: error.message } }
     }
+  }
 
-    return baseFiles
+  async claimStakingRewards() {
+    if (!this.isAuthenticated) throw new Error('Must be authenticated to claim rewards')
+
+    try {
+      const result = await this.actor.claimStakingRewards()
+
+      if ('Ok' in result) {
+        return { success: true, data: result.Ok }
+      } else {
+        return { success: false, error: result.Err }
+      }
+    } catch (error) {
+      console.error('Failed to claim staking rewards:', error)
+      return { success: false, error: { InternalError: error.message } }
+    }
   }
 
-  async search(searchRequest) {
+  async getStakePositions() {
     try {
-      const result = await this.actor.search(searchRequest)
-      
+      const positions = await this.actor.getStakePositions()
+      return { success: true, data: positions }
+    } catch (error) {
+      console.error('Failed to get stake positions:', error)
+      return { success: false, error: { InternalError: error.message } }
+    }
+  }
+
+  async getStakingAPY(lockDays) {
+    try {
+      const apy = await this.actor.getStakingAPY(BigInt(lockDays))
+      return { success: true, data: apy }
+    } catch (error) {
+      console.error('Failed to get staking APY:', error)
+      return { success: false, error: { InternalError: error.message } }
+    }
+  }
+
+  async createBounty(bountyRequest) {
+    if (!this.isAuthenticated) throw new Error('Must be authenticated to create bounties')
+
+    try {
+      const result = await this.actor.createBounty(
+        bountyRequest.repositoryId,
+        bountyRequest.title,
+        bountyRequest.description,
+        BigInt(bountyRequest.amount),
+        bountyRequest.requirements || [],
+        bountyRequest.difficulty,
+        bountyRequest.expiresInDays ? [BigInt(bountyRequest.expiresInDays)] : []
+      )
+
       if ('Ok' in result) {
         return { success: true, data: result.Ok }
       } else {
         return { success: false, error: result.Err }
       }
     } catch (error) {
-      console.error('Search failed:', error)
+      console.error('Bounty creation failed:', error)
       return { success: false, error: { InternalError: error.message } }
     }
   }
 
-  async searchSuggestions(query, maxSuggestions = null) {
+  async submitBounty(submission) {
+    if (!this.isAuthenticated) throw new Error('Must be authenticated to submit bounty work')
+
     try {
-      const result = await this.actor.searchSuggestions(query, maxSuggestions ? [maxSuggestions] : [])
-      
+      const result = await this.actor.submitBounty(
+        submission.bountyId,
+        submission.pullRequestId ? [submission.pullRequestId] : [],
+        submission.commitIds || [],
+        submission.description
+      )
+
       if ('Ok' in result) {
         return { success: true, data: result.Ok }
       } else {
         return { success: false, error: result.Err }
       }
     } catch (error) {
-      console.error('Search suggestions failed:', error)
+      console.error('Bounty submission failed:', error)
       return { success: false, error: { InternalError: error.message } }
     }
   }
 
-  async searchRepository(repositoryId, query, pagination = null) {
+  async listBounties(filters = {}) {
     try {
-      const result = await this.actor.searchRepository(repositoryId, query, pagination ? [pagination] : [])
-      
+      const bounties = await this.actor.listBounties(
+        filters.repositoryId ? [filters.repositoryId] : [],
+        filters.status ? [filters.status] : []
+      )
+      return { success: true, data: bounties }
+    } catch (error) {
+      console.error('Failed to list bounties:', error)
+      return { success: false, error: { InternalError: error.message } }
+    }
+  }
+
+  async getBounty(bountyId) {
+    try {
+      const result = await this.actor.getBounty(bountyId)
+
       if ('Ok' in result) {
         return { success: true, data: result.Ok }
       } else {
         return { success: false, error: result.Err }
       }
     } catch (error) {
-      console.error('Repository search failed:', error)
+      console.error('Failed to get bounty:', error)
+      return { success: false, error: { InternalError: error.message } }
+    }
+  }
+
+  async reviewBountySubmission(bountyId, submissionId, approve, notes = null) {
+    if (!this.isAuthenticated) throw new Error('Must be authenticated to review bounty submissions')
+
+    try {
+      const result = await this.actor.reviewBountySubmission(bountyId, submissionId, approve, notes ? [notes] : [])
+
+      if ('Ok' in result) {
+        return { success: true, data: result.Ok }
+      } else {
+        return { success: false, error: result.Err }
+      }
+    } catch (error) {
+      console.error('Bounty review failed:', error)
+      return { success: false, error: { InternalError: error.message } }
+    }
+  }
+
+  async getLeaderboard(options = {}) {
+    try {
+      const limit = options.limit ? [BigInt(options.limit)] : []
+      let entries
+      if (options.days) {
+        entries = await this.actor.getTimeframedLeaderboard(
+          options.repositoryId ? [options.repositoryId] : [],
+          BigInt(options.days),
+          limit
+        )
+      } else if (options.repositoryId) {
+        entries = await this.actor.getRepositoryLeaderboard(options.repositoryId, limit)
+      } else {
+        entries = await this.actor.getGlobalLeaderboard(limit)
+      }
+      return { success: true, data: entries }
+    } catch (error) {
+      console.error('Failed to get leaderboard:', error)
+      return { success: false, error: { InternalError: error.message } }
+    }
+  }
+
+  async getUserBadges(principal) {
+    try {
+      const user = typeof principal === 'string' ? Principal.fromText(principal) : principal
+      const badges = await this.actor.getUserBadges(user)
+      return { success: true, data: badges }
+    } catch (error) {
+      console.error('Failed to get user badges:', error)
+      return { success: false, error: { InternalError: error.message } }
+    }
+  }
+
+  async getContributionMetrics(principal) {
+    try {
+      const user = typeof principal === 'string' ? Principal.fromText(principal) : principal
+      const metrics = await this.actor.getContributionMetrics(user)
+      return { success: true, data: metrics }
+    } catch (error) {
+      console.error('Failed to get contribution metrics:', error)
       return { success: false, error: { InternalError: error.message } }
     }
   }
@@ -1102,10 +2501,15 @@ class ApiService {
     }
   }
 
-  async getRepositoryStats() {
+  async getRepositoryStats(repositoryId) {
     try {
-      const stats = await this.actor.getRepositoryStats()
-      return { success: true, data: stats }
+      const result = await this.actor.getRepositoryStats(repositoryId)
+
+      if ('Ok' in result) {
+        return { success: true, data: result.Ok }
+      } else {
+        return { success: false, error: result.Err }
+      }
     } catch (error) {
       console.error('Failed to get repository stats:', error)
       return { success: false, error: { InternalError: error.message } }
@@ -1122,21 +2526,6 @@ class ApiService {
     }
   }
 
-  async getRepositoryDetailsStats(repositoryId) {
-    try {
-      const result = await this.actor.getRepositoryDetailsStats(repositoryId)
-      
-      if ('Ok' in result) {
-        return { success: true, data: result.Ok }
-      } else {
-        return { success: false, error: result.Err }
-      }
-    } catch (error) {
-      console.error('Failed to get repository details stats:', error)
-      return { success: false, error: { InternalError: error.message } }
-    }
-  }
-
   async getFileTree(repositoryId, path = null) {
     try {
       if (!this.actor) {
@@ -1178,31 +2567,6 @@ class ApiService {
       };
     }
   }
-
-  async uploadFile(request) {
-    try {
-      if (!this.actor) {
-        await this.init();
-      }
-      
-      const result = await this.actor.uploadFile(
-        request.repositoryId,
-        request.path,
-        request.content,
-        request.commitMessage
-      );
-      
-      return {
-        success: result.Ok !== undefined,
-        data: result.Ok
-      };
-    } catch (error) {
-      return {
-        success: false,
-        error: error.message
-      };
-    }
-  }
 }
 
 // Create and export a singleton instance
@@ -0,0 +1,202 @@
+// src/services/collaboratorService.ts
+
+import { Principal } from '@dfinity/principal'
+import apiService, { type CollaboratorInfo, type CollaboratorPermission, type User } from './api.js'
+import type { CollaboratorRole, RepositoryCollaborator, UserSuggestion } from '../types/collaborator'
+
+const USER_SUGGESTION_LIMIT = 8
+
+class CollaboratorService {
+  private getErrorMessage(error: unknown): string {
+    if (error instanceof Error) {
+      return error.message
+    }
+    if (typeof error === 'string') {
+      return error
+    }
+    if (error && typeof error === 'object' && 'message' in error) {
+      return String((error as { message: unknown }).message)
+    }
+    return 'Unknown error occurred'
+  }
+
+  private async ensureActor(): Promise<void> {
+    if (!apiService.actor) {
+      await apiService.init()
+    }
+  }
+
+  // Candid optionals arrive as [] | [value]
+  private optionalText(value: unknown): string | undefined {
+    if (Array.isArray(value)) {
+      return typeof value[0] === 'string' ? value[0] : undefined
+    }
+    return typeof value === 'string' ? value : undefined
+  }
+
+  private toRole(permission: CollaboratorPermission): CollaboratorRole {
+    if ('Owner' in permission) return 'Owner'
+    if ('Admin' in permission) return 'Admin'
+    if ('Read' in permission) return 'Read'
+    // Deploy grants write access plus chain deployment
+    return 'Write'
+  }
+
+  private toPermission(role: CollaboratorRole): CollaboratorPermission {
+    return { [role]: null }
+  }
+
+  private transformUser(user: User): UserSuggestion {
+    return {
+      principal: user.principal.toString(),
+      username: user.username,
+      displayName: this.optionalText(user.profile.displayName),
+      avatar: this.optionalText(user.profile.avatar)
+    }
+  }
+
+  private transformCollaborator(info: CollaboratorInfo): RepositoryCollaborator {
+    return {
+      ...this.transformUser(info.user),
+      role: this.toRole(info.collaborator.permission),
+      addedAt: Number(info.addedAt) / 1000000, // Convert from nanoseconds
+      addedBy: info.addedBy.toString()
+    }
+  }
+
+  private parsePrincipal(text: string): Principal | null {
+    try {
+      return Principal.fromText(text)
+    } catch {
+      return null
+    }
+  }
+
+  /**
+   * List everyone with access to a repository, owner included
+   */
+  async listCollaborators(repositoryId: string): Promise<RepositoryCollaborator[]> {
+    try {
+      await this.ensureActor()
+
+      const result = await apiService.listCollaborators(repositoryId, true)
+
+      if (result.success && result.data) {
+        return result.data.collaborators.map(info => this.transformCollaborator(info))
+      }
+
+      throw new Error(apiService.getErrorMessage(result.error || 'Failed to list collaborators'))
+    } catch (error) {
+      console.error('List collaborators error:', this.getErrorMessage(error))
+      throw error
+    }
+  }
+
+  /**
+   * Grant a registered user access to a repository
+   */
+  async addCollaborator(
+    repositoryId: string,
+    username: string,
+    role: CollaboratorRole,
+    message?: string
+  ): Promise<RepositoryCollaborator> {
+    try {
+      await this.ensureActor()
+
+      const result = await apiService.addCollaborator({
+        repositoryId,
+        username,
+        permission: this.toPermission(role),
+        message
+      })
+
+      if (result.success && result.data) {
+        return this.transformCollaborator(result.data)
+      }
+
+      throw new Error(apiService.getErrorMessage(result.error || 'Failed to add collaborator'))
+    } catch (error) {
+      console.error('Add collaborator error:', this.getErrorMessage(error))
+      throw error
+    }
+  }
+
+  /**
+   * Change the permission level of an existing collaborator
+   */
+  async updatePermission(repositoryId: string, username: string, role: CollaboratorRole): Promise<RepositoryCollaborator> {
+    try {
+      await this.ensureActor()
+
+      const result = await apiService.updateCollaboratorPermission({
+        repositoryId,
+        username,
+        permission: this.toPermission(role)
+      })
+
+      if (result.success && result.data) {
+        return this.transformCollaborator(result.data)
+      }
+
+      throw new Error(apiService.getErrorMessage(result.error || 'Failed to update permission'))
+    } catch (error) {
+      console.error('Update collaborator permission error:', this.getErrorMessage(error))
+      throw error
+    }
+  }
+
+  /**
+   * Revoke a collaborator's access to a repository
+   */
+  async removeCollaborator(repositoryId: string, username: string): Promise<void> {
+    try {
+      await this.ensureActor()
+
+      const result = await apiService.removeCollaborator({ repositoryId, username })
+
+      if (!result.success) {
+        throw new Error(apiService.getErrorMessage(result.error || 'Failed to remove collaborator'))
+      }
+    } catch (error) {
+      console.error('Remove collaborator error:', this.getErrorMessage(error))
+      throw error
+    }
+  }
+
+  /**
+   * Find users to invite, by principal ID or by (partial) username
+   */
+  async findUsers(query: string): Promise<UserSuggestion[]> {
+    const trimmed = query.trim()
+    if (!trimmed) return []
+
+    try {
+      await this.ensureActor()
+
+      const principal = this.parsePrincipal(trimmed)
+      if (principal) {
+        const result = await apiService.getUser(principal)
+        return result.success && result.data ? [this.transformUser(result.data)] : []
+      }
+
+      const result = await apiService.search({
+        searchQuery: trimmed,
+        scope: { Users: null },
+        pagination: { page: 0, limit: USER_SUGGESTION_LIMIT }
+      })
+
+      if (result.success && result.data) {
+        return result.data.users.map(match => this.transformUser(match.user))
+      }
+
+      throw new Error(apiService.getErrorMessage(result.error || 'Failed to search users'))
+    } catch (error) {
+      console.error('Find users error:', this.getErrorMessage(error))
+      throw error
+    }
+  }
+}
+
+export const collaboratorService = new CollaboratorService()
+export default collaboratorService
@@ -0,0 +1,114 @@
+// src/services/exportService.ts
+
+import { fileService } from './fileService'
+import { gitService } from './gitService'
+import apiService from './api.js'
+import type { ArchiveFile } from '../types/import'
+import { createBundle, createZip, type BundleCommit } from '../utils/archiveWriter'
+
+export type ExportFormat = 'zip' | 'bundle'
+
+export interface ExportProgress {
+  completedFiles: number
+  totalFiles: number
+}
+
+// Files downloaded side by side
+const DOWNLOAD_BATCH_SIZE = 4
+const HISTORY_PAGE_SIZE = 100
+
+class ExportService {
+  private getErrorMessage(error: unknown): string {
+    if (error instanceof Error) {
+      return error.message
+    }
+    if (typeof error === 'string') {
+      return error
+    }
+    if (error && typeof error === 'object' && 'message' in error) {
+      return String((error as { message: unknown }).message)
+    }
+    return 'Unknown error occurred'
+  }
+
+  private async downloadFiles(
+    repositoryId: string,
+    onProgress?: (progress: ExportProgress) => void
+  ): Promise<ArchiveFile[]> {
+    // The listing carries no content, so each file is downloaded once, in chunks if it is large
+    const entries = await fileService.listAllFiles(repositoryId)
+    const files: ArchiveFile[] = []
+    onProgress?.({ completedFiles: 0, totalFiles: entries.length })
+
+    for (let i = 0; i < entries.length; i += DOWNLOAD_BATCH_SIZE) {
+      const batch = entries.slice(i, i + DOWNLOAD_BATCH_SIZE)
+      const contents = await Promise.all(batch.map(entry => fileService.getFileBytes(repositoryId, entry.path)))
+      batch.forEach((entry, index) => files.push({ path: entry.path, content: contents[index] }))
+      onProgress?.({ completedFiles: files.length, totalFiles: entries.length })
+    }
+
+    return files.sort((a, b) => a.path.localeCompare(b.path))
+  }
+
+  private async getHistory(repositoryId: string, branch: string): Promise<BundleCommit[]> {
+    const commits: BundleCommit[] = []
+    for (let offset = 0, hasMore = true; hasMore; offset += HISTORY_PAGE_SIZE) {
+      const page = await gitService.getCommitHistory(repositoryId, { branch, limit: HISTORY_PAGE_SIZE, offset })
+      commits.push(...page.commits.map(commit => ({
+        message: commit.message,
+        author: commit.author,
+        timestamp: commit.timestamp,
+        changedFiles: commit.changedFiles
+      })))
+      hasMore = page.hasMore && page.commits.length > 0
+    }
+    // History comes newest first; bundles are written oldest first
+    return commits.reverse()
+  }
+
+  /**
+   * Download every file in a repository and package it as a ZIP archive, or as a git bundle
+   * that also carries the default branch's commit history
+   */
+  async exportRepository(
+    repositoryId: string,
+    repositoryName: string,
+    format: ExportFormat,
+    onProgress?: (progress: ExportProgress) => void
+  ): Promise<Blob> {
+    try {
+      const files = await this.downloadFiles(repositoryId, onProgress)
+      if (format === 'zip') {
+        return await createZip(files, repositoryName)
+      }
+
+      const branches = await gitService.listBranches(repositoryId)
+      const branch = branches.find(b => b.isDefault)?.name ?? 'main'
+      return await createBundle({
+        files,
+        history: await this.getHistory(repositoryId, branch),
+        branch,
+        exportedBy: apiService.getPrincipal()?.toString() || 'anonymous'
+      })
+    } catch (error) {
+      console.error('Export repository error:', this.getErrorMessage(error))
+      throw error
+    }
+  }
+
+  /**
+   * Hand a finished export to the browser as a file download
+   */
+  saveExport(blob: Blob, repositoryName: string, format: ExportFormat): void {
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement('a')
+    link.href = url
+    link.download = `${repositoryName}.${format === 'zip' ? 'zip' : 'bundle'}`
+    link.click()
+    // Give the download a moment to start before releasing the blob
+    setTimeout(() => URL.revokeObjectURL(url), 1000)
+  }
+}
+
+export const exportService = new ExportService()
+export default exportService
@@ -1,12 +1,16 @@
 // src/services/fileService.ts
 
 import apiService from './api.js'
+import type { FileInfo as CanisterFileInfo } from './api.js'
+import { gitService } from './gitService'
 import type { 
   FileEntry, 
+  FileInfo,
   FileNode, 
   FileTreeResponse, 
   UploadFileRequest 
 } from '../types/repository'
+import type { GitBranch, GitCommit, GitFileChange } from '../types/git'
 
 // Define ApiService extensions for missing methods
 declare module './api.js' {
@@ -21,12 +25,70 @@ declare module './api.js' {
   }
 }
 
+export type FileUploadStage = 'hashing' | 'uploading' | 'finalizing' | 'done' | 'failed'
+
 export interface FileUploadProgress {
   loaded: number
   total: number
   percentage: number
+  stage: FileUploadStage
+  // Bytes the canister already had from an earlier, interrupted attempt
+  resumedBytes?: number
+  error?: string
+}
+
+// A file to upload and where it goes, relative to the folder it is uploaded into
+export interface UploadItem {
+  file: File
+  path: string
+}
+
+export interface BatchUploadFailure {
+  fileName: string
+  path: string
+  error: string
+}
+
+export interface BatchUploadResult {
+  // Set when every file was uploaded and committed
+  commit?: GitCommit
+  uploaded: string[]
+  failures: BatchUploadFailure[]
+}
+
+// An interrupted chunked upload, remembered so it can be resumed after a reload
+export interface PendingUpload {
+  uploadId: string
+  repositoryId: string
+  path: string
+  fileName: string
+  size: number
+  fileHash: string
+  updatedAt: number
 }
 
+const PENDING_UPLOAD_PREFIX = 'openkeyhub:upload:'
+// Same limit the canister enforces
+export const MAX_UPLOAD_SIZE = 10_000_000
+// Well under the 2 MiB ingress message limit; smaller files go up in a single call
+const CHUNK_SIZE = 1024 * 1024
+const MAX_CHUNK_ATTEMPTS = 3
+// Files sent side by side in a batch upload
+const UPLOAD_CONCURRENCY = 4
+const RETRY_DELAY_MS = 1000
+
+const toHex = (digest: ArrayBuffer) =>
+  Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('')
+
+const sha256Hex = async (data: BufferSource) => toHex(await crypto.subtle.digest('SHA-256', data))
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+const parentOf = (path: string) => path.slice(0, Math.max(path.lastIndexOf('/'), 0))
+
+// The path an entry under `from` ends up at once `from` itself becomes `to`
+const relocate = (path: string, from: string, to: string) => to + path.slice(from.length)
+
 class FileService {
   private getErrorMessage(error: unknown): string {
     if (error instanceof Error) {
@@ -52,8 +114,8 @@ class FileService {
 
       console.log('Fetching file tree for repository:', repositoryId, 'path:', path)
       
-      // Try to fetch from backend
-      const result = await apiService.listFiles(repositoryId, path)
+      // Try to fetch from backend; the tree only needs paths and sizes, not content
+      const result = await apiService.listFileInfo(repositoryId, path)
       
       if (result.success && result.data) {
         // Transform backend response to FileTreeResponse
@@ -105,7 +167,9 @@ class FileService {
   }
 
   /**
-   * Upload a file to a specific folder
+   * Upload a file to a specific folder. Files larger than one chunk are sent in hashed chunks
+   * that are retried individually, and an interrupted upload of the same file resumes from the
+   * chunks the canister already has.
    */
   async uploadFile(
       repositoryId: string, 
@@ -119,25 +183,34 @@ class FileService {
           await apiService.init()
         }
 
-        const arrayBuffer = await this.readFileAsArrayBuffer(file, onProgress);
-        const content = Array.from(new Uint8Array(arrayBuffer));
+        if (file.size > MAX_UPLOAD_SIZE) {
+          throw new Error(`${file.name} is larger than the 10 MB file limit`)
+        }
+
         const path = folderPath ? `${folderPath}/${file.name}` : file.name;
-        
-        const uploadRequest: UploadFileRequest = {
-          repositoryId,
-          path,
-          content,
-          commitMessage: commitMessage || `Upload ${file.name}`,
-          branch: 'main'
-        };
-
-        const result = await apiService.uploadFile(uploadRequest);
-        
-        if (result.success && result.data) {
-          return this.transformFileEntry(result.data);
+        const message = commitMessage || `Upload ${file.name}`;
+
+        if (file.size <= CHUNK_SIZE) {
+          return await this.withRetry(async () => {
+            onProgress?.({ loaded: 0, total: file.size, percentage: 0, stage: 'uploading' })
+            const uploadRequest: UploadFileRequest = {
+              repositoryId,
+              path,
+              content: new Uint8Array(await file.arrayBuffer()),
+              commitMessage: message,
+              branch: 'main'
+            };
+
+            const result = await apiService.uploadFile(uploadRequest);
+            if (result.success && result.data) {
+              onProgress?.({ loaded: file.size, total: file.size, percentage: 100, stage: 'done' })
+              return this.transformFileEntry(result.data);
+            }
+            throw new Error(apiService.getErrorMessage(result.error || 'Upload failed'));
+          })
         }
-        
-        throw new Error('Upload failed: ' + (result.error || 'Unknown error'));
+
+        return await this.uploadInChunks(repositoryId, file, path, message, onProgress)
       } catch (error) {
         console.error('Upload file error:', error);
         throw error;
@@ -145,38 +218,123 @@ class FileService {
   }
 
   /**
-   * Upload multiple files with proper typing
+   * Interrupted chunked uploads to a repository; selecting the same file again resumes them
+   */
+  getPendingUploads(repositoryId: string): PendingUpload[] {
+    const uploads: PendingUpload[] = []
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i)
+      if (!key?.startsWith(`${PENDING_UPLOAD_PREFIX}${repositoryId}:`)) continue
+      try {
+        uploads.push(JSON.parse(localStorage.getItem(key) || '') as PendingUpload)
+      } catch {
+        localStorage.removeItem(key)
+      }
+    }
+    return uploads.sort((a, b) => b.updatedAt - a.updatedAt)
+  }
+
+  /**
+   * Give up on an interrupted upload and free the chunks the canister is holding for it
+   */
+  async discardPendingUpload(upload: PendingUpload): Promise<void> {
+    localStorage.removeItem(this.pendingUploadKey(upload.repositoryId, upload.path))
+    try {
+      if (!apiService.actor) {
+        await apiService.init()
+      }
+      await apiService.abortChunkedUpload(upload.uploadId)
+    } catch (error) {
+      console.error('Discard upload error:', this.getErrorMessage(error))
+    }
+  }
+
+  /**
+   * Upload several files side by side and record them as a single commit. Items keep their
+   * relative paths, so a whole folder tree can go up at once; folders it needs are created first.
+   * Progress is reported by relative path. Nothing is committed unless every file arrives; the
+   * result names the files that failed, and uploading them again reuses the chunks of the ones
+   * that made it.
    */
   async uploadMultipleFiles(
     repositoryId: string,
-    files: FileList | File[],
+    files: FileList | File[] | UploadItem[],
     folderPath?: string,
-    onProgress?: (fileName: string, progress: FileUploadProgress) => void
-  ): Promise<FileEntry[]> {
-    const uploadedFiles: FileEntry[] = []
-    const fileArray = Array.from(files)
+    onProgress?: (path: string, progress: FileUploadProgress) => void,
+    commitMessage?: string
+  ): Promise<BatchUploadResult> {
+    const items = Array.from<File | UploadItem>(files).map(item =>
+      item instanceof File ? { file: item, path: item.webkitRelativePath || item.name } : item
+    )
+    const pathOf = (item: UploadItem) => folderPath ? `${folderPath}/${item.path}` : item.path
+    const message = commitMessage || (items.length === 1 ? `Upload ${items[0].path}` : `Upload ${items.length} files`)
+    const uploadIds = new Map<UploadItem, string>()
+    const failures: BatchUploadFailure[] = []
+
+    const fail = (item: UploadItem, error: unknown) => {
+      const failure = { fileName: item.file.name, path: pathOf(item), error: this.getErrorMessage(error) }
+      failures.push(failure)
+      onProgress?.(item.path, { loaded: 0, total: item.file.size, percentage: 0, stage: 'failed', error: failure.error })
+    }
 
-    for (const file of fileArray) {
-      try {
-        const uploaded = await this.uploadFile(
-          repositoryId,
-          file,
-          folderPath,
-          `Upload ${file.name}`,
-          (progress: FileUploadProgress) => {
-            if (onProgress) {
-              onProgress(file.name, progress)
-            }
+    try {
+      if (!apiService.actor) {
+        await apiService.init()
+      }
+
+      const oversized = items.filter(item => item.file.size > MAX_UPLOAD_SIZE)
+      oversized.forEach(item => fail(item, `${item.path} is larger than the 10 MB file limit`))
+
+      await this.ensureFolders(repositoryId, items.map(item => parentOf(pathOf(item))))
+
+      // A fixed number of workers pull from one queue so that at most UPLOAD_CONCURRENCY
+      // files are in flight at a time
+      const queue = items.filter(item => !oversized.includes(item))
+      const worker = async () => {
+        for (let item = queue.shift(); item; item = queue.shift()) {
+          const current = item
+          try {
+            const uploadId = await this.stageUpload(repositoryId, current.file, pathOf(current), message, progress =>
+              onProgress?.(current.path, progress)
+            )
+            uploadIds.set(current, uploadId)
+          } catch (error) {
+            console.error(`Failed to upload ${current.path}:`, error)
+            fail(current, error)
           }
-        )
-        uploadedFiles.push(uploaded)
-      } catch (error) {
-        console.error(`Failed to upload ${file.name}:`, error)
-        // Continue with other files even if one fails
+        }
       }
-    }
+      await Promise.all(Array.from({ length: Math.min(UPLOAD_CONCURRENCY, queue.length) }, worker))
 
-    return uploadedFiles
+      if (failures.length > 0) {
+        return { uploaded: [], failures }
+      }
+
+      items.forEach(item => onProgress?.(item.path, {
+        loaded: item.file.size,
+        total: item.file.size,
+        percentage: 100,
+        stage: 'finalizing'
+      }))
+      const branch = await this.getDefaultBranch(repositoryId)
+      const commit = await gitService.commitUploads(repositoryId, {
+        branch: branch?.name ?? 'main',
+        message,
+        uploadIds: items.map(item => uploadIds.get(item)!),
+        parentCommit: branch?.commitId || undefined
+      })
+
+      items.forEach(item => {
+        localStorage.removeItem(this.pendingUploadKey(repositoryId, pathOf(item)))
+        onProgress?.(item.path, { loaded: item.file.size, total: item.file.size, percentage: 100, stage: 'done' })
+      })
+      return { commit, uploaded: items.map(pathOf), failures }
+    } catch (error) {
+      console.error('Batch upload error:', this.getErrorMessage(error))
+      // The commit is all or nothing, so every file that was waiting on it failed with it
+      items.filter(item => !failures.some(failure => failure.path === pathOf(item))).forEach(item => fail(item, error))
+      return { uploaded: [], failures }
+    }
   }
 
   /**
@@ -205,15 +363,146 @@ class FileService {
   }
 
   /**
-   * Delete a folder and all its contents
+   * Delete a folder and everything in it as a single commit
+   */
+  async deleteFolder(repositoryId: string, folderPath: string, commitMessage?: string): Promise<GitCommit> {
+    return this.deleteItem(repositoryId, folderPath, commitMessage)
+  }
+
+  /**
+   * Delete a file, or a folder with everything in it, as a single commit
+   */
+  async deleteItem(repositoryId: string, path: string, commitMessage?: string): Promise<GitCommit> {
+    try {
+      const entries = await this.listEntriesUnder(repositoryId, path)
+      if (entries.length === 0) {
+        throw new Error(`${path} was not found`)
+      }
+
+      return await this.commitToDefaultBranch(
+        repositoryId,
+        commitMessage || `Delete ${path}`,
+        entries.map(entry => ({ path: entry.path, action: { type: 'Delete' } }))
+      )
+    } catch (error) {
+      console.error('Delete item error:', this.getErrorMessage(error))
+      throw error
+    }
+  }
+
+  /**
+   * Move or rename a file or folder as a single commit. Every entry under a folder is renamed
+   * along with it, and missing folders above the destination are created first.
    */
-  async deleteFolder(repositoryId: string, folderPath: string): Promise<boolean> {
+  async moveItem(repositoryId: string, from: string, to: string, commitMessage?: string): Promise<GitCommit> {
     try {
-      // For now, just use deleteFile since backend might not have deleteFolder
-      return await this.deleteFile(repositoryId, folderPath)
+      const entries = await this.prepareRelocation(repositoryId, from, to)
+      const message = commitMessage ||
+        (parentOf(from) === parentOf(to) ? `Rename ${from} to ${to.split('/').pop()}` : `Move ${from} to ${to}`)
+
+      return await this.commitToDefaultBranch(
+        repositoryId,
+        message,
+        entries.map(entry => {
+          const destination = relocate(entry.path, from, to)
+          return { path: destination, action: { type: 'Rename', from: entry.path, to: destination } }
+        })
+      )
     } catch (error) {
-      console.error('Delete folder error:', this.getErrorMessage(error))
-      return false
+      console.error('Move item error:', this.getErrorMessage(error))
+      throw error
+    }
+  }
+
+  /**
+   * Copy a file or folder to a new path as a single commit
+   */
+  async copyItem(repositoryId: string, from: string, to: string, commitMessage?: string): Promise<GitCommit> {
+    try {
+      const entries = await this.prepareRelocation(repositoryId, from, to)
+
+      // Folders aren't part of a commit, so the copied ones are created on their own
+      await this.ensureFolders(
+        repositoryId,
+        entries.filter(entry => entry.isFolder).map(entry => relocate(entry.path, from, to))
+      )
+
+      // Only a copy needs the content, and only of files
+      const files = entries.filter(entry => !entry.isFolder)
+      const contents = await Promise.all(files.map(entry => this.getFileBytes(repositoryId, entry.path)))
+
+      return await this.commitToDefaultBranch(
+        repositoryId,
+        commitMessage || `Copy ${from} to ${to}`,
+        files.map((entry, index) => ({
+          path: relocate(entry.path, from, to),
+          content: contents[index],
+          action: { type: 'Add' }
+        }))
+      )
+    } catch (error) {
+      console.error('Copy item error:', this.getErrorMessage(error))
+      throw error
+    }
+  }
+
+  /**
+   * List every file in a repository without its content; unlike getFileTree this never falls
+   * back to mock data. Fetch content with getFileBytes.
+   */
+  async listAllFiles(repositoryId: string): Promise<FileInfo[]> {
+    try {
+      const entries = await this.listFileInfo(repositoryId)
+      return entries.filter(entry => !entry.isFolder)
+    } catch (error) {
+      console.error('List files error:', this.getErrorMessage(error))
+      throw error
+    }
+  }
+
+  /**
+   * List the files and folders under a path without their content
+   */
+  async listFileInfo(repositoryId: string, path?: string): Promise<FileInfo[]> {
+    if (!apiService.actor) {
+      await apiService.init()
+    }
+
+    const result = await apiService.listFileInfo(repositoryId, path)
+    if (!result.success || !result.data) {
+      throw new Error(apiService.getErrorMessage(result.error || 'Failed to list files'))
+    }
+    return result.data.files.map(entry => this.transformFileInfo(entry))
+  }
+
+  /**
+   * Download a file's raw bytes, for binary-safe exports. The content is read one chunk at a
+   * time, so files too large for a single reply come back whole.
+   */
+  async getFileBytes(repositoryId: string, filePath: string): Promise<Uint8Array<ArrayBuffer>> {
+    try {
+      if (!apiService.actor) {
+        await apiService.init()
+      }
+
+      const readChunk = async (offset: number) => {
+        const result = await apiService.getFileChunk(repositoryId, filePath, offset, CHUNK_SIZE)
+        if (result.success && result.data) return result.data
+        throw new Error(apiService.getErrorMessage(result.error || `Failed to download ${filePath}`))
+      }
+
+      const first = await readChunk(0)
+      const bytes = new Uint8Array(Number(first.totalSize))
+      bytes.set(first.data)
+      for (let offset = first.data.length; offset < bytes.length;) {
+        const chunk = await readChunk(offset)
+        bytes.set(chunk.data, offset)
+        offset += chunk.data.length
+      }
+      return bytes
+    } catch (error) {
+      console.error('Get file bytes error:', this.getErrorMessage(error))
+      throw error
     }
   }
 
@@ -227,26 +516,9 @@ class FileService {
       }
 
       console.log('Fetching file content:', { repositoryId, filePath })
-      
-      const result = await apiService.getFile(repositoryId, filePath)
-      
-      if (result.success && result.data) {
-        const fileEntry = result.data
-        
-        // Convert content based on type
-        if (typeof fileEntry.content === 'string') {
-          return fileEntry.content
-        } else if (Array.isArray(fileEntry.content)) {
-          // Convert number array to string
-          const uint8Array = new Uint8Array(fileEntry.content)
-          return new TextDecoder().decode(uint8Array)
-        } else {
-          return 'File content cannot be displayed'
-        }
-      } else {
-        // Return mock content
-        return `// File: ${filePath}\n// This is mock content for development\n\nconsole.log('Hello from ${filePath}');`
-      }
+
+      // Read in chunks, so large files display too
+      return new TextDecoder().decode(await this.getFileBytes(repositoryId, filePath))
     } catch (error) {
       console.error('Get file content error:', this.getErrorMessage(error))
       // Return mock content
@@ -256,37 +528,200 @@ class FileService {
 
   // Helper methods
 
-  private readFileAsArrayBuffer(
-    file: File, 
-    onProgress?: (progress: FileUploadProgress) => void
-  ): Promise<ArrayBuffer> {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader()
-      
-      reader.onload = () => {
-        if (reader.result instanceof ArrayBuffer) {
-          resolve(reader.result)
-        } else {
-          reject(new Error('Failed to read file'))
-        }
-      }
-      
-      reader.onerror = () => {
-        reject(new Error('Failed to read file'))
+  private pendingUploadKey(repositoryId: string, path: string): string {
+    return `${PENDING_UPLOAD_PREFIX}${repositoryId}:${path}`
+  }
+
+  /**
+   * Create the given folders, and any above them, that the repository doesn't have yet,
+   * parents before children. Commits only write files, so their folders are made this way.
+   */
+  async ensureFolders(repositoryId: string, folderPaths: string[]): Promise<void> {
+    const needed = new Set<string>()
+    for (const folderPath of folderPaths.filter(Boolean)) {
+      const segments = folderPath.split('/')
+      segments.forEach((_, i) => needed.add(segments.slice(0, i + 1).join('/')))
+    }
+    if (needed.size === 0) return
+
+    const entries = await this.listFileInfo(repositoryId)
+    const existing = new Set(entries.filter(entry => entry.isFolder).map(entry => entry.path))
+
+    const missing = [...needed].filter(folder => !existing.has(folder))
+    missing.sort((a, b) => a.split('/').length - b.split('/').length)
+    for (const folder of missing) {
+      const separator = folder.lastIndexOf('/')
+      await this.createFolder(repositoryId, folder.slice(0, Math.max(separator, 0)), folder.slice(separator + 1))
+    }
+  }
+
+  // The entry at `path` and, for a folder, every entry below it, without their content
+  private async listEntriesUnder(repositoryId: string, path: string): Promise<FileInfo[]> {
+    const entries = await this.listFileInfo(repositoryId, path)
+    return entries.filter(entry => entry.path === path || entry.path.startsWith(`${path}/`))
+  }
+
+  // Check a move or copy can go ahead, create the folders above its destination, and return
+  // the entries it covers
+  private async prepareRelocation(repositoryId: string, from: string, to: string): Promise<FileInfo[]> {
+    if (!to || to === from) {
+      throw new Error('Choose a different destination')
+    }
+    if (to.startsWith(`${from}/`)) {
+      throw new Error(`${from} cannot be placed inside itself`)
+    }
+
+    const [entries, existing] = await Promise.all([
+      this.listEntriesUnder(repositoryId, from),
+      this.listEntriesUnder(repositoryId, to)
+    ])
+    if (entries.length === 0) {
+      throw new Error(`${from} was not found`)
+    }
+    if (existing.length > 0) {
+      throw new Error(`${to} already exists`)
+    }
+
+    await this.ensureFolders(repositoryId, [parentOf(to)])
+    return entries
+  }
+
+  private async commitToDefaultBranch(
+    repositoryId: string,
+    message: string,
+    files: GitFileChange[]
+  ): Promise<GitCommit> {
+    const branch = await this.getDefaultBranch(repositoryId)
+    return gitService.commit(repositoryId, {
+      branch: branch?.name ?? 'main',
+      message,
+      files,
+      parentCommit: branch?.commitId || undefined
+    })
+  }
+
+  private async getDefaultBranch(repositoryId: string): Promise<GitBranch | undefined> {
+    const branches = await gitService.listBranches(repositoryId)
+    return branches.find(b => b.isDefault) ?? branches.find(b => b.name === 'main')
+  }
+
+  private async withRetry<T>(operation: () => Promise<T>): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await operation()
+      } catch (error) {
+        if (attempt >= MAX_CHUNK_ATTEMPTS) throw error
+        console.warn(`Upload attempt ${attempt} failed, retrying:`, this.getErrorMessage(error))
+        await delay(RETRY_DELAY_MS * 2 ** (attempt - 1))
       }
-      
-      reader.onprogress = (event) => {
-        if (event.lengthComputable && onProgress) {
-          onProgress({
-            loaded: event.loaded,
-            total: event.total,
-            percentage: Math.round((event.loaded / event.total) * 100)
-          })
+    }
+  }
+
+  /**
+   * Send a file's chunks without writing it yet, resuming from any the canister already has.
+   * The returned upload id is then committed with gitService.commitUploads.
+   */
+  async stageUpload(
+    repositoryId: string,
+    file: File,
+    path: string,
+    commitMessage: string,
+    onProgress?: (progress: FileUploadProgress) => void
+  ): Promise<string> {
+    const report = (loaded: number, stage: FileUploadStage, resumedBytes?: number) => onProgress?.({
+      loaded,
+      total: file.size,
+      percentage: file.size > 0 ? Math.round((loaded / file.size) * 100) : 100,
+      stage,
+      resumedBytes
+    })
+
+    report(0, 'hashing')
+    const fileHash = await sha256Hex(await file.arrayBuffer())
+    const key = this.pendingUploadKey(repositoryId, path)
+
+    // A different file was left half-uploaded to this path; its chunks are no use now
+    const previous = this.getPendingUploads(repositoryId).find(upload => upload.path === path)
+    if (previous && previous.fileHash !== fileHash) {
+      await this.discardPendingUpload(previous)
+    }
+
+    const begun = await this.withRetry(async () => {
+      const result = await apiService.beginChunkedUpload({
+        repositoryId,
+        path,
+        totalSize: file.size,
+        chunkSize: CHUNK_SIZE,
+        fileHash,
+        commitMessage,
+        branch: 'main'
+      })
+      if (result.success && result.data) return result.data
+      throw new Error(apiService.getErrorMessage(result.error || 'Failed to start upload'))
+    })
+
+    const pending: PendingUpload = {
+      uploadId: begun.uploadId,
+      repositoryId,
+      path,
+      fileName: file.name,
+      size: file.size,
+      fileHash,
+      updatedAt: Date.now()
+    }
+    localStorage.setItem(key, JSON.stringify(pending))
+
+    const received = new Set(begun.receivedChunks.map(Number))
+    const resumedBytes = Number(begun.receivedBytes)
+    let loaded = resumedBytes
+    report(loaded, 'uploading', resumedBytes)
+
+    for (let index = 0; index < Number(begun.chunkCount); index++) {
+      if (received.has(index)) continue
+
+      const chunk = new Uint8Array(await file.slice(index * CHUNK_SIZE, (index + 1) * CHUNK_SIZE).arrayBuffer())
+      const chunkHash = await sha256Hex(chunk)
+      await this.withRetry(async () => {
+        const result = await apiService.uploadChunk(begun.uploadId, index, chunk, chunkHash)
+        if (!result.success) {
+          throw new Error(apiService.getErrorMessage(result.error || `Failed to upload chunk ${index + 1}`))
         }
-      }
-      
-      reader.readAsArrayBuffer(file)
+      })
+
+      loaded += chunk.length
+      localStorage.setItem(key, JSON.stringify({ ...pending, updatedAt: Date.now() }))
+      report(loaded, 'uploading', resumedBytes)
+    }
+
+    return begun.uploadId
+  }
+
+  private async uploadInChunks(
+    repositoryId: string,
+    file: File,
+    path: string,
+    commitMessage: string,
+    onProgress?: (progress: FileUploadProgress) => void
+  ): Promise<FileEntry> {
+    let resumedBytes: number | undefined
+    const uploadId = await this.stageUpload(repositoryId, file, path, commitMessage, progress => {
+      resumedBytes = progress.resumedBytes
+      onProgress?.(progress)
+    })
+
+    const report = (stage: FileUploadStage) =>
+      onProgress?.({ loaded: file.size, total: file.size, percentage: 100, stage, resumedBytes })
+
+    report('finalizing')
+    const entry = await this.withRetry(async () => {
+      const result = await apiService.completeChunkedUpload(uploadId)
+      if (result.success && result.data) return this.transformFileEntry(result.data)
+      throw new Error(apiService.getErrorMessage(result.error || 'Failed to finish upload'))
     })
+
+    localStorage.removeItem(this.pendingUploadKey(repositoryId, path))
+    report('done')
+    return entry
   }
 
   private transformFileEntry(entry: any): FileEntry {
@@ -306,6 +741,20 @@ class FileService {
     }
   }
 
+  private transformFileInfo(entry: CanisterFileInfo): FileInfo {
+    return {
+      path: entry.path,
+      name: entry.path.split('/').pop() || '',
+      size: Number(entry.size),
+      hash: entry.hash,
+      version: Number(entry.version),
+      lastModified: Number(entry.lastModified) / 1000000, // Convert from nanoseconds
+      author: entry.author.toString(),
+      commitMessage: entry.commitMessage[0],
+      isFolder: entry.isFolder
+    }
+  }
+
   private transformToFileTree(data: any, repositoryId: string): FileTreeResponse {
     // Transform backend response to file tree structure
     const files = data.files || []
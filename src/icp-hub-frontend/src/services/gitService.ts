@@ -0,0 +1,419 @@
+// src/services/gitService.ts
+
+import apiService, {
+  type Branch,
+  type Commit,
+  type DiffResult,
+  type FileAction as CandidFileAction,
+  type MergeConflict as CandidMergeConflict
+} from './api.js'
+import type {
+  GitBranch,
+  GitCommit,
+  CommitHistory,
+  CommitHistoryOptions,
+  FileAction,
+  FileDiff,
+  BranchComparison,
+  MergeRequestInput,
+  MergeConflict,
+  MergeResult,
+  GitFileChange,
+  CommitInput
+} from '../types/git'
+
+class GitService {
+  private getErrorMessage(error: unknown): string {
+    if (error instanceof Error) {
+      return error.message
+    }
+    if (typeof error === 'string') {
+      return error
+    }
+    if (error && typeof error === 'object' && 'message' in error) {
+      return String((error as { message: unknown }).message)
+    }
+    return 'Unknown error occurred'
+  }
+
+  private async ensureActor(): Promise<void> {
+    if (!apiService.actor) {
+      await apiService.init()
+    }
+  }
+
+  private transformBranch(branch: Branch): GitBranch {
+    return {
+      name: branch.name,
+      commitId: branch.commitId,
+      isDefault: branch.isDefault,
+      createdAt: Number(branch.createdAt) / 1000000, // Convert from nanoseconds
+      createdBy: branch.createdBy.toString()
+    }
+  }
+
+  private transformCommit(commit: Commit): GitCommit {
+    return {
+      id: commit.id,
+      message: commit.message,
+      author: commit.author.toString(),
+      timestamp: Number(commit.timestamp) / 1000000, // Convert from nanoseconds
+      parentCommits: commit.parentCommits,
+      changedFiles: commit.changedFiles,
+      hash: commit.hash
+    }
+  }
+
+  private transformFileAction(action: CandidFileAction): FileAction {
+    if ('Add' in action) return { type: 'Add' }
+    if ('Delete' in action) return { type: 'Delete' }
+    if ('Rename' in action) return { type: 'Rename', from: action.Rename.from, to: action.Rename.to }
+    return { type: 'Modify' }
+  }
+
+  private toCandidFileAction(action: FileAction): CandidFileAction {
+    switch (action.type) {
+      case 'Add': return { Add: null }
+      case 'Delete': return { Delete: null }
+      case 'Rename': return { Rename: { from: action.from, to: action.to } }
+      default: return { Modify: null }
+    }
+  }
+
+  private encodeContent(file: GitFileChange): number[] | null {
+    if (file.content === undefined || file.action.type === 'Delete') {
+      return null
+    }
+    const bytes = typeof file.content === 'string' ? new TextEncoder().encode(file.content) : file.content
+    return Array.from(bytes)
+  }
+
+  private decodeContent(content: [] | [Uint8Array | number[]]): { text?: string; isBinary: boolean } {
+    if (content.length === 0) {
+      return { isBinary: false }
+    }
+
+    const bytes = new Uint8Array(content[0])
+    // Treat anything with a NUL byte as binary, like git does
+    if (bytes.includes(0)) {
+      return { isBinary: true }
+    }
+
+    return { text: new TextDecoder().decode(bytes), isBinary: false }
+  }
+
+  private transformDiff(diff: DiffResult): FileDiff {
+    const oldContent = this.decodeContent(diff.oldContent)
+    const newContent = this.decodeContent(diff.newContent)
+
+    return {
+      path: diff.path,
+      action: this.transformFileAction(diff.action),
+      oldContent: oldContent.text,
+      newContent: newContent.text,
+      isBinary: oldContent.isBinary || newContent.isBinary,
+      additions: Number(diff.additions),
+      deletions: Number(diff.deletions)
+    }
+  }
+
+  private transformConflict(conflict: CandidMergeConflict): MergeConflict {
+    const base = this.decodeContent(conflict.baseContent)
+    const source = this.decodeContent(conflict.sourceContent)
+    const target = this.decodeContent(conflict.targetContent)
+
+    return {
+      path: conflict.path,
+      baseContent: base.text,
+      sourceContent: source.text,
+      targetContent: target.text,
+      isBinary: base.isBinary || source.isBinary || target.isBinary
+    }
+  }
+
+  /**
+   * List all branches of a repository
+   */
+  async listBranches(repositoryId: string): Promise<GitBranch[]> {
+    try {
+      await this.ensureActor()
+
+      const result = await apiService.listBranches(repositoryId)
+
+      if (result.success && result.data) {
+        return result.data.map(branch => this.transformBranch(branch))
+      }
+
+      throw new Error(apiService.getErrorMessage(result.error || 'Failed to list branches'))
+    } catch (error) {
+      console.error('List branches error:', this.getErrorMessage(error))
+      throw error
+    }
+  }
+
+  /**
+   * Get the branch the repository is currently checked out on
+   */
+  async getCurrentBranch(repositoryId: string): Promise<GitBranch> {
+    try {
+      await this.ensureActor()
+
+      const result = await apiService.getCurrentBranch(repositoryId)
+
+      if (result.success && result.data) {
+        return this.transformBranch(result.data)
+      }
+
+      throw new Error(apiService.getErrorMessage(result.error || 'Failed to get current branch'))
+    } catch (error) {
+      console.error('Get current branch error:', this.getErrorMessage(error))
+      throw error
+    }
+  }
+
+  /**
+   * Create a new branch from an existing one
+   */
+  async createBranch(repositoryId: string, branchName: string, fromBranch: string): Promise<GitBranch> {
+    try {
+      await this.ensureActor()
+
+      const result = await apiService.createBranch({
+        repositoryId,
+        branchName,
+        fromBranch
+      })
+
+      if (result.success && result.data) {
+        return this.transformBranch(result.data)
+      }
+
+      throw new Error(apiService.getErrorMessage(result.error || 'Failed to create branch'))
+    } catch (error) {
+      console.error('Create branch error:', this.getErrorMessage(error))
+      throw error
+    }
+  }
+
+  /**
+   * Delete a branch
+   */
+  async deleteBranch(repositoryId: string, branchName: string): Promise<void> {
+    try {
+      await this.ensureActor()
+
+      const result = await apiService.deleteBranch(repositoryId, branchName)
+
+      if (!result.success) {
+        throw new Error(apiService.getErrorMessage(result.error || 'Failed to delete branch'))
+      }
+    } catch (error) {
+      console.error('Delete branch error:', this.getErrorMessage(error))
+      throw error
+    }
+  }
+
+  /**
+   * Make the given branch the repository's current branch
+   */
+  async switchBranch(repositoryId: string, branchName: string): Promise<void> {
+    try {
+      await this.ensureActor()
+
+      const result = await apiService.switchBranch(repositoryId, branchName)
+
+      if (!result.success) {
+        throw new Error(apiService.getErrorMessage(result.error || 'Failed to switch branch'))
+      }
+    } catch (error) {
+      console.error('Switch branch error:', this.getErrorMessage(error))
+      throw error
+    }
+  }
+
+  /**
+   * Get a page of commit history, newest first
+   */
+  async getCommitHistory(repositoryId: string, options: CommitHistoryOptions = {}): Promise<CommitHistory> {
+    try {
+      await this.ensureActor()
+
+      const result = await apiService.getCommitHistory(
+        repositoryId,
+        options.branch ?? null,
+        options.limit ?? null,
+        options.offset ?? null
+      )
+
+      if (result.success && result.data) {
+        return {
+          commits: result.data.commits.map(commit => this.transformCommit(commit)),
+          totalCount: Number(result.data.totalCount),
+          hasMore: result.data.hasMore
+        }
+      }
+
+      throw new Error(apiService.getErrorMessage(result.error || 'Failed to get commit history'))
+    } catch (error) {
+      console.error('Get commit history error:', this.getErrorMessage(error))
+      throw error
+    }
+  }
+
+  /**
+   * Find a single commit by its id or hash, on any branch
+   */
+  async getCommit(repositoryId: string, commitId: string): Promise<GitCommit> {
+    try {
+      const limit = 100
+      for (let offset = 0; ; offset += limit) {
+        const history = await this.getCommitHistory(repositoryId, { limit, offset })
+        const commit = history.commits.find(c => c.id === commitId || c.hash === commitId)
+        if (commit) return commit
+        if (!history.hasMore || history.commits.length === 0) break
+      }
+
+      throw new Error('Commit not found')
+    } catch (error) {
+      console.error('Get commit error:', this.getErrorMessage(error))
+      throw error
+    }
+  }
+
+  /**
+   * Get the per-file changes introduced by a commit
+   */
+  async getCommitDiff(repositoryId: string, commitId: string): Promise<FileDiff[]> {
+    try {
+      await this.ensureActor()
+
+      const result = await apiService.getCommitDiff(repositoryId, commitId)
+
+      if (result.success && result.data) {
+        return result.data.map(diff => this.transformDiff(diff))
+      }
+
+      throw new Error(apiService.getErrorMessage(result.error || 'Failed to get commit diff'))
+    } catch (error) {
+      console.error('Get commit diff error:', this.getErrorMessage(error))
+      throw error
+    }
+  }
+
+  /**
+   * Create a commit on a branch with the given file changes
+   */
+  async commit(repositoryId: string, input: CommitInput): Promise<GitCommit> {
+    try {
+      await this.ensureActor()
+
+      const result = await apiService.commit({
+        repositoryId,
+        branch: input.branch,
+        message: input.message,
+        files: input.files.map(file => ({
+          path: file.path,
+          content: this.encodeContent(file),
+          action: this.toCandidFileAction(file.action)
+        })),
+        parentCommit: input.parentCommit ?? null,
+        mergeParent: input.mergeParent ?? null
+      })
+
+      if (result.success && result.data) {
+        return this.transformCommit(result.data)
+      }
+
+      throw new Error(apiService.getErrorMessage(result.error || 'Failed to create commit'))
+    } catch (error) {
+      console.error('Commit error:', this.getErrorMessage(error))
+      throw error
+    }
+  }
+
+  /**
+   * Commit files already staged through chunked uploads, all in one commit
+   */
+  async commitUploads(
+    repositoryId: string,
+    input: { branch: string; message: string; uploadIds: string[]; parentCommit?: string }
+  ): Promise<GitCommit> {
+    try {
+      await this.ensureActor()
+
+      const result = await apiService.commitUploads({
+        repositoryId,
+        branch: input.branch,
+        message: input.message,
+        uploadIds: input.uploadIds,
+        parentCommit: input.parentCommit ?? null
+      })
+
+      if (result.success && result.data) {
+        return this.transformCommit(result.data)
+      }
+
+      throw new Error(apiService.getErrorMessage(result.error || 'Failed to commit uploads'))
+    } catch (error) {
+      console.error('Commit uploads error:', this.getErrorMessage(error))
+      throw error
+    }
+  }
+
+  /**
+   * Compare two branches; commits are those on compareBranch missing from baseBranch
+   */
+  async compareBranches(repositoryId: string, baseBranch: string, compareBranch: string): Promise<BranchComparison> {
+    try {
+      await this.ensureActor()
+
+      const result = await apiService.compareBranches(repositoryId, baseBranch, compareBranch)
+
+      if (result.success && result.data) {
+        return {
+          ahead: Number(result.data.ahead),
+          behind: Number(result.data.behind),
+          commits: result.data.commits.map(commit => this.transformCommit(commit))
+        }
+      }
+
+      throw new Error(apiService.getErrorMessage(result.error || 'Failed to compare branches'))
+    } catch (error) {
+      console.error('Compare branches error:', this.getErrorMessage(error))
+      throw error
+    }
+  }
+
+  /**
+   * Merge the source branch into the target branch
+   */
+  async mergeBranches(repositoryId: string, request: MergeRequestInput): Promise<MergeResult> {
+    try {
+      await this.ensureActor()
+
+      const result = await apiService.mergeBranches({
+        repositoryId,
+        sourceBranch: request.sourceBranch,
+        targetBranch: request.targetBranch,
+        title: request.title,
+        description: request.description
+      })
+
+      if (result.success && result.data) {
+        return {
+          success: result.data.success,
+          commitId: result.data.commitId[0],
+          conflicts: result.data.conflicts.map(conflict => this.transformConflict(conflict))
+        }
+      }
+
+      throw new Error(apiService.getErrorMessage(result.error || 'Failed to merge branches'))
+    } catch (error) {
+      console.error('Merge branches error:', this.getErrorMessage(error))
+      throw error
+    }
+  }
+}
+
+export const gitService = new GitService()
+export default gitService
@@ -1,8 +1,23 @@
 // Governance Service for ICP Hub backend integration
 // This service handles all governance and DAO-related operations
 
-// @ts-ignore
-import apiService from './api.js'
+import { Principal } from '@dfinity/principal'
+import apiService, {
+  type CollaboratorPermission,
+  type DelegationScope as BackendDelegationScope,
+  type DiscussionPost as BackendDiscussionPost,
+  type GovernanceConfig as BackendGovernanceConfig,
+  type Proposal as BackendProposal,
+  type ProposalStatus as BackendProposalStatus,
+  type ProposalType as BackendProposalType,
+  type RepositorySettings as BackendRepositorySettings,
+  type Vote as BackendVote,
+  type VoteRecord as BackendVoteRecord
+} from './api.js'
+import { repositoryService } from './repositoryService'
+import devConfig from '../config/dev-config'
+import type { RepositorySettings } from '../types/repository'
+import type { CollaboratorRole } from '../types/collaborator'
 
 // Governance types matching backend
 export interface ProposalId {
@@ -28,7 +43,8 @@ export type ProposalStatus =
 
 export interface RepositoryUpdateProposal {
   repositoryId: string
-  newSettings: any // RepositorySettings type
+  // Omitted settings keep the repository's current values
+  newSettings: Partial<RepositorySettings>
 }
 
 export interface PlatformUpgradeProposal {
@@ -50,13 +66,13 @@ export interface GovernanceConfigProposal {
 export interface CollaboratorPromotionProposal {
   repositoryId: string
   collaborator: string
-  newPermission: string
+  newPermission: CollaboratorRole
 }
 
 export interface CustomProposal {
   title: string
   description: string
-  executionData?: any
+  executionData?: Uint8Array | number[]
 }
 
 export type ProposalType = 
@@ -136,6 +152,12 @@ export interface GovernanceToken {
   reputationScore: number
 }
 
+export interface GovernanceTokenBalance {
+  balance: number
+  staked: number
+  votingPower: number
+}
+
 export interface CreateProposalRequest {
   proposalType: ProposalType
   title: string
@@ -150,9 +172,34 @@ export interface CastVoteRequest {
   reason?: string
 }
 
+// Which proposals a delegate may vote on with the delegator's power
+export type DelegationScope =
+  | { type: 'All' }
+  | { type: 'Repository'; repositoryId: string }
+  | { type: 'ProposalType'; proposalType: ProposalType['type'] }
+
 export interface DelegateVoteRequest {
   delegateTo: string
-  scope: 'All' | 'Repository' | 'ProposalType'
+  scope: DelegationScope
+}
+
+export interface Delegation {
+  delegator: string
+  delegate: string
+  scope: DelegationScope
+  votingPower: number
+}
+
+export interface DelegateSummary {
+  delegate: string
+  ownVotingPower: number
+  delegatedVotingPower: number
+  delegatorCount: number
+}
+
+export interface DelegationGraph {
+  delegations: Delegation[]
+  delegates: DelegateSummary[]
 }
 
 export interface ProposalListRequest {
@@ -162,7 +209,6 @@ export interface ProposalListRequest {
   pagination?: {
     page?: number
     limit?: number
-    offset?: number
   }
 }
 
@@ -178,208 +224,751 @@ export interface AddDiscussionPostRequest {
   parentId?: number
 }
 
+const NANOS_PER_MILLISECOND = 1000000
+
+// Mirrors getDefaultConfig() in the governance canister, which does not expose its config
+const DEFAULT_GOVERNANCE_CONFIG: GovernanceConfig = {
+  votingPeriod: 7 * 24 * 60 * 60 * 1000,
+  executionDelay: 2 * 24 * 60 * 60 * 1000,
+  proposalDeposit: 100,
+  quorumPercentage: 10.0,
+  approvalThreshold: 60.0,
+  maxProposalsPerUser: 3,
+  minVotingPower: 10,
+  allowDelegation: true
+}
+
 class GovernanceService {
-  // @ts-ignore
-  private baseUrl = '/governance'
+  private getErrorMessage(error: unknown): string {
+    if (error instanceof Error) {
+      return error.message
+    }
+    if (typeof error === 'string') {
+      return error
+    }
+    if (error && typeof error === 'object' && 'message' in error) {
+      return String((error as { message: unknown }).message)
+    }
+    return 'Unknown error occurred'
+  }
+
+  private async ensureActor(): Promise<void> {
+    if (!apiService.actor) {
+      await apiService.init()
+    }
+  }
+
+  // Mock governance data is only served in dev builds when no canister is reachable
+  private async useMockData(): Promise<boolean> {
+    if (!import.meta.env.DEV || !devConfig.ENABLE_MOCK_GOVERNANCE) {
+      return false
+    }
+    await this.ensureActor()
+    return !apiService.isBackendAvailable
+  }
+
+  private unsupported(operation: string): never {
+    throw new Error(`${operation} is not supported by the governance canister yet`)
+  }
+
+  private toMillis(nanoseconds: bigint): number {
+    return Number(nanoseconds) / NANOS_PER_MILLISECOND
+  }
+
+  private toNanos(milliseconds: number): bigint {
+    return BigInt(Math.round(milliseconds)) * BigInt(NANOS_PER_MILLISECOND)
+  }
 
-  // Get all proposals with optional filters
-  async getProposals(_filters: ProposalListRequest = {}): Promise<ProposalListResponse> {
+  private optional<T>(value: [] | [T]): T | undefined {
+    return value.length > 0 ? value[0] : undefined
+  }
+
+  private parsePrincipal(text: string, field: string): Principal {
     try {
-      // TODO: Implement governance methods in backend
-      console.log('Using mock governance data - backend integration pending')
-      return this.getMockProposals()
+      return Principal.fromText(text.trim())
+    } catch {
+      throw new Error(`${field} must be a valid principal ID`)
+    }
+  }
+
+  private transformStatus(status: BackendProposalStatus): ProposalStatus {
+    return Object.keys(status)[0] as ProposalStatus
+  }
+
+  private toBackendStatus(status: ProposalStatus): BackendProposalStatus {
+    return { [status]: null } as BackendProposalStatus
+  }
+
+  private transformVote(vote: BackendVote): Vote {
+    return Object.keys(vote)[0] as Vote
+  }
+
+  private toBackendVote(vote: Vote): BackendVote {
+    return { [vote]: null } as BackendVote
+  }
+
+  private toRole(permission: CollaboratorPermission): CollaboratorRole {
+    if ('Owner' in permission) return 'Owner'
+    if ('Admin' in permission) return 'Admin'
+    if ('Read' in permission) return 'Read'
+    return 'Write'
+  }
+
+  private transformConfig(config: BackendGovernanceConfig): GovernanceConfig {
+    return {
+      votingPeriod: this.toMillis(config.votingPeriod),
+      executionDelay: this.toMillis(config.executionDelay),
+      proposalDeposit: Number(config.proposalDeposit),
+      quorumPercentage: config.quorumPercentage,
+      approvalThreshold: config.approvalThreshold,
+      maxProposalsPerUser: Number(config.maxProposalsPerUser),
+      minVotingPower: Number(config.minVotingPower),
+      allowDelegation: config.allowDelegation
+    }
+  }
+
+  private toBackendConfig(config: GovernanceConfig): BackendGovernanceConfig {
+    return {
+      votingPeriod: this.toNanos(config.votingPeriod),
+      executionDelay: this.toNanos(config.executionDelay),
+      proposalDeposit: BigInt(config.proposalDeposit),
+      quorumPercentage: config.quorumPercentage,
+      approvalThreshold: config.approvalThreshold,
+      maxProposalsPerUser: BigInt(config.maxProposalsPerUser),
+      minVotingPower: BigInt(config.minVotingPower),
+      allowDelegation: config.allowDelegation
+    }
+  }
+
+  private toBackendSettings(settings: RepositorySettings): BackendRepositorySettings {
+    return {
+      defaultBranch: settings.defaultBranch,
+      allowForking: settings.allowForking,
+      allowIssues: settings.allowIssues,
+      allowWiki: settings.allowWiki,
+      allowProjects: settings.allowProjects,
+      visibility: settings.visibility === 'private'
+        ? { Private: null }
+        : settings.visibility === 'internal'
+          ? { Internal: null }
+          : { Public: null },
+      license: settings.license ? [settings.license] : [],
+      topics: settings.topics
+    }
+  }
+
+  private transformProposalType(proposalType: BackendProposalType): ProposalType {
+    if ('RepositoryUpdate' in proposalType) {
+      const { repositoryId, newSettings } = proposalType.RepositoryUpdate
+      return {
+        type: 'RepositoryUpdate',
+        data: {
+          repositoryId,
+          newSettings: {
+            defaultBranch: newSettings.defaultBranch,
+            allowForking: newSettings.allowForking,
+            allowIssues: newSettings.allowIssues,
+            allowWiki: newSettings.allowWiki,
+            allowProjects: newSettings.allowProjects,
+            visibility: 'Private' in newSettings.visibility
+              ? 'private'
+              : 'Internal' in newSettings.visibility ? 'internal' : 'public',
+            license: this.optional(newSettings.license),
+            topics: newSettings.topics
+          }
+        }
+      }
+    }
+    if ('PlatformUpgrade' in proposalType) {
+      const { version, description, canisterId } = proposalType.PlatformUpgrade
+      return {
+        type: 'PlatformUpgrade',
+        data: { version, description, canisterId: this.optional(canisterId)?.toString() }
+      }
+    }
+    if ('TreasurySpend' in proposalType) {
+      const { amount, recipient, purpose } = proposalType.TreasurySpend
+      return {
+        type: 'TreasurySpend',
+        data: { amount: Number(amount), recipient: recipient.toString(), purpose }
+      }
+    }
+    if ('GovernanceConfig' in proposalType) {
+      return {
+        type: 'GovernanceConfig',
+        data: { newConfig: this.transformConfig(proposalType.GovernanceConfig.newConfig) }
+      }
+    }
+    if ('CollaboratorPromotion' in proposalType) {
+      const { repositoryId, collaborator, newPermission } = proposalType.CollaboratorPromotion
+      return {
+        type: 'CollaboratorPromotion',
+        data: { repositoryId, collaborator: collaborator.toString(), newPermission: this.toRole(newPermission) }
+      }
+    }
+
+    const { title, description, executionData } = proposalType.CustomProposal
+    return {
+      type: 'CustomProposal',
+      data: { title, description, executionData: this.optional(executionData) }
+    }
+  }
+
+  private async toBackendProposalType(proposalType: ProposalType): Promise<BackendProposalType> {
+    switch (proposalType.type) {
+      case 'RepositoryUpdate': {
+        // The canister replaces settings wholesale, so fill the gaps from the current repository
+        const { repositoryId, newSettings } = proposalType.data
+        const repository = await repositoryService.getRepository(repositoryId)
+        const current: RepositorySettings = repository.settings || {
+          defaultBranch: 'main',
+          allowForking: true,
+          allowIssues: true,
+          allowWiki: false,
+          allowProjects: false,
+          visibility: repository.visibility || 'public',
+          license: repository.license,
+          topics: []
+        }
+        return {
+          RepositoryUpdate: {
+            repositoryId,
+            newSettings: this.toBackendSettings({ ...current, ...newSettings })
+          }
+        }
+      }
+      case 'PlatformUpgrade': {
+        const { version, description, canisterId } = proposalType.data
+        return {
+          PlatformUpgrade: {
+            version,
+            description,
+            canisterId: canisterId ? [this.parsePrincipal(canisterId, 'Canister ID')] : []
+          }
+        }
+      }
+      case 'TreasurySpend': {
+        const { amount, recipient, purpose } = proposalType.data
+        return {
+          TreasurySpend: {
+            amount: BigInt(Math.floor(amount)),
+            recipient: this.parsePrincipal(recipient, 'Recipient'),
+            purpose
+          }
+        }
+      }
+      case 'GovernanceConfig':
+        return { GovernanceConfig: { newConfig: this.toBackendConfig(proposalType.data.newConfig) } }
+      case 'CollaboratorPromotion': {
+        const { repositoryId, collaborator, newPermission } = proposalType.data
+        return {
+          CollaboratorPromotion: {
+            repositoryId,
+            collaborator: this.parsePrincipal(collaborator, 'Collaborator'),
+            newPermission: { [newPermission]: null }
+          }
+        }
+      }
+      case 'CustomProposal': {
+        const { title, description, executionData } = proposalType.data
+        return {
+          CustomProposal: {
+            title,
+            description,
+            executionData: executionData ? [executionData] : []
+          }
+        }
+      }
+    }
+  }
+
+  private transformDelegationScope(scope: BackendDelegationScope): DelegationScope {
+    if ('Repository' in scope) {
+      return { type: 'Repository', repositoryId: scope.Repository }
+    }
+    if ('ProposalType' in scope) {
+      return { type: 'ProposalType', proposalType: scope.ProposalType as ProposalType['type'] }
+    }
+    return { type: 'All' }
+  }
+
+  private toBackendDelegationScope(scope: DelegationScope): BackendDelegationScope {
+    switch (scope.type) {
+      case 'All':
+        return { All: null }
+      case 'Repository':
+        return { Repository: scope.repositoryId }
+      case 'ProposalType':
+        return { ProposalType: scope.proposalType }
+    }
+  }
+
+  private transformVoteRecord(record: BackendVoteRecord): VoteRecord {
+    return {
+      voter: record.voter.toString(),
+      vote: this.transformVote(record.vote),
+      votingPower: Number(record.votingPower),
+      timestamp: this.toMillis(record.timestamp),
+      reason: this.optional(record.reason)
+    }
+  }
+
+  private transformDiscussionPost(post: BackendDiscussionPost): DiscussionPost {
+    const parentId = this.optional(post.parentId)
+    return {
+      id: Number(post.id),
+      author: post.author.toString(),
+      content: post.content,
+      timestamp: this.toMillis(post.timestamp),
+      parentId: parentId !== undefined ? Number(parentId) : undefined,
+      reactions: post.reactions.map(([emoji, users]) => ({
+        emoji,
+        users: users.map(user => user.toString())
+      }))
+    }
+  }
+
+  private transformProposal(proposal: BackendProposal): Proposal {
+    const executedAt = this.optional(proposal.executedAt)
+    return {
+      id: Number(proposal.id),
+      proposer: proposal.proposer.toString(),
+      proposalType: this.transformProposalType(proposal.proposalType),
+      title: proposal.title,
+      description: proposal.description,
+      createdAt: this.toMillis(proposal.createdAt),
+      votingStartsAt: this.toMillis(proposal.votingStartsAt),
+      votingEndsAt: this.toMillis(proposal.votingEndsAt),
+      executionDelay: this.toMillis(proposal.executionDelay),
+      status: this.transformStatus(proposal.status),
+      votes: proposal.votes.map(record => this.transformVoteRecord(record)),
+      totalYesVotes: Number(proposal.totalYesVotes),
+      totalNoVotes: Number(proposal.totalNoVotes),
+      totalAbstainVotes: Number(proposal.totalAbstainVotes),
+      quorumRequired: Number(proposal.quorumRequired),
+      approvalThreshold: proposal.approvalThreshold,
+      executedAt: executedAt !== undefined ? this.toMillis(executedAt) : undefined,
+      executedBy: this.optional(proposal.executedBy)?.toString(),
+      discussionThread: proposal.discussionThread.map(post => this.transformDiscussionPost(post))
+    }
+  }
+
+  /**
+   * List proposals, newest first, optionally filtered by status, proposer and type
+   */
+  async getProposals(filters: ProposalListRequest = {}): Promise<ProposalListResponse> {
+    try {
+      if (await this.useMockData()) {
+        return this.getMockProposals(filters)
+      }
+
+      const result = await apiService.listProposals({
+        status: filters.status ? this.toBackendStatus(filters.status) : undefined,
+        proposer: filters.proposer,
+        proposalType: filters.proposalType,
+        pagination: filters.pagination
+          ? { page: filters.pagination.page ?? 0, limit: filters.pagination.limit ?? 20 }
+          : undefined
+      })
+
+      if (!result.success || !result.data) {
+        throw new Error(apiService.getErrorMessage(result.error || 'Failed to list proposals'))
+      }
+
+      // The canister accepts a proposalType filter but does not apply it yet
+      const proposals = result.data.proposals
+        .map(proposal => this.transformProposal(proposal))
+        .filter(proposal => !filters.proposalType || proposal.proposalType.type === filters.proposalType)
+
+      return {
+        proposals,
+        totalCount: filters.proposalType ? proposals.length : Number(result.data.totalCount),
+        hasMore: result.data.hasMore
+      }
     } catch (error) {
-      console.error('Error fetching proposals:', error)
-      return this.getMockProposals()
+      console.error('Get proposals error:', this.getErrorMessage(error))
+      throw error
     }
   }
 
-  // Get a specific proposal by ID
+  /**
+   * Get a single proposal with its votes and discussion thread
+   */
   async getProposal(id: number): Promise<Proposal> {
     try {
-      // TODO: Implement in backend
-      const mockProposals = this.getMockProposals()
-      const proposal = mockProposals.proposals.find(p => p.id === id)
-      if (!proposal) {
-        throw new Error(`Proposal with id ${id} not found`)
+      if (await this.useMockData()) {
+        const proposal = this.getMockProposals().proposals.find(p => p.id === id)
+        if (!proposal) {
+          throw new Error(`Proposal with id ${id} not found`)
+        }
+        return proposal
+      }
+
+      const result = await apiService.getProposal(id)
+
+      if (result.success && result.data) {
+        return this.transformProposal(result.data)
       }
-      return proposal
+
+      throw new Error(apiService.getErrorMessage(result.error || `Proposal with id ${id} not found`))
     } catch (error) {
-      console.error('Error fetching proposal:', error)
+      console.error('Get proposal error:', this.getErrorMessage(error))
       throw error
     }
   }
 
-  // Create a new proposal
+  /**
+   * Submit a new proposal; durations are in milliseconds
+   */
   async createProposal(proposalData: CreateProposalRequest): Promise<Proposal> {
     try {
-      // TODO: Implement in backend
-      console.log('Creating mock proposal:', proposalData)
-      
-      // Create mock proposal
-      const newProposal: Proposal = {
-        id: Date.now(),
-        proposer: 'current-user.icp',
-        proposalType: proposalData.proposalType,
+      if (await this.useMockData()) {
+        return {
+          id: Date.now(),
+          proposer: 'current-user.icp',
+          proposalType: proposalData.proposalType,
+          title: proposalData.title,
+          description: proposalData.description,
+          createdAt: Date.now(),
+          votingStartsAt: Date.now(),
+          votingEndsAt: Date.now() + (proposalData.votingDuration || DEFAULT_GOVERNANCE_CONFIG.votingPeriod),
+          executionDelay: proposalData.executionDelay || DEFAULT_GOVERNANCE_CONFIG.executionDelay,
+          status: 'Active',
+          votes: [],
+          totalYesVotes: 0,
+          totalNoVotes: 0,
+          totalAbstainVotes: 0,
+          quorumRequired: 5000,
+          approvalThreshold: DEFAULT_GOVERNANCE_CONFIG.approvalThreshold,
+          discussionThread: []
+        }
+      }
+
+      const result = await apiService.createProposal({
+        proposalType: await this.toBackendProposalType(proposalData.proposalType),
         title: proposalData.title,
         description: proposalData.description,
-        createdAt: Date.now(),
-        votingStartsAt: Date.now() + (24 * 60 * 60 * 1000), // 1 day from now
-        votingEndsAt: Date.now() + (8 * 24 * 60 * 60 * 1000), // 8 days from now
-        executionDelay: proposalData.executionDelay || (2 * 24 * 60 * 60 * 1000),
-        status: 'Draft',
-        votes: [],
-        totalYesVotes: 0,
-        totalNoVotes: 0,
-        totalAbstainVotes: 0,
-        quorumRequired: 5000,
-        approvalThreshold: 60.0,
-        discussionThread: []
+        votingDuration: proposalData.votingDuration ? this.toNanos(proposalData.votingDuration) : undefined,
+        executionDelay: proposalData.executionDelay ? this.toNanos(proposalData.executionDelay) : undefined
+      })
+
+      if (result.success && result.data) {
+        return this.transformProposal(result.data)
       }
-      
-      return newProposal
+
+      throw new Error(apiService.getErrorMessage(result.error || 'Failed to create proposal'))
     } catch (error) {
-      console.error('Error creating proposal:', error)
+      console.error('Create proposal error:', this.getErrorMessage(error))
       throw error
     }
   }
 
-  // Cast a vote on a proposal
+  /**
+   * Cast the caller's vote on an active proposal
+   */
   async castVote(voteData: CastVoteRequest): Promise<void> {
     try {
-      // TODO: Implement in backend
-      console.log('Casting mock vote:', voteData)
+      if (await this.useMockData()) {
+        console.log('Casting mock vote:', voteData)
+        return
+      }
+
+      const result = await apiService.castVote({
+        proposalId: voteData.proposalId,
+        vote: this.toBackendVote(voteData.vote),
+        reason: voteData.reason
+      })
+
+      if (!result.success) {
+        throw new Error(apiService.getErrorMessage(result.error || 'Failed to cast vote'))
+      }
     } catch (error) {
-      console.error('Error casting vote:', error)
+      console.error('Cast vote error:', this.getErrorMessage(error))
       throw error
     }
   }
 
-  // Execute a passed proposal
+  /**
+   * Execute a passed proposal once its execution delay has elapsed
+   */
   async executeProposal(proposalId: number): Promise<void> {
     try {
-      // TODO: Implement in backend
-      console.log('Executing mock proposal:', proposalId)
+      if (await this.useMockData()) {
+        console.log('Executing mock proposal:', proposalId)
+        return
+      }
+
+      const result = await apiService.executeProposal(proposalId)
+
+      if (!result.success) {
+        throw new Error(apiService.getErrorMessage(result.error || 'Failed to execute proposal'))
+      }
     } catch (error) {
-      console.error('Error executing proposal:', error)
+      console.error('Execute proposal error:', this.getErrorMessage(error))
       throw error
     }
   }
 
-  // Cancel a proposal
+  /**
+   * Cancel a proposal (not yet exposed by the canister)
+   */
   async cancelProposal(proposalId: number): Promise<void> {
-    try {
-      // TODO: Implement in backend
+    if (await this.useMockData()) {
       console.log('Cancelling mock proposal:', proposalId)
+      return
+    }
+    this.unsupported('Cancelling proposals')
+  }
+
+  /**
+   * Get the DAO's voting configuration
+   */
+  async getGovernanceConfig(): Promise<GovernanceConfig> {
+    return { ...DEFAULT_GOVERNANCE_CONFIG }
+  }
+
+  /**
+   * Get token supply and participation statistics for the DAO
+   */
+  async getVotingStats(): Promise<VotingStats> {
+    try {
+      if (await this.useMockData()) {
+        return {
+          totalSupply: 1000000,
+          circulatingSupply: 750000,
+          totalStaked: 500000,
+          activeVoters: 1250,
+          participationRate: 75.5
+        }
+      }
+
+      const result = await apiService.getVotingStats()
+
+      if (result.success && result.data) {
+        return {
+          totalSupply: Number(result.data.totalSupply),
+          circulatingSupply: Number(result.data.circulatingSupply),
+          totalStaked: Number(result.data.totalStaked),
+          activeVoters: Number(result.data.activeVoters),
+          participationRate: result.data.participationRate
+        }
+      }
+
+      throw new Error(apiService.getErrorMessage(result.error || 'Failed to get voting stats'))
     } catch (error) {
-      console.error('Error cancelling proposal:', error)
+      console.error('Get voting stats error:', this.getErrorMessage(error))
       throw error
     }
   }
 
-  // Get governance configuration
-  async getGovernanceConfig(): Promise<GovernanceConfig> {
+  /**
+   * Get governance token balance and voting power; defaults to the caller
+   */
+  async getTokenBalance(principal?: string): Promise<GovernanceTokenBalance> {
     try {
-      // TODO: Implement in backend
-      return {
-        votingPeriod: 7 * 24 * 60 * 60 * 1000, // 7 days in milliseconds
-        executionDelay: 2 * 24 * 60 * 60 * 1000, // 2 days
-        proposalDeposit: 100,
-        quorumPercentage: 10.0,
-        approvalThreshold: 60.0,
-        maxProposalsPerUser: 5,
-        minVotingPower: 100,
-        allowDelegation: true
+      if (await this.useMockData()) {
+        return { balance: 10000, staked: 5000, votingPower: 15000 }
+      }
+
+      const result = await apiService.getGovernanceTokenBalance(principal)
+
+      if (result.success && result.data) {
+        return {
+          balance: Number(result.data.balance),
+          staked: Number(result.data.staked),
+          votingPower: Number(result.data.votingPower)
+        }
       }
+
+      throw new Error(apiService.getErrorMessage(result.error || 'Failed to get token balance'))
     } catch (error) {
-      console.error('Error fetching governance config:', error)
+      console.error('Get token balance error:', this.getErrorMessage(error))
       throw error
     }
   }
 
-  // Get voting statistics
-  async getVotingStats(): Promise<VotingStats> {
+  /**
+   * Whether the caller is registered and holds enough voting power to propose
+   */
+  async canCreateProposal(): Promise<boolean> {
+    if (await this.useMockData()) {
+      return true
+    }
+    return apiService.canCreateProposal()
+  }
+
+  /**
+   * Delegate the caller's voting power, replacing any existing delegation
+   */
+  async delegateVote(delegationData: DelegateVoteRequest): Promise<void> {
     try {
-      // TODO: Implement in backend
-      return {
-        totalSupply: 1000000,
-        circulatingSupply: 750000,
-        totalStaked: 500000,
-        activeVoters: 1250,
-        participationRate: 75.5
+      if (await this.useMockData()) {
+        console.log('Delegating mock vote:', delegationData)
+        return
+      }
+
+      if (delegationData.scope.type === 'Repository' && !delegationData.scope.repositoryId.trim()) {
+        throw new Error('Choose a repository for a repository-scoped delegation')
+      }
+
+      const result = await apiService.delegateVotes({
+        delegateTo: this.parsePrincipal(delegationData.delegateTo, 'Delegate'),
+        scope: this.toBackendDelegationScope(delegationData.scope)
+      })
+
+      if (!result.success) {
+        throw new Error(apiService.getErrorMessage(result.error || 'Failed to delegate votes'))
       }
     } catch (error) {
-      console.error('Error fetching voting stats:', error)
+      console.error('Delegate vote error:', this.getErrorMessage(error))
       throw error
     }
   }
 
-  // Get user's governance token info
-  async getUserTokenInfo(userId: string): Promise<GovernanceToken> {
+  /**
+   * Take back the caller's delegated voting power
+   */
+  async revokeDelegation(): Promise<void> {
     try {
-      // TODO: Implement in backend
-      console.log('Getting mock user token info for:', userId)
-      return {
-        balance: 10000,
-        staked: 5000,
-        delegatedFrom: [],
-        lastActivityAt: Date.now(),
-        reputationScore: 85
+      if (await this.useMockData()) {
+        console.log('Revoking mock delegation')
+        return
+      }
+
+      const result = await apiService.revokeDelegation()
+
+      if (!result.success) {
+        throw new Error(apiService.getErrorMessage(result.error || 'Failed to revoke delegation'))
       }
     } catch (error) {
-      console.error('Error fetching user token info:', error)
+      console.error('Revoke delegation error:', this.getErrorMessage(error))
       throw error
     }
   }
 
-  // Delegate voting power
-  async delegateVote(delegationData: DelegateVoteRequest): Promise<void> {
+  /**
+   * Get every active delegation and the voting power each delegate carries
+   */
+  async getDelegationGraph(): Promise<DelegationGraph> {
     try {
-      // TODO: Implement in backend
-      console.log('Delegating mock vote:', delegationData)
+      if (await this.useMockData()) {
+        return this.getMockDelegationGraph()
+      }
+
+      const result = await apiService.getDelegationGraph()
+
+      if (result.success && result.data) {
+        return {
+          delegations: result.data.delegations.map(delegation => ({
+            delegator: delegation.delegator.toString(),
+            delegate: delegation.delegate.toString(),
+            scope: this.transformDelegationScope(delegation.scope),
+            votingPower: Number(delegation.votingPower)
+          })),
+          delegates: result.data.delegates.map(summary => ({
+            delegate: summary.delegate.toString(),
+            ownVotingPower: Number(summary.ownVotingPower),
+            delegatedVotingPower: Number(summary.delegatedVotingPower),
+            delegatorCount: Number(summary.delegatorCount)
+          }))
+        }
+      }
+
+      throw new Error(apiService.getErrorMessage(result.error || 'Failed to get delegation graph'))
     } catch (error) {
-      console.error('Error delegating vote:', error)
+      console.error('Get delegation graph error:', this.getErrorMessage(error))
       throw error
     }
   }
 
-  // Add discussion post to a proposal
+  /**
+   * Post a comment, or a reply when parentId is set, on a proposal
+   */
   async addDiscussionPost(postData: AddDiscussionPostRequest): Promise<DiscussionPost> {
     try {
-      // TODO: Implement in backend
-      console.log('Adding mock discussion post:', postData)
-      
-      const newPost: DiscussionPost = {
-        id: Date.now(),
-        author: 'current-user.icp',
-        content: postData.content,
-        timestamp: Date.now(),
-        parentId: postData.parentId,
-        reactions: []
-      }
-      
-      return newPost
+      if (await this.useMockData()) {
+        return {
+          id: Date.now(),
+          author: 'current-user.icp',
+          content: postData.content,
+          timestamp: Date.now(),
+          parentId: postData.parentId,
+          reactions: []
+        }
+      }
+
+      const result = await apiService.addDiscussionPost(postData)
+
+      if (result.success && result.data) {
+        return this.transformDiscussionPost(result.data)
+      }
+
+      throw new Error(apiService.getErrorMessage(result.error || 'Failed to add discussion post'))
     } catch (error) {
-      console.error('Error adding discussion post:', error)
+      console.error('Add discussion post error:', this.getErrorMessage(error))
       throw error
     }
   }
 
-  // Get discussion posts for a proposal
-  async getDiscussionPosts(proposalId: number): Promise<DiscussionPost[]> {
+  /**
+   * Add the caller's emoji reaction to a discussion post, or remove it if already present
+   */
+  async toggleReaction(proposalId: number, postId: number, emoji: string): Promise<DiscussionPost> {
     try {
-      // TODO: Implement in backend
-      console.log('Getting mock discussion posts for proposal:', proposalId)
-      return []
+      if (await this.useMockData()) {
+        const post = this.getMockProposals().proposals
+          .find(p => p.id === proposalId)?.discussionThread
+          .find(p => p.id === postId)
+        if (!post) {
+          throw new Error('Discussion post not found')
+        }
+        const reaction = post.reactions.find(r => r.emoji === emoji)
+        return {
+          ...post,
+          reactions: reaction
+            ? post.reactions.map(r => r === reaction ? { emoji, users: [...r.users, 'current-user.icp'] } : r)
+            : [...post.reactions, { emoji, users: ['current-user.icp'] }]
+        }
+      }
+
+      const result = await apiService.toggleDiscussionReaction({ proposalId, postId, emoji })
+
+      if (result.success && result.data) {
+        return this.transformDiscussionPost(result.data)
+      }
+
+      throw new Error(apiService.getErrorMessage(result.error || 'Failed to update reaction'))
     } catch (error) {
-      console.error('Error fetching discussion posts:', error)
-      return []
+      console.error('Toggle reaction error:', this.getErrorMessage(error))
+      throw error
     }
   }
 
+  /**
+   * Get the discussion thread of a proposal
+   */
+  async getDiscussionPosts(proposalId: number): Promise<DiscussionPost[]> {
+    const proposal = await this.getProposal(proposalId)
+    return proposal.discussionThread
+  }
 
   // Mock data for development
-  private getMockProposals(): ProposalListResponse {
+  private getMockDelegationGraph(): DelegationGraph {
+    const delegations: Delegation[] = [
+      { delegator: 'bob.icp', delegate: 'alice.icp', scope: { type: 'All' }, votingPower: 3000 },
+      { delegator: 'eve.icp', delegate: 'alice.icp', scope: { type: 'ProposalType', proposalType: 'TreasurySpend' }, votingPower: 1500 },
+      { delegator: 'frank.icp', delegate: 'diana.icp', scope: { type: 'Repository', repositoryId: 'cross-chain-defi' }, votingPower: 800 }
+    ]
+    return {
+      delegations,
+      delegates: [
+        { delegate: 'alice.icp', ownVotingPower: 5000, delegatedVotingPower: 4500, delegatorCount: 2 },
+        { delegate: 'diana.icp', ownVotingPower: 4000, delegatedVotingPower: 800, delegatorCount: 1 }
+      ]
+    }
+  }
+
+  private getMockProposals(filters: ProposalListRequest = {}): ProposalListResponse {
     const mockProposals: Proposal[] = [
       {
         id: 1,
@@ -458,9 +1047,14 @@ class GovernanceService {
       }
     ]
 
+    const proposals = mockProposals.filter(proposal =>
+      (!filters.status || proposal.status === filters.status) &&
+      (!filters.proposalType || proposal.proposalType.type === filters.proposalType)
+    )
+
     return {
-      proposals: mockProposals,
-      totalCount: mockProposals.length,
+      proposals,
+      totalCount: proposals.length,
       hasMore: false
     }
   }
@@ -0,0 +1,369 @@
+// src/services/importService.ts
+
+import apiService from './api.js'
+import { repositoryService } from './repositoryService'
+import { fileService, MAX_UPLOAD_SIZE } from './fileService'
+import { gitService } from './gitService'
+import type { GitCommit, GitFileChange } from '../types/git'
+import type {
+  ArchiveCommit,
+  ArchiveFile,
+  ImportCheckpoint,
+  ImportFileProgress,
+  ImportOptions,
+  ImportProgress,
+  ImportResult,
+  UnpackedArchive
+} from '../types/import'
+
+export interface ImportCallbacks {
+  onProgress?: (progress: ImportProgress) => void
+  onFileProgress?: (file: ImportFileProgress) => void
+}
+
+const CHECKPOINT_PREFIX = 'openkeyhub:import:'
+const IMPORT_BRANCH = 'main'
+// Files uploaded side by side in each batch
+const UPLOAD_BATCH_SIZE = 4
+// Replayed commits are split to stay under the canister's ingress message limit; a single
+// file bigger than this goes up in chunks instead
+const MAX_COMMIT_BYTES = 1_500_000
+
+const parentOf = (path: string) => path.slice(0, Math.max(path.lastIndexOf('/'), 0))
+
+const contentBytes = (change: GitFileChange): Uint8Array =>
+  typeof change.content === 'string' ? new TextEncoder().encode(change.content) : change.content ?? new Uint8Array()
+
+class ImportService {
+  private getErrorMessage(error: unknown): string {
+    if (error instanceof Error) {
+      return error.message
+    }
+    if (typeof error === 'string') {
+      return error
+    }
+    if (error && typeof error === 'object' && 'message' in error) {
+      return String((error as { message: unknown }).message)
+    }
+    return 'Unknown error occurred'
+  }
+
+  private async ensureActor(): Promise<void> {
+    if (!apiService.actor) {
+      await apiService.init()
+    }
+  }
+
+  private saveCheckpoint(checkpoint: ImportCheckpoint): void {
+    localStorage.setItem(CHECKPOINT_PREFIX + checkpoint.fingerprint, JSON.stringify({ ...checkpoint, updatedAt: Date.now() }))
+  }
+
+  private splitChanges(changes: GitFileChange[]): GitFileChange[][] {
+    const parts: GitFileChange[][] = [[]]
+    let size = 0
+    for (const change of changes) {
+      const changeSize = contentBytes(change).length
+      if (size + changeSize > MAX_COMMIT_BYTES && parts[parts.length - 1].length > 0) {
+        parts.push([])
+        size = 0
+      }
+      parts[parts.length - 1].push(change)
+      size += changeSize
+    }
+    return parts
+  }
+
+  // History can't skip a commit, so a file too big to upload at all stops the import before it starts
+  private checkHistorySizes(commits: ArchiveCommit[]): void {
+    for (const commit of commits) {
+      const oversized = commit.changes.find(change => contentBytes(change).length > MAX_UPLOAD_SIZE)
+      if (oversized) {
+        throw new Error(
+          `${oversized.path} in commit ${commit.sha.slice(0, 7)} is larger than the 10 MB file limit, so this history can't be imported`
+        )
+      }
+    }
+  }
+
+  // A part holding one file too big for a single message is staged in chunks and committed from there
+  private async commitPart(
+    checkpoint: ImportCheckpoint,
+    changes: GitFileChange[],
+    message: string
+  ): Promise<GitCommit> {
+    const [change] = changes
+    const bytes = changes.length === 1 && change.action.type !== 'Delete' ? contentBytes(change) : null
+    if (!bytes || bytes.length <= MAX_COMMIT_BYTES) {
+      return gitService.commit(checkpoint.repositoryId, {
+        branch: IMPORT_BRANCH,
+        message,
+        files: changes,
+        parentCommit: checkpoint.lastCommitId
+      })
+    }
+
+    const uploadId = await fileService.stageUpload(
+      checkpoint.repositoryId,
+      new File([bytes.slice()], change.path.slice(change.path.lastIndexOf('/') + 1)),
+      change.path,
+      message
+    )
+    return gitService.commitUploads(checkpoint.repositoryId, {
+      branch: IMPORT_BRANCH,
+      message,
+      uploadIds: [uploadId],
+      parentCommit: checkpoint.lastCommitId
+    })
+  }
+
+  // The canister records the importer as author, so keep the original attribution in the message
+  private replayMessage(commit: ArchiveCommit, part: number, partCount: number): string {
+    const subject = commit.message || `Imported commit ${commit.sha.slice(0, 7)}`
+    const suffix = partCount > 1 ? ` (part ${part + 1} of ${partCount})` : ''
+    return `${subject}${suffix}\n\nImported from ${commit.sha.slice(0, 7)}, authored by ${commit.author} on ${commit.authoredAt}`
+  }
+
+  /**
+   * Key identifying an archive across page reloads
+   */
+  getFingerprint(file: File): string {
+    return `${file.name}:${file.size}:${file.lastModified}`
+  }
+
+  /**
+   * Saved progress of an earlier, unfinished import of this archive
+   */
+  getCheckpoint(file: File): ImportCheckpoint | null {
+    try {
+      const saved = localStorage.getItem(CHECKPOINT_PREFIX + this.getFingerprint(file))
+      return saved ? JSON.parse(saved) as ImportCheckpoint : null
+    } catch {
+      return null
+    }
+  }
+
+  /**
+   * Forget saved progress so the archive is imported into a new repository
+   */
+  discardCheckpoint(file: File): void {
+    localStorage.removeItem(CHECKPOINT_PREFIX + this.getFingerprint(file))
+  }
+
+  /**
+   * Create a repository from an unpacked archive and upload its contents, replaying history
+   * when the archive has it. Resumes from the saved checkpoint for this archive if there is one.
+   */
+  async importArchive(
+    file: File,
+    archive: UnpackedArchive,
+    options: ImportOptions,
+    callbacks: ImportCallbacks = {}
+  ): Promise<ImportResult> {
+    try {
+      await this.ensureActor()
+      if (!apiService.isAuthenticated) {
+        throw new Error('Connect your wallet to import a repository')
+      }
+
+      if (archive.commits.length > 0) {
+        this.checkHistorySizes(archive.commits)
+      }
+
+      let checkpoint = this.getCheckpoint(file)
+      if (!checkpoint) {
+        callbacks.onProgress?.({ stage: 'creating', totalFiles: archive.files.length, completedFiles: 0, failedFiles: 0 })
+        const repository = await repositoryService.createRepository({
+          name: options.name,
+          description: options.description,
+          visibility: options.isPrivate ? 'private' : 'public'
+        })
+        checkpoint = {
+          fingerprint: this.getFingerprint(file),
+          repositoryId: repository.id,
+          repositoryName: repository.name,
+          completed: [],
+          updatedAt: Date.now()
+        }
+        this.saveCheckpoint(checkpoint)
+      }
+
+      const result = archive.commits.length > 0
+        ? await this.replayHistory(archive.commits, checkpoint, callbacks)
+        : await this.uploadSnapshot(archive.files, checkpoint, callbacks)
+
+      if (result.failures.length === 0) {
+        this.discardCheckpoint(file)
+      }
+      return result
+    } catch (error) {
+      console.error('Import archive error:', this.getErrorMessage(error))
+      throw error
+    }
+  }
+
+  private async uploadSnapshot(
+    files: ArchiveFile[],
+    checkpoint: ImportCheckpoint,
+    callbacks: ImportCallbacks
+  ): Promise<ImportResult> {
+    const completed = new Set(checkpoint.completed)
+    const failures: ImportFileProgress[] = []
+    let uploaded = 0
+
+    const report = () => callbacks.onProgress?.({
+      stage: 'uploading',
+      totalFiles: files.length,
+      completedFiles: completed.size,
+      failedFiles: failures.length
+    })
+
+    const remaining = files.filter(file => {
+      if (!completed.has(file.path)) return true
+      callbacks.onFileProgress?.({ path: file.path, status: 'done' })
+      return false
+    })
+    report()
+
+    // Uploads only write files, so their folders have to exist first to keep the tree
+    await fileService.ensureFolders(checkpoint.repositoryId, remaining.map(archiveFile => parentOf(archiveFile.path)))
+
+    for (let i = 0; i < remaining.length; i += UPLOAD_BATCH_SIZE) {
+      const batch = remaining.slice(i, i + UPLOAD_BATCH_SIZE)
+      await Promise.all(batch.map(async archiveFile => {
+        const slash = archiveFile.path.lastIndexOf('/')
+        callbacks.onFileProgress?.({ path: archiveFile.path, status: 'uploading' })
+        try {
+          await fileService.uploadFile(
+            checkpoint.repositoryId,
+            new File([archiveFile.content], archiveFile.path.slice(slash + 1)),
+            slash > 0 ? archiveFile.path.slice(0, slash) : undefined,
+            `Import ${archiveFile.path}`
+          )
+          completed.add(archiveFile.path)
+          uploaded++
+          callbacks.onFileProgress?.({ path: archiveFile.path, status: 'done' })
+        } catch (error) {
+          const failure: ImportFileProgress = { path: archiveFile.path, status: 'failed', error: this.getErrorMessage(error) }
+          failures.push(failure)
+          callbacks.onFileProgress?.(failure)
+        }
+      }))
+
+      checkpoint.completed = [...completed]
+      this.saveCheckpoint(checkpoint)
+      report()
+    }
+
+    callbacks.onProgress?.({
+      stage: 'complete',
+      totalFiles: files.length,
+      completedFiles: completed.size,
+      failedFiles: failures.length
+    })
+    return {
+      repositoryId: checkpoint.repositoryId,
+      repositoryName: checkpoint.repositoryName,
+      uploadedFiles: uploaded,
+      replayedCommits: 0,
+      failures
+    }
+  }
+
+  private async replayHistory(
+    commits: ArchiveCommit[],
+    checkpoint: ImportCheckpoint,
+    callbacks: ImportCallbacks
+  ): Promise<ImportResult> {
+    const completed = new Set(checkpoint.completed)
+    const failures: ImportFileProgress[] = []
+    const totalFiles = commits.reduce((sum, commit) => sum + commit.changes.length, 0)
+    let completedFiles = 0
+    let uploaded = 0
+    let replayed = 0
+
+    // Commits only write files, so every folder the history uses is created up front
+    await fileService.ensureFolders(
+      checkpoint.repositoryId,
+      commits.flatMap(commit => commit.changes
+        .filter(change => change.action.type !== 'Delete')
+        .map(change => parentOf(change.path)))
+    )
+
+    for (const [index, commit] of commits.entries()) {
+      const parts = this.splitChanges(commit.changes)
+      for (const [part, changes] of parts.entries()) {
+        const key = `${commit.sha}#${part}`
+        if (completed.has(key)) {
+          completedFiles += changes.length
+          changes.forEach(change => callbacks.onFileProgress?.({ path: change.path, status: 'done' }))
+          continue
+        }
+
+        callbacks.onProgress?.({
+          stage: 'uploading',
+          totalFiles,
+          completedFiles,
+          failedFiles: 0,
+          commitIndex: index + 1,
+          commitCount: commits.length,
+          commitMessage: commit.message.split('\n')[0]
+        })
+        changes.forEach(change => callbacks.onFileProgress?.({ path: change.path, status: 'uploading' }))
+
+        try {
+          const created = await this.commitPart(checkpoint, changes, this.replayMessage(commit, part, parts.length))
+          completed.add(key)
+          checkpoint.completed = [...completed]
+          checkpoint.lastCommitId = created.id
+          this.saveCheckpoint(checkpoint)
+        } catch (error) {
+          // Later commits build on this one, so stop here and let a resume retry it
+          for (const change of changes) {
+            const failure: ImportFileProgress = { path: change.path, status: 'failed', error: this.getErrorMessage(error) }
+            failures.push(failure)
+            callbacks.onFileProgress?.(failure)
+          }
+          callbacks.onProgress?.({
+            stage: 'complete',
+            totalFiles,
+            completedFiles,
+            failedFiles: failures.length,
+            commitIndex: index + 1,
+            commitCount: commits.length
+          })
+          return {
+            repositoryId: checkpoint.repositoryId,
+            repositoryName: checkpoint.repositoryName,
+            uploadedFiles: uploaded,
+            replayedCommits: replayed,
+            failures
+          }
+        }
+
+        completedFiles += changes.length
+        uploaded += changes.filter(change => change.action.type !== 'Delete').length
+        changes.forEach(change => callbacks.onFileProgress?.({ path: change.path, status: 'done' }))
+      }
+      replayed++
+    }
+
+    callbacks.onProgress?.({
+      stage: 'complete',
+      totalFiles,
+      completedFiles,
+      failedFiles: 0,
+      commitIndex: commits.length,
+      commitCount: commits.length
+    })
+    return {
+      repositoryId: checkpoint.repositoryId,
+      repositoryName: checkpoint.repositoryName,
+      uploadedFiles: uploaded,
+      replayedCommits: replayed,
+      failures
+    }
+  }
+}
+
+export const importService = new ImportService()
+export default importService
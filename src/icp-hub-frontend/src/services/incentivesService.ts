@@ -0,0 +1,434 @@
+// src/services/incentivesService.ts
+
+import { Principal } from '@dfinity/principal'
+import apiService, {
+  type Badge as BackendBadge,
+  type Bounty as BackendBounty,
+  type BountySubmission as BackendBountySubmission,
+  type LeaderboardEntry as BackendLeaderboardEntry,
+  type StakePosition as BackendStakePosition
+} from './api.js'
+import type {
+  Badge,
+  BadgeCategory,
+  Bounty,
+  BountyFilters,
+  BountyStatus,
+  BountySubmission,
+  ContributionBreakdown,
+  CreateBountyInput,
+  DifficultyLevel,
+  LeaderboardEntry,
+  LeaderboardFilters,
+  StakePosition,
+  SubmissionStatus,
+  SubmitBountyInput,
+  TokenInfo
+} from '../types/incentives'
+
+const NANOS_PER_MILLISECOND = 1000000
+const NANOS_PER_DAY = 24n * 60n * 60n * 1000000000n
+
+class IncentivesService {
+  private getErrorMessage(error: unknown): string {
+    if (error instanceof Error) {
+      return error.message
+    }
+    if (typeof error === 'string') {
+      return error
+    }
+    if (error && typeof error === 'object' && 'message' in error) {
+      return String((error as { message: unknown }).message)
+    }
+    return 'Unknown error occurred'
+  }
+
+  private async ensureActor(): Promise<void> {
+    if (!apiService.actor) {
+      await apiService.init()
+    }
+  }
+
+  private toMillis(nanoseconds: bigint): number {
+    return Number(nanoseconds) / NANOS_PER_MILLISECOND
+  }
+
+  private optional<T>(value: [] | [T]): T | undefined {
+    return value.length > 0 ? value[0] : undefined
+  }
+
+  private transformBountySubmission(submission: BackendBountySubmission): BountySubmission {
+    return {
+      id: submission.id,
+      submittedBy: submission.submittedBy.toString(),
+      submittedAt: this.toMillis(submission.submittedAt),
+      // The canister stores the linked branch in pullRequestId
+      branch: this.optional(submission.pullRequestId),
+      commitIds: submission.commitIds,
+      description: submission.description,
+      status: Object.keys(submission.status)[0] as SubmissionStatus,
+      reviewedBy: this.optional(submission.reviewedBy)?.toString(),
+      reviewNotes: this.optional(submission.reviewNotes)
+    }
+  }
+
+  private transformBounty(bounty: BackendBounty): Bounty {
+    const expiresAt = this.optional(bounty.expiresAt)
+    return {
+      id: bounty.id,
+      repositoryId: bounty.repositoryId,
+      title: bounty.title,
+      description: bounty.description,
+      amount: bounty.amount,
+      currency: bounty.currency,
+      createdBy: bounty.createdBy.toString(),
+      createdAt: this.toMillis(bounty.createdAt),
+      expiresAt: expiresAt !== undefined ? this.toMillis(expiresAt) : undefined,
+      status: Object.keys(bounty.status)[0] as BountyStatus,
+      assignedTo: this.optional(bounty.assignedTo)?.toString(),
+      requirements: bounty.requirements,
+      tags: bounty.tags,
+      difficulty: Object.keys(bounty.difficulty)[0] as DifficultyLevel,
+      submissions: bounty.submissions.map(submission => this.transformBountySubmission(submission))
+    }
+  }
+
+  private transformStakePosition(position: BackendStakePosition): StakePosition {
+    return {
+      amount: position.amount,
+      stakedAt: this.toMillis(position.stakedAt),
+      lockPeriodDays: Number(position.lockPeriod / NANOS_PER_DAY),
+      unlocksAt: this.toMillis(position.unlocksAt),
+      rewardRate: position.rewardRate,
+      accumulatedRewards: position.accumulatedRewards,
+      lastClaimAt: this.toMillis(position.lastClaimAt)
+    }
+  }
+
+  private transformBadge(badge: BackendBadge): Badge {
+    return {
+      id: badge.id,
+      name: badge.name,
+      description: badge.description,
+      icon: badge.icon,
+      earnedAt: this.toMillis(badge.earnedAt),
+      category: Object.keys(badge.category)[0] as BadgeCategory
+    }
+  }
+
+  private transformLeaderboardEntry(entry: BackendLeaderboardEntry): LeaderboardEntry {
+    return {
+      rank: Number(entry.rank),
+      principal: entry.user.toString(),
+      username: entry.username,
+      totalEarned: entry.totalEarned,
+      contributionCount: Number(entry.contributionCount),
+      averageImpact: entry.averageImpact,
+      badges: entry.badges.map(badge => this.transformBadge(badge))
+    }
+  }
+
+  /**
+   * Get the platform token's symbol, decimals and supply
+   */
+  async getTokenInfo(): Promise<TokenInfo> {
+    try {
+      await this.ensureActor()
+      const result = await apiService.getTokenInfo()
+
+      if (result.success && result.data) {
+        return {
+          symbol: result.data.symbol,
+          name: result.data.name,
+          decimals: Number(result.data.decimals),
+          totalSupply: result.data.totalSupply,
+          circulatingSupply: result.data.circulatingSupply
+        }
+      }
+
+      throw new Error(apiService.getErrorMessage(result.error || 'Failed to get token info'))
+    } catch (error) {
+      console.error('Get token info error:', this.getErrorMessage(error))
+      throw error
+    }
+  }
+
+  /**
+   * Get the caller's liquid (unstaked) balance in base units
+   */
+  async getBalance(): Promise<bigint> {
+    try {
+      await this.ensureActor()
+      const result = await apiService.getBalance()
+
+      if (result.success && result.data !== undefined) {
+        return result.data
+      }
+
+      throw new Error(apiService.getErrorMessage(result.error || 'Failed to get balance'))
+    } catch (error) {
+      console.error('Get balance error:', this.getErrorMessage(error))
+      throw error
+    }
+  }
+
+  /**
+   * Get the caller's staking positions, oldest first
+   */
+  async getStakePositions(): Promise<StakePosition[]> {
+    try {
+      await this.ensureActor()
+      const result = await apiService.getStakePositions()
+
+      if (result.success && result.data) {
+        return result.data.map(position => this.transformStakePosition(position))
+      }
+
+      throw new Error(apiService.getErrorMessage(result.error || 'Failed to get stake positions'))
+    } catch (error) {
+      console.error('Get stake positions error:', this.getErrorMessage(error))
+      throw error
+    }
+  }
+
+  /**
+   * Get the APY, in percent, that a stake locked for the given number of days earns
+   */
+  async getStakingAPY(lockDays: number): Promise<number> {
+    try {
+      await this.ensureActor()
+      const result = await apiService.getStakingAPY(lockDays)
+
+      if (result.success && result.data !== undefined) {
+        return result.data
+      }
+
+      throw new Error(apiService.getErrorMessage(result.error || 'Failed to get staking APY'))
+    } catch (error) {
+      console.error('Get staking APY error:', this.getErrorMessage(error))
+      throw error
+    }
+  }
+
+  /**
+   * Lock tokens for a number of days in exchange for staking rewards
+   */
+  async stakeTokens(amount: bigint, lockDays: number): Promise<StakePosition> {
+    try {
+      await this.ensureActor()
+      const result = await apiService.stakeTokens(amount, lockDays)
+
+      if (result.success && result.data) {
+        return this.transformStakePosition(result.data)
+      }
+
+      throw new Error(apiService.getErrorMessage(result.error || 'Failed to stake tokens'))
+    } catch (error) {
+      console.error('Stake tokens error:', this.getErrorMessage(error))
+      throw error
+    }
+  }
+
+  /**
+   * Pay out rewards accrued on all positions since the last claim; returns the amount claimed
+   */
+  async claimStakingRewards(): Promise<bigint> {
+    try {
+      await this.ensureActor()
+      const result = await apiService.claimStakingRewards()
+
+      if (result.success && result.data !== undefined) {
+        return result.data
+      }
+
+      throw new Error(apiService.getErrorMessage(result.error || 'Failed to claim rewards'))
+    } catch (error) {
+      console.error('Claim staking rewards error:', this.getErrorMessage(error))
+      throw error
+    }
+  }
+
+  /**
+   * Send liquid tokens to another principal
+   */
+  async transfer(to: string, amount: bigint): Promise<void> {
+    let recipient: Principal
+    try {
+      recipient = Principal.fromText(to.trim())
+    } catch {
+      throw new Error('Recipient must be a valid principal ID')
+    }
+
+    try {
+      await this.ensureActor()
+      const result = await apiService.transfer(recipient, amount)
+
+      if (!result.success) {
+        throw new Error(apiService.getErrorMessage(result.error || 'Failed to transfer tokens'))
+      }
+    } catch (error) {
+      console.error('Transfer error:', this.getErrorMessage(error))
+      throw error
+    }
+  }
+
+  /**
+   * List bounties, newest first, optionally for one repository or status
+   */
+  async listBounties(filters: BountyFilters = {}): Promise<Bounty[]> {
+    try {
+      await this.ensureActor()
+      const result = await apiService.listBounties({
+        repositoryId: filters.repositoryId,
+        status: filters.status ? { [filters.status]: null } as BackendBounty['status'] : undefined
+      })
+
+      if (result.success && result.data) {
+        return result.data.map(bounty => this.transformBounty(bounty))
+      }
+
+      throw new Error(apiService.getErrorMessage(result.error || 'Failed to list bounties'))
+    } catch (error) {
+      console.error('List bounties error:', this.getErrorMessage(error))
+      throw error
+    }
+  }
+
+  /**
+   * Get a single bounty with its submissions
+   */
+  async getBounty(bountyId: string): Promise<Bounty> {
+    try {
+      await this.ensureActor()
+      const result = await apiService.getBounty(bountyId)
+
+      if (result.success && result.data) {
+        return this.transformBounty(result.data)
+      }
+
+      throw new Error(apiService.getErrorMessage(result.error || 'Bounty not found'))
+    } catch (error) {
+      console.error('Get bounty error:', this.getErrorMessage(error))
+      throw error
+    }
+  }
+
+  /**
+   * Fund a bounty on a repository; the amount is escrowed from the caller's balance
+   */
+  async createBounty(input: CreateBountyInput): Promise<Bounty> {
+    try {
+      await this.ensureActor()
+      const result = await apiService.createBounty({
+        repositoryId: input.repositoryId,
+        title: input.title.trim(),
+        description: input.description.trim(),
+        amount: input.amount,
+        requirements: input.requirements.map(requirement => requirement.trim()).filter(Boolean),
+        difficulty: { [input.difficulty]: null } as BackendBounty['difficulty'],
+        expiresInDays: input.expiresInDays
+      })
+
+      if (result.success && result.data) {
+        return this.transformBounty(result.data)
+      }
+
+      throw new Error(apiService.getErrorMessage(result.error || 'Failed to create bounty'))
+    } catch (error) {
+      console.error('Create bounty error:', this.getErrorMessage(error))
+      throw error
+    }
+  }
+
+  /**
+   * Submit work for a bounty, linked to a branch and/or specific commits
+   */
+  async submitBounty(input: SubmitBountyInput): Promise<BountySubmission> {
+    try {
+      await this.ensureActor()
+      const result = await apiService.submitBounty({
+        bountyId: input.bountyId,
+        pullRequestId: input.branch,
+        commitIds: input.commitIds,
+        description: input.description.trim()
+      })
+
+      if (result.success && result.data) {
+        return this.transformBountySubmission(result.data)
+      }
+
+      throw new Error(apiService.getErrorMessage(result.error || 'Failed to submit work'))
+    } catch (error) {
+      console.error('Submit bounty error:', this.getErrorMessage(error))
+      throw error
+    }
+  }
+
+  /**
+   * Approve (paying out the bounty) or reject a submission; maintainers only
+   */
+  async reviewSubmission(bountyId: string, submissionId: string, approve: boolean, notes?: string): Promise<Bounty> {
+    try {
+      await this.ensureActor()
+      const result = await apiService.reviewBountySubmission(bountyId, submissionId, approve, notes?.trim() || null)
+
+      if (result.success && result.data) {
+        return this.transformBounty(result.data)
+      }
+
+      throw new Error(apiService.getErrorMessage(result.error || 'Failed to review submission'))
+    } catch (error) {
+      console.error('Review submission error:', this.getErrorMessage(error))
+      throw error
+    }
+  }
+
+  /**
+   * Get contributors ranked by tokens earned, optionally within a time window or repository
+   */
+  async getLeaderboard(filters: LeaderboardFilters = {}): Promise<LeaderboardEntry[]> {
+    try {
+      await this.ensureActor()
+      const result = await apiService.getLeaderboard(filters)
+
+      if (result.success && result.data) {
+        return result.data.map(entry => this.transformLeaderboardEntry(entry))
+      }
+
+      throw new Error(apiService.getErrorMessage(result.error || 'Failed to get leaderboard'))
+    } catch (error) {
+      console.error('Get leaderboard error:', this.getErrorMessage(error))
+      throw error
+    }
+  }
+
+  /**
+   * Get a user's contributions per repository, most recently active first
+   */
+  async getContributionBreakdown(principal: string): Promise<ContributionBreakdown[]> {
+    try {
+      await this.ensureActor()
+      const result = await apiService.getContributionMetrics(principal)
+
+      if (result.success && result.data) {
+        return result.data.map(metrics => ({
+          repositoryId: metrics.repositoryId,
+          commits: Number(metrics.totalCommits),
+          pullRequests: Number(metrics.totalPullRequests),
+          issuesResolved: Number(metrics.totalIssuesResolved),
+          reviews: Number(metrics.totalReviews),
+          impactScore: metrics.impactScore,
+          lastUpdated: this.toMillis(metrics.lastUpdated)
+        }))
+      }
+
+      throw new Error(apiService.getErrorMessage(result.error || 'Failed to get contributions'))
+    } catch (error) {
+      console.error('Get contribution breakdown error:', this.getErrorMessage(error))
+      throw error
+    }
+  }
+}
+
+export const incentivesService = new IncentivesService()
+export default incentivesService
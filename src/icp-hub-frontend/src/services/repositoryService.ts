@@ -1,5 +1,17 @@
-import apiService, { type SerializableRepository } from './api.js';
-import type { RepositoryListResponse, Repository, RepositoryFilters, CreateRepositoryRequest } from '../types/repository';
+import apiService, {
+  type SerializableRepository,
+  type RepositorySettings as BackendRepositorySettings,
+  type UpdateRepositoryRequest as BackendUpdateRepositoryRequest
+} from './api.js';
+import type {
+  RepositoryListResponse,
+  Repository,
+  RepositoryFilters,
+  CreateRepositoryRequest,
+  UpdateRepositoryRequest,
+  RepositorySettings,
+  RepositoryVisibility
+} from '../types/repository';
 
 // Using types from ../types/repository.ts
 
@@ -37,6 +49,9 @@ class RepositoryIdManager {
 }
 
 class RepositoryService {
+  // Repository ids by "owner/name", so links by name don't need a lookup each time
+  private repositoryIds = new Map<string, string>()
+
   private getErrorMessage(error: unknown): string {
     if (error instanceof Error) {
       return error.message
@@ -193,6 +208,42 @@ class RepositoryService {
     }
   }
 
+  private transformSettings(settings: BackendRepositorySettings): RepositorySettings {
+    let visibility: RepositoryVisibility = 'public'
+    if ('Private' in settings.visibility) visibility = 'private'
+    if ('Internal' in settings.visibility) visibility = 'internal'
+
+    return {
+      defaultBranch: settings.defaultBranch,
+      allowForking: settings.allowForking,
+      allowIssues: settings.allowIssues,
+      allowWiki: settings.allowWiki,
+      allowProjects: settings.allowProjects,
+      visibility,
+      license: settings.license.length > 0 ? settings.license[0] : undefined,
+      topics: settings.topics
+    }
+  }
+
+  private toBackendSettings(settings: RepositorySettings): BackendRepositorySettings {
+    const visibility = settings.visibility === 'private'
+      ? { Private: null }
+      : settings.visibility === 'internal'
+        ? { Internal: null }
+        : { Public: null }
+
+    return {
+      defaultBranch: settings.defaultBranch,
+      allowForking: settings.allowForking,
+      allowIssues: settings.allowIssues,
+      allowWiki: settings.allowWiki,
+      allowProjects: settings.allowProjects,
+      visibility,
+      license: settings.license ? [settings.license] : [],
+      topics: settings.topics
+    }
+  }
+
   async getRepositories(_filters: RepositoryFilters = {}): Promise<RepositoryListResponse> {
     try {
       // Initialize API service (will create anonymous actor if not authenticated)
@@ -375,6 +426,8 @@ class RepositoryService {
       if (result.success && result.data) {
         const repo = result.data
         console.log('Raw repository data:', repo)
+        const settings = this.transformSettings(repo.settings)
+        this.repositoryIds.set(`${repo.owner.toString()}/${repo.name}`, repo.id)
         
         return {
           id: repo.id,
@@ -382,7 +435,7 @@ class RepositoryService {
           description: repo.description && repo.description.length > 0 ? repo.description[0] : undefined,
           owner: repo.owner.toString(),
           isPrivate: repo.isPrivate || false,
-          visibility: (repo.isPrivate ? 'private' : 'public') as 'public' | 'private',
+          visibility: settings.visibility,
           stars: Number(repo.stars),
           forks: Number(repo.forks),
           watchers: 0,
@@ -393,7 +446,8 @@ class RepositoryService {
           updatedAt: new Date(Number(repo.updatedAt) / 1000000).toISOString(),
           chains: [],
           size: Number(repo.size) || 0,
-          cloneUrl: `https://openkeyhub.com/${repo.owner}/${repo.name}.git`
+          cloneUrl: `https://openkeyhub.com/${repo.owner}/${repo.name}.git`,
+          settings
         }
       } else {
         console.error('Backend error:', result.error)
@@ -410,6 +464,48 @@ class RepositoryService {
     }
   }
 
+  /**
+   * The id of an owner's repository, if it has been looked up before
+   */
+  cachedRepositoryId(owner: string, name: string): string | undefined {
+    return this.repositoryIds.get(`${owner}/${name}`)
+  }
+
+  /**
+   * Find the id of a repository from its owner and name
+   */
+  async findRepositoryId(owner: string, name: string): Promise<string> {
+    const cached = this.cachedRepositoryId(owner, name)
+    if (cached) return cached
+
+    try {
+      if (!apiService.actor) {
+        await apiService.init()
+      }
+
+      for (let page = 0; ; page++) {
+        const result = await apiService.listRepositories(owner, { page, limit: 100 })
+
+        if (!result.success || !result.data) {
+          throw new Error(apiService.getErrorMessage(result.error || 'Failed to list repositories'))
+        }
+
+        for (const repo of result.data.repositories) {
+          this.repositoryIds.set(`${owner}/${repo.name}`, repo.id)
+        }
+
+        const match = result.data.repositories.find(repo => repo.name === name)
+        if (match) return match.id
+        if (!result.data.hasMore) break
+      }
+
+      throw new Error(`Repository ${owner}/${name} not found`)
+    } catch (error) {
+      console.error('Find repository error:', this.getErrorMessage(error))
+      throw error
+    }
+  }
+
   async createRepository(repositoryData: CreateRepositoryRequest): Promise<Repository> {
     try {
       if (!apiService.actor) {
@@ -465,7 +561,7 @@ class RepositoryService {
     }
   }
 
-  async updateRepository(id: string, repositoryData: Partial<CreateRepositoryRequest>): Promise<Repository> {
+  async updateRepository(id: string, repositoryData: UpdateRepositoryRequest): Promise<Repository> {
     try {
       if (!apiService.actor) {
         await apiService.init()
@@ -473,38 +569,46 @@ class RepositoryService {
 
       const normalizedId = RepositoryIdManager.normalize(id)
 
-      const backendUpdate = {
-        description: repositoryData.description ? [repositoryData.description] : [],
-        settings: undefined 
+      const backendUpdate: BackendUpdateRepositoryRequest = {
+        // An empty description clears it
+        description: repositoryData.description !== undefined ? [repositoryData.description] : [],
+        settings: repositoryData.settings ? [this.toBackendSettings(repositoryData.settings)] : []
       }
 
       const result = await apiService.updateRepository(normalizedId, backendUpdate)
       
       if (result.success && result.data) {
         const repo = result.data
+        const settings = this.transformSettings(repo.settings)
         return {
           id: repo.id,
           name: repo.name,
           description: repo.description && repo.description.length > 0 ? repo.description[0] : undefined,
           owner: repo.owner.toString(),
           isPrivate: repo.isPrivate || false,
-          visibility: (repo.isPrivate ? 'private' : 'public') as 'public' | 'private',
+          visibility: settings.visibility,
           stars: Number(repo.stars),
           forks: Number(repo.forks),
           watchers: 0,
           issues: 0,
           language: repo.language && repo.language.length > 0 ? repo.language[0] : undefined,
-          license: repo.settings && repo.settings.license && repo.settings.license.length > 0 ? repo.settings.license[0] : undefined,
+          license: settings.license,
           createdAt: new Date(Number(repo.createdAt) / 1000000).toISOString(),
           updatedAt: new Date(Number(repo.updatedAt) / 1000000).toISOString(),
           chains: repositoryData.chains || [],
           size: Number(repo.size) || 0,
-          cloneUrl: `https://openkeyhub.com/${repo.owner}/${repo.name}.git`
+          cloneUrl: `https://openkeyhub.com/${repo.owner}/${repo.name}.git`,
+          settings
         }
       } else {
-        throw new Error('Failed to update repository')
+        throw new Error(apiService.getErrorMessage(result.error || 'Failed to update repository'))
       }
     } catch (error) {
+      // Only fall back to mock data when there is no backend; real rejections must reach the caller
+      if (apiService.actor) {
+        console.error('Update repository error:', this.getErrorMessage(error))
+        throw error
+      }
       console.warn('Backend not available, using mock data:', this.getErrorMessage(error))
       return this.updateMockRepository(id, repositoryData)
     }
@@ -637,12 +741,19 @@ class RepositoryService {
     return newRepository
   }
 
-  private updateMockRepository(id: string, repositoryData: Partial<CreateRepositoryRequest>): Repository {
+  private updateMockRepository(id: string, repositoryData: UpdateRepositoryRequest): Repository {
     const existingRepo = this.getMockRepository(id)
+    const { settings, ...fields } = repositoryData
     
     return {
       ...existingRepo,
-      ...repositoryData,
+      ...fields,
+      ...(settings && {
+        settings,
+        visibility: settings.visibility,
+        isPrivate: settings.visibility === 'private',
+        license: settings.license
+      }),
       updatedAt: new Date().toISOString()
     }
   }
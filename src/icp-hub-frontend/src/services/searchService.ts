@@ -0,0 +1,326 @@
+// src/services/searchService.ts
+
+import { Principal } from '@dfinity/principal'
+import apiService from './api.js'
+import type {
+  FileEntry,
+  FileListResponse,
+  SearchFilter,
+  SearchResults,
+  SearchScope,
+  SearchSuggestion as CanisterSuggestion,
+  SerializableRepository,
+  SortBy
+} from './api'
+import type {
+  CodeSearchOptions,
+  RepositorySearchHit,
+  RepositorySearchPage,
+  SearchFilters,
+  SearchPage,
+  SearchResult,
+  SearchSnippet,
+  SearchSort,
+  SearchSuggestion,
+  SearchType,
+  SuggestionKind
+} from '../types/search'
+import { buildSearchPattern, findLineMatches, findRanges } from '../utils/codeSearch'
+import { repositoryBlobUrl, repositoryTreeUrl, repositoryUrl, userUrl } from '../utils/routes'
+
+type RepositoryHit = SearchResults['repositories'][number]
+type UserHit = SearchResults['users'][number]
+type FileHit = SearchResults['files'][number]
+
+export const SEARCH_PAGE_SIZE = 20
+// The canister ignores shorter queries for suggestions
+export const MIN_SUGGESTION_LENGTH = 2
+const MAX_SUGGESTIONS = 10
+export const REPOSITORY_SEARCH_PAGE_SIZE = 20
+// Matching lines shown per file when searching a single repository
+const MAX_LINE_MATCHES = 5
+// Matching lines shown under a file result
+const MAX_SNIPPETS = 3
+const MAX_SNIPPET_LENGTH = 200
+
+const SCOPES: Record<SearchType, SearchScope> = {
+  all: { All: null },
+  code: { Code: null },
+  users: { Users: null },
+  files: { Files: null },
+  repository: { Repositories: null }
+}
+
+const SORTS: Record<SearchSort, SortBy> = {
+  relevance: { Relevance: null },
+  name: { Name: null },
+  created: { CreatedAt: null },
+  updated: { UpdatedAt: null },
+  stars: { Stars: null },
+  size: { Size: null }
+}
+
+const NANOS_PER_MILLI = 1_000_000n
+const MILLIS_PER_DAY = 24 * 60 * 60 * 1000
+
+// Canister timestamps are nanoseconds; dates are taken as local calendar days
+const dateToNanos = (date: string, endOfDay = false) => {
+  const [year, month, day] = date.split('-').map(Number)
+  const start = new Date(year, month - 1, day).getTime()
+  return BigInt(endOfDay ? start + MILLIS_PER_DAY - 1 : start) * NANOS_PER_MILLI
+}
+
+const optional = <T>(value: T | undefined): [] | [T] => (value === undefined ? [] : [value])
+
+const ownerOf = (repository: SerializableRepository) => repository.owner.toString()
+
+const defaultBranchOf = (repository: SerializableRepository) => repository.settings?.defaultBranch || 'main'
+
+class SearchService {
+  private getErrorMessage(error: unknown): string {
+    if (error instanceof Error) {
+      return error.message
+    }
+    if (typeof error === 'string') {
+      return error
+    }
+    if (error && typeof error === 'object' && 'message' in error) {
+      return String((error as { message: unknown }).message)
+    }
+    return 'Unknown error occurred'
+  }
+
+  // Candid optionals arrive as [] or [value]
+  private optionalText(value: unknown): string | undefined {
+    if (Array.isArray(value)) {
+      return typeof value[0] === 'string' ? value[0] : undefined
+    }
+    return typeof value === 'string' ? value : undefined
+  }
+
+  /**
+   * Search repositories, users and files on the canister. Pages start at 0; each page holds up to
+   * SEARCH_PAGE_SIZE results of every kind the search type covers. Filters and sorting only
+   * apply to repositories.
+   */
+  async search(query: string, type: SearchType, page = 0, filters: SearchFilters = {}): Promise<SearchPage> {
+    try {
+      if (!apiService.actor) {
+        await apiService.init()
+      }
+
+      const { sort, ...narrowing } = filters
+      const result = await apiService.search({
+        searchQuery: query,
+        scope: SCOPES[type],
+        filters: Object.values(narrowing).some(value => value !== undefined) ? this.toSearchFilter(narrowing) : undefined,
+        pagination: { page, limit: SEARCH_PAGE_SIZE },
+        sortBy: sort ? SORTS[sort] : undefined
+      })
+
+      if (result.success && result.data) {
+        const data = result.data
+        return {
+          results: [
+            ...data.repositories.map(hit => this.transformRepository(hit)),
+            ...data.users.map(hit => this.transformUser(hit)),
+            ...data.files.map(hit => this.transformFile(hit, query, type === 'code' ? 'code' : 'files'))
+          ],
+          totalCount: Number(data.totalCount),
+          hasMore: data.hasMore,
+          page
+        }
+      }
+
+      throw new Error(apiService.getErrorMessage(result.error || 'Search failed'))
+    } catch (error) {
+      console.error('Search error:', this.getErrorMessage(error))
+      throw error
+    }
+  }
+
+  /**
+   * Names of repositories, users and files that start with the query, for auto-complete
+   */
+  async suggest(query: string, maxSuggestions = MAX_SUGGESTIONS): Promise<SearchSuggestion[]> {
+    if (query.trim().length < MIN_SUGGESTION_LENGTH) return []
+
+    try {
+      if (!apiService.actor) {
+        await apiService.init()
+      }
+
+      const result = await apiService.searchSuggestions(query.trim(), maxSuggestions)
+      if (result.success && result.data) {
+        return result.data.map(suggestion => ({ text: suggestion.text, kind: this.suggestionKind(suggestion) }))
+      }
+
+      throw new Error(apiService.getErrorMessage(result.error || 'Failed to load suggestions'))
+    } catch (error) {
+      console.error('Search suggestions error:', this.getErrorMessage(error))
+      throw error
+    }
+  }
+
+  /**
+   * Search the files of one repository. Plain queries go to the canister, which matches paths and
+   * contents case-insensitively, and are narrowed here when case matters. The canister can't run
+   * regular expressions, so those are matched here against every file, all in one page.
+   */
+  async searchRepository(
+    repositoryId: string,
+    query: string,
+    options: CodeSearchOptions,
+    page = 0
+  ): Promise<RepositorySearchPage> {
+    // Invalid regular expressions fail here, before anything is fetched
+    const pattern = buildSearchPattern(query, options)
+
+    try {
+      if (!apiService.actor) {
+        await apiService.init()
+      }
+
+      const result: { success: boolean, data?: FileListResponse, error?: unknown } = options.regex
+        ? await apiService.listFiles(repositoryId)
+        : await apiService.searchRepository(repositoryId, query, { page, limit: REPOSITORY_SEARCH_PAGE_SIZE })
+
+      if (result.success && result.data) {
+        const hits = result.data.files
+          .map(file => this.matchFile(file, pattern))
+          .filter((hit): hit is RepositorySearchHit => hit !== null)
+          .sort((a, b) => a.path.localeCompare(b.path))
+
+        return {
+          hits,
+          hasMore: !options.regex && (page + 1) * REPOSITORY_SEARCH_PAGE_SIZE < Number(result.data.totalCount),
+          page
+        }
+      }
+
+      throw new Error(apiService.getErrorMessage(result.error || 'Repository search failed'))
+    } catch (error) {
+      console.error('Repository search error:', this.getErrorMessage(error))
+      throw error
+    }
+  }
+
+  private matchFile(file: FileEntry, pattern: RegExp): RepositorySearchHit | null {
+    const pathMatches = findRanges(file.path, pattern).length > 0
+    const text = file.isFolder ? null : this.decodeText(file.content)
+    const { matches, total } = text === null ? { matches: [], total: 0 } : findLineMatches(text, pattern, MAX_LINE_MATCHES)
+    if (!pathMatches && total === 0) return null
+
+    return { path: file.path, isFolder: file.isFolder, pathMatches, matches, matchCount: total }
+  }
+
+  // File contents as text, or null for binary files
+  private decodeText(content: number[] | Uint8Array): string | null {
+    const bytes = content instanceof Uint8Array ? content : new Uint8Array(content)
+    return bytes.includes(0) ? null : new TextDecoder().decode(bytes)
+  }
+
+  private suggestionKind({ kind }: CanisterSuggestion): SuggestionKind {
+    if ('Repository' in kind) return 'repository'
+    if ('User' in kind) return 'user'
+    return 'file'
+  }
+
+  private toSearchFilter(filters: SearchFilters): SearchFilter {
+    let owner: Principal | undefined
+    if (filters.owner) {
+      try {
+        owner = Principal.fromText(filters.owner)
+      } catch {
+        throw new Error(`"${filters.owner}" is not a valid owner principal`)
+      }
+    }
+    if (filters.minSize !== undefined && filters.maxSize !== undefined && filters.minSize > filters.maxSize) {
+      throw new Error('The minimum size is larger than the maximum size')
+    }
+    if (filters.createdAfter && filters.createdBefore && filters.createdAfter > filters.createdBefore) {
+      throw new Error('The "created after" date is later than the "created before" date')
+    }
+
+    return {
+      owner: optional(owner),
+      language: optional(filters.language),
+      isPrivate: optional(filters.visibility === undefined ? undefined : filters.visibility === 'private'),
+      minSize: optional(filters.minSize === undefined ? undefined : BigInt(filters.minSize)),
+      maxSize: optional(filters.maxSize === undefined ? undefined : BigInt(filters.maxSize)),
+      createdAfter: optional(filters.createdAfter ? dateToNanos(filters.createdAfter) : undefined),
+      createdBefore: optional(filters.createdBefore ? dateToNanos(filters.createdBefore, true) : undefined)
+    }
+  }
+
+  private transformRepository({ repository }: RepositoryHit): SearchResult {
+    const owner = ownerOf(repository)
+    const language = this.optionalText(repository.language)
+    return {
+      id: `repository:${repository.id}`,
+      title: repository.name,
+      description: this.optionalText(repository.description) || 'No description',
+      type: 'repository',
+      url: repositoryUrl(owner, repository.name),
+      metadata: {
+        stars: Number(repository.stars),
+        ...(language ? { language } : {}),
+        ...(repository.isPrivate ? { visibility: 'private' } : {})
+      },
+      repositoryId: repository.id
+    }
+  }
+
+  private transformUser({ user }: UserHit): SearchResult {
+    const principal = user.principal.toString()
+    return {
+      id: `user:${principal}`,
+      title: this.optionalText(user.profile.displayName) || user.username,
+      description: this.optionalText(user.profile.bio) || `@${user.username}`,
+      type: 'users',
+      url: userUrl(principal),
+      metadata: { repositories: user.repositories.length },
+      principal
+    }
+  }
+
+  private transformFile({ file, repository, snippets }: FileHit, query: string, type: SearchType): SearchResult {
+    const owner = ownerOf(repository)
+    const matches = file.isFolder ? [] : this.findMatchingLines(file.content, query)
+    const branch = defaultBranchOf(repository)
+    return {
+      id: `file:${repository.id}:${file.path}`,
+      title: file.path,
+      description: `In ${repository.name}`,
+      type,
+      url: file.isFolder
+        ? repositoryTreeUrl(owner, repository.name, branch, file.path)
+        : repositoryBlobUrl(owner, repository.name, branch, file.path, matches[0]?.line),
+      metadata: { repository: repository.name },
+      repositoryId: repository.id,
+      path: file.path,
+      isFolder: file.isFolder,
+      // The canister's snippet is just the top of the file; use it when no line matches as typed
+      snippets: matches.length > 0 ? matches : snippets.map(text => ({ line: 0, text }))
+    }
+  }
+
+  // Lines of the file that contain the query, case-insensitively
+  private findMatchingLines(content: number[] | Uint8Array, query: string): SearchSnippet[] {
+    const text = this.decodeText(content)
+    if (text === null) return []
+
+    const needle = query.toLowerCase()
+    const snippets: SearchSnippet[] = []
+    const lines = text.split('\n')
+    for (let i = 0; i < lines.length && snippets.length < MAX_SNIPPETS; i++) {
+      if (lines[i].toLowerCase().includes(needle)) {
+        snippets.push({ line: i + 1, text: lines[i].trim().slice(0, MAX_SNIPPET_LENGTH) })
+      }
+    }
+    return snippets
+  }
+}
+
+export const searchService = new SearchService()
+export default searchService
@@ -0,0 +1,120 @@
+// src/services/statsService.ts
+
+import { Principal } from '@dfinity/principal'
+import apiService from './api.js'
+import type { ContributorStats, LanguageShare, PlatformStats, RepositoryMetrics } from '../types/stats'
+
+class StatsService {
+  private getErrorMessage(error: unknown): string {
+    if (error instanceof Error) {
+      return error.message
+    }
+    if (typeof error === 'string') {
+      return error
+    }
+    if (error && typeof error === 'object' && 'message' in error) {
+      return String((error as { message: unknown }).message)
+    }
+    return 'Unknown error occurred'
+  }
+
+  private async ensureActor(): Promise<void> {
+    if (!apiService.actor) {
+      await apiService.init()
+    }
+  }
+
+  private optionalText(value: unknown): string | undefined {
+    if (Array.isArray(value)) {
+      return typeof value[0] === 'string' ? value[0] : undefined
+    }
+    return typeof value === 'string' ? value : undefined
+  }
+
+  // Contributors without a registered account are listed by principal only
+  private async withUserNames(contributors: ContributorStats[]): Promise<ContributorStats[]> {
+    return Promise.all(contributors.map(async contributor => {
+      try {
+        // The canister takes a Principal; agent-js rejects the text form
+        const result = await apiService.getUser(Principal.fromText(contributor.principal))
+        if (!result.success || !result.data) return contributor
+        return {
+          ...contributor,
+          username: result.data.username,
+          displayName: this.optionalText(result.data.profile.displayName)
+        }
+      } catch {
+        return contributor
+      }
+    }))
+  }
+
+  /**
+   * Get platform-wide repository and user totals
+   */
+  async getPlatformStats(): Promise<PlatformStats> {
+    try {
+      await this.ensureActor()
+      const result = await apiService.getGlobalStats()
+
+      if (result.success && result.data) {
+        const totalRepositories = Number(result.data.totalRepositories)
+        const publicRepositories = Number(result.data.publicRepositories)
+        return {
+          totalRepositories,
+          publicRepositories,
+          privateRepositories: totalRepositories - publicRepositories,
+          totalUsers: Number(result.data.totalUsers),
+          totalStars: Number(result.data.totalStars),
+          totalForks: Number(result.data.totalForks)
+        }
+      }
+
+      throw new Error(apiService.getErrorMessage(result.error || 'Failed to get platform stats'))
+    } catch (error) {
+      console.error('Get platform stats error:', this.getErrorMessage(error))
+      throw error
+    }
+  }
+
+  /**
+   * Get commit, branch, file, language and contributor metrics for one repository
+   */
+  async getRepositoryMetrics(repositoryId: string): Promise<RepositoryMetrics> {
+    try {
+      await this.ensureActor()
+      const result = await apiService.getRepositoryStats(repositoryId)
+
+      if (result.success && result.data) {
+        const stats = result.data
+        const totalBytes = stats.languageBytes.reduce((sum, [, bytes]) => sum + Number(bytes), 0)
+        const languages: LanguageShare[] = stats.languageBytes.map(([language, bytes]) => ({
+          language,
+          bytes: Number(bytes),
+          percentage: totalBytes > 0 ? (Number(bytes) / totalBytes) * 100 : 0
+        }))
+        const contributors = await this.withUserNames(stats.commitsByAuthor.map(([principal, commits]) => ({
+          principal: principal.toString(),
+          commits: Number(commits)
+        })))
+
+        return {
+          repositoryId,
+          totalCommits: Number(stats.totalCommits),
+          totalBranches: Number(stats.totalBranches),
+          totalFiles: Number(stats.totalFiles),
+          languages,
+          contributors
+        }
+      }
+
+      throw new Error(apiService.getErrorMessage(result.error || 'Failed to get repository stats'))
+    } catch (error) {
+      console.error('Get repository metrics error:', this.getErrorMessage(error))
+      throw error
+    }
+  }
+}
+
+export const statsService = new StatsService()
+export default statsService
@@ -0,0 +1,80 @@
+// src/services/userService.ts
+
+import { Principal } from '@dfinity/principal'
+import apiService, { type User } from './api.js'
+import type { UserDetails } from '../types/user'
+
+class UserService {
+  private getErrorMessage(error: unknown): string {
+    if (error instanceof Error) {
+      return error.message
+    }
+    if (typeof error === 'string') {
+      return error
+    }
+    if (error && typeof error === 'object' && 'message' in error) {
+      return String((error as { message: unknown }).message)
+    }
+    return 'Unknown error occurred'
+  }
+
+  private async ensureActor(): Promise<void> {
+    if (!apiService.actor) {
+      await apiService.init()
+    }
+  }
+
+  // Candid optionals arrive as [] | [value]
+  private optionalText(value: unknown): string | undefined {
+    if (Array.isArray(value)) {
+      return typeof value[0] === 'string' ? value[0] : undefined
+    }
+    return typeof value === 'string' ? value : undefined
+  }
+
+  private transformUser(user: User): UserDetails {
+    return {
+      principal: user.principal.toString(),
+      username: user.username,
+      displayName: this.optionalText(user.profile.displayName),
+      bio: this.optionalText(user.profile.bio),
+      avatar: this.optionalText(user.profile.avatar),
+      location: this.optionalText(user.profile.location),
+      website: this.optionalText(user.profile.website),
+      twitter: this.optionalText(user.profile.socialLinks?.twitter),
+      github: this.optionalText(user.profile.socialLinks?.github),
+      repositoryCount: user.repositories.length,
+      createdAt: Number(user.createdAt) / 1000000 // Convert from nanoseconds
+    }
+  }
+
+  /**
+   * Get a registered user by principal
+   */
+  async getUser(principal: string): Promise<UserDetails> {
+    try {
+      let user: Principal
+      try {
+        user = Principal.fromText(principal)
+      } catch {
+        throw new Error(`"${principal}" is not a valid principal`)
+      }
+
+      await this.ensureActor()
+
+      const result = await apiService.getUser(user)
+
+      if (result.success && result.data) {
+        return this.transformUser(result.data)
+      }
+
+      throw new Error(apiService.getErrorMessage(result.error || 'User not found'))
+    } catch (error) {
+      console.error('Get user error:', this.getErrorMessage(error))
+      throw error
+    }
+  }
+}
+
+export const userService = new UserService()
+export default userService
@@ -0,0 +1,20 @@
+// src/types/collaborator.ts
+
+export type CollaboratorRole = 'Read' | 'Write' | 'Admin' | 'Owner'
+
+export interface RepositoryCollaborator {
+  principal: string
+  username: string
+  displayName?: string
+  avatar?: string
+  role: CollaboratorRole
+  addedAt: number
+  addedBy: string
+}
+
+export interface UserSuggestion {
+  principal: string
+  username: string
+  displayName?: string
+  avatar?: string
+}
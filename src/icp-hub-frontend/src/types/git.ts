@@ -0,0 +1,90 @@
+// src/types/git.ts
+
+export interface GitBranch {
+  name: string
+  commitId: string
+  isDefault: boolean
+  createdAt: number
+  createdBy: string
+}
+
+export interface GitCommit {
+  id: string
+  message: string
+  author: string
+  timestamp: number
+  parentCommits: string[]
+  changedFiles: string[]
+  hash: string
+}
+
+export interface CommitHistory {
+  commits: GitCommit[]
+  totalCount: number
+  hasMore: boolean
+}
+
+export interface CommitHistoryOptions {
+  branch?: string
+  limit?: number
+  offset?: number
+}
+
+export type FileAction =
+  | { type: 'Add' }
+  | { type: 'Modify' }
+  | { type: 'Delete' }
+  | { type: 'Rename'; from: string; to: string }
+
+export interface FileDiff {
+  path: string
+  action: FileAction
+  oldContent?: string
+  newContent?: string
+  isBinary: boolean
+  additions: number
+  deletions: number
+}
+
+export interface BranchComparison {
+  ahead: number
+  behind: number
+  commits: GitCommit[]
+}
+
+export interface MergeRequestInput {
+  sourceBranch: string
+  targetBranch: string
+  title: string
+  description?: string
+}
+
+export interface MergeConflict {
+  path: string
+  baseContent?: string
+  sourceContent?: string
+  targetContent?: string
+  isBinary: boolean
+}
+
+export interface MergeResult {
+  success: boolean
+  commitId?: string
+  conflicts: MergeConflict[]
+}
+
+export interface GitFileChange {
+  path: string
+  // Text is encoded as UTF-8; omit for deletes
+  content?: string | Uint8Array
+  action: FileAction
+}
+
+export interface CommitInput {
+  branch: string
+  message: string
+  files: GitFileChange[]
+  parentCommit?: string
+  // Tip of the branch this commit merges in, recorded as a second parent
+  mergeParent?: string
+}
@@ -0,0 +1,74 @@
+// src/types/import.ts
+
+import type { GitFileChange } from './git'
+
+export type ArchiveFormat = 'zip' | 'tar' | 'tar.gz' | 'bundle'
+
+export interface ArchiveFile {
+  path: string
+  content: Uint8Array<ArrayBuffer>
+}
+
+export interface ArchiveCommit {
+  // Object id in the source repository
+  sha: string
+  message: string
+  author: string
+  authoredAt: string
+  changes: GitFileChange[]
+}
+
+export interface UnpackedArchive {
+  format: ArchiveFormat
+  // Suggested repository name, taken from the archive's top-level folder or file name
+  name: string
+  // The tree at the imported tip
+  files: ArchiveFile[]
+  // Oldest first; empty when the archive carries no history
+  commits: ArchiveCommit[]
+  sourceBranch?: string
+}
+
+export type ImportFileStatus = 'pending' | 'uploading' | 'done' | 'failed'
+
+export interface ImportFileProgress {
+  path: string
+  status: ImportFileStatus
+  error?: string
+}
+
+export interface ImportProgress {
+  stage: 'creating' | 'uploading' | 'complete'
+  totalFiles: number
+  completedFiles: number
+  failedFiles: number
+  // Set while replaying history
+  commitIndex?: number
+  commitCount?: number
+  commitMessage?: string
+}
+
+export interface ImportOptions {
+  name: string
+  description?: string
+  isPrivate: boolean
+}
+
+// Saved after every batch so an interrupted import can pick up where it stopped
+export interface ImportCheckpoint {
+  fingerprint: string
+  repositoryId: string
+  repositoryName: string
+  // Uploaded paths, or `<sha>#<part>` keys for replayed commits
+  completed: string[]
+  lastCommitId?: string
+  updatedAt: number
+}
+
+export interface ImportResult {
+  repositoryId: string
+  repositoryName: string
+  uploadedFiles: number
+  replayedCommits: number
+  failures: ImportFileProgress[]
+}
@@ -0,0 +1,127 @@
+// src/types/incentives.ts
+
+// Token amounts stay in base units (e8s) as bigint: supply figures exceed Number's safe range
+
+export interface TokenInfo {
+  symbol: string
+  name: string
+  decimals: number
+  totalSupply: bigint
+  circulatingSupply: bigint
+}
+
+export interface StakePosition {
+  amount: bigint
+  stakedAt: number
+  lockPeriodDays: number
+  unlocksAt: number
+  // APY in percent, fixed when the position was opened
+  rewardRate: number
+  accumulatedRewards: bigint
+  lastClaimAt: number
+}
+
+export type BountyStatus =
+  | 'Open'
+  | 'Assigned'
+  | 'InProgress'
+  | 'UnderReview'
+  | 'Completed'
+  | 'Cancelled'
+  | 'Expired'
+
+export type DifficultyLevel = 'Beginner' | 'Intermediate' | 'Advanced' | 'Expert'
+
+export type SubmissionStatus = 'Pending' | 'Approved' | 'Rejected' | 'RequiresChanges'
+
+export interface BountySubmission {
+  id: string
+  submittedBy: string
+  submittedAt: number
+  // Source branch of the submitted work, if one was linked
+  branch?: string
+  commitIds: string[]
+  description: string
+  status: SubmissionStatus
+  reviewedBy?: string
+  reviewNotes?: string
+}
+
+export interface Bounty {
+  id: string
+  repositoryId: string
+  title: string
+  description: string
+  amount: bigint
+  currency: string
+  createdBy: string
+  createdAt: number
+  expiresAt?: number
+  status: BountyStatus
+  assignedTo?: string
+  requirements: string[]
+  tags: string[]
+  difficulty: DifficultyLevel
+  submissions: BountySubmission[]
+}
+
+export interface BountyFilters {
+  repositoryId?: string
+  status?: BountyStatus
+}
+
+export interface CreateBountyInput {
+  repositoryId: string
+  title: string
+  description: string
+  amount: bigint
+  requirements: string[]
+  difficulty: DifficultyLevel
+  expiresInDays?: number
+}
+
+export interface SubmitBountyInput {
+  bountyId: string
+  branch?: string
+  commitIds: string[]
+  description: string
+}
+
+export type BadgeCategory = 'Contributor' | 'Reviewer' | 'Maintainer' | 'Security' | 'Community' | 'Special'
+
+export interface Badge {
+  id: string
+  name: string
+  description: string
+  icon: string
+  earnedAt: number
+  category: BadgeCategory
+}
+
+export interface LeaderboardEntry {
+  rank: number
+  principal: string
+  username: string
+  totalEarned: bigint
+  contributionCount: number
+  averageImpact: number
+  badges: Badge[]
+}
+
+export interface LeaderboardFilters {
+  repositoryId?: string
+  // Only count activity from the last N days; all time when omitted
+  days?: number
+  limit?: number
+}
+
+// One user's contributions to a single repository
+export interface ContributionBreakdown {
+  repositoryId: string
+  commits: number
+  pullRequests: number
+  issuesResolved: number
+  reviews: number
+  impactScore: number
+  lastUpdated: number
+}
@@ -1,3 +1,6 @@
 // Export all types from a central location
 export * from './repository'
-export * from './search' 
\ No newline at end of file
+export * from './search'
+export * from './git'
+export * from './collaborator'
+export * from './user'
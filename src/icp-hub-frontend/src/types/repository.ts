@@ -6,7 +6,7 @@ export interface Repository {
   description?: string
   owner: string
   isPrivate: boolean
-  visibility?: 'public' | 'private'  
+  visibility?: RepositoryVisibility
   stars: number
   forks: number
   watchers: number
@@ -19,6 +19,20 @@ export interface Repository {
   chains?: string[]
   size: number
   cloneUrl?: string
+  settings?: RepositorySettings
+}
+
+export type RepositoryVisibility = 'public' | 'private' | 'internal'
+
+export interface RepositorySettings {
+  defaultBranch: string
+  allowForking: boolean
+  allowIssues: boolean
+  allowWiki: boolean
+  allowProjects: boolean
+  visibility: RepositoryVisibility
+  license?: string
+  topics: string[]
 }
 
 export interface RepositoryFilters {
@@ -52,6 +66,10 @@ export interface CreateRepositoryRequest {
   autoDeployEnabled?: boolean
 }
 
+export interface UpdateRepositoryRequest extends Partial<CreateRepositoryRequest> {
+  settings?: RepositorySettings
+}
+
 // File-related types
 export interface FileEntry {
   path: string
@@ -71,6 +89,9 @@ export interface FileEntry {
   targetChain?: string
 }
 
+// A file's details without its content, as the canister's listFileInfo returns them
+export type FileInfo = Omit<FileEntry, 'content'>
+
 export interface FileNode {
   path: string
   name: string
@@ -98,7 +119,7 @@ export interface CreateFolderRequest {
 export interface UploadFileRequest {
   repositoryId: string
   path: string
-  content: number[]
+  content: number[] | Uint8Array
   commitMessage: string
   branch?: string | undefined  // Make branch truly optional
 }
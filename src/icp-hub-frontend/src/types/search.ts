@@ -1,5 +1,11 @@
 export type SearchType = 'all' | 'code' | 'users' | 'files' | 'repository'
 
+// A matching line from a file; line is 1-based, or 0 when the canister's snippet couldn't be placed
+export interface SearchSnippet {
+  line: number
+  text: string
+}
+
 export interface SearchResult {
   id: string
   title: string
@@ -7,4 +13,77 @@ export interface SearchResult {
   type: SearchType
   url: string
   metadata?: Record<string, any>
+  // What the result opens in the app
+  repositoryId?: string
+  path?: string
+  isFolder?: boolean
+  principal?: string
+  snippets?: SearchSnippet[]
+}
+
+export interface SearchPage {
+  results: SearchResult[]
+  totalCount: number
+  hasMore: boolean
+  page: number
+}
+
+export type SearchSort = 'relevance' | 'name' | 'created' | 'updated' | 'stars' | 'size'
+
+// Narrow repository results; every field is optional and unset means "any"
+export interface SearchFilters {
+  // Principal text
+  owner?: string
+  language?: string
+  visibility?: 'public' | 'private'
+  // Bytes
+  minSize?: number
+  maxSize?: number
+  // Calendar dates, YYYY-MM-DD, both inclusive
+  createdAfter?: string
+  createdBefore?: string
+  sort?: SearchSort
+}
+
+// Everything needed to repeat a search, as stored in a shareable URL
+export interface SearchState {
+  query: string
+  type: SearchType
+  filters: SearchFilters
+}
+
+export type SuggestionKind = 'repository' | 'user' | 'file'
+
+// An auto-complete entry for the search box
+export interface SearchSuggestion {
+  text: string
+  kind: SuggestionKind
+}
+
+// How a query is matched when searching inside one repository
+export interface CodeSearchOptions {
+  regex: boolean
+  caseSensitive: boolean
+}
+
+// A line containing a match; ranges are [start, end) offsets into text
+export interface LineMatch {
+  line: number
+  text: string
+  ranges: [number, number][]
+}
+
+export interface RepositorySearchHit {
+  path: string
+  isFolder: boolean
+  pathMatches: boolean
+  // The first few matching lines, with the count of all of them
+  matches: LineMatch[]
+  matchCount: number
+}
+
+export interface RepositorySearchPage {
+  hits: RepositorySearchHit[]
+  hasMore: boolean
+  page: number
 }
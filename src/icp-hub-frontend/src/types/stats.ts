@@ -0,0 +1,33 @@
+// src/types/stats.ts
+
+export interface PlatformStats {
+  totalRepositories: number
+  publicRepositories: number
+  privateRepositories: number
+  totalUsers: number
+  totalStars: number
+  totalForks: number
+}
+
+export interface LanguageShare {
+  language: string
+  bytes: number
+  // Share of the repository's source bytes, 0-100
+  percentage: number
+}
+
+export interface ContributorStats {
+  principal: string
+  username?: string
+  displayName?: string
+  commits: number
+}
+
+export interface RepositoryMetrics {
+  repositoryId: string
+  totalCommits: number
+  totalBranches: number
+  totalFiles: number
+  languages: LanguageShare[]
+  contributors: ContributorStats[]
+}
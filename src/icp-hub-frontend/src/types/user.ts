@@ -0,0 +1,14 @@
+export interface UserDetails {
+  principal: string
+  username: string
+  displayName?: string
+  bio?: string
+  avatar?: string
+  location?: string
+  website?: string
+  twitter?: string
+  github?: string
+  repositoryCount: number
+  // Milliseconds since the epoch
+  createdAt: number
+}
@@ -0,0 +1,475 @@
+// Readers for the archives accepted by the GitHub import: ZIP and tar(.gz) downloads,
+// and git bundles (`git bundle create repo.bundle --all`), which also carry history.
+
+import type { GitFileChange } from '../types/git'
+import type { ArchiveCommit, ArchiveFile, ArchiveFormat, UnpackedArchive } from '../types/import'
+import { inflateRaw, inflateZlib } from './inflate'
+
+export type GitObjectType = 'commit' | 'tree' | 'blob' | 'tag'
+
+interface GitObject {
+  type: GitObjectType
+  data: Uint8Array<ArrayBuffer>
+}
+
+interface TreeEntry {
+  sha: string
+  isTree: boolean
+}
+
+const textDecoder = new TextDecoder()
+const GIT_OBJECT_TYPES: Record<number, GitObjectType> = { 1: 'commit', 2: 'tree', 3: 'blob', 4: 'tag' }
+// Tried in order when a bundle has no HEAD
+const DEFAULT_BRANCHES = ['refs/heads/main', 'refs/heads/master']
+
+const readUint16 = (bytes: Uint8Array, at: number) => bytes[at] | (bytes[at + 1] << 8)
+const readUint32 = (bytes: Uint8Array, at: number) => (readUint16(bytes, at) | (readUint16(bytes, at + 2) << 16)) >>> 0
+const readUint32BE = (bytes: Uint8Array, at: number) =>
+  ((bytes[at] << 24) | (bytes[at + 1] << 16) | (bytes[at + 2] << 8) | bytes[at + 3]) >>> 0
+
+export const toHex = (bytes: Uint8Array) => Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('')
+
+const startsWith = (bytes: Uint8Array, prefix: string, at = 0) =>
+  Array.from(prefix).every((char, i) => bytes[at + i] === char.charCodeAt(0))
+
+export const detectArchiveFormat = (bytes: Uint8Array): ArchiveFormat | null => {
+  if (startsWith(bytes, '# v2 git bundle\n') || startsWith(bytes, '# v3 git bundle\n')) return 'bundle'
+  if (startsWith(bytes, 'PK\x03\x04') || startsWith(bytes, 'PK\x05\x06')) return 'zip'
+  if (bytes[0] === 0x1f && bytes[1] === 0x8b) return 'tar.gz'
+  if (startsWith(bytes, 'ustar', 257)) return 'tar'
+  return null
+}
+
+// Archive paths are untrusted: drop anything that could escape the repository root
+const normalizePath = (path: string): string | null => {
+  const segments = path.replace(/\\/g, '/').split('/').filter(segment => segment && segment !== '.')
+  if (segments.length === 0 || segments.includes('..')) return null
+  if (segments[0] === '.git' || segments[0] === '__MACOSX') return null
+  return segments.join('/')
+}
+
+// GitHub wraps downloads in a single `<repo>-<ref>/` folder
+const stripSharedRoot = (files: ArchiveFile[]): ArchiveFile[] => {
+  if (files.length === 0) return files
+  const root = files[0].path.split('/')[0]
+  const shared = files.every(file => file.path.startsWith(`${root}/`))
+  return shared ? files.map(file => ({ ...file, path: file.path.slice(root.length + 1) })) : files
+}
+
+const suggestRepositoryName = (fileName: string) =>
+  fileName
+    .replace(/\.(zip|tar\.gz|tgz|tar|bundle|git)$/i, '')
+    .replace(/-(main|master)$/, '')
+    .replace(/[^A-Za-z0-9._-]+/g, '-')
+
+const readZip = (bytes: Uint8Array): ArchiveFile[] => {
+  // The end-of-central-directory record sits in the last 64 KB, before an optional comment
+  let eocd = -1
+  for (let at = bytes.length - 22; at >= Math.max(0, bytes.length - 65557); at--) {
+    if (readUint32(bytes, at) === 0x06054b50) {
+      eocd = at
+      break
+    }
+  }
+  if (eocd < 0) throw new Error('This ZIP archive is damaged or incomplete')
+
+  const entryCount = readUint16(bytes, eocd + 10)
+  let at = readUint32(bytes, eocd + 16)
+  if (entryCount === 0xffff || at === 0xffffffff) throw new Error('ZIP64 archives are not supported')
+
+  const files: ArchiveFile[] = []
+  for (let i = 0; i < entryCount; i++) {
+    if (readUint32(bytes, at) !== 0x02014b50) throw new Error('This ZIP archive is damaged or incomplete')
+    const flags = readUint16(bytes, at + 8)
+    const method = readUint16(bytes, at + 10)
+    const compressedSize = readUint32(bytes, at + 20)
+    const size = readUint32(bytes, at + 24)
+    const nameLength = readUint16(bytes, at + 28)
+    const extraLength = readUint16(bytes, at + 30)
+    const commentLength = readUint16(bytes, at + 32)
+    const localHeader = readUint32(bytes, at + 42)
+    const rawName = textDecoder.decode(bytes.subarray(at + 46, at + 46 + nameLength))
+    at += 46 + nameLength + extraLength + commentLength
+
+    const path = rawName.endsWith('/') ? null : normalizePath(rawName)
+    if (!path) continue
+    if (flags & 0x01) throw new Error(`${rawName} is encrypted; export the archive without a password`)
+
+    const dataStart = localHeader + 30 + readUint16(bytes, localHeader + 26) + readUint16(bytes, localHeader + 28)
+    const compressed = bytes.subarray(dataStart, dataStart + compressedSize)
+    let content: Uint8Array<ArrayBuffer>
+    if (method === 0) {
+      content = compressed.slice()
+    } else if (method === 8) {
+      content = inflateRaw(compressed, 0, size).data
+    } else {
+      throw new Error(`${rawName} uses an unsupported ZIP compression method`)
+    }
+    if (content.length !== size) throw new Error(`${rawName} could not be extracted`)
+    files.push({ path, content })
+  }
+  return files
+}
+
+const gunzip = (bytes: Uint8Array): Uint8Array<ArrayBuffer> => {
+  const flags = bytes[3]
+  let at = 10
+  if (flags & 0x04) at += 2 + readUint16(bytes, at)
+  if (flags & 0x08) at = bytes.indexOf(0, at) + 1
+  if (flags & 0x10) at = bytes.indexOf(0, at) + 1
+  if (flags & 0x02) at += 2
+  return inflateRaw(bytes, at).data
+}
+
+const readTarString = (bytes: Uint8Array, at: number, length: number) => {
+  const field = bytes.subarray(at, at + length)
+  const end = field.indexOf(0)
+  return textDecoder.decode(end < 0 ? field : field.subarray(0, end))
+}
+
+const readTar = (bytes: Uint8Array): ArchiveFile[] => {
+  const files: ArchiveFile[] = []
+  // Set by pax and GNU long-name headers for the entry that follows them
+  let longName: string | null = null
+
+  for (let at = 0; at + 512 <= bytes.length;) {
+    const name = readTarString(bytes, at, 100)
+    if (!name) break
+
+    const size = parseInt(readTarString(bytes, at + 124, 12).trim() || '0', 8)
+    const type = String.fromCharCode(bytes[at + 156] || 0x30)
+    const prefix = startsWith(bytes, 'ustar', at + 257) ? readTarString(bytes, at + 345, 155) : ''
+    const content = bytes.subarray(at + 512, at + 512 + size)
+    at += 512 + Math.ceil(size / 512) * 512
+
+    if (type === 'x') {
+      const record = textDecoder.decode(content).match(/(?:^|\n)\d+ path=([^\n]*)/)
+      longName = record ? record[1] : longName
+      continue
+    }
+    if (type === 'L') {
+      longName = readTarString(content, 0, content.length)
+      continue
+    }
+
+    const fullName = longName ?? (prefix ? `${prefix}/${name}` : name)
+    longName = null
+    // Regular files only; directories are implied and links are skipped
+    if (type !== '0' && type !== '7') continue
+    const path = normalizePath(fullName)
+    if (path) files.push({ path, content: content.slice() })
+  }
+  return files
+}
+
+const applyDelta = (base: Uint8Array, delta: Uint8Array): Uint8Array<ArrayBuffer> => {
+  let at = 0
+  const readSize = () => {
+    let size = 0
+    let shift = 0
+    let byte: number
+    do {
+      byte = delta[at++]
+      size += (byte & 0x7f) * 2 ** shift
+      shift += 7
+    } while (byte & 0x80)
+    return size
+  }
+
+  if (readSize() !== base.length) throw new Error('Bundle contains a corrupt delta')
+  const result = new Uint8Array(readSize())
+  let written = 0
+
+  while (at < delta.length) {
+    const op = delta[at++]
+    if (op & 0x80) {
+      // Copy from the base; each flag bit says whether that offset/size byte is present
+      let offset = 0
+      let size = 0
+      for (let i = 0; i < 4; i++) {
+        if (op & (1 << i)) offset += delta[at++] * 2 ** (8 * i)
+      }
+      for (let i = 0; i < 3; i++) {
+        if (op & (0x10 << i)) size |= delta[at++] << (8 * i)
+      }
+      if (size === 0) size = 0x10000
+      result.set(base.subarray(offset, offset + size), written)
+      written += size
+    } else if (op) {
+      result.set(delta.subarray(at, at + op), written)
+      at += op
+      written += op
+    } else {
+      throw new Error('Bundle contains a corrupt delta')
+    }
+  }
+
+  if (written !== result.length) throw new Error('Bundle contains a corrupt delta')
+  return result
+}
+
+// Git object ids are the SHA-1 of a `<type> <size>\0` header followed by the content
+export const hashGitObject = async (type: GitObjectType, data: Uint8Array) => {
+  const header = new TextEncoder().encode(`${type} ${data.length}\0`)
+  const buffer = new Uint8Array(header.length + data.length)
+  buffer.set(header)
+  buffer.set(data, header.length)
+  return toHex(new Uint8Array(await crypto.subtle.digest('SHA-1', buffer)))
+}
+
+interface PackEntry {
+  offset: number
+  type: GitObjectType | 'ofs-delta' | 'ref-delta'
+  data: Uint8Array<ArrayBuffer>
+  baseOffset?: number
+  baseSha?: string
+}
+
+const readPack = async (bytes: Uint8Array, start: number): Promise<Map<string, GitObject>> => {
+  if (!startsWith(bytes, 'PACK', start)) throw new Error('Bundle does not contain a packfile')
+  const version = readUint32BE(bytes, start + 4)
+  if (version !== 2 && version !== 3) throw new Error(`Unsupported packfile version ${version}`)
+  const count = readUint32BE(bytes, start + 8)
+
+  const entries: PackEntry[] = []
+  let at = start + 12
+  for (let i = 0; i < count; i++) {
+    const offset = at
+    let byte = bytes[at++]
+    const typeId = (byte >> 4) & 0x07
+    let size = byte & 0x0f
+    let shift = 4
+    while (byte & 0x80) {
+      byte = bytes[at++]
+      size += (byte & 0x7f) * 2 ** shift
+      shift += 7
+    }
+
+    const entry: Partial<PackEntry> = { offset }
+    if (typeId === 6) {
+      byte = bytes[at++]
+      let distance = byte & 0x7f
+      while (byte & 0x80) {
+        byte = bytes[at++]
+        distance = (distance + 1) * 128 + (byte & 0x7f)
+      }
+      entry.type = 'ofs-delta'
+      entry.baseOffset = offset - distance
+    } else if (typeId === 7) {
+      entry.type = 'ref-delta'
+      entry.baseSha = toHex(bytes.subarray(at, at + 20))
+      at += 20
+    } else if (GIT_OBJECT_TYPES[typeId]) {
+      entry.type = GIT_OBJECT_TYPES[typeId]
+    } else {
+      throw new Error(`Bundle contains an unknown object type ${typeId}`)
+    }
+
+    const { data, end } = inflateZlib(bytes, at, size)
+    entry.data = data
+    at = end
+    entries.push(entry as PackEntry)
+  }
+
+  // Deltas may point at objects later in the pack, so resolve in passes
+  const byOffset = new Map<number, GitObject>()
+  const bySha = new Map<string, GitObject>()
+  let pending = entries
+  while (pending.length > 0) {
+    const unresolved: PackEntry[] = []
+    for (const entry of pending) {
+      let object: GitObject
+      if (entry.type === 'ofs-delta' || entry.type === 'ref-delta') {
+        const base = entry.type === 'ofs-delta' ? byOffset.get(entry.baseOffset!) : bySha.get(entry.baseSha!)
+        if (!base) {
+          unresolved.push(entry)
+          continue
+        }
+        object = { type: base.type, data: applyDelta(base.data, entry.data) }
+      } else {
+        object = { type: entry.type, data: entry.data }
+      }
+      byOffset.set(entry.offset, object)
+      bySha.set(await hashGitObject(object.type, object.data), object)
+    }
+    if (unresolved.length === pending.length) throw new Error('Bundle is missing objects its deltas depend on')
+    pending = unresolved
+  }
+  return bySha
+}
+
+const parseCommit = (data: Uint8Array) => {
+  const text = textDecoder.decode(data)
+  const headerEnd = text.indexOf('\n\n')
+  const header = headerEnd < 0 ? text : text.slice(0, headerEnd)
+  const commit = {
+    tree: '',
+    parents: [] as string[],
+    author: 'unknown',
+    authoredAt: new Date(0).toISOString(),
+    message: headerEnd < 0 ? '' : text.slice(headerEnd + 2).trim()
+  }
+
+  for (const line of header.split('\n')) {
+    const space = line.indexOf(' ')
+    const key = line.slice(0, space)
+    const value = line.slice(space + 1)
+    if (key === 'tree') commit.tree = value
+    if (key === 'parent') commit.parents.push(value)
+    if (key === 'author') {
+      const match = value.match(/^(.*) (\d+) [+-]\d{4}$/)
+      commit.author = match ? match[1] : value
+      if (match) commit.authoredAt = new Date(Number(match[2]) * 1000).toISOString()
+    }
+  }
+  return commit
+}
+
+const readTree = (objects: Map<string, GitObject>, sha: string | undefined): Map<string, TreeEntry> => {
+  const entries = new Map<string, TreeEntry>()
+  if (!sha) return entries
+  const object = objects.get(sha)
+  if (!object || object.type !== 'tree') throw new Error(`Bundle is missing tree ${sha}`)
+
+  const data = object.data
+  for (let at = 0; at < data.length;) {
+    const space = data.indexOf(0x20, at)
+    const nul = data.indexOf(0, space)
+    const mode = textDecoder.decode(data.subarray(at, space))
+    const name = textDecoder.decode(data.subarray(space + 1, nul))
+    const entrySha = toHex(data.subarray(nul + 1, nul + 21))
+    at = nul + 21
+    // Submodules point at commits in other repositories and can't be imported
+    if (mode === '160000') continue
+    entries.set(name, { sha: entrySha, isTree: mode === '40000' })
+  }
+  return entries
+}
+
+// Walks two trees together, skipping subtrees whose hashes match
+const diffTrees = (
+  objects: Map<string, GitObject>,
+  oldTree: string | undefined,
+  newTree: string | undefined,
+  prefix: string,
+  changes: GitFileChange[]
+) => {
+  if (oldTree === newTree) return
+  const oldEntries = readTree(objects, oldTree)
+  const newEntries = readTree(objects, newTree)
+
+  const blob = (sha: string) => {
+    const object = objects.get(sha)
+    if (!object || object.type !== 'blob') throw new Error(`Bundle is missing file contents ${sha}`)
+    return object.data
+  }
+
+  for (const [name, entry] of newEntries) {
+    const path = prefix + name
+    const old = oldEntries.get(name)
+    if (entry.isTree) {
+      if (old && !old.isTree) changes.push({ path, action: { type: 'Delete' } })
+      diffTrees(objects, old?.isTree ? old.sha : undefined, entry.sha, `${path}/`, changes)
+    } else {
+      if (old?.isTree) diffTrees(objects, old.sha, undefined, `${path}/`, changes)
+      if (!old || old.isTree) {
+        changes.push({ path, content: blob(entry.sha), action: { type: 'Add' } })
+      } else if (old.sha !== entry.sha) {
+        changes.push({ path, content: blob(entry.sha), action: { type: 'Modify' } })
+      }
+    }
+  }
+
+  for (const [name, old] of oldEntries) {
+    if (newEntries.has(name)) continue
+    if (old.isTree) {
+      diffTrees(objects, old.sha, undefined, `${prefix}${name}/`, changes)
+    } else {
+      changes.push({ path: prefix + name, action: { type: 'Delete' } })
+    }
+  }
+}
+
+const readBundle = async (bytes: Uint8Array) => {
+  const refs = new Map<string, string>()
+  let at = bytes.indexOf(0x0a) + 1
+
+  // Header lines end at an empty line, which is followed directly by the packfile
+  while (bytes[at] !== 0x0a) {
+    const end = bytes.indexOf(0x0a, at)
+    if (end < 0) throw new Error('Bundle header is incomplete')
+    const line = textDecoder.decode(bytes.subarray(at, end))
+    at = end + 1
+    if (line.startsWith('-')) {
+      throw new Error('This bundle only contains recent history; create it with `git bundle create <file> --all`')
+    }
+    if (line.startsWith('@')) continue
+    const [sha, ref] = line.split(' ')
+    refs.set(ref, sha)
+  }
+
+  const objects = await readPack(bytes, at + 1)
+
+  const branch = (refs.has('HEAD') ? 'HEAD' : undefined)
+    ?? DEFAULT_BRANCHES.find(ref => refs.has(ref))
+    ?? [...refs.keys()].find(ref => ref.startsWith('refs/heads/'))
+    ?? [...refs.keys()][0]
+  if (!branch) throw new Error('Bundle has no branches')
+
+  // Annotated tags wrap the commit they point at
+  let tip = refs.get(branch)!
+  while (objects.get(tip)?.type === 'tag') {
+    tip = textDecoder.decode(objects.get(tip)!.data).match(/^object ([0-9a-f]{40})/)?.[1] ?? ''
+  }
+  if (objects.get(tip)?.type !== 'commit') throw new Error(`Bundle is missing the commit for ${branch}`)
+
+  // Replay the first-parent line, which is what the branch looked like over time
+  const line: string[] = []
+  for (let sha: string | undefined = tip; sha && objects.get(sha)?.type === 'commit';) {
+    line.push(sha)
+    sha = parseCommit(objects.get(sha)!.data).parents[0]
+  }
+  line.reverse()
+
+  const commits: ArchiveCommit[] = []
+  let previousTree: string | undefined
+  for (const sha of line) {
+    const commit = parseCommit(objects.get(sha)!.data)
+    const changes: GitFileChange[] = []
+    diffTrees(objects, previousTree, commit.tree, '', changes)
+    previousTree = commit.tree
+    commits.push({ sha, message: commit.message, author: commit.author, authoredAt: commit.authoredAt, changes })
+  }
+
+  const tipFiles: GitFileChange[] = []
+  diffTrees(objects, undefined, previousTree, '', tipFiles)
+  const files = tipFiles.map(change => ({ path: change.path, content: change.content as Uint8Array<ArrayBuffer> }))
+
+  // Report the branch HEAD is on rather than HEAD itself
+  const headBranch = branch === 'HEAD'
+    ? [...DEFAULT_BRANCHES, ...refs.keys()].find(ref => ref.startsWith('refs/heads/') && refs.get(ref) === refs.get('HEAD'))
+    : branch
+  return { files, commits, sourceBranch: (headBranch ?? branch).replace(/^refs\/heads\//, '') }
+}
+
+/**
+ * Unpack an archive in the browser into the files (and, for bundles, the commits) to import
+ */
+export const readArchive = async (file: File): Promise<UnpackedArchive> => {
+  const bytes = new Uint8Array(await file.arrayBuffer())
+  const format = detectArchiveFormat(bytes)
+  const name = suggestRepositoryName(file.name)
+
+  switch (format) {
+    case 'bundle':
+      return { format, name, ...(await readBundle(bytes)) }
+    case 'zip':
+      return { format, name, files: stripSharedRoot(readZip(bytes)), commits: [] }
+    case 'tar':
+      return { format, name, files: stripSharedRoot(readTar(bytes)), commits: [] }
+    case 'tar.gz':
+      return { format, name, files: stripSharedRoot(readTar(gunzip(bytes))), commits: [] }
+    default:
+      throw new Error('Unsupported archive. Use a .zip or .tar.gz download, or a git bundle')
+  }
+}
@@ -0,0 +1,223 @@
+// Writers for repository exports: ZIP archives, and git bundles that `git clone` accepts.
+
+import type { ArchiveFile } from '../types/import'
+import { hashGitObject, type GitObjectType } from './archive'
+
+export interface BundleCommit {
+  message: string
+  author: string
+  // Milliseconds since the epoch
+  timestamp: number
+  changedFiles: string[]
+}
+
+export interface BundleOptions {
+  files: ArchiveFile[]
+  // Oldest first
+  history: BundleCommit[]
+  branch: string
+  exportedBy: string
+}
+
+interface TreeNode {
+  files: Map<string, string>
+  folders: Map<string, TreeNode>
+}
+
+const textEncoder = new TextEncoder()
+const PACK_TYPE_IDS: Record<GitObjectType, number> = { commit: 1, tree: 2, blob: 3, tag: 4 }
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256)
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+    table[n] = c >>> 0
+  }
+  return table
+})()
+
+const crc32 = (bytes: Uint8Array) => {
+  let crc = 0xffffffff
+  for (const byte of bytes) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8)
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+const compress = async (bytes: Uint8Array<ArrayBuffer>, format: CompressionFormat) => {
+  const stream = new Blob([bytes]).stream().pipeThrough(new CompressionStream(format))
+  return new Uint8Array(await new Response(stream).arrayBuffer())
+}
+
+const fromHex = (hex: string) => new Uint8Array(hex.match(/../g)!.map(pair => parseInt(pair, 16)))
+
+// Builds a fixed-size little-endian record, like a ZIP header
+const record = (size: number, write: (view: DataView) => void) => {
+  const bytes = new Uint8Array(size)
+  write(new DataView(bytes.buffer))
+  return bytes
+}
+
+const dosDateTime = (date: Date) => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+  date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+})
+
+/**
+ * Build a ZIP archive, with every file under `root/` the way GitHub downloads are laid out
+ */
+export const createZip = async (files: ArchiveFile[], root: string): Promise<Blob> => {
+  if (files.length > 0xffff) throw new Error('Too many files for a ZIP archive')
+
+  const { time, date } = dosDateTime(new Date())
+  const entries: Uint8Array<ArrayBuffer>[] = []
+  const directory: Uint8Array<ArrayBuffer>[] = []
+  let offset = 0
+  let directorySize = 0
+
+  for (const file of files) {
+    const name = textEncoder.encode(`${root}/${file.path}`)
+    const crc = crc32(file.content)
+    const deflated = file.content.length > 0 ? await compress(file.content, 'deflate-raw') : file.content
+    // Already-compressed files are smaller stored as they are
+    const method = deflated.length < file.content.length ? 8 : 0
+    const data = method === 8 ? deflated : file.content
+
+    const localHeader = record(30, view => {
+      view.setUint32(0, 0x04034b50, true)
+      view.setUint16(4, 20, true)
+      view.setUint16(6, 0x0800, true) // UTF-8 names
+      view.setUint16(8, method, true)
+      view.setUint16(10, time, true)
+      view.setUint16(12, date, true)
+      view.setUint32(14, crc, true)
+      view.setUint32(18, data.length, true)
+      view.setUint32(22, file.content.length, true)
+      view.setUint16(26, name.length, true)
+    })
+    const centralHeader = record(46, view => {
+      view.setUint32(0, 0x02014b50, true)
+      view.setUint16(4, 20, true)
+      view.setUint16(6, 20, true)
+      view.setUint16(8, 0x0800, true)
+      view.setUint16(10, method, true)
+      view.setUint16(12, time, true)
+      view.setUint16(14, date, true)
+      view.setUint32(16, crc, true)
+      view.setUint32(20, data.length, true)
+      view.setUint32(24, file.content.length, true)
+      view.setUint16(28, name.length, true)
+      view.setUint32(42, offset, true)
+    })
+
+    entries.push(localHeader, name, data)
+    directory.push(centralHeader, name)
+    offset += localHeader.length + name.length + data.length
+    directorySize += centralHeader.length + name.length
+    if (offset > 0xffffffff) throw new Error('Repository is too large for a ZIP archive')
+  }
+
+  const end = record(22, view => {
+    view.setUint32(0, 0x06054b50, true)
+    view.setUint16(8, files.length, true)
+    view.setUint16(10, files.length, true)
+    view.setUint32(12, directorySize, true)
+    view.setUint32(16, offset, true)
+  })
+  return new Blob([...entries, ...directory, end], { type: 'application/zip' })
+}
+
+/**
+ * Build a git bundle of `branch`. The canister only keeps the latest version of each file, so
+ * every commit in `history` is rebuilt from the current contents of the files it changed, and a
+ * final snapshot commit brings the tree in line with the repository when they differ.
+ */
+export const createBundle = async ({ files, history, branch, exportedBy }: BundleOptions): Promise<Blob> => {
+  const objects = new Map<string, { type: GitObjectType; data: Uint8Array<ArrayBuffer> }>()
+  const store = async (type: GitObjectType, data: Uint8Array<ArrayBuffer>) => {
+    const sha = await hashGitObject(type, data)
+    objects.set(sha, { type, data })
+    return sha
+  }
+
+  const blobs = new Map<string, string>()
+  for (const file of files) {
+    blobs.set(file.path, await store('blob', file.content))
+  }
+
+  const storeTree = async (node: TreeNode): Promise<string> => {
+    const entries: { name: string; mode: string; sha: string; sortKey: string }[] = []
+    for (const [name, folder] of node.folders) {
+      entries.push({ name, mode: '40000', sha: await storeTree(folder), sortKey: `${name}/` })
+    }
+    for (const [name, sha] of node.files) {
+      entries.push({ name, mode: '100644', sha, sortKey: name })
+    }
+    // Git orders folders as if their names ended in a slash
+    entries.sort((a, b) => (a.sortKey < b.sortKey ? -1 : a.sortKey > b.sortKey ? 1 : 0))
+
+    const parts = entries.flatMap(entry => [textEncoder.encode(`${entry.mode} ${entry.name}\0`), fromHex(entry.sha)])
+    return store('tree', new Uint8Array(await new Blob(parts).arrayBuffer()))
+  }
+
+  const writeTree = (paths: Iterable<string>) => {
+    const root: TreeNode = { files: new Map(), folders: new Map() }
+    for (const path of paths) {
+      const segments = path.split('/')
+      let node = root
+      for (const segment of segments.slice(0, -1)) {
+        if (!node.folders.has(segment)) node.folders.set(segment, { files: new Map(), folders: new Map() })
+        node = node.folders.get(segment)!
+      }
+      node.files.set(segments[segments.length - 1], blobs.get(path)!)
+    }
+    return storeTree(root)
+  }
+
+  const writeCommit = (tree: string, parent: string | undefined, message: string, author: string, timestamp: number) => {
+    const signature = `${author} <${author}@openkeyhub> ${Math.floor(timestamp / 1000)} +0000`
+    const text = [
+      `tree ${tree}`,
+      ...(parent ? [`parent ${parent}`] : []),
+      `author ${signature}`,
+      `committer ${signature}`,
+      '',
+      `${message.trimEnd()}\n`
+    ].join('\n')
+    return store('commit', textEncoder.encode(text))
+  }
+
+  const present = new Set<string>()
+  let tip: string | undefined
+  let tipTree: string | undefined
+  for (const commit of history) {
+    commit.changedFiles.filter(path => blobs.has(path)).forEach(path => present.add(path))
+    tipTree = await writeTree(present)
+    tip = await writeCommit(tipTree, tip, commit.message, commit.author, commit.timestamp)
+  }
+
+  const finalTree = await writeTree(blobs.keys())
+  if (!tip || finalTree !== tipTree) {
+    tip = await writeCommit(finalTree, tip, 'Export snapshot', exportedBy, Date.now())
+  }
+
+  const pack: Uint8Array<ArrayBuffer>[] = [
+    textEncoder.encode('PACK'),
+    record(8, view => {
+      view.setUint32(0, 2)
+      view.setUint32(4, objects.size)
+    })
+  ]
+  for (const { type, data } of objects.values()) {
+    // Type and size share a variable-length header: 3 type bits, then 4 + 7n size bits
+    const header = [(PACK_TYPE_IDS[type] << 4) | (data.length & 0x0f)]
+    for (let size = Math.floor(data.length / 16); size > 0; size = Math.floor(size / 128)) {
+      header[header.length - 1] |= 0x80
+      header.push(size & 0x7f)
+    }
+    pack.push(new Uint8Array(header), await compress(data, 'deflate'))
+  }
+  const checksum = new Uint8Array(await crypto.subtle.digest('SHA-1', await new Blob(pack).arrayBuffer()))
+
+  const header = textEncoder.encode(`# v2 git bundle\n${tip} refs/heads/${branch}\n${tip} HEAD\n\n`)
+  return new Blob([header, ...pack, checksum], { type: 'application/x-git-bundle' })
+}
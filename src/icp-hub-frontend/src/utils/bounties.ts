@@ -0,0 +1,20 @@
+// src/utils/bounties.ts
+
+import type { BountyStatus, DifficultyLevel } from '../types/incentives'
+
+export const DIFFICULTY_COLORS: Record<DifficultyLevel, string> = {
+  Beginner: '#10b981',
+  Intermediate: '#3b82f6',
+  Advanced: '#f59e0b',
+  Expert: '#ef4444'
+}
+
+export const BOUNTY_STATUS_LABELS: Record<BountyStatus, string> = {
+  Open: 'Open',
+  Assigned: 'Assigned',
+  InProgress: 'In progress',
+  UnderReview: 'Under review',
+  Completed: 'Completed',
+  Cancelled: 'Cancelled',
+  Expired: 'Expired'
+}
@@ -0,0 +1,54 @@
+// Matching a query against file contents line by line, for search results that show where it hit.
+
+import type { CodeSearchOptions, LineMatch } from '../types/search'
+
+// Long lines are cut down to a window around their first match
+const MAX_LINE_LENGTH = 240
+const LEADING_CONTEXT = 40
+
+export const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+/**
+ * Compile a query into a global pattern. Throws a SyntaxError when a regular expression is invalid.
+ */
+export const buildSearchPattern = (query: string, { regex, caseSensitive }: CodeSearchOptions): RegExp =>
+  new RegExp(regex ? query : escapeRegExp(query), caseSensitive ? 'g' : 'gi')
+
+/**
+ * Offsets of every non-empty match of the pattern in the text
+ */
+export const findRanges = (text: string, pattern: RegExp): [number, number][] => {
+  const ranges: [number, number][] = []
+  for (const match of text.matchAll(pattern)) {
+    // Patterns like ^ or a* match nothing; there's nothing to highlight
+    if (match[0].length > 0) ranges.push([match.index, match.index + match[0].length])
+  }
+  return ranges
+}
+
+/**
+ * Lines of the content the pattern matches: the first `limit` of them, and how many there are in all
+ */
+export const findLineMatches = (content: string, pattern: RegExp, limit: number): { matches: LineMatch[], total: number } => {
+  const matches: LineMatch[] = []
+  let total = 0
+
+  content.split('\n').forEach((line, index) => {
+    const ranges = findRanges(line, pattern)
+    if (ranges.length === 0) return
+    total++
+    if (matches.length >= limit) return
+
+    const start = line.length > MAX_LINE_LENGTH ? Math.max(0, ranges[0][0] - LEADING_CONTEXT) : 0
+    const end = start + MAX_LINE_LENGTH
+    matches.push({
+      line: index + 1,
+      text: line.slice(start, end),
+      ranges: ranges
+        .filter(([from]) => from >= start && from < end)
+        .map(([from, to]) => [from - start, Math.min(to, end) - start])
+    })
+  })
+
+  return { matches, total }
+}
@@ -0,0 +1,245 @@
+// src/utils/diff.ts
+
+export type DiffLineType = 'context' | 'add' | 'remove'
+
+export interface DiffLine {
+  type: DiffLineType
+  content: string
+  oldLineNumber?: number
+  newLineNumber?: number
+}
+
+export interface DiffHunk {
+  oldStart: number
+  oldLines: number
+  newStart: number
+  newLines: number
+  lines: DiffLine[]
+}
+
+export interface SplitDiffRow {
+  left?: DiffLine
+  right?: DiffLine
+}
+
+// Above this many lines (old + new) we skip the O(ND) search and show a full replace
+const MAX_DIFF_LINES = 20000
+
+export function splitLines(text: string): string[] {
+  if (text === '') return []
+  const lines = text.split(/\r?\n/)
+  // A trailing newline does not start a new line
+  if (lines[lines.length - 1] === '') lines.pop()
+  return lines
+}
+
+interface Snake {
+  // Where the middle snake starts and ends, relative to the start of each range
+  x: number
+  y: number
+  u: number
+  v: number
+}
+
+// The middle snake of an optimal path through a[aLo, aHi) and b[bLo, bHi), found by searching
+// forwards from the start and backwards from the end until the two meet (Myers, section 4b)
+function middleSnake(a: string[], aLo: number, aHi: number, b: string[], bLo: number, bHi: number): Snake {
+  const n = aHi - aLo
+  const m = bHi - bLo
+  const delta = n - m
+  const odd = (delta & 1) !== 0
+  const max = Math.ceil((n + m) / 2)
+  const offset = max + 1
+  // Furthest x reached on each diagonal; the backward search counts x from the end
+  const forward = new Int32Array(2 * max + 3)
+  const backward = new Int32Array(2 * max + 3)
+
+  for (let d = 0; d <= max; d++) {
+    for (let k = -d; k <= d; k += 2) {
+      let x = (k === -d || (k !== d && forward[offset + k - 1] < forward[offset + k + 1]))
+        ? forward[offset + k + 1]
+        : forward[offset + k - 1] + 1
+      let y = x - k
+      const startX = x
+      const startY = y
+      while (x < n && y < m && a[aLo + x] === b[bLo + y]) {
+        x++
+        y++
+      }
+      forward[offset + k] = x
+      if (odd && k >= delta - (d - 1) && k <= delta + (d - 1) && x + backward[offset + delta - k] >= n) {
+        return { x: startX, y: startY, u: x, v: y }
+      }
+    }
+
+    for (let k = -d; k <= d; k += 2) {
+      let x = (k === -d || (k !== d && backward[offset + k - 1] < backward[offset + k + 1]))
+        ? backward[offset + k + 1]
+        : backward[offset + k - 1] + 1
+      let y = x - k
+      const startX = x
+      const startY = y
+      while (x < n && y < m && a[aHi - 1 - x] === b[bHi - 1 - y]) {
+        x++
+        y++
+      }
+      backward[offset + k] = x
+      if (!odd && delta - k >= -d && delta - k <= d && x + forward[offset + delta - k] >= n) {
+        return { x: n - x, y: m - y, u: n - startX, v: m - startY }
+      }
+    }
+  }
+
+  // Unreachable: the searches always meet by d = ceil((n + m) / 2)
+  return { x: 0, y: 0, u: 0, v: 0 }
+}
+
+/**
+ * Line diff using the linear-space refinement of Myers' O(ND) algorithm, so memory stays
+ * proportional to the input however different the texts are. Returns every line of both
+ * inputs in order, tagged as context, added or removed, with 1-based line numbers.
+ */
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  const a = splitLines(oldText)
+  const b = splitLines(newText)
+
+  if (a.length + b.length > MAX_DIFF_LINES) {
+    return [
+      ...a.map((content, i): DiffLine => ({ type: 'remove', content, oldLineNumber: i + 1 })),
+      ...b.map((content, i): DiffLine => ({ type: 'add', content, newLineNumber: i + 1 }))
+    ]
+  }
+
+  const result: DiffLine[] = []
+  const context = (x: number, y: number) =>
+    result.push({ type: 'context', content: a[x], oldLineNumber: x + 1, newLineNumber: y + 1 })
+
+  const diffRange = (aLo: number, aHi: number, bLo: number, bHi: number) => {
+    // Lines both ends share need no search, and leave a range with an edit at each end
+    let prefix = 0
+    while (aLo + prefix < aHi && bLo + prefix < bHi && a[aLo + prefix] === b[bLo + prefix]) {
+      context(aLo + prefix, bLo + prefix)
+      prefix++
+    }
+    aLo += prefix
+    bLo += prefix
+    let suffix = 0
+    while (aLo < aHi - suffix && bLo < bHi - suffix && a[aHi - 1 - suffix] === b[bHi - 1 - suffix]) {
+      suffix++
+    }
+    aHi -= suffix
+    bHi -= suffix
+
+    if (aLo === aHi || bLo === bHi) {
+      for (let x = aLo; x < aHi; x++) result.push({ type: 'remove', content: a[x], oldLineNumber: x + 1 })
+      for (let y = bLo; y < bHi; y++) result.push({ type: 'add', content: b[y], newLineNumber: y + 1 })
+    } else {
+      // Both ranges are non-empty and differ at each end, so each half has fewer edits
+      const snake = middleSnake(a, aLo, aHi, b, bLo, bHi)
+      diffRange(aLo, aLo + snake.x, bLo, bLo + snake.y)
+      for (let i = 0; i < snake.u - snake.x; i++) context(aLo + snake.x + i, bLo + snake.y + i)
+      diffRange(aLo + snake.u, aHi, bLo + snake.v, bHi)
+    }
+
+    for (let i = 0; i < suffix; i++) context(aHi + i, bHi + i)
+  }
+
+  diffRange(0, a.length, 0, b.length)
+
+  // Within each changed block, list removals before additions
+  let blockStart = 0
+  for (let i = 0; i <= result.length; i++) {
+    if (i === result.length || result[i].type === 'context') {
+      if (i - blockStart > 1) {
+        const block = result.slice(blockStart, i)
+        result.splice(
+          blockStart,
+          block.length,
+          ...block.filter(line => line.type === 'remove'),
+          ...block.filter(line => line.type === 'add')
+        )
+      }
+      blockStart = i + 1
+    }
+  }
+
+  return result
+}
+
+/**
+ * Group a full line diff into hunks with the given number of context lines
+ * around each change.
+ */
+export function buildHunks(lines: DiffLine[], context = 3): DiffHunk[] {
+  const changeIndexes = lines
+    .map((line, index) => (line.type === 'context' ? -1 : index))
+    .filter(index => index >= 0)
+
+  if (changeIndexes.length === 0) return []
+
+  // Merge change ranges whose context windows overlap
+  const ranges: Array<[number, number]> = []
+  for (const index of changeIndexes) {
+    const start = Math.max(0, index - context)
+    const end = Math.min(lines.length - 1, index + context)
+    const last = ranges[ranges.length - 1]
+    if (last && start <= last[1] + 1) {
+      last[1] = end
+    } else {
+      ranges.push([start, end])
+    }
+  }
+
+  return ranges.map(([start, end]) => {
+    const hunkLines = lines.slice(start, end + 1)
+    const firstOld = hunkLines.find(line => line.oldLineNumber !== undefined)?.oldLineNumber
+    const firstNew = hunkLines.find(line => line.newLineNumber !== undefined)?.newLineNumber
+
+    return {
+      oldStart: firstOld ?? 0,
+      oldLines: hunkLines.filter(line => line.type !== 'add').length,
+      newStart: firstNew ?? 0,
+      newLines: hunkLines.filter(line => line.type !== 'remove').length,
+      lines: hunkLines
+    }
+  })
+}
+
+/**
+ * Pair removed and added lines so they can be rendered side by side.
+ */
+export function toSplitRows(lines: DiffLine[]): SplitDiffRow[] {
+  const rows: SplitDiffRow[] = []
+  let removed: DiffLine[] = []
+  let added: DiffLine[] = []
+
+  const flush = () => {
+    const count = Math.max(removed.length, added.length)
+    for (let i = 0; i < count; i++) {
+      rows.push({ left: removed[i], right: added[i] })
+    }
+    removed = []
+    added = []
+  }
+
+  for (const line of lines) {
+    if (line.type === 'remove') {
+      removed.push(line)
+    } else if (line.type === 'add') {
+      added.push(line)
+    } else {
+      flush()
+      rows.push({ left: line, right: line })
+    }
+  }
+  flush()
+
+  return rows
+}
+
+export function countChanges(lines: DiffLine[]): { additions: number; deletions: number } {
+  return {
+    additions: lines.filter(line => line.type === 'add').length,
+    deletions: lines.filter(line => line.type === 'remove').length
+  }
+}
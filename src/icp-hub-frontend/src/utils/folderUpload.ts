@@ -0,0 +1,96 @@
+// Helpers for uploading whole folders: reading dropped directories and previewing the result as a tree.
+
+import type { UploadItem } from '../services/fileService'
+
+export interface UploadTreeNode {
+  name: string
+  // Relative to the upload target
+  path: string
+  // Position in the upload list; only set on files
+  index?: number
+  children: UploadTreeNode[]
+}
+
+const readFile = (entry: FileSystemFileEntry) => new Promise<File>((resolve, reject) => entry.file(resolve, reject))
+
+// A directory reader hands back its entries in batches and signals the end with an empty one
+const readDirectory = async (directory: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> => {
+  const reader = directory.createReader()
+  const entries: FileSystemEntry[] = []
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject))
+    if (batch.length === 0) return entries
+    entries.push(...batch)
+  }
+}
+
+const collectEntry = async (entry: FileSystemEntry, prefix: string, items: UploadItem[]): Promise<void> => {
+  const path = prefix ? `${prefix}/${entry.name}` : entry.name
+  if (entry.isFile) {
+    items.push({ file: await readFile(entry as FileSystemFileEntry), path })
+  } else if (entry.isDirectory) {
+    for (const child of await readDirectory(entry as FileSystemDirectoryEntry)) {
+      await collectEntry(child, path, items)
+    }
+  }
+}
+
+/**
+ * Turn a drop into upload items, walking into dropped folders so every file keeps its path
+ * relative to the drop. Must be called from the drop handler itself: the browser empties the
+ * DataTransfer once the event returns, so the entries are taken before anything is awaited.
+ */
+export const collectDroppedFiles = async (dataTransfer: DataTransfer): Promise<UploadItem[]> => {
+  const entries = Array.from(dataTransfer.items)
+    .filter(item => item.kind === 'file')
+    .map(item => item.webkitGetAsEntry())
+  // Browsers without the entries API only give us the top-level files
+  if (entries.length === 0 || entries.some(entry => entry === null)) {
+    return Array.from(dataTransfer.files).map(file => ({ file, path: file.name }))
+  }
+
+  const items: UploadItem[] = []
+  for (const entry of entries) {
+    await collectEntry(entry!, '', items)
+  }
+  return items
+}
+
+/**
+ * Upload items from a file input; folders picked with `webkitdirectory` carry their relative path
+ */
+export const itemsFromFileList = (files: FileList): UploadItem[] =>
+  Array.from(files).map(file => ({ file, path: file.webkitRelativePath || file.name }))
+
+/**
+ * Arrange relative paths as a folder tree, folders before files and each level sorted by name
+ */
+export const buildUploadTree = (paths: string[]): UploadTreeNode[] => {
+  const root: UploadTreeNode = { name: '', path: '', children: [] }
+
+  paths.forEach((path, index) => {
+    const segments = path.split('/')
+    let node = root
+    segments.slice(0, -1).forEach(segment => {
+      const folderPath = node.path ? `${node.path}/${segment}` : segment
+      let folder = node.children.find(child => child.index === undefined && child.name === segment)
+      if (!folder) {
+        folder = { name: segment, path: folderPath, children: [] }
+        node.children.push(folder)
+      }
+      node = folder
+    })
+    node.children.push({ name: segments[segments.length - 1], path, index, children: [] })
+  })
+
+  const sort = (nodes: UploadTreeNode[]) => {
+    nodes.sort((a, b) => {
+      const aIsFolder = a.index === undefined
+      if (aIsFolder !== (b.index === undefined)) return aIsFolder ? -1 : 1
+      return a.name.localeCompare(b.name)
+    })
+    nodes.forEach(node => sort(node.children))
+  }
+  sort(root.children)
+  return root.children
+}
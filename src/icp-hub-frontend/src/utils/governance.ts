@@ -0,0 +1,70 @@
+// src/utils/governance.ts
+
+import type { Proposal, ProposalStatus, Vote } from '../services/governanceService'
+
+export const getStatusColor = (status: ProposalStatus) => {
+  switch (status) {
+    case 'Active': return '#3b82f6'
+    case 'Passed': return '#10b981'
+    case 'Failed': return '#ef4444'
+    case 'Executed': return '#059669'
+    case 'Cancelled': return '#6b7280'
+    case 'Expired': return '#f59e0b'
+    case 'Draft': return '#8b5cf6'
+    default: return '#6b7280'
+  }
+}
+
+export const getProposalTypeIcon = (type: string) => {
+  switch (type) {
+    case 'PlatformUpgrade': return '🚀'
+    case 'TreasurySpend': return '💰'
+    case 'RepositoryUpdate': return '📁'
+    case 'GovernanceConfig': return '⚙️'
+    case 'CollaboratorPromotion': return '👥'
+    case 'CustomProposal': return '📝'
+    default: return '📋'
+  }
+}
+
+export const formatRelativeTime = (timestamp: number) => {
+  const date = new Date(timestamp)
+  const now = new Date()
+  const diffInHours = Math.floor((now.getTime() - date.getTime()) / (1000 * 60 * 60))
+
+  if (diffInHours < 0) {
+    const hoursLeft = -diffInHours
+    if (hoursLeft < 24) return `in ${hoursLeft}h`
+    if (hoursLeft < 168) return `in ${Math.floor(hoursLeft / 24)}d`
+    return date.toLocaleDateString()
+  }
+  if (diffInHours < 1) return 'Just now'
+  if (diffInHours < 24) return `${diffInHours}h ago`
+  if (diffInHours < 168) return `${Math.floor(diffInHours / 24)}d ago`
+  return date.toLocaleDateString()
+}
+
+export const shortenPrincipal = (principal: string) => {
+  return principal.length > 16 ? `${principal.slice(0, 8)}...${principal.slice(-5)}` : principal
+}
+
+export const getVotePercentage = (proposal: Proposal, voteType: Vote) => {
+  const totalVotes = proposal.totalYesVotes + proposal.totalNoVotes + proposal.totalAbstainVotes
+  if (totalVotes === 0) return 0
+
+  let voteCount = 0
+  switch (voteType) {
+    case 'Yes': voteCount = proposal.totalYesVotes; break
+    case 'No': voteCount = proposal.totalNoVotes; break
+    case 'Abstain': voteCount = proposal.totalAbstainVotes; break
+  }
+
+  return Math.round((voteCount / totalVotes) * 100)
+}
+
+export const getQuorumStatus = (proposal: Proposal) => {
+  if (proposal.quorumRequired === 0) return 100
+  const totalVotes = proposal.totalYesVotes + proposal.totalNoVotes + proposal.totalAbstainVotes
+  const quorumPercentage = (totalVotes / proposal.quorumRequired) * 100
+  return Math.min(quorumPercentage, 100)
+}
@@ -0,0 +1,208 @@
+// src/utils/highlight.ts
+
+export type EditorLanguage = 'motoko' | 'rust' | 'solidity' | 'typescript' | 'json' | 'toml' | 'plain'
+
+export type TokenType =
+  | 'plain'
+  | 'comment'
+  | 'string'
+  | 'number'
+  | 'keyword'
+  | 'type'
+  | 'literal'
+  | 'attribute'
+  | 'property'
+  | 'section'
+
+export interface HighlightToken {
+  type: TokenType
+  text: string
+}
+
+type Rule = [RegExp, TokenType | ((match: string) => TokenType)]
+
+export const LANGUAGE_LABELS: Record<EditorLanguage, string> = {
+  motoko: 'Motoko',
+  rust: 'Rust',
+  solidity: 'Solidity',
+  typescript: 'TypeScript',
+  json: 'JSON',
+  toml: 'TOML',
+  plain: 'Plain text'
+}
+
+const EXTENSION_LANGUAGES: Record<string, EditorLanguage> = {
+  mo: 'motoko',
+  rs: 'rust',
+  sol: 'solidity',
+  ts: 'typescript',
+  tsx: 'typescript',
+  js: 'typescript',
+  jsx: 'typescript',
+  json: 'json',
+  toml: 'toml'
+}
+
+const words = (list: string) => new Set(list.split(' '))
+
+const KEYWORDS: Record<'motoko' | 'rust' | 'solidity' | 'typescript', Set<string>> = {
+  motoko: words(
+    'actor and assert async await break case catch class continue debug do else finally flexible for func if ' +
+    'ignore import in label let loop module not object or persistent private public query return shared stable switch ' +
+    'system throw to transient try type var while with composite'
+  ),
+  rust: words(
+    'as async await break const continue crate dyn else enum extern fn for if impl in let loop match mod move mut pub ' +
+    'ref return self Self static struct super trait type union unsafe use where while'
+  ),
+  solidity: words(
+    'abstract anonymous assembly break calldata catch constant constructor continue contract delete do else emit enum ' +
+    'error event external fallback for function if immutable import indexed interface internal is library mapping memory ' +
+    'modifier new override payable pragma private public pure receive return returns revert storage struct try type ' +
+    'unchecked using view virtual while'
+  ),
+  typescript: words(
+    'abstract as async await break case catch class const continue debugger declare default delete do else enum export ' +
+    'extends finally for from function get if implements import in instanceof interface keyof let namespace new of ' +
+    'private protected public readonly return satisfies set static super switch this throw try type typeof var void ' +
+    'while with yield'
+  )
+}
+
+const TYPES: Record<'motoko' | 'rust' | 'solidity' | 'typescript', Set<string>> = {
+  motoko: words('Bool Nat Nat8 Nat16 Nat32 Nat64 Int Int8 Int16 Int32 Int64 Float Char Text Blob Principal Error Any None'),
+  rust: words('bool char str u8 u16 u32 u64 u128 usize i8 i16 i32 i64 i128 isize f32 f64 String Vec Option Result Box'),
+  solidity: words('address bool string bytes byte int uint'),
+  typescript: words('any bigint boolean never number object string symbol unknown void')
+}
+
+const LITERALS = words('true false null undefined None Some Ok Err')
+
+const LINE_COMMENT = /\/\/[^\n]*/y
+const BLOCK_COMMENT = /\/\*[\s\S]*?(?:\*\/|$)/y
+const DOUBLE_QUOTED = /"(?:[^"\\\n]|\\.)*"?/y
+const NUMBER = /(?:0[xX][\da-fA-F_]+|\d[\d_]*(?:\.\d[\d_]*)?(?:[eE][+-]?\d+)?)[a-zA-Z\d_]*/y
+const WORD = /[A-Za-z_$][\w$]*/y
+
+const classifyWord = (language: keyof typeof KEYWORDS) => (word: string): TokenType => {
+  if (LITERALS.has(word)) return 'literal'
+  if (KEYWORDS[language].has(word)) return 'keyword'
+  // Solidity sized integers and bytes, e.g. uint256 or bytes32
+  if (TYPES[language].has(word) || (language === 'solidity' && /^(u?int|bytes)\d+$/.test(word))) return 'type'
+  return /^[A-Z]/.test(word) ? 'type' : 'plain'
+}
+
+const RULES: Record<Exclude<EditorLanguage, 'plain'>, Rule[]> = {
+  motoko: [
+    [LINE_COMMENT, 'comment'],
+    [BLOCK_COMMENT, 'comment'],
+    [DOUBLE_QUOTED, 'string'],
+    [/'(?:[^'\\\n]|\\.)'/y, 'string'],
+    [NUMBER, 'number'],
+    [WORD, classifyWord('motoko')]
+  ],
+  rust: [
+    [LINE_COMMENT, 'comment'],
+    [BLOCK_COMMENT, 'comment'],
+    [/#!?\[[^\]\n]*\]/y, 'attribute'],
+    [/b?r(#*)"[\s\S]*?(?:"\1|$)/y, 'string'],
+    [/b?"(?:[^"\\]|\\[\s\S])*"?/y, 'string'],
+    [/b?'(?:[^'\\\n]|\\.[^'\n]*)'/y, 'string'],
+    // Lifetimes read like type parameters
+    [/'[A-Za-z_]\w*/y, 'type'],
+    [NUMBER, 'number'],
+    [/[A-Za-z_]\w*!(?!=)/y, 'attribute'],
+    [WORD, classifyWord('rust')]
+  ],
+  solidity: [
+    [LINE_COMMENT, 'comment'],
+    [BLOCK_COMMENT, 'comment'],
+    [DOUBLE_QUOTED, 'string'],
+    [/'(?:[^'\\\n]|\\.)*'?/y, 'string'],
+    [NUMBER, 'number'],
+    [WORD, classifyWord('solidity')]
+  ],
+  typescript: [
+    [LINE_COMMENT, 'comment'],
+    [BLOCK_COMMENT, 'comment'],
+    [DOUBLE_QUOTED, 'string'],
+    [/'(?:[^'\\\n]|\\.)*'?/y, 'string'],
+    [/`(?:[^`\\]|\\[\s\S])*`?/y, 'string'],
+    [/@[A-Za-z_]\w*/y, 'attribute'],
+    [NUMBER, 'number'],
+    [WORD, classifyWord('typescript')]
+  ],
+  json: [
+    // A string followed by a colon is an object key
+    [/"(?:[^"\\\n]|\\.)*"(?=\s*:)/y, 'property'],
+    [DOUBLE_QUOTED, 'string'],
+    [/-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?/y, 'number'],
+    [/true|false|null/y, 'literal']
+  ],
+  toml: [
+    [/#[^\n]*/y, 'comment'],
+    [/(?<=^|\n)[ \t]*\[\[?[^\]\n]*\]\]?/y, 'section'],
+    [/(?<=^|\n)[ \t]*(?:[\w-]+|"[^"\n]*"|'[^'\n]*')(?:[ \t]*\.[ \t]*(?:[\w-]+|"[^"\n]*"|'[^'\n]*'))*(?=[ \t]*=)/y, 'property'],
+    [/"""[\s\S]*?(?:"""|$)/y, 'string'],
+    [/'''[\s\S]*?(?:'''|$)/y, 'string'],
+    [DOUBLE_QUOTED, 'string'],
+    [/'[^'\n]*'?/y, 'string'],
+    // Dates and times before plain numbers, so 1979-05-27 is one token
+    [/\d{4}-\d{2}-\d{2}(?:[Tt ]\d{2}:\d{2}:\d{2}(?:\.\d+)?(?:[Zz]|[+-]\d{2}:\d{2})?)?/y, 'number'],
+    [/[+-]?(?:0[xob][\da-fA-F_]+|\d[\d_]*(?:\.\d[\d_]*)?(?:[eE][+-]?\d+)?|inf|nan)\b/y, 'number'],
+    [/\b(?:true|false)\b/y, 'literal']
+  ]
+}
+
+/**
+ * Pick the highlighting language for a file from its extension
+ */
+export function detectLanguage(path: string): EditorLanguage {
+  const extension = path.split('.').pop()?.toLowerCase() ?? ''
+  return EXTENSION_LANGUAGES[extension] ?? 'plain'
+}
+
+/**
+ * Split source into highlighted tokens. Tokens cover the input exactly, so joining their
+ * text gives back the original, which keeps an overlay lined up with the text underneath.
+ */
+export function highlight(code: string, language: EditorLanguage): HighlightToken[] {
+  if (language === 'plain') return [{ type: 'plain', text: code }]
+
+  const rules = RULES[language]
+  const tokens: HighlightToken[] = []
+  let plainStart = 0
+  let position = 0
+
+  const push = (type: TokenType, text: string) => {
+    const last = tokens[tokens.length - 1]
+    if (last && last.type === type) {
+      last.text += text
+    } else {
+      tokens.push({ type, text })
+    }
+  }
+
+  scan:
+  while (position < code.length) {
+    for (const [pattern, type] of rules) {
+      pattern.lastIndex = position
+      const match = pattern.exec(code)
+      if (!match || match[0].length === 0) continue
+
+      if (plainStart < position) push('plain', code.slice(plainStart, position))
+      push(typeof type === 'function' ? type(match[0]) : type, match[0])
+      position += match[0].length
+      plainStart = position
+      continue scan
+    }
+
+    // Skip the rest of an identifier-like run so rules cannot match from its middle
+    const run = /[\w$]+|[^\w$]/y
+    run.lastIndex = position
+    position += run.exec(code)![0].length
+  }
+
+  if (plainStart < code.length) push('plain', code.slice(plainStart))
+  return tokens
+}
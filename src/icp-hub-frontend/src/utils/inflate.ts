@@ -0,0 +1,250 @@
+// DEFLATE (RFC 1951) decoder for archive imports. DecompressionStream can't report
+// where a compressed stream ends, which packfiles need to find the next object.
+
+export interface InflateResult {
+  data: Uint8Array<ArrayBuffer>
+  // Offset of the first input byte after the compressed stream
+  end: number
+}
+
+interface HuffmanTree {
+  counts: Uint16Array
+  symbols: Uint16Array
+}
+
+const LENGTH_BASE = [3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131, 163, 195, 227, 258]
+const LENGTH_EXTRA = [0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0]
+const DISTANCE_BASE = [1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769, 1025, 1537, 2049, 3073, 4097, 6145, 8193, 12289, 16385, 24577]
+const DISTANCE_EXTRA = [0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13]
+const CODE_LENGTH_ORDER = [16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15]
+
+const buildTree = (lengths: ArrayLike<number>, offset: number, count: number): HuffmanTree => {
+  const counts = new Uint16Array(16)
+  const symbols = new Uint16Array(count)
+  for (let i = 0; i < count; i++) counts[lengths[offset + i]]++
+  counts[0] = 0
+
+  const offsets = new Uint16Array(16)
+  for (let i = 0, sum = 0; i < 16; i++) {
+    offsets[i] = sum
+    sum += counts[i]
+  }
+  for (let i = 0; i < count; i++) {
+    const length = lengths[offset + i]
+    if (length) symbols[offsets[length]++] = i
+  }
+  return { counts, symbols }
+}
+
+const FIXED_LITERAL_TREE = (() => {
+  const lengths = new Uint8Array(288)
+  lengths.fill(8, 0, 144)
+  lengths.fill(9, 144, 256)
+  lengths.fill(7, 256, 280)
+  lengths.fill(8, 280, 288)
+  return buildTree(lengths, 0, 288)
+})()
+const FIXED_DISTANCE_TREE = buildTree(new Uint8Array(30).fill(5), 0, 30)
+
+class BitReader {
+  position: number
+  private readonly input: Uint8Array
+  private buffer = 0
+  private available = 0
+
+  constructor(input: Uint8Array, start: number) {
+    this.input = input
+    this.position = start
+  }
+
+  bit(): number {
+    if (this.available === 0) {
+      if (this.position >= this.input.length) throw new Error('Compressed data ends unexpectedly')
+      this.buffer = this.input[this.position++]
+      this.available = 8
+    }
+    const value = this.buffer & 1
+    this.buffer >>>= 1
+    this.available--
+    return value
+  }
+
+  bits(count: number): number {
+    let value = 0
+    for (let i = 0; i < count; i++) value |= this.bit() << i
+    return value
+  }
+
+  // Stored blocks start on a byte boundary
+  alignToByte(): void {
+    this.available = 0
+  }
+
+  // Canonical Huffman decode: codes of each length are consecutive, shortest first
+  decode(tree: HuffmanTree): number {
+    let code = 0
+    let first = 0
+    let index = 0
+    for (let length = 1; length < 16; length++) {
+      code |= this.bit()
+      const count = tree.counts[length]
+      if (code - first < count) return tree.symbols[index + code - first]
+      index += count
+      first = (first + count) << 1
+      code <<= 1
+    }
+    throw new Error('Invalid Huffman code in compressed data')
+  }
+}
+
+class OutputBuffer {
+  bytes: Uint8Array<ArrayBuffer>
+  length = 0
+
+  constructor(sizeHint: number) {
+    this.bytes = new Uint8Array(Math.max(sizeHint, 1024))
+  }
+
+  private reserve(extra: number): void {
+    if (this.length + extra <= this.bytes.length) return
+    let size = this.bytes.length * 2
+    while (size < this.length + extra) size *= 2
+    const grown = new Uint8Array(size)
+    grown.set(this.bytes.subarray(0, this.length))
+    this.bytes = grown
+  }
+
+  push(byte: number): void {
+    this.reserve(1)
+    this.bytes[this.length++] = byte
+  }
+
+  append(chunk: Uint8Array): void {
+    this.reserve(chunk.length)
+    this.bytes.set(chunk, this.length)
+    this.length += chunk.length
+  }
+
+  // Back-references may overlap the bytes they produce, so copy one byte at a time
+  copyWithin(distance: number, count: number): void {
+    if (distance > this.length) throw new Error('Invalid back-reference in compressed data')
+    this.reserve(count)
+    for (let i = 0; i < count; i++) {
+      this.bytes[this.length] = this.bytes[this.length - distance]
+      this.length++
+    }
+  }
+
+  result(): Uint8Array<ArrayBuffer> {
+    return this.bytes.slice(0, this.length)
+  }
+}
+
+const readDynamicTrees = (reader: BitReader): [HuffmanTree, HuffmanTree] => {
+  const literalCount = reader.bits(5) + 257
+  const distanceCount = reader.bits(5) + 1
+  const codeLengthCount = reader.bits(4) + 4
+
+  const codeLengthLengths = new Uint8Array(19)
+  for (let i = 0; i < codeLengthCount; i++) {
+    codeLengthLengths[CODE_LENGTH_ORDER[i]] = reader.bits(3)
+  }
+  const codeLengthTree = buildTree(codeLengthLengths, 0, 19)
+
+  const lengths = new Uint8Array(literalCount + distanceCount)
+  for (let i = 0; i < lengths.length;) {
+    const symbol = reader.decode(codeLengthTree)
+    if (symbol < 16) {
+      lengths[i++] = symbol
+      continue
+    }
+
+    let repeat: number
+    let value = 0
+    if (symbol === 16) {
+      if (i === 0) throw new Error('Invalid code lengths in compressed data')
+      value = lengths[i - 1]
+      repeat = 3 + reader.bits(2)
+    } else if (symbol === 17) {
+      repeat = 3 + reader.bits(3)
+    } else {
+      repeat = 11 + reader.bits(7)
+    }
+    if (i + repeat > lengths.length) throw new Error('Invalid code lengths in compressed data')
+    lengths.fill(value, i, i + repeat)
+    i += repeat
+  }
+
+  return [buildTree(lengths, 0, literalCount), buildTree(lengths, literalCount, distanceCount)]
+}
+
+const inflateBlock = (reader: BitReader, output: OutputBuffer, literals: HuffmanTree, distances: HuffmanTree) => {
+  for (;;) {
+    const symbol = reader.decode(literals)
+    if (symbol < 256) {
+      output.push(symbol)
+    } else if (symbol === 256) {
+      return
+    } else {
+      const lengthIndex = symbol - 257
+      if (lengthIndex >= LENGTH_BASE.length) throw new Error('Invalid length code in compressed data')
+      const length = LENGTH_BASE[lengthIndex] + reader.bits(LENGTH_EXTRA[lengthIndex])
+
+      const distanceIndex = reader.decode(distances)
+      if (distanceIndex >= DISTANCE_BASE.length) throw new Error('Invalid distance code in compressed data')
+      const distance = DISTANCE_BASE[distanceIndex] + reader.bits(DISTANCE_EXTRA[distanceIndex])
+      output.copyWithin(distance, length)
+    }
+  }
+}
+
+/**
+ * Decompress a raw DEFLATE stream starting at `start`
+ */
+export const inflateRaw = (input: Uint8Array, start = 0, sizeHint = 0): InflateResult => {
+  const reader = new BitReader(input, start)
+  const output = new OutputBuffer(sizeHint || Math.min((input.length - start) * 3, 1 << 20))
+
+  let isFinal = false
+  while (!isFinal) {
+    isFinal = reader.bit() === 1
+    const type = reader.bits(2)
+
+    if (type === 0) {
+      reader.alignToByte()
+      const at = reader.position
+      if (at + 4 > input.length) throw new Error('Compressed data ends unexpectedly')
+      const length = input[at] | (input[at + 1] << 8)
+      const check = input[at + 2] | (input[at + 3] << 8)
+      if ((length ^ 0xffff) !== check) throw new Error('Corrupt stored block in compressed data')
+      if (at + 4 + length > input.length) throw new Error('Compressed data ends unexpectedly')
+      output.append(input.subarray(at + 4, at + 4 + length))
+      reader.position = at + 4 + length
+    } else if (type === 1) {
+      inflateBlock(reader, output, FIXED_LITERAL_TREE, FIXED_DISTANCE_TREE)
+    } else if (type === 2) {
+      const [literals, distances] = readDynamicTrees(reader)
+      inflateBlock(reader, output, literals, distances)
+    } else {
+      throw new Error('Invalid block type in compressed data')
+    }
+  }
+
+  // A partially read final byte still belongs to the stream
+  return { data: output.result(), end: reader.position }
+}
+
+/**
+ * Decompress a zlib (RFC 1950) stream, as used for git objects
+ */
+export const inflateZlib = (input: Uint8Array, start = 0, sizeHint = 0): InflateResult => {
+  const method = input[start]
+  const flags = input[start + 1]
+  if ((method & 0x0f) !== 8 || ((method << 8) | flags) % 31 !== 0 || flags & 0x20) {
+    throw new Error('Unsupported zlib stream')
+  }
+
+  const { data, end } = inflateRaw(input, start + 2, sizeHint)
+  // Skip the Adler-32 trailer
+  return { data, end: end + 4 }
+}
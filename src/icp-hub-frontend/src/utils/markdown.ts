@@ -0,0 +1,156 @@
+// src/utils/markdown.ts
+
+// A small, safe markdown subset for user-written text such as proposals and comments.
+// Output is a token tree rendered as React elements, never as raw HTML.
+
+export type InlineToken =
+  | { type: 'text'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'strong'; children: InlineToken[] }
+  | { type: 'em'; children: InlineToken[] }
+  | { type: 'link'; href: string; children: InlineToken[] }
+
+export type MarkdownBlock =
+  | { type: 'heading'; level: number; text: string }
+  | { type: 'paragraph'; text: string }
+  | { type: 'list'; ordered: boolean; items: string[] }
+  | { type: 'code'; language?: string; code: string }
+  | { type: 'quote'; text: string }
+  | { type: 'rule' }
+
+const HEADING = /^(#{1,6})\s+(.*)$/
+const BULLET_ITEM = /^\s*[-*+]\s+(.*)$/
+const ORDERED_ITEM = /^\s*\d+[.)]\s+(.*)$/
+const FENCE = /^```\s*([\w+-]*)\s*$/
+const RULE = /^\s*([-*_])(\s*\1){2,}\s*$/
+const QUOTE = /^\s*>\s?(.*)$/
+const SAFE_LINK = /^(https?:|mailto:)/i
+
+const isBlockStart = (line: string) =>
+  HEADING.test(line) || BULLET_ITEM.test(line) || ORDERED_ITEM.test(line) ||
+  FENCE.test(line) || RULE.test(line) || QUOTE.test(line)
+
+export function parseMarkdown(source: string): MarkdownBlock[] {
+  const lines = source.replace(/\r\n?/g, '\n').split('\n')
+  const blocks: MarkdownBlock[] = []
+  let i = 0
+
+  while (i < lines.length) {
+    const line = lines[i]
+
+    if (!line.trim()) {
+      i++
+      continue
+    }
+
+    const fence = line.match(FENCE)
+    if (fence) {
+      const code: string[] = []
+      i++
+      while (i < lines.length && !FENCE.test(lines[i])) {
+        code.push(lines[i])
+        i++
+      }
+      i++ // closing fence, if any
+      blocks.push({ type: 'code', language: fence[1] || undefined, code: code.join('\n') })
+      continue
+    }
+
+    const heading = line.match(HEADING)
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, text: heading[2].trim() })
+      i++
+      continue
+    }
+
+    if (RULE.test(line)) {
+      blocks.push({ type: 'rule' })
+      i++
+      continue
+    }
+
+    if (QUOTE.test(line)) {
+      const quoted: string[] = []
+      while (i < lines.length && QUOTE.test(lines[i])) {
+        quoted.push(lines[i].match(QUOTE)![1])
+        i++
+      }
+      blocks.push({ type: 'quote', text: quoted.join('\n') })
+      continue
+    }
+
+    const ordered = ORDERED_ITEM.test(line)
+    if (ordered || BULLET_ITEM.test(line)) {
+      const itemPattern = ordered ? ORDERED_ITEM : BULLET_ITEM
+      const items: string[] = []
+      while (i < lines.length && itemPattern.test(lines[i])) {
+        items.push(lines[i].match(itemPattern)![1])
+        i++
+      }
+      blocks.push({ type: 'list', ordered, items })
+      continue
+    }
+
+    const paragraph: string[] = []
+    while (i < lines.length && lines[i].trim() && !isBlockStart(lines[i])) {
+      paragraph.push(lines[i])
+      i++
+    }
+    blocks.push({ type: 'paragraph', text: paragraph.join('\n') })
+  }
+
+  return blocks
+}
+
+// Earliest inline construct in the text; ties go to the order listed
+type InlinePatternType = Exclude<InlineToken['type'], 'text'>
+
+const INLINE_PATTERNS: { type: InlinePatternType; pattern: RegExp }[] = [
+  { type: 'code', pattern: /`([^`]+)`/ },
+  { type: 'link', pattern: /\[([^\]]+)\]\(([^)\s]+)\)/ },
+  { type: 'strong', pattern: /\*\*(.+?)\*\*|__(.+?)__/ },
+  { type: 'em', pattern: /\*([^*\s][^*]*?)\*|(?<!\w)_([^_\s][^_]*?)_(?!\w)/ }
+]
+
+export function parseInline(text: string): InlineToken[] {
+  const tokens: InlineToken[] = []
+  let rest = text
+
+  while (rest) {
+    let earliest: { type: InlinePatternType; match: RegExpMatchArray } | null = null
+    for (const { type, pattern } of INLINE_PATTERNS) {
+      const match = rest.match(pattern)
+      if (match && match.index !== undefined && (!earliest || match.index < earliest.match.index!)) {
+        earliest = { type, match }
+      }
+    }
+
+    if (!earliest) {
+      tokens.push({ type: 'text', text: rest })
+      break
+    }
+
+    const { type, match } = earliest
+    const index = match.index!
+    if (index > 0) {
+      tokens.push({ type: 'text', text: rest.slice(0, index) })
+    }
+
+    if (type === 'code') {
+      tokens.push({ type: 'code', text: match[1] })
+    } else if (type === 'link') {
+      // Unsafe schemes such as javascript: are rendered as plain text
+      if (SAFE_LINK.test(match[2])) {
+        tokens.push({ type: 'link', href: match[2], children: parseInline(match[1]) })
+      } else {
+        tokens.push({ type: 'text', text: match[0] })
+      }
+    } else {
+      tokens.push({ type, children: parseInline(match[1] ?? match[2]) })
+    }
+
+    rest = rest.slice(index + match[0].length)
+  }
+
+  return tokens
+}
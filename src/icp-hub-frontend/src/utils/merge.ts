@@ -0,0 +1,160 @@
+// src/utils/merge.ts
+
+import { diffLines, splitLines } from './diff'
+
+export type MergeSide = 'source' | 'target'
+export type ConflictResolution = MergeSide | 'both' | 'base'
+
+export interface StableChunk {
+  type: 'stable'
+  lines: string[]
+  // Which side changed this region, if any; both sides agree on the result
+  changedBy?: MergeSide | 'both'
+  baseLines: string[]
+}
+
+export interface ConflictChunk {
+  type: 'conflict'
+  baseLines: string[]
+  sourceLines: string[]
+  targetLines: string[]
+}
+
+export type MergeChunk = StableChunk | ConflictChunk
+
+const sameLines = (a: string[], b: string[]) =>
+  a.length === b.length && a.every((line, i) => line === b[i])
+
+// Map each base line index to the index of the identical line in the other text
+function matchLines(base: string, other: string): Map<number, number> {
+  const matches = new Map<number, number>()
+  for (const line of diffLines(base, other)) {
+    if (line.type === 'context' && line.oldLineNumber && line.newLineNumber) {
+      matches.set(line.oldLineNumber - 1, line.newLineNumber - 1)
+    }
+  }
+  return matches
+}
+
+/**
+ * Classic diff3: split the three versions into regions that are either
+ * unchanged, changed on one side only (taken automatically), or changed
+ * differently on both sides (a conflict).
+ */
+export function mergeThreeWay(base: string, source: string, target: string): MergeChunk[] {
+  const baseLines = splitLines(base)
+  const sourceLines = splitLines(source)
+  const targetLines = splitLines(target)
+  const sourceMatches = matchLines(base, source)
+  const targetMatches = matchLines(base, target)
+
+  const chunks: MergeChunk[] = []
+  const pushStable = (lines: string[], baseChunk: string[], changedBy?: StableChunk['changedBy']) => {
+    const last = chunks[chunks.length - 1]
+    if (last && last.type === 'stable' && !last.changedBy && !changedBy) {
+      last.lines.push(...lines)
+      last.baseLines.push(...baseChunk)
+    } else {
+      chunks.push({ type: 'stable', lines: [...lines], baseLines: [...baseChunk], changedBy })
+    }
+  }
+
+  let i = 0
+  let a = 0
+  let b = 0
+
+  while (i < baseLines.length || a < sourceLines.length || b < targetLines.length) {
+    // Lines all three versions agree on
+    if (i < baseLines.length && sourceMatches.get(i) === a && targetMatches.get(i) === b) {
+      pushStable([baseLines[i]], [baseLines[i]])
+      i++
+      a++
+      b++
+      continue
+    }
+
+    // Find the next base line that both sides still contain
+    let j = i
+    while (j < baseLines.length) {
+      const sa = sourceMatches.get(j)
+      const tb = targetMatches.get(j)
+      if (sa !== undefined && tb !== undefined && sa >= a && tb >= b) break
+      j++
+    }
+
+    const aEnd = j < baseLines.length ? sourceMatches.get(j)! : sourceLines.length
+    const bEnd = j < baseLines.length ? targetMatches.get(j)! : targetLines.length
+
+    const baseChunk = baseLines.slice(i, j)
+    const sourceChunk = sourceLines.slice(a, aEnd)
+    const targetChunk = targetLines.slice(b, bEnd)
+
+    if (sameLines(sourceChunk, baseChunk)) {
+      pushStable(targetChunk, baseChunk, 'target')
+    } else if (sameLines(targetChunk, baseChunk)) {
+      pushStable(sourceChunk, baseChunk, 'source')
+    } else if (sameLines(sourceChunk, targetChunk)) {
+      pushStable(sourceChunk, baseChunk, 'both')
+    } else {
+      chunks.push({ type: 'conflict', baseLines: baseChunk, sourceLines: sourceChunk, targetLines: targetChunk })
+    }
+
+    i = j
+    a = aEnd
+    b = bEnd
+  }
+
+  return chunks
+}
+
+export function countConflicts(chunks: MergeChunk[]): number {
+  return chunks.filter(chunk => chunk.type === 'conflict').length
+}
+
+export function resolveConflict(chunk: ConflictChunk, resolution: ConflictResolution): string[] {
+  switch (resolution) {
+    case 'source': return chunk.sourceLines
+    case 'target': return chunk.targetLines
+    case 'base': return chunk.baseLines
+    default: return [...chunk.targetLines, ...chunk.sourceLines]
+  }
+}
+
+/**
+ * Render merge chunks back to text. Conflicts without a resolution are
+ * written with git-style markers so they are easy to spot and edit by hand.
+ */
+export function renderMerge(
+  chunks: MergeChunk[],
+  resolutions: Array<ConflictResolution | undefined>,
+  labels: { source: string; target: string }
+): string {
+  const lines: string[] = []
+  let conflictIndex = 0
+
+  for (const chunk of chunks) {
+    if (chunk.type === 'stable') {
+      lines.push(...chunk.lines)
+      continue
+    }
+
+    const resolution = resolutions[conflictIndex++]
+    if (resolution) {
+      lines.push(...resolveConflict(chunk, resolution))
+    } else {
+      lines.push(
+        `<<<<<<< ${labels.target}`,
+        ...chunk.targetLines,
+        '=======',
+        ...chunk.sourceLines,
+        `>>>>>>> ${labels.source}`
+      )
+    }
+  }
+
+  return lines.length > 0 ? lines.join('\n') + '\n' : ''
+}
+
+export function hasConflictMarkers(text: string): boolean {
+  return /^(<<<<<<<|=======|>>>>>>>)( |$)/m.test(text)
+}
@@ -0,0 +1,39 @@
+// Merges run from this browser, kept in localStorage per repository. The canister keeps no
+// merge requests, only the merge commits themselves.
+
+import type { MergeResult } from '../types/git'
+
+export interface CompletedMerge {
+  title: string
+  description?: string
+  sourceBranch: string
+  targetBranch: string
+  result: MergeResult
+  mergedAt: number
+}
+
+const STORAGE_PREFIX = 'openkeyhub:merge-history:'
+const MAX_MERGES = 20
+
+/**
+ * Merges recorded for a repository, newest first
+ */
+export const getMergeHistory = (repositoryId: string): CompletedMerge[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_PREFIX + repositoryId) || '[]')
+    return Array.isArray(stored)
+      ? stored.filter((entry): entry is CompletedMerge =>
+          typeof entry?.title === 'string' && typeof entry?.mergedAt === 'number' && typeof entry?.result === 'object')
+      : []
+  } catch {
+    return []
+  }
+}
+
+export const saveMergeHistory = (repositoryId: string, history: CompletedMerge[]): void => {
+  try {
+    localStorage.setItem(STORAGE_PREFIX + repositoryId, JSON.stringify(history.slice(0, MAX_MERGES)))
+  } catch {
+    // Storage may be full or disabled; the history is only a convenience
+  }
+}
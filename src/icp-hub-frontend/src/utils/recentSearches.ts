@@ -0,0 +1,52 @@
+// Searches the user ran recently, kept in localStorage and offered before they start typing.
+
+import type { SearchType } from '../types/search'
+
+export interface RecentSearch {
+  query: string
+  type: SearchType
+}
+
+const STORAGE_KEY = 'openkeyhub:recent-searches'
+const MAX_RECENT_SEARCHES = 8
+
+const sameSearch = (a: RecentSearch, b: RecentSearch) => a.query.toLowerCase() === b.query.toLowerCase() && a.type === b.type
+
+const save = (searches: RecentSearch[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(searches))
+  } catch {
+    // Storage may be full or disabled; recent searches are only a convenience
+  }
+}
+
+/**
+ * Recent searches, newest first
+ */
+export const getRecentSearches = (): RecentSearch[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]')
+    return Array.isArray(stored)
+      ? stored.filter((entry): entry is RecentSearch => typeof entry?.query === 'string' && typeof entry?.type === 'string')
+      : []
+  } catch {
+    return []
+  }
+}
+
+/**
+ * Move a search to the top of the list, dropping the oldest once the list is full
+ */
+export const addRecentSearch = (search: RecentSearch): RecentSearch[] => {
+  const searches = [search, ...getRecentSearches().filter(entry => !sameSearch(entry, search))].slice(0, MAX_RECENT_SEARCHES)
+  save(searches)
+  return searches
+}
+
+export const removeRecentSearch = (search: RecentSearch): RecentSearch[] => {
+  const searches = getRecentSearches().filter(entry => !sameSearch(entry, search))
+  save(searches)
+  return searches
+}
+
+export const clearRecentSearches = (): void => save([])
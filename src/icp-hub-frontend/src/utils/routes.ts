@@ -0,0 +1,169 @@
+// Links into the app. They are hash paths, so they work from any page and survive a reload.
+
+import { useMemo, useSyncExternalStore } from 'react'
+
+export type AppSection =
+  | 'repositories'
+  | 'import-github'
+  | 'governance'
+  | 'tokens'
+  | 'bounties'
+  | 'leaderboard'
+  | 'documentation'
+  | 'git-operations'
+  | 'stats'
+  | 'profile'
+
+// A file or folder inside a repository
+export interface RepositoryLocation {
+  path: string
+  isFolder: boolean
+  // 1-based line to mark in a file
+  line?: number
+}
+
+export type Route =
+  | { name: 'home' }
+  | { name: 'section', section: AppSection }
+  | { name: 'repository', owner: string, repository: string, branch?: string, location?: RepositoryLocation }
+  | { name: 'commit', repositoryId: string, commitId: string }
+  | { name: 'proposal', proposalId: number }
+  | { name: 'user', principal: string }
+
+const SECTIONS: AppSection[] = [
+  'repositories',
+  'import-github',
+  'governance',
+  'tokens',
+  'bounties',
+  'leaderboard',
+  'documentation',
+  'git-operations',
+  'stats',
+  'profile'
+]
+
+export const HOME_URL = '#/'
+
+const encodePath = (path: string) => path.split('/').map(encodeURIComponent).join('/')
+
+export const sectionUrl = (section: AppSection): string => `#/${section}`
+
+export const repositoryUrl = (owner: string, name: string): string =>
+  `#/repo/${encodeURIComponent(owner)}/${encodeURIComponent(name)}`
+
+export const repositoryTreeUrl = (owner: string, name: string, branch: string, path = ''): string =>
+  `${repositoryUrl(owner, name)}/tree/${encodeURIComponent(branch)}${path ? `/${encodePath(path)}` : ''}`
+
+export const repositoryBlobUrl = (owner: string, name: string, branch: string, path: string, line?: number): string =>
+  `${repositoryUrl(owner, name)}/blob/${encodeURIComponent(branch)}/${encodePath(path)}${line ? `?line=${line}` : ''}`
+
+export const commitUrl = (repositoryId: string, commitId: string): string =>
+  `#/repo/${encodeURIComponent(repositoryId)}/commit/${encodeURIComponent(commitId)}`
+
+export const proposalUrl = (proposalId: number): string => `#/governance/proposal/${proposalId}`
+
+export const userUrl = (principal: string): string => `#/user/${encodeURIComponent(principal)}`
+
+const decodeSegment = (segment: string) => {
+  try {
+    return decodeURIComponent(segment)
+  } catch {
+    return segment
+  }
+}
+
+/**
+ * Work out the page a location hash points at. Anything unrecognised is the home page, so plain
+ * in-page anchors like #features keep working.
+ */
+export const parseRoute = (hash: string): Route => {
+  const [path, query = ''] = hash.replace(/^#\/?/, '').split('?')
+  const segments = path.split('/').filter(Boolean).map(decodeSegment)
+  const [first, second, third, fourth] = segments
+
+  switch (first) {
+    case 'repo': {
+      if (segments.length === 4 && third === 'commit') {
+        return { name: 'commit', repositoryId: second, commitId: fourth }
+      }
+      if (segments.length < 3) return { name: 'section', section: 'repositories' }
+
+      const route = { name: 'repository' as const, owner: second, repository: third }
+      if ((segments[3] === 'tree' || segments[3] === 'blob') && segments[4]) {
+        const filePath = segments.slice(5).join('/')
+        const line = Number(new URLSearchParams(query).get('line'))
+        // A blob without a path is the repository root
+        const isFolder = segments[3] === 'tree' || !filePath
+        return {
+          ...route,
+          branch: segments[4],
+          location: {
+            path: filePath,
+            isFolder,
+            ...(!isFolder && Number.isInteger(line) && line > 0 ? { line } : {})
+          }
+        }
+      }
+      return route
+    }
+    case 'governance': {
+      const proposalId = Number(third)
+      if (second === 'proposal' && third && Number.isInteger(proposalId) && proposalId >= 0) {
+        return { name: 'proposal', proposalId }
+      }
+      return { name: 'section', section: 'governance' }
+    }
+    case 'user':
+      return second ? { name: 'user', principal: second } : { name: 'home' }
+    default:
+      return SECTIONS.includes(first as AppSection)
+        ? { name: 'section', section: first as AppSection }
+        : { name: 'home' }
+  }
+}
+
+/**
+ * The top-level page a route belongs to, for highlighting the navigation
+ */
+export const sectionOf = (route: Route): AppSection | 'home' | 'user' => {
+  switch (route.name) {
+    case 'section':
+      return route.section
+    case 'repository':
+    case 'commit':
+      return 'repositories'
+    case 'proposal':
+      return 'governance'
+    default:
+      return route.name
+  }
+}
+
+/**
+ * Go to a link, adding a history entry unless `replace` is set
+ */
+export const navigate = (url: string, { replace = false } = {}): void => {
+  if (replace) {
+    window.history.replaceState(window.history.state, '', url)
+    // Replacing the entry doesn't announce the change the way setting the hash does
+    window.dispatchEvent(new HashChangeEvent('hashchange'))
+  } else {
+    window.location.hash = url.replace(/^#/, '')
+  }
+}
+
+const subscribe = (onChange: () => void) => {
+  window.addEventListener('hashchange', onChange)
+  return () => window.removeEventListener('hashchange', onChange)
+}
+
+const getHash = () => window.location.hash
+
+/**
+ * The current route, kept in step with the location hash, including the back and forward buttons
+ */
+export const useRoute = (): Route => {
+  const hash = useSyncExternalStore(subscribe, getHash)
+  return useMemo(() => parseRoute(hash), [hash])
+}
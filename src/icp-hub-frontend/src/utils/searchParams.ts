@@ -0,0 +1,96 @@
+// Keeps the current search in the page URL's query string, so a search can be shared or reloaded.
+
+import type { SearchFilters, SearchSort, SearchState, SearchType } from '../types/search'
+
+const SEARCH_TYPES: SearchType[] = ['all', 'code', 'users', 'files', 'repository']
+const SORTS: SearchSort[] = ['relevance', 'name', 'created', 'updated', 'stars', 'size']
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+// Query string keys for each filter
+const FILTER_KEYS: Record<keyof SearchFilters, string> = {
+  owner: 'owner',
+  language: 'language',
+  visibility: 'visibility',
+  minSize: 'min_size',
+  maxSize: 'max_size',
+  createdAfter: 'created_after',
+  createdBefore: 'created_before',
+  sort: 'sort'
+}
+
+const SEARCH_KEYS = ['q', 'type', ...Object.values(FILTER_KEYS)]
+
+const readNumber = (value: string | null) => {
+  if (value === null || value.trim() === '') return undefined
+  const number = Number(value)
+  return Number.isFinite(number) && number >= 0 ? Math.floor(number) : undefined
+}
+
+const readDate = (value: string | null) => (value && DATE_PATTERN.test(value) ? value : undefined)
+
+/**
+ * Drop unset fields, so filters compare and serialise the same however they were built
+ */
+export const compactFilters = (filters: SearchFilters): SearchFilters =>
+  Object.fromEntries(
+    Object.entries(filters).filter(([, value]) => value !== undefined && value !== '')
+  ) as SearchFilters
+
+/**
+ * How many filters are set, not counting the sort order
+ */
+export const countActiveFilters = (filters: SearchFilters): number =>
+  Object.keys(compactFilters(filters)).filter(key => key !== 'sort').length
+
+/**
+ * Read a search from the current URL, or null when it doesn't describe one
+ */
+export const readSearchFromUrl = (): SearchState | null => {
+  const params = new URLSearchParams(window.location.search)
+  const query = params.get('q')?.trim()
+  if (!query) return null
+
+  const type = params.get('type') as SearchType | null
+  const visibility = params.get(FILTER_KEYS.visibility)
+  const sort = params.get(FILTER_KEYS.sort) as SearchSort | null
+
+  return {
+    query,
+    type: type && SEARCH_TYPES.includes(type) ? type : 'all',
+    filters: compactFilters({
+      owner: params.get(FILTER_KEYS.owner)?.trim() || undefined,
+      language: params.get(FILTER_KEYS.language)?.trim() || undefined,
+      visibility: visibility === 'public' || visibility === 'private' ? visibility : undefined,
+      minSize: readNumber(params.get(FILTER_KEYS.minSize)),
+      maxSize: readNumber(params.get(FILTER_KEYS.maxSize)),
+      createdAfter: readDate(params.get(FILTER_KEYS.createdAfter)),
+      createdBefore: readDate(params.get(FILTER_KEYS.createdBefore)),
+      sort: sort && SORTS.includes(sort) ? sort : undefined
+    })
+  }
+}
+
+const replaceSearchParams = (update: (params: URLSearchParams) => void) => {
+  const url = new URL(window.location.href)
+  SEARCH_KEYS.forEach(key => url.searchParams.delete(key))
+  update(url.searchParams)
+  window.history.replaceState(window.history.state, '', url)
+}
+
+/**
+ * Record a search in the URL, leaving the rest of the address alone
+ */
+export const writeSearchToUrl = ({ query, type, filters }: SearchState): void => {
+  replaceSearchParams(params => {
+    params.set('q', query)
+    if (type !== 'all') params.set('type', type)
+    Object.entries(compactFilters(filters)).forEach(([key, value]) => {
+      params.set(FILTER_KEYS[key as keyof SearchFilters], String(value))
+    })
+  })
+}
+
+/**
+ * Remove any search from the URL
+ */
+export const clearSearchFromUrl = (): void => replaceSearchParams(() => {})
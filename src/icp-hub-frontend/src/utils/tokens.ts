@@ -0,0 +1,49 @@
+// src/utils/tokens.ts
+
+const MILLIS_PER_YEAR = 365 * 24 * 60 * 60 * 1000
+
+export const formatTokenAmount = (amount: bigint, decimals: number, maxFractionDigits = 4) => {
+  const negative = amount < 0n
+  const absolute = negative ? -amount : amount
+  const unit = 10n ** BigInt(decimals)
+  const whole = absolute / unit
+  const fraction = (absolute % unit)
+    .toString()
+    .padStart(decimals, '0')
+    .slice(0, maxFractionDigits)
+    .replace(/0+$/, '')
+
+  const formatted = fraction ? `${whole.toLocaleString()}.${fraction}` : whole.toLocaleString()
+  return negative ? `-${formatted}` : formatted
+}
+
+// Exact amount without grouping, suitable for prefilling an input
+export const toTokenInput = (amount: bigint, decimals: number) => {
+  const unit = 10n ** BigInt(decimals)
+  const fraction = (amount % unit).toString().padStart(decimals, '0').replace(/0+$/, '')
+  return fraction ? `${amount / unit}.${fraction}` : `${amount / unit}`
+}
+
+// Converts user input such as "12.5" into base units; throws on malformed or over-precise input
+export const parseTokenAmount = (text: string, decimals: number): bigint => {
+  const trimmed = text.trim().replace(/,/g, '')
+  const match = trimmed.match(/^(\d*)(?:\.(\d*))?$/)
+  if (!trimmed || !match || (!match[1] && !match[2])) {
+    throw new Error('Enter a valid amount')
+  }
+
+  const fraction = match[2] ?? ''
+  if (fraction.length > decimals) {
+    throw new Error(`Amounts support at most ${decimals} decimal places`)
+  }
+
+  return BigInt(match[1] || '0') * 10n ** BigInt(decimals) + BigInt(fraction.padEnd(decimals, '0') || '0')
+}
+
+// Mirrors calculateStakingRewards in the incentives canister: simple interest on the staked amount
+export const estimateStakingRewards = (amount: bigint, apy: number, elapsedMs: number): bigint => {
+  if (elapsedMs <= 0 || apy <= 0) return 0n
+  // Stay in bigint so large balances keep every base unit; the APY is taken in basis points
+  const basisPoints = BigInt(Math.round(apy * 100))
+  return (amount * basisPoints * BigInt(Math.floor(elapsedMs))) / (10000n * BigInt(MILLIS_PER_YEAR))
+}